@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { buscarJobsEtiquetasAbertos, processarJobEtiquetas } from '@/lib/jobsEtiquetas';
+
+// O scheduler chama a cada minuto: retoma lotes cujo worker parou (deploy, timeout, crash)
+const MAX_EXECUCAO_MS = 50 * 1000;
+
+// GET - Retomar lotes de etiquetas em processamento sem worker
+export async function GET(request: NextRequest) {
+  const inicio = Date.now();
+
+  try {
+    const abertos = await buscarJobsEtiquetasAbertos();
+    if (abertos.length === 0) {
+      return NextResponse.json({ success: true, message: 'Nenhum lote de etiquetas em processamento' });
+    }
+
+    const resultados: Array<{ jobId: string; status: string; sucessos: number; erros: number }> = [];
+
+    for (const job of abertos) {
+      const restante = MAX_EXECUCAO_MS - (Date.now() - inicio);
+      if (restante <= 0) break;
+
+      // null = outro worker ainda está com o lote (heartbeat recente)
+      const resultado = await processarJobEtiquetas(job.id, request.nextUrl.origin, restante);
+      if (resultado) {
+        console.log(`[CRON LOTE ETIQUETAS] Job ${job.id}: ${JSON.stringify(resultado)}`);
+        resultados.push({ jobId: job.id, ...resultado });
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Lotes de etiquetas: ${resultados.length}/${abertos.length} processado(s)`,
+      retomados: resultados,
+    });
+  } catch (e) {
+    const errorMsg = e instanceof Error ? e.message : 'Erro desconhecido';
+    console.error('[CRON LOTE ETIQUETAS] ERRO:', errorMsg);
+    return NextResponse.json({ success: false, error: errorMsg }, { status: 500 });
+  }
+}
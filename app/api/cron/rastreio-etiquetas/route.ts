@@ -0,0 +1,399 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/firebase';
+import { doc, setDoc, getDoc, updateDoc, collection, query, where, getDocs, Timestamp, arrayUnion, arrayRemove } from 'firebase/firestore';
+import {
+  deriveDeliveryStatus,
+  isFinalDeliveryStatus,
+  milestoneForStatus,
+  mergeTrackingNotificationsConfig,
+  DeliveryStatus,
+  TrackingEvent,
+  TrackingMilestone,
+  TrackingNotificationsConfig,
+  DEFAULT_MILESTONE_TEMPLATES,
+} from '@/lib/tracking';
+import { renderTemplate, TemplateContext } from '@/lib/messageTemplates';
+import { getTrackingProvider } from '@/lib/trackingProviders';
+import { formatarTelefone } from '@/lib/telefone';
+import { carregarProvidersConfig, getWhatsAppProvider, WHATSAPP_PROVIDER_LABELS } from '@/lib/whatsappProviders';
+import { enfileirarMensagens } from '@/lib/whatsappQueue';
+
+// Configuração do worker no Firebase
+const WORKER_CONFIG_DOC = 'tracking_worker_config';
+const NOTIFICATIONS_CONFIG_DOC = 'tracking_notifications_config';
+const LINK_RASTREIO = 'https://rastreamento.correios.com.br/';
+
+// Configurações
+const DEFAULT_INTERVAL_MINUTES = 60;
+const TRACKING_LOOKBACK_DAYS = parseInt(process.env.TRACKING_LOOKBACK_DAYS || '90');
+const PROVIDER_DELAY_MS = 1000;
+
+// Timeout máximo para considerar o worker como "travado" (30 minutos)
+const JOB_STUCK_TIMEOUT_MS = 30 * 60 * 1000;
+
+interface EtiquetaAberta {
+  id: string;
+  etiqueta: string;
+  transactionId: string;
+  destinatario: string;
+  telefone?: string;
+  deliveryStatus?: DeliveryStatus;
+  trackingEvents?: TrackingEvent[];
+  notificacoesEnviadas?: TrackingMilestone[];
+  volumeNumero?: number; // Postagem com várias caixas: só o volume 1 notifica o cliente
+  status?: 'cancelled';
+}
+
+// Buscar etiquetas ainda não finalizadas (entregues/devolvidas/canceladas ficam de fora)
+async function buscarEtiquetasAbertas(): Promise<EtiquetaAberta[]> {
+  const cutoff = new Date(Date.now() - TRACKING_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+  const q = query(
+    collection(db, 'etiquetas'),
+    where('createdAt', '>=', Timestamp.fromDate(cutoff))
+  );
+  const snapshot = await getDocs(q);
+
+  return snapshot.docs
+    .map(d => ({ id: d.id, ...d.data() }) as EtiquetaAberta)
+    .filter(e => e.etiqueta && e.status !== 'cancelled' && !isFinalDeliveryStatus(e.deliveryStatus));
+}
+
+// Ordenar eventos do mais recente para o mais antigo
+function ordenarEventos(eventos: TrackingEvent[]): TrackingEvent[] {
+  return [...eventos].sort(
+    (a, b) => new Date(b.dataHora).getTime() - new Date(a.dataHora).getTime()
+  );
+}
+
+// Atualizar histórico e status de uma etiqueta (retorna o status novo se mudou)
+async function atualizarRastreio(
+  etiqueta: EtiquetaAberta,
+  eventosOrdenados: TrackingEvent[]
+): Promise<DeliveryStatus | null> {
+  const agora = new Date().toISOString();
+  const novoStatus = deriveDeliveryStatus(eventosOrdenados);
+  const statusAnterior = etiqueta.deliveryStatus || 'pending';
+  const mudou = novoStatus !== statusAnterior;
+
+  const updateData: Record<string, unknown> = {
+    deliveryStatus: novoStatus,
+    trackingEvents: eventosOrdenados,
+    trackingCheckedAt: agora,
+  };
+
+  if (mudou) {
+    updateData.deliveryStatusUpdatedAt = agora;
+  }
+
+  await updateDoc(doc(db, 'etiquetas', etiqueta.id), updateData);
+
+  return mudou ? novoStatus : null;
+}
+
+// Carregar config das notificações de marcos + telefone de teste das etiquetas
+async function carregarConfigNotificacoes(): Promise<{ config: TrackingNotificationsConfig; telefoneTeste: string | null }> {
+  const [configSnap, settingsSnap] = await Promise.all([
+    getDoc(doc(db, 'configuracoes', NOTIFICATIONS_CONFIG_DOC)),
+    getDoc(doc(db, 'settings', 'etiquetas_config')),
+  ]);
+
+  const config = mergeTrackingNotificationsConfig(configSnap.exists() ? configSnap.data() : null);
+  const override = settingsSnap.exists() ? settingsSnap.data().clientPhoneOverride : '';
+
+  return { config, telefoneTeste: override ? formatarTelefone(override) : null };
+}
+
+// Renderizar template do marco (se o template salvo for inválido, usa o padrão)
+function preencherTemplate(marco: TrackingMilestone, template: string, valores: TemplateContext): string {
+  try {
+    return renderTemplate(template, valores);
+  } catch (error) {
+    console.error(`[Rastreio] Template do marco "${marco}" inválido, usando padrão:`, error);
+    return renderTemplate(DEFAULT_MILESTONE_TEMPLATES[marco], valores);
+  }
+}
+
+// Enfileirar mensagem do marco ao cliente (no máximo uma vez por marco/código)
+async function notificarMarco(
+  etiqueta: EtiquetaAberta,
+  novoStatus: DeliveryStatus,
+  eventos: TrackingEvent[],
+  notificacoes: { config: TrackingNotificationsConfig; telefoneTeste: string | null }
+): Promise<'enfileirado' | 'ignorado' | 'erro'> {
+  const marco = milestoneForStatus(novoStatus);
+  if (!marco) return 'ignorado';
+
+  const marcoConfig = notificacoes.config.milestones[marco];
+  if (!marcoConfig.enabled) return 'ignorado';
+
+  // Deduplicação por código: cada marco é enviado uma única vez
+  if (etiqueta.notificacoesEnviadas?.includes(marco)) return 'ignorado';
+
+  const telefone = notificacoes.telefoneTeste || formatarTelefone(etiqueta.telefone || '');
+  if (!telefone) {
+    console.log(`[RASTREIO] ${etiqueta.etiqueta} sem telefone válido, marco ${marco} não enviado`);
+    return 'ignorado';
+  }
+
+  const ultimoEvento = eventos[0];
+  const mensagem = preencherTemplate(marco, marcoConfig.template, {
+    nome: etiqueta.destinatario || '',
+    codigo: etiqueta.etiqueta,
+    local: ultimoEvento?.local || '',
+    descricao: ultimoEvento?.descricao || '',
+    linkRastreio: LINK_RASTREIO,
+  });
+
+  // Marca antes de enfileirar para que execuções concorrentes não dupliquem
+  // (retentativas de envio ficam a cargo da fila do WhatsApp)
+  const etiquetaRef = doc(db, 'etiquetas', etiqueta.id);
+  await updateDoc(etiquetaRef, { notificacoesEnviadas: arrayUnion(marco) });
+
+  try {
+    await enfileirarMensagens([{
+      telefone,
+      mensagem,
+      tipo: 'rastreio_marco',
+      referencia: {
+        clienteNome: etiqueta.destinatario,
+        transactionId: etiqueta.transactionId,
+        codigo: etiqueta.etiqueta,
+      },
+    }]);
+  } catch (err) {
+    await updateDoc(etiquetaRef, {
+      notificacoesEnviadas: arrayRemove(marco),
+      notificacaoErro: { marco, erro: err instanceof Error ? err.message : 'Erro desconhecido', em: new Date().toISOString() },
+    });
+    return 'erro';
+  }
+
+  console.log(`[RASTREIO] Marco ${marco} enfileirado para ${etiqueta.destinatario} (${etiqueta.etiqueta})`);
+  return 'enfileirado';
+}
+
+// Função auxiliar para finalizar worker de forma segura
+async function finalizarWorker(configRef: ReturnType<typeof doc>, resumo: Record<string, unknown> | null) {
+  try {
+    const configSnap = await getDoc(configRef);
+    const workerEnabled = configSnap.exists() && configSnap.data().enabled;
+    const intervalMinutes = configSnap.exists()
+      ? (configSnap.data().intervalMinutes || DEFAULT_INTERVAL_MINUTES)
+      : DEFAULT_INTERVAL_MINUTES;
+
+    const now = new Date();
+    const nextRun = workerEnabled ? new Date(now.getTime() + intervalMinutes * 60 * 1000) : null;
+
+    const updateData: Record<string, unknown> = {
+      sincronizando: false,
+      proximaExecucao: nextRun?.toISOString() || null,
+    };
+
+    if (resumo) {
+      updateData.ultimaExecucao = now.toISOString();
+      updateData.ultimoResumo = resumo;
+    }
+
+    await setDoc(configRef, updateData, { merge: true });
+
+    console.log(`[RASTREIO] Worker finalizado. Próxima execução: ${nextRun?.toISOString() || 'desabilitado'}`);
+
+    return nextRun?.toISOString() || null;
+  } catch (err) {
+    console.error('[RASTREIO] Erro ao finalizar worker:', err);
+    try {
+      await setDoc(configRef, { sincronizando: false }, { merge: true });
+    } catch {
+      // Ignora
+    }
+    return null;
+  }
+}
+
+// POST - Habilitar/Desabilitar worker
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { action, enabled, intervalMinutes } = body;
+
+    const configRef = doc(db, 'configuracoes', WORKER_CONFIG_DOC);
+
+    if (action === 'toggle') {
+      const interval = intervalMinutes ?? DEFAULT_INTERVAL_MINUTES;
+
+      // proximaExecucao é definido quando a primeira consulta terminar
+      await setDoc(configRef, {
+        enabled: enabled ?? true,
+        intervalMinutes: interval,
+        proximaExecucao: null,
+        atualizadoEm: new Date().toISOString(),
+      }, { merge: true });
+
+      console.log(`[RASTREIO] Worker ${enabled ? 'HABILITADO' : 'DESABILITADO'}, intervalo: ${interval}min`);
+
+      if (enabled) {
+        fetch(`${request.nextUrl.origin}/api/cron/rastreio-etiquetas?manual=true`).catch(() => {});
+      }
+
+      return NextResponse.json({
+        success: true,
+        enabled,
+        intervalMinutes: interval,
+        proximaExecucao: null,
+      });
+    }
+
+    return NextResponse.json({ success: false, error: 'Ação inválida' }, { status: 400 });
+
+  } catch (e) {
+    const errorMsg = e instanceof Error ? e.message : 'Erro desconhecido';
+    return NextResponse.json({ success: false, error: errorMsg }, { status: 500 });
+  }
+}
+
+// GET - Consultar rastreio de todas as etiquetas abertas (chamado pelo scheduler)
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const isManual = searchParams.get('manual') === 'true';
+
+  const configRef = doc(db, 'configuracoes', WORKER_CONFIG_DOC);
+
+  try {
+    const configSnap = await getDoc(configRef);
+    const configData = configSnap.exists() ? configSnap.data() : null;
+
+    // Verificar se já está consultando (e se não está travado)
+    if (configData?.sincronizando) {
+      const ultimaAtualizacao = configData.atualizadoEm ? new Date(configData.atualizadoEm).getTime() : 0;
+
+      if (Date.now() - ultimaAtualizacao > JOB_STUCK_TIMEOUT_MS) {
+        console.log('[RASTREIO] Worker travado detectado, resetando...');
+        await setDoc(configRef, { sincronizando: false }, { merge: true });
+      } else {
+        return NextResponse.json({
+          success: false,
+          message: 'Consulta de rastreio já em andamento',
+        });
+      }
+    }
+
+    // Se não for manual, verificar se o worker está habilitado E se chegou a hora
+    if (!isManual) {
+      if (!configData?.enabled) {
+        return NextResponse.json({
+          success: false,
+          message: 'Worker de rastreio desabilitado',
+        });
+      }
+
+      const proximaExecucao = configData?.proximaExecucao;
+      if (!proximaExecucao) {
+        return NextResponse.json({
+          success: false,
+          message: 'Aguardando primeira consulta de rastreio terminar',
+        });
+      }
+
+      const horaProxima = new Date(proximaExecucao).getTime();
+      if (Date.now() < horaProxima) {
+        const minutosRestantes = Math.ceil((horaProxima - Date.now()) / 60000);
+        return NextResponse.json({
+          success: false,
+          message: `Próxima consulta de rastreio em ${minutosRestantes} minutos`,
+        });
+      }
+    }
+
+    await setDoc(configRef, {
+      sincronizando: true,
+      atualizadoEm: new Date().toISOString(),
+    }, { merge: true });
+
+    const provider = getTrackingProvider();
+    console.log(`[RASTREIO] Iniciando consulta (provider: ${provider.name})...`);
+
+    const etiquetas = await buscarEtiquetasAbertas();
+    console.log(`[RASTREIO] ${etiquetas.length} etiqueta(s) em aberto`);
+
+    const notificacoes = await carregarConfigNotificacoes();
+    const providerMarcos = (await carregarProvidersConfig()).rastreio_marco;
+    const notificar = notificacoes.config.enabled && getWhatsAppProvider(providerMarcos).isConfigured();
+    if (notificacoes.config.enabled && !notificar) {
+      console.log(`[RASTREIO] Notificações de marcos habilitadas, mas ${WHATSAPP_PROVIDER_LABELS[providerMarcos]} não configurado`);
+    }
+
+    let consultadas = 0;
+    let atualizadas = 0;
+    let semEventos = 0;
+    let erros = 0;
+    let notificados = 0;
+    let errosNotificacao = 0;
+    const mudancas: Record<string, number> = {};
+
+    for (let i = 0; i < etiquetas.length; i += provider.maxCodigosPorConsulta) {
+      const lote = etiquetas.slice(i, i + provider.maxCodigosPorConsulta);
+
+      let eventosPorCodigo: Map<string, TrackingEvent[]>;
+      try {
+        eventosPorCodigo = await provider.rastrear(lote.map(e => e.etiqueta));
+      } catch (err) {
+        console.error('[RASTREIO] Erro ao consultar lote:', err instanceof Error ? err.message : err);
+        erros += lote.length;
+        continue;
+      }
+
+      for (const etiqueta of lote) {
+        consultadas++;
+        const eventos = eventosPorCodigo.get(etiqueta.etiqueta);
+
+        if (!eventos || eventos.length === 0) {
+          semEventos++;
+          continue;
+        }
+
+        try {
+          const eventosOrdenados = ordenarEventos(eventos);
+          const novoStatus = await atualizarRastreio(etiqueta, eventosOrdenados);
+          if (novoStatus) {
+            atualizadas++;
+            mudancas[novoStatus] = (mudancas[novoStatus] || 0) + 1;
+
+            if (notificar && (etiqueta.volumeNumero || 1) === 1) {
+              const resultado = await notificarMarco(etiqueta, novoStatus, eventosOrdenados, notificacoes);
+              if (resultado === 'enfileirado') notificados++;
+              if (resultado === 'erro') errosNotificacao++;
+            }
+          }
+        } catch (err) {
+          console.error(`[RASTREIO] Erro ao salvar ${etiqueta.etiqueta}:`, err);
+          erros++;
+        }
+      }
+
+      // Rate limiting entre lotes
+      if (i + provider.maxCodigosPorConsulta < etiquetas.length) {
+        await new Promise(r => setTimeout(r, PROVIDER_DELAY_MS));
+      }
+    }
+
+    const resumo = { total: etiquetas.length, consultadas, atualizadas, semEventos, erros, mudancas, notificados, errosNotificacao };
+    console.log(`[RASTREIO] Concluído: ${JSON.stringify(resumo)}`);
+
+    const proximaExecucao = await finalizarWorker(configRef, resumo);
+
+    return NextResponse.json({
+      success: true,
+      provider: provider.name,
+      ...resumo,
+      proximaExecucao,
+    });
+
+  } catch (e) {
+    const errorMsg = e instanceof Error ? e.message : 'Erro desconhecido';
+    console.error('[RASTREIO] ERRO:', errorMsg);
+
+    await finalizarWorker(configRef, null);
+
+    return NextResponse.json({ success: false, error: errorMsg }, { status: 500 });
+  }
+}
@@ -0,0 +1,190 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/firebase';
+import { doc, setDoc, getDoc } from 'firebase/firestore';
+import { EVOLUTION_CONFIG, delay } from '@/lib/evolution';
+import { carregarProvidersConfig, getWhatsAppProvider, WHATSAPP_PROVIDER_LABELS, WhatsAppProviderName } from '@/lib/whatsappProviders';
+import {
+  buscarMensagensPendentes,
+  adiarMensagem,
+  reservarMensagem,
+  registrarResultadoEnvio,
+  recuperarMensagensTravadas,
+} from '@/lib/whatsappQueue';
+
+// Configuração do worker no Firebase
+const WORKER_CONFIG_DOC = 'whatsapp_queue_worker_config';
+
+// O scheduler chama a cada minuto: cada execução envia o que couber em ~50s
+const MAX_EXECUCAO_MS = 50 * 1000;
+const MAX_MENSAGENS_POR_EXECUCAO = 100;
+
+// Mensagem em "sending" há mais que isso é considerada interrompida
+const MENSAGEM_TRAVADA_MS = 10 * 60 * 1000;
+
+// Timeout máximo para considerar o worker como "travado" (5 minutos)
+const JOB_STUCK_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Função auxiliar para finalizar worker de forma segura
+async function finalizarWorker(configRef: ReturnType<typeof doc>, resumo: Record<string, unknown> | null) {
+  try {
+    const updateData: Record<string, unknown> = { sincronizando: false };
+
+    if (resumo) {
+      updateData.ultimaExecucao = new Date().toISOString();
+      updateData.ultimoResumo = resumo;
+    }
+
+    await setDoc(configRef, updateData, { merge: true });
+  } catch (err) {
+    console.error('[FILA WHATSAPP] Erro ao finalizar worker:', err);
+  }
+}
+
+// POST - Pausar/retomar envio da fila
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { action, enabled } = body;
+
+    const configRef = doc(db, 'configuracoes', WORKER_CONFIG_DOC);
+
+    if (action === 'toggle') {
+      await setDoc(configRef, {
+        enabled: enabled ?? true,
+        atualizadoEm: new Date().toISOString(),
+      }, { merge: true });
+
+      console.log(`[FILA WHATSAPP] Envio ${enabled ? 'RETOMADO' : 'PAUSADO'}`);
+
+      if (enabled) {
+        fetch(`${request.nextUrl.origin}/api/cron/whatsapp-fila`).catch(() => {});
+      }
+
+      return NextResponse.json({ success: true, enabled });
+    }
+
+    return NextResponse.json({ success: false, error: 'Ação inválida' }, { status: 400 });
+
+  } catch (e) {
+    const errorMsg = e instanceof Error ? e.message : 'Erro desconhecido';
+    return NextResponse.json({ success: false, error: errorMsg }, { status: 500 });
+  }
+}
+
+// GET - Enviar mensagens pendentes da fila (chamado pelo scheduler a cada minuto)
+export async function GET() {
+  const configRef = doc(db, 'configuracoes', WORKER_CONFIG_DOC);
+
+  try {
+    const configSnap = await getDoc(configRef);
+    const configData = configSnap.exists() ? configSnap.data() : null;
+
+    // Sem config salva = habilitado (a fila substitui o envio direto)
+    if (configData?.enabled === false) {
+      return NextResponse.json({
+        success: false,
+        message: 'Fila WhatsApp pausada',
+      });
+    }
+
+    // Verificar se já está enviando (e se não está travado)
+    if (configData?.sincronizando) {
+      const ultimaAtualizacao = configData.atualizadoEm ? new Date(configData.atualizadoEm).getTime() : 0;
+
+      if (Date.now() - ultimaAtualizacao > JOB_STUCK_TIMEOUT_MS) {
+        console.log('[FILA WHATSAPP] Worker travado detectado, resetando...');
+      } else {
+        return NextResponse.json({
+          success: false,
+          message: 'Fila WhatsApp já em processamento',
+        });
+      }
+    }
+
+    const recuperadas = await recuperarMensagensTravadas(MENSAGEM_TRAVADA_MS);
+    if (recuperadas > 0) {
+      console.log(`[FILA WHATSAPP] ${recuperadas} mensagem(s) travada(s) voltaram para a fila`);
+    }
+
+    const pendentes = await buscarMensagensPendentes(MAX_MENSAGENS_POR_EXECUCAO);
+    if (pendentes.length === 0) {
+      return NextResponse.json({
+        success: true,
+        message: 'Fila WhatsApp vazia',
+        total: 0,
+      });
+    }
+
+    await setDoc(configRef, {
+      sincronizando: true,
+      atualizadoEm: new Date().toISOString(),
+    }, { merge: true });
+
+    console.log(`[FILA WHATSAPP] ${pendentes.length} mensagem(s) pendente(s)`);
+
+    // Provider de cada tipo de mensagem (configurado no Firebase)
+    const providersConfig = await carregarProvidersConfig();
+
+    const inicio = Date.now();
+    let enviadas = 0;
+    let falhas = 0;
+    let descartadas = 0;
+    let adiadas = 0;
+    const providersNaoConfigurados = new Set<WhatsAppProviderName>();
+
+    for (const pendente of pendentes) {
+      // Provider sem configuração: a mensagem espera na fila sem gastar tentativa
+      const provider = getWhatsAppProvider(providersConfig[pendente.tipo] || 'evolution');
+      if (!provider.isConfigured()) {
+        if (!providersNaoConfigurados.has(provider.name)) {
+          console.error(`[FILA WHATSAPP] ${WHATSAPP_PROVIDER_LABELS[provider.name]} não configurado: mensagens "${pendente.tipo}" ficam na fila`);
+          providersNaoConfigurados.add(provider.name);
+        }
+        if (await adiarMensagem(pendente.id, `Provider ${provider.name} não configurado`)) adiadas++;
+        continue;
+      }
+
+      // Respeita o delay entre mensagens sem estourar o tempo da execução
+      if (enviadas + falhas > 0) {
+        if (Date.now() - inicio + EVOLUTION_CONFIG.messageDelay > MAX_EXECUCAO_MS) break;
+        await delay(EVOLUTION_CONFIG.messageDelay);
+      }
+
+      const mensagem = await reservarMensagem(pendente.id);
+      if (!mensagem) continue;
+
+      const resultado = await provider.enviarTexto(mensagem.telefone, mensagem.mensagem);
+      const status = await registrarResultadoEnvio(mensagem, resultado);
+
+      if (status === 'sent') enviadas++;
+      else falhas++;
+      if (status === 'dead') descartadas++;
+
+      // Heartbeat para o lock não ser considerado travado
+      await setDoc(configRef, { atualizadoEm: new Date().toISOString() }, { merge: true });
+    }
+
+    const resumo = {
+      total: pendentes.length,
+      enviadas,
+      falhas,
+      descartadas,
+      recuperadas,
+      adiadas,
+      providersNaoConfigurados: [...providersNaoConfigurados],
+    };
+    console.log(`[FILA WHATSAPP] Concluído: ${JSON.stringify(resumo)}`);
+
+    await finalizarWorker(configRef, resumo);
+
+    return NextResponse.json({ success: true, ...resumo });
+
+  } catch (e) {
+    const errorMsg = e instanceof Error ? e.message : 'Erro desconhecido';
+    console.error('[FILA WHATSAPP] ERRO:', errorMsg);
+
+    await finalizarWorker(configRef, null);
+
+    return NextResponse.json({ success: false, error: errorMsg }, { status: 500 });
+  }
+}
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/firebase';
+import { collection, query, where, getCountFromServer } from 'firebase/firestore';
+import {
+  EVENTOS_WEBHOOK_COLLECTION,
+  FiltroEventosWebhook,
+  ORIGEM_EVENTO_WEBHOOK_LABELS,
+  OrigemEventoWebhook,
+  STATUS_EVENTO_WEBHOOK_LABELS,
+  StatusEventoWebhook,
+  listarEventosWebhook,
+} from '@/lib/eventosWebhook';
+import { reprocessarEventoWebhook } from '@/lib/reprocessarEventosWebhook';
+
+const STATUS_VALIDOS = Object.keys(STATUS_EVENTO_WEBHOOK_LABELS) as StatusEventoWebhook[];
+const ORIGENS_VALIDAS = Object.keys(ORIGEM_EVENTO_WEBHOOK_LABELS) as OrigemEventoWebhook[];
+
+// Reprocessamento por filtro roda em sequência dentro da requisição
+const MAX_REPROCESSAMENTO_FILTRO = 100;
+
+function validarFiltro(filtro: FiltroEventosWebhook): string | null {
+  if (filtro.status && !STATUS_VALIDOS.includes(filtro.status)) return `Status inválido: ${filtro.status}`;
+  if (filtro.origem && !ORIGENS_VALIDAS.includes(filtro.origem)) return `Origem inválida: ${filtro.origem}`;
+  return null;
+}
+
+// GET - Listar eventos (?origem=&status=&de=&ate=&limit=) e contagem por status
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const filtro: FiltroEventosWebhook = {
+      origem: (searchParams.get('origem') || undefined) as OrigemEventoWebhook | undefined,
+      status: (searchParams.get('status') || undefined) as StatusEventoWebhook | undefined,
+      de: searchParams.get('de') || undefined,
+      ate: searchParams.get('ate') || undefined,
+    };
+    const max = Math.min(parseInt(searchParams.get('limit') || '200'), 500);
+
+    const invalido = validarFiltro(filtro);
+    if (invalido) {
+      return NextResponse.json({ success: false, error: invalido }, { status: 400 });
+    }
+
+    const contagens = await Promise.all(
+      STATUS_VALIDOS.map(async (s) => {
+        const snap = await getCountFromServer(
+          query(collection(db, EVENTOS_WEBHOOK_COLLECTION), where('status', '==', s))
+        );
+        return [s, snap.data().count] as const;
+      })
+    );
+
+    const eventos = await listarEventosWebhook(filtro, max);
+
+    return NextResponse.json({
+      success: true,
+      contagem: Object.fromEntries(contagens),
+      eventos,
+    });
+  } catch (error) {
+    console.error('[Eventos Webhook] Erro ao listar:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Erro desconhecido' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Reprocessar eventos
+// { action: 'reprocessar', ids: string[] }                      - reprocessa os eventos informados
+// { action: 'reprocessarFiltro', origem?, status?, de?, ate? }  - reprocessa as falhas do filtro (até 100)
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { action, ids, ...filtro } = body as { action: string; ids?: string[] } & FiltroEventosWebhook;
+
+    let idsParaReprocessar: string[] = [];
+
+    if (action === 'reprocessar') {
+      if (!ids || ids.length === 0) {
+        return NextResponse.json(
+          { success: false, error: 'Nenhum evento informado' },
+          { status: 400 }
+        );
+      }
+      idsParaReprocessar = ids;
+    } else if (action === 'reprocessarFiltro') {
+      const invalido = validarFiltro(filtro);
+      if (invalido) {
+        return NextResponse.json({ success: false, error: invalido }, { status: 400 });
+      }
+      // Em massa só eventos com falha: processados/ignorados só pelo id, um a um
+      if (filtro.status && filtro.status !== 'erro') {
+        return NextResponse.json(
+          { success: false, error: 'Reprocessamento por filtro só vale para eventos com falha' },
+          { status: 400 }
+        );
+      }
+      // Mais antigos primeiro, na ordem em que chegaram
+      const eventos = await listarEventosWebhook({ ...filtro, status: 'erro' }, MAX_REPROCESSAMENTO_FILTRO);
+      idsParaReprocessar = eventos.map(e => e.id).reverse();
+    } else {
+      return NextResponse.json({ success: false, error: 'Ação inválida' }, { status: 400 });
+    }
+
+    const resultados = [];
+    for (const id of idsParaReprocessar) {
+      try {
+        const resultado = await reprocessarEventoWebhook(id, request.nextUrl.origin);
+        resultados.push({ id, ...resultado });
+      } catch (error) {
+        resultados.push({ id, status: 'erro', erro: error instanceof Error ? error.message : 'Erro desconhecido' });
+      }
+    }
+
+    const falhas = resultados.filter(r => r.status === 'erro').length;
+    console.log(`[Eventos Webhook] ${resultados.length} evento(s) reprocessado(s), ${falhas} com falha`);
+
+    return NextResponse.json({ success: true, reprocessados: resultados.length, falhas, resultados });
+  } catch (error) {
+    console.error('[Eventos Webhook] Erro ao reprocessar:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Erro desconhecido' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { telefoneParaCadastro } from '@/lib/telefone';
 
 const HOTMART_CONFIG = {
   clientId: process.env.HOTMART_API_CLIENT_ID || '',
@@ -128,7 +129,7 @@ export async function GET(request: NextRequest) {
       cliente: {
         nome: sale.buyer?.name || '',
         email: sale.buyer?.email || '',
-        telefone: sale.buyer?.phone || '',
+        telefone: telefoneParaCadastro(sale.buyer?.phone),
         documento: sale.buyer?.document || '',
       },
       valor: sale.purchase?.price?.value || 0,
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/firebase';
+import { doc, getDoc } from 'firebase/firestore';
+import { gerarRelatorioSimulacaoCsv } from '@/lib/simulacaoImportacao';
+
+// GET - Baixar relatório da simulação (?jobId=)
+export async function GET(request: NextRequest) {
+  try {
+    const jobId = request.nextUrl.searchParams.get('jobId') || '';
+    if (!jobId) {
+      return NextResponse.json({ success: false, error: 'jobId é obrigatório' }, { status: 400 });
+    }
+
+    const jobSnap = await getDoc(doc(db, 'jobs_importacao', jobId));
+    if (!jobSnap.exists()) {
+      return NextResponse.json({ success: false, error: 'Job não encontrado' }, { status: 404 });
+    }
+
+    const jobData = jobSnap.data();
+    if (!jobData.simulacao) {
+      return NextResponse.json({ success: false, error: 'Job não é uma simulação' }, { status: 400 });
+    }
+    if (jobData.status !== 'concluido') {
+      return NextResponse.json({ success: false, error: 'Simulação ainda não concluída' }, { status: 409 });
+    }
+
+    const csv = await gerarRelatorioSimulacaoCsv(jobId);
+    const nomeArquivo = `simulacao-${String(jobData.arquivo || jobId).replace(/\.csv$/i, '').replace(/[^\w.-]+/g, '_')}.csv`;
+
+    // BOM para o Excel abrir os acentos certo
+    return new NextResponse('\uFEFF' + csv, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${nomeArquivo}"`,
+      },
+    });
+  } catch (e) {
+    const errorMsg = e instanceof Error ? e.message : 'Erro desconhecido';
+    console.error('[IMPORT-CSV-RELATORIO] ERRO:', errorMsg);
+    return NextResponse.json({ success: false, error: errorMsg }, { status: 500 });
+  }
+}
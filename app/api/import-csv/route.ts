@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { telefoneParaCadastro } from '@/lib/telefone';
 
 const DATACRAZY_TOKEN = process.env.DATACRAZY_API || '';
 const API_URL = 'https://api.g1.datacrazy.io/api/v1';
@@ -312,9 +313,7 @@ export async function POST(request: NextRequest) {
               continue;
             }
 
-            let phone = safeString(row[columns.phone]);
-            if (phone.startsWith('+')) phone = phone.substring(1);
-            phone = phone.replace(/\D/g, '');
+            const phone = telefoneParaCadastro(safeString(row[columns.phone]));
 
             const taxId = safeString(row[columns.taxId]).replace(/\D/g, '');
 
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/firebase';
 import { doc, setDoc, updateDoc, getDoc, collection } from 'firebase/firestore';
+import { telefoneParaCadastro } from '@/lib/telefone';
 
 const DATACRAZY_TOKEN = process.env.DATACRAZY_API || '';
 const DATACRAZY_API_URL = 'https://api.g1.datacrazy.io/api/v1';
@@ -125,7 +126,7 @@ async function sendToSwipeOne(lead: DatacrazyLead, baseTags: string): Promise<{
   const payload: Record<string, unknown> = {
     email: lead.email,
     fullName: lead.name || '',
-    phone: lead.rawPhone || lead.phone || '',
+    phone: telefoneParaCadastro(lead.rawPhone || lead.phone),
   };
 
   // Adicionar endereço apenas se tiver dados
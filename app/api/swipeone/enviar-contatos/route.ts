@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { telefoneParaCadastro } from '@/lib/telefone';
 
 const SWIPEONE_CONFIG = {
   apiKey: process.env.SWIPE_ONE_API || '',
@@ -60,7 +61,7 @@ export async function POST(request: NextRequest) {
         const payload = {
           email: contato.email,
           name: contato.nome || '',
-          phone: contato.telefone || '',
+          phone: telefoneParaCadastro(contato.telefone),
           tags: tags,
           // Campos customizados podem ser adicionados aqui se o SwipeOne suportar
           custom_fields: {
@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/firebase';
+import { collection, query, where, getDocs, updateDoc, doc } from 'firebase/firestore';
+import { getVippConfig, errosVipp } from '@/lib/vipp';
+import { liberarPostagemCancelada } from '@/lib/postagensVipp';
+
+interface CancelarRequest {
+  etiqueta: string; // Qualquer código da postagem (todas as caixas são canceladas juntas)
+  motivo: string;
+  operador: string;
+  useTestCredentials?: boolean;
+}
+
+// Cancelar um código na ViPP (retorna a mensagem de erro, ou null se cancelou)
+async function cancelarNaVipp(codigo: string, useTestCredentials?: boolean): Promise<string | null> {
+  const VIPP_CONFIG = getVippConfig(useTestCredentials);
+
+  const response = await fetch(VIPP_CONFIG.cancelarUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept-Encoding': 'UTF-8',
+    },
+    body: JSON.stringify({
+      PerfilVipp: {
+        Usuario: VIPP_CONFIG.usuario,
+        Token: VIPP_CONFIG.token,
+        IdPerfil: VIPP_CONFIG.idPerfil,
+      },
+      Etiqueta: codigo,
+    }),
+  });
+
+  const responseText = await response.text();
+  let data;
+  try {
+    data = JSON.parse(responseText);
+  } catch {
+    return `Resposta inválida da ViPP: ${responseText.substring(0, 200)}`;
+  }
+
+  console.log(`[VIPP] Cancelamento ${codigo}:`, JSON.stringify(data));
+  return errosVipp(data) || null;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: CancelarRequest = await request.json();
+    const { etiqueta, motivo, operador, useTestCredentials } = body;
+
+    if (!etiqueta || !motivo?.trim()) {
+      return NextResponse.json(
+        { error: 'Campos obrigatórios: etiqueta e motivo' },
+        { status: 400 }
+      );
+    }
+
+    if (!getVippConfig(useTestCredentials).cancelarUrl) {
+      return NextResponse.json(
+        { error: 'Cancelamento ViPP não configurado (VIPP_CANCELAR_URL)' },
+        { status: 500 }
+      );
+    }
+
+    const snapshot = await getDocs(query(collection(db, 'etiquetas'), where('etiqueta', '==', etiqueta)));
+    if (snapshot.empty) {
+      return NextResponse.json(
+        { error: `Etiqueta ${etiqueta} não encontrada` },
+        { status: 404 }
+      );
+    }
+
+    const registro = snapshot.docs[0].data();
+    if (registro.status === 'cancelled') {
+      return NextResponse.json(
+        { error: `Etiqueta ${etiqueta} já foi cancelada` },
+        { status: 400 }
+      );
+    }
+    if (registro.deliveryStatus && registro.deliveryStatus !== 'pending') {
+      return NextResponse.json(
+        { error: 'Objeto já entrou no fluxo dos Correios e não pode ser cancelado' },
+        { status: 400 }
+      );
+    }
+
+    // Postagem com várias caixas: cancelar todos os volumes
+    const codigos: string[] = registro.volumesCodigos?.length ? registro.volumesCodigos : [etiqueta];
+
+    // Caixas canceladas num cancelamento parcial anterior não vão de novo para a ViPP
+    const volumes = await getDocs(query(collection(db, 'etiquetas'), where('etiqueta', 'in', codigos)));
+    const jaCancelados = new Set(volumes.docs.filter(d => d.data().status === 'cancelled').map(d => d.data().etiqueta));
+
+    const cancelados: string[] = [];
+    const erros: string[] = [];
+    for (const codigo of codigos.filter(c => !jaCancelados.has(c))) {
+      const erro = await cancelarNaVipp(codigo, useTestCredentials);
+      if (erro) {
+        erros.push(`${codigo}: ${erro}`);
+      } else {
+        cancelados.push(codigo);
+      }
+    }
+
+    if (cancelados.length === 0) {
+      return NextResponse.json(
+        { error: erros.join('; ') },
+        { status: 400 }
+      );
+    }
+
+    // Marcar os registros cancelados (mantém o histórico, mas deixam de contar como envio)
+    const canceladoEm = new Date().toISOString();
+    const documentos = await getDocs(query(collection(db, 'etiquetas'), where('etiqueta', 'in', cancelados)));
+    await Promise.all(documentos.docs.map(d => updateDoc(doc(db, 'etiquetas', d.id), {
+      status: 'cancelled',
+      cancelamentoMotivo: motivo.trim(),
+      canceladoPor: operador || 'desconhecido',
+      canceladoEm,
+    })));
+
+    // Libera o envio para a reemissão (chave de idempotência da postar-objeto)
+    const liberada = cancelados.length + jaCancelados.size === codigos.length;
+    if (liberada) {
+      await liberarPostagemCancelada(registro.transactionId, registro.envioNumero || 1, !!useTestCredentials);
+    }
+
+    console.log(`[VIPP] ${cancelados.length} etiqueta(s) cancelada(s) por ${operador}: ${motivo}`);
+
+    return NextResponse.json({
+      success: true,
+      cancelados,
+      volumes: codigos, // Todas as caixas da postagem (reemissão com a mesma quantidade)
+      transactionId: registro.transactionId,
+      envioNumero: registro.envioNumero || 1,
+      liberada, // false = caixas ainda ativas na ViPP, o envio não pode ser reemitido
+      ...(erros.length > 0 && { aviso: `Não canceladas: ${erros.join('; ')}` }),
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
+    console.error('ViPP Cancel Error:', errorMessage);
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
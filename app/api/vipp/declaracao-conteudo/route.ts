@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DeclaracaoConteudo, gerarDeclaracoesPdf, getRemetenteDeclaracao } from '@/lib/declaracaoConteudo';
+
+interface DeclaracaoRequest {
+  declaracoes: DeclaracaoConteudo[]; // Pedidos sem nota fiscal (uma página por pedido)
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: DeclaracaoRequest = await request.json();
+    const { declaracoes } = body;
+
+    if (!declaracoes || declaracoes.length === 0) {
+      return NextResponse.json(
+        { error: 'Array de declaracoes é obrigatório' },
+        { status: 400 }
+      );
+    }
+
+    const semItens = declaracoes.find(d => !d.itens || d.itens.length === 0);
+    if (semItens) {
+      return NextResponse.json(
+        { error: `Pedido ${semItens.transactionId} sem itens para declarar` },
+        { status: 400 }
+      );
+    }
+
+    const remetente = getRemetenteDeclaracao();
+    if (!remetente) {
+      return NextResponse.json(
+        { error: 'Remetente não configurado (REMETENTE_NOME e REMETENTE_ENDERECO)' },
+        { status: 500 }
+      );
+    }
+
+    const pdf = gerarDeclaracoesPdf(remetente, declaracoes);
+    console.log(`[Declaração] ${declaracoes.length} declaração(ões) de conteúdo gerada(s)`);
+
+    return new NextResponse(Buffer.from(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="declaracao-conteudo-${Date.now()}.pdf"`,
+      },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/firebase';
+import { collection, query, where, getDocs } from 'firebase/firestore';
+import { getRemetenteDeclaracao } from '@/lib/declaracaoConteudo';
+import { DadosEtiquetaPdf, FormatoEtiqueta, FORMATO_ETIQUETA_LABELS, gerarEtiquetasPdf } from '@/lib/etiquetasPdf';
+import type { EtiquetaRecord } from '@/lib/etiquetas';
+
+interface EtiquetasPdfRequest {
+  etiquetas: string[]; // Códigos de rastreio, na ordem de impressão
+  formato: FormatoEtiqueta;
+  listaSeparacao?: boolean; // Incluir a lista de separação do lote (padrão true)
+}
+
+// Limite do operador "in" do Firestore
+const LOTE_CONSULTA = 30;
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: EtiquetasPdfRequest = await request.json();
+    const { etiquetas, formato, listaSeparacao = true } = body;
+
+    if (!etiquetas || etiquetas.length === 0) {
+      return NextResponse.json(
+        { error: 'Array de etiquetas é obrigatório' },
+        { status: 400 }
+      );
+    }
+
+    if (!FORMATO_ETIQUETA_LABELS[formato]) {
+      return NextResponse.json(
+        { error: `Formato inválido: ${formato}` },
+        { status: 400 }
+      );
+    }
+
+    const remetente = getRemetenteDeclaracao();
+    if (!remetente) {
+      return NextResponse.json(
+        { error: 'Remetente não configurado (REMETENTE_NOME e REMETENTE_ENDERECO)' },
+        { status: 500 }
+      );
+    }
+
+    const registros = new Map<string, EtiquetaRecord>();
+    for (let i = 0; i < etiquetas.length; i += LOTE_CONSULTA) {
+      const lote = etiquetas.slice(i, i + LOTE_CONSULTA);
+      const snapshot = await getDocs(query(collection(db, 'etiquetas'), where('etiqueta', 'in', lote)));
+      snapshot.docs.forEach(d => {
+        const registro = d.data() as EtiquetaRecord;
+        // Código repetido no histórico: vale o registro ativo
+        if (!registros.has(registro.etiqueta) || registro.status !== 'cancelled') {
+          registros.set(registro.etiqueta, registro);
+        }
+      });
+    }
+
+    const naoEncontradas = etiquetas.filter(codigo => !registros.has(codigo));
+    if (naoEncontradas.length > 0) {
+      return NextResponse.json(
+        { error: `Etiquetas não encontradas: ${naoEncontradas.join(', ')}` },
+        { status: 404 }
+      );
+    }
+
+    const canceladas = etiquetas.filter(codigo => registros.get(codigo)?.status === 'cancelled');
+    if (canceladas.length > 0) {
+      return NextResponse.json(
+        { error: `Etiquetas canceladas: ${canceladas.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Etiquetas geradas antes do layout próprio não guardaram endereço e serviço
+    const semDados = etiquetas.filter(codigo => !registros.get(codigo)?.impressao);
+    if (semDados.length > 0) {
+      return NextResponse.json(
+        { error: `Etiquetas sem dados para o layout próprio (imprimir pela ViPP): ${semDados.join(', ')}`, semDados },
+        { status: 422 }
+      );
+    }
+
+    const dados: DadosEtiquetaPdf[] = etiquetas.map(codigo => {
+      const registro = registros.get(codigo) as EtiquetaRecord;
+      const impressao = registro.impressao as NonNullable<EtiquetaRecord['impressao']>;
+      return {
+        codigo,
+        transactionId: registro.transactionId,
+        servicoEct: impressao.servicoEct,
+        destinatario: impressao.endereco,
+        produtos: impressao.produtos,
+        ...(registro.volumesTotal && registro.volumesTotal > 1 && {
+          volume: { numero: registro.volumeNumero || 1, total: registro.volumesTotal },
+        }),
+        observacao: registro.observacaoEnvio,
+      };
+    });
+
+    const pdf = gerarEtiquetasPdf(remetente, dados, formato, { listaSeparacao });
+    console.log(`[Etiquetas] ${dados.length} etiqueta(s) em ${FORMATO_ETIQUETA_LABELS[formato]}`);
+
+    return new NextResponse(Buffer.from(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="etiquetas-${Date.now()}.pdf"`,
+      },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
+    console.error('Erro ao gerar PDF das etiquetas:', errorMessage);
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
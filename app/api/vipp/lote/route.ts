@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/firebase';
+import { doc, getDoc } from 'firebase/firestore';
+import {
+  criarJobEtiquetas,
+  processarJobEtiquetas,
+  buscarItensJob,
+  cancelarJobEtiquetas,
+  JOBS_ETIQUETAS_COLLECTION,
+  PedidoJobEtiquetas,
+} from '@/lib/jobsEtiquetas';
+
+interface LoteRequest {
+  pedidos: PedidoJobEtiquetas[];
+  useTestCredentials?: boolean;
+  criadoPor?: string;
+}
+
+// POST - Criar lote de etiquetas e começar a processar no servidor
+export async function POST(request: NextRequest) {
+  try {
+    const body: LoteRequest = await request.json();
+    const { pedidos, useTestCredentials, criadoPor } = body;
+
+    if (!pedidos || pedidos.length === 0) {
+      return NextResponse.json({ success: false, error: 'Array de pedidos é obrigatório' }, { status: 400 });
+    }
+
+    const invalido = pedidos.find(p => !p.transactionId || !p.destinatario || !p.envioNumero);
+    if (invalido) {
+      return NextResponse.json(
+        { success: false, error: `Pedido ${invalido.transactionId || '(sem transactionId)'} incompleto` },
+        { status: 400 }
+      );
+    }
+
+    let jobId: string;
+    try {
+      jobId = await criarJobEtiquetas(pedidos, { useTestCredentials: !!useTestCredentials, criadoPor });
+    } catch (err) {
+      // Pedido repetido ou já em outro lote
+      return NextResponse.json(
+        { success: false, error: err instanceof Error ? err.message : 'Erro ao criar lote' },
+        { status: 409 }
+      );
+    }
+    console.log(`[LOTE ETIQUETAS] Job ${jobId} criado com ${pedidos.length} pedido(s)`);
+
+    // Processamento em background (se parar, o cron /api/cron/etiquetas-lote retoma)
+    processarJobEtiquetas(jobId, request.nextUrl.origin).catch((err) => {
+      console.error('[LOTE ETIQUETAS] Erro no processamento:', err);
+    });
+
+    return NextResponse.json({
+      success: true,
+      jobId,
+      total: pedidos.length,
+    });
+  } catch (e) {
+    const errorMsg = e instanceof Error ? e.message : 'Erro desconhecido';
+    console.error('[LOTE ETIQUETAS] ERRO:', errorMsg);
+    return NextResponse.json({ success: false, error: errorMsg }, { status: 500 });
+  }
+}
+
+// GET - Status do lote e dos pedidos
+export async function GET(request: NextRequest) {
+  const jobId = request.nextUrl.searchParams.get('jobId');
+
+  if (!jobId) {
+    return NextResponse.json({ success: false, error: 'jobId é obrigatório' }, { status: 400 });
+  }
+
+  try {
+    const jobSnap = await getDoc(doc(db, JOBS_ETIQUETAS_COLLECTION, jobId));
+    if (!jobSnap.exists()) {
+      return NextResponse.json({ success: false, error: 'Job não encontrado' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      job: jobSnap.data(),
+      itens: await buscarItensJob(jobId),
+    });
+  } catch (e) {
+    const errorMsg = e instanceof Error ? e.message : 'Erro desconhecido';
+    return NextResponse.json({ success: false, error: errorMsg }, { status: 500 });
+  }
+}
+
+// DELETE - Cancelar lote (pedidos já gerados continuam valendo)
+export async function DELETE(request: NextRequest) {
+  const jobId = request.nextUrl.searchParams.get('jobId');
+
+  if (!jobId) {
+    return NextResponse.json({ success: false, error: 'jobId é obrigatório' }, { status: 400 });
+  }
+
+  try {
+    await cancelarJobEtiquetas(jobId);
+    return NextResponse.json({ success: true, mensagem: 'Lote cancelado' });
+  } catch (e) {
+    const errorMsg = e instanceof Error ? e.message : 'Erro desconhecido';
+    return NextResponse.json({ success: false, error: errorMsg }, { status: 500 });
+  }
+}
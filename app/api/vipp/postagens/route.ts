@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { buscarPostagensAConferir, resolverPostagem } from '@/lib/postagensVipp';
+
+interface ResolverPostagemRequest {
+  transactionId: string;
+  envioNumero?: number;
+  teste?: boolean; // Postagem feita com credenciais de teste
+  acao: 'confirmar' | 'liberar';
+  etiquetas?: string[]; // Códigos encontrados na ViPP (confirmar)
+  operador: string;
+}
+
+// GET - Postagens incertas ou travadas, aguardando conferência na ViPP
+export async function GET() {
+  try {
+    const postagens = await buscarPostagensAConferir();
+    return NextResponse.json({ success: true, postagens });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
+    console.error('[VIPP] Erro ao buscar postagens a conferir:', errorMessage);
+    return NextResponse.json({ success: false, error: errorMessage }, { status: 500 });
+  }
+}
+
+// POST - Resolver a postagem depois de conferir na ViPP
+export async function POST(request: NextRequest) {
+  try {
+    const body: ResolverPostagemRequest = await request.json();
+    const { transactionId, acao, operador } = body;
+    const envioNumero = body.envioNumero || 1;
+    const etiquetas = (body.etiquetas || []).map(e => e.trim().toUpperCase()).filter(Boolean);
+
+    if (!transactionId || !operador || (acao !== 'confirmar' && acao !== 'liberar')) {
+      return NextResponse.json(
+        { success: false, error: 'Campos obrigatórios: transactionId, acao (confirmar/liberar) e operador' },
+        { status: 400 }
+      );
+    }
+    if (acao === 'confirmar' && etiquetas.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Informe os códigos encontrados na ViPP para confirmar' },
+        { status: 400 }
+      );
+    }
+
+    const postagem = await resolverPostagem(
+      transactionId,
+      envioNumero,
+      !!body.teste,
+      acao === 'confirmar' ? { acao, etiquetas, operador } : { acao, operador }
+    );
+    console.log(`[VIPP] Postagem ${postagem.chave} ${acao === 'confirmar' ? `confirmada (${etiquetas.join(', ')})` : 'liberada'} por ${operador}`);
+
+    return NextResponse.json({ success: true, postagem });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
+    console.error('[VIPP] Erro ao resolver postagem:', errorMessage);
+    return NextResponse.json({ success: false, error: errorMessage }, { status: 500 });
+  }
+}
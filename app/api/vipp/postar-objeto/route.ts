@@ -1,54 +1,70 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-// Credenciais de PRODUÇÃO
-const VIPP_CONFIG_PROD = {
-  url: process.env.VIPP_API_URL || 'http://vpsrv.visualset.com.br/api/v1/middleware/PostarObjeto',
-  usuario: process.env.VIPP_USUARIO || '',
-  token: process.env.VIPP_SENHA || '',
-  idPerfil: process.env.VIPP_ID_PERFIL || '',
-  servicoEct: process.env.VIPP_SERVICO_ECT || '',
-  nrContrato: process.env.VIPP_NR_CONTRATO || '',
-  codAdministrativo: process.env.VIPP_COD_ADMINISTRATIVO || '',
-  nrCartao: process.env.VIPP_NR_CARTAO || '',
-};
-
-// Credenciais de TESTE (homologação)
-const VIPP_CONFIG_TEST = {
-  url: process.env.VIPP_API_URL || 'http://vpsrv.visualset.com.br/api/v1/middleware/PostarObjeto',
-  usuario: process.env.VIPP_USUARIO_TESTE || 'onbiws',
-  token: process.env.VIPP_SENHA_TESTE || '112233',
-  idPerfil: process.env.VIPP_ID_PERFIL_TESTE || '9363',
-  servicoEct: process.env.VIPP_SERVICO_ECT || '',
-  nrContrato: '', // Teste não usa contrato
-  codAdministrativo: '',
-  nrCartao: '',
-};
-
-interface DestinatarioData {
-  nome: string;
-  logradouro: string;
-  numero: string;
-  complemento: string;
-  bairro: string;
-  cidade: string;
-  uf: string;
-  cep: string;
-  telefone: string;
-  email: string;
-  documento: string;
-}
+import { normalizarTelefone } from '@/lib/telefone';
+import {
+  fetchCatalogoProdutos,
+  montarVolume,
+  montarVolumes,
+  ProdutoPedido,
+  PerfilEmbalagem,
+  VolumePostagem,
+  MAX_VOLUMES_POR_POSTAGEM,
+} from '@/lib/catalogoProdutos';
+import { NotaFiscalPostagem, notaFiscalParaVipp } from '@/lib/notasFiscais';
+import { getVippConfig, errosVipp } from '@/lib/vipp';
+import type { DestinatarioVipp } from '@/lib/vipp';
+import { reservarPostagem, concluirPostagem, falharPostagem, marcarPostagemIncerta, assinaturaPostagem } from '@/lib/postagensVipp';
 
 interface PostarObjetoRequest {
   transactionId: string;
+  envioNumero?: number; // Chave de idempotência junto com o transactionId (padrão 1)
   servicoEct?: string; // Código do serviço ECT (opcional, usa env se não fornecido)
   useTestCredentials?: boolean; // Se true, usa credenciais de teste
-  destinatario: DestinatarioData;
+  destinatario: DestinatarioVipp;
+  produtos?: ProdutoPedido[]; // Produtos do pedido (mesclados têm vários) - definem peso, medidas e conteúdo
+  quantidadeVolumes?: number; // Caixas da postagem (produtos divididos entre elas) - padrão 1
+  volumes?: VolumeRequest[]; // Caixas montadas manualmente (tem prioridade sobre quantidadeVolumes)
+  notasFiscais?: NotaFiscalPostagem[]; // NF-e do pedido (mesclados podem ter várias) - sem nota vai declaração de conteúdo
+}
+
+// Volume informado no request: medidas ausentes vêm do catálogo dos produtos da caixa
+interface VolumeRequest {
+  produtos?: ProdutoPedido[];
+  pesoGramas?: number;
+  alturaCm?: number;
+  larguraCm?: number;
+  comprimentoCm?: number;
+  conteudo?: string;
+  valorDeclarado?: number;
+}
+
+// Marcar o envio como falho (libera para nova tentativa)
+async function registrarFalha(postagem: { transactionId: string; envioNumero: number; teste: boolean } | null, erro: string) {
+  if (!postagem) return;
+  try {
+    await falharPostagem(postagem.transactionId, postagem.envioNumero, postagem.teste, erro);
+  } catch (err) {
+    console.error('[VIPP] Erro ao registrar falha da postagem:', err);
+  }
+}
+
+// Falha sem resposta legível da ViPP: a etiqueta pode ter sido gerada, o envio fica aguardando conferência
+async function registrarIncerta(postagem: { transactionId: string; envioNumero: number; teste: boolean } | null, erro: string) {
+  if (!postagem) return;
+  try {
+    await marcarPostagemIncerta(postagem.transactionId, postagem.envioNumero, postagem.teste, erro);
+  } catch (err) {
+    console.error('[VIPP] Erro ao registrar postagem incerta:', err);
+  }
 }
 
 export async function POST(request: NextRequest) {
+  // Envio reservado na chave de idempotência (recusa da ViPP libera a chave; falha ambígua deixa incerta)
+  let reservada: { transactionId: string; envioNumero: number; teste: boolean } | null = null;
+
   try {
     const body: PostarObjetoRequest = await request.json();
-    const { transactionId, servicoEct, useTestCredentials, destinatario } = body;
+    const { transactionId, servicoEct, useTestCredentials, destinatario, produtos, quantidadeVolumes, volumes: volumesRequest, notasFiscais } = body;
+    const envioNumero = body.envioNumero || 1;
 
     if (!transactionId || !destinatario) {
       return NextResponse.json(
@@ -57,13 +73,56 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if ((volumesRequest?.length || 0) > MAX_VOLUMES_POR_POSTAGEM || (quantidadeVolumes || 1) > MAX_VOLUMES_POR_POSTAGEM) {
+      return NextResponse.json(
+        { error: `Máximo de ${MAX_VOLUMES_POR_POSTAGEM} volumes por postagem` },
+        { status: 400 }
+      );
+    }
+
     // Selecionar credenciais baseado no flag
-    const VIPP_CONFIG = useTestCredentials ? VIPP_CONFIG_TEST : VIPP_CONFIG_PROD;
+    const VIPP_CONFIG = getVippConfig(useTestCredentials);
     console.log(`[VIPP] Usando credenciais de ${useTestCredentials ? 'TESTE' : 'PRODUÇÃO'}`);
 
     // Usar servicoEct do request ou fallback para env
     const servicoEctFinal = servicoEct || VIPP_CONFIG.servicoEct;
 
+    // Peso, medidas e conteúdo pelo catálogo de produtos (sem cadastro usa o perfil padrão)
+    let catalogo: PerfilEmbalagem[] = [];
+    try {
+      catalogo = await fetchCatalogoProdutos();
+    } catch (catalogoError) {
+      console.error('[VIPP] Erro ao carregar catálogo de produtos, usando perfil padrão:', catalogoError);
+    }
+    const volumes: VolumePostagem[] = volumesRequest && volumesRequest.length > 0
+      ? volumesRequest.map(v => {
+          const base = montarVolume(catalogo, v.produtos || produtos || []);
+          return {
+            ...base,
+            pesoGramas: v.pesoGramas ?? base.pesoGramas,
+            alturaCm: v.alturaCm ?? base.alturaCm,
+            larguraCm: v.larguraCm ?? base.larguraCm,
+            comprimentoCm: v.comprimentoCm ?? base.comprimentoCm,
+            conteudo: v.conteudo || base.conteudo,
+            valorDeclarado: v.valorDeclarado ?? base.valorDeclarado,
+          };
+        })
+      : montarVolumes(catalogo, produtos || [], quantidadeVolumes || 1);
+    volumes.forEach((volume, i) => {
+      console.log(`[VIPP] Volume ${i + 1}/${volumes.length}: ${volume.pesoGramas}g ${volume.alturaCm}x${volume.larguraCm}x${volume.comprimentoCm}cm (${volume.perfis.join(' + ')})`);
+    });
+
+    // Correios recebem DDD + número, celular e fixo em campos separados
+    const telefone = normalizarTelefone(destinatario.telefone);
+    const telefoneVipp = { telefone: '', celular: '' };
+    if (telefone.valido && telefone.tipo === 'celular') {
+      telefoneVipp.celular = telefone.ddd + telefone.local;
+    } else if (telefone.valido && telefone.tipo === 'fixo') {
+      telefoneVipp.telefone = telefone.ddd + telefone.local;
+    } else if (!telefone.valido && telefone.motivo !== 'vazio') {
+      console.log(`[VIPP] Telefone do destinatário ignorado: ${telefone.original} (${telefone.mensagem})`);
+    }
+
     // Montar payload para ViPP conforme documentação REST/JSON
     const vippPayload = {
       PerfilVipp: {
@@ -88,44 +147,72 @@ export async function POST(request: NextRequest) {
         Cidade: destinatario.cidade,
         UF: destinatario.uf,
         Cep: destinatario.cep?.replace(/\D/g, '') || '',
-        Telefone: destinatario.telefone?.replace(/\D/g, '') || '',
-        Celular: '',
+        Telefone: telefoneVipp.telefone,
+        Celular: telefoneVipp.celular,
         Email: destinatario.email || '',
       },
       Servico: {
         ServicoECT: servicoEctFinal, // Usa o serviço do request ou fallback para env
       },
-      NotasFiscais: [
-        {
-          DtNotaFiscal: '',
-          SerieNotaFiscal: '',
-          NrNotaFiscal: '',
-          VlrTotalNota: '',
-        },
-      ],
-      Volumes: [
-        {
-          Peso: '500', // gramas
-          Altura: '8',        // cm
-          Largura: '22',      // cm
-          Comprimento: '26',  // cm
-          ContaLote: '',
-          ChaveRoteamento: '',
-          CodigoBarraVolume: '',
-          CodigoBarraCliente: transactionId,
-          ObservacaoVisual: '',
-          ObservacaoQuatro: '',
-          ObservacaoCinco: '',
-          PosicaoVolume: '1',
-          Conteudo: 'LIVRO',
-          ValorDeclarado: '',
-          AdicionaisVolume: '',
-          VlrACobrar: '',
-          Etiqueta: '',
-        },
-      ],
+      // Sem nota: entrada em branco (objeto segue com declaração de conteúdo)
+      NotasFiscais: notasFiscais && notasFiscais.length > 0
+        ? notasFiscais.map(notaFiscalParaVipp)
+        : [
+            {
+              DtNotaFiscal: '',
+              SerieNotaFiscal: '',
+              NrNotaFiscal: '',
+              VlrTotalNota: '',
+            },
+          ],
+      Volumes: volumes.map((volume, i) => ({
+        Peso: String(volume.pesoGramas), // gramas
+        Altura: String(volume.alturaCm), // cm
+        Largura: String(volume.larguraCm), // cm
+        Comprimento: String(volume.comprimentoCm), // cm
+        ContaLote: '',
+        ChaveRoteamento: '',
+        CodigoBarraVolume: '',
+        CodigoBarraCliente: transactionId,
+        ObservacaoVisual: '',
+        ObservacaoQuatro: '',
+        ObservacaoCinco: '',
+        PosicaoVolume: String(i + 1),
+        Conteudo: volume.conteudo,
+        ValorDeclarado: volume.valorDeclarado > 0 ? volume.valorDeclarado.toFixed(2) : '',
+        AdicionaisVolume: '',
+        VlrACobrar: '',
+        Etiqueta: '',
+      })),
     };
 
+    // Idempotência: mesmo request devolve a etiqueta já gerada; outro request para o mesmo envio é conflito
+    const reserva = await reservarPostagem(
+      transactionId,
+      envioNumero,
+      !!useTestCredentials,
+      assinaturaPostagem({
+        servicoEct: servicoEctFinal,
+        useTestCredentials: !!useTestCredentials,
+        destinatario,
+        produtos: produtos || [],
+        quantidadeVolumes: quantidadeVolumes || 1,
+        volumes: volumesRequest || [],
+        notasFiscais: notasFiscais || [],
+      })
+    );
+    if (reserva.tipo === 'replay') {
+      console.log(`[VIPP] Replay do envio ${envioNumero} de ${transactionId}: ${reserva.postagem.etiqueta}`);
+      return NextResponse.json({ ...reserva.postagem.resposta, replay: true });
+    }
+    if (reserva.tipo === 'conflito') {
+      return NextResponse.json(
+        { error: reserva.mensagem, conflito: true, conferir: reserva.conferir, etiqueta: reserva.postagem.etiqueta || null },
+        { status: 409 }
+      );
+    }
+    reservada = { transactionId, envioNumero, teste: !!useTestCredentials };
+
     console.log('ViPP Request:', JSON.stringify(vippPayload, null, 2));
 
     // Chamar ViPP API
@@ -144,8 +231,10 @@ export async function POST(request: NextRequest) {
     try {
       data = JSON.parse(responseText);
     } catch {
+      // Timeout do gateway, página de erro...: não dá para saber se a ViPP gerou a etiqueta
+      await registrarIncerta(reservada, `Resposta inválida da ViPP (HTTP ${response.status})`);
       return NextResponse.json(
-        { error: 'Resposta inválida da ViPP', raw: responseText },
+        { error: 'Resposta inválida da ViPP - conferir na ViPP antes de postar de novo', raw: responseText, conferir: true },
         { status: 500 }
       );
     }
@@ -153,8 +242,9 @@ export async function POST(request: NextRequest) {
     console.log('ViPP Response:', JSON.stringify(data, null, 2));
 
     // Verificar se houve erros
-    if (data.ListaErros && data.ListaErros.length > 0) {
-      const erros = data.ListaErros.map((e: { Descricao: string }) => e.Descricao).join(', ');
+    const erros = errosVipp(data);
+    if (erros) {
+      await registrarFalha(reservada, erros);
       return NextResponse.json(
         { error: erros, data },
         { status: 400 }
@@ -163,38 +253,54 @@ export async function POST(request: NextRequest) {
 
     // Verificar status da postagem
     if (data.StatusPostagem === 'Invalida') {
+      await registrarFalha(reservada, 'Postagem inválida');
       return NextResponse.json(
         { error: 'Postagem inválida', data },
         { status: 400 }
       );
     }
 
-    // Extrair código da etiqueta do Volumes[0].Etiqueta
-    let etiqueta = null;
-
-    if (data.Volumes && data.Volumes[0] && data.Volumes[0].Etiqueta) {
-      etiqueta = data.Volumes[0].Etiqueta;
-    }
+    // Um código de rastreio por volume (Volumes[i].Etiqueta)
+    const etiquetas: string[] = (data.Volumes || [])
+      .map((v: { Etiqueta?: string }) => v.Etiqueta)
+      .filter((e: string | undefined): e is string => !!e);
+    const etiqueta = etiquetas[0] || null;
 
     if (!etiqueta) {
+      await registrarFalha(reservada, 'Etiqueta não retornada pela ViPP');
       return NextResponse.json(
         { error: 'Etiqueta não retornada pela ViPP', data },
         { status: 500 }
       );
     }
 
-    return NextResponse.json({
+    const resposta = {
       success: true,
-      etiqueta,
+      etiqueta, // Primeiro volume (compatibilidade)
+      etiquetas,
       transactionId,
-      data,
-    });
+      envioNumero,
+      volumes,
+      ...(etiquetas.length < volumes.length && {
+        aviso: `ViPP retornou ${etiquetas.length} de ${volumes.length} etiquetas`,
+      }),
+    };
+    try {
+      await concluirPostagem(transactionId, envioNumero, !!useTestCredentials, etiquetas, resposta);
+    } catch (err) {
+      // Etiqueta já existe na ViPP: não falhar o request por causa do registro
+      console.error('[VIPP] Erro ao registrar postagem concluída:', err);
+    }
+
+    return NextResponse.json({ ...resposta, data });
 
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
     console.error('ViPP Error:', errorMessage);
+    // Erro de rede/timeout depois de chamar a ViPP: resultado desconhecido
+    await registrarIncerta(reservada, errorMessage);
     return NextResponse.json(
-      { error: errorMessage },
+      { error: errorMessage, ...(reservada && { conferir: true }) },
       { status: 500 }
     );
   }
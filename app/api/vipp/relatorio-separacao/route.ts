@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/firebase';
+import { collection, query, where, getDocs } from 'firebase/firestore';
+import { PedidoSeparacao, gerarRelatorioSeparacaoPdf, gerarRelatorioSeparacaoCsv } from '@/lib/relatorioSeparacao';
+import type { EtiquetaRecord } from '@/lib/etiquetas';
+
+interface RelatorioSeparacaoRequest {
+  pedidos: PedidoSeparacao[]; // Pedidos do lote impresso (dados da tela)
+  formato?: 'pdf' | 'csv'; // Padrão pdf
+}
+
+// Limite do operador "in" do Firestore
+const LOTE_CONSULTA = 30;
+
+// Caixas, envio parcial e observação vêm do registro da etiqueta (a tela só conhece o último código)
+async function completarComEtiquetas(pedidos: PedidoSeparacao[]): Promise<PedidoSeparacao[]> {
+  const codigos = [...new Set(pedidos.flatMap(p => p.etiquetas))];
+  const registros = new Map<string, EtiquetaRecord>();
+  for (let i = 0; i < codigos.length; i += LOTE_CONSULTA) {
+    const snapshot = await getDocs(query(collection(db, 'etiquetas'), where('etiqueta', 'in', codigos.slice(i, i + LOTE_CONSULTA))));
+    snapshot.docs.forEach(d => {
+      const registro = d.data() as EtiquetaRecord;
+      if (registro.status !== 'cancelled') registros.set(registro.etiqueta, registro);
+    });
+  }
+
+  return pedidos.map(pedido => {
+    const registro = pedido.etiquetas.map(codigo => registros.get(codigo)).find(Boolean);
+    if (!registro) return pedido;
+    return {
+      ...pedido,
+      etiquetas: registro.volumesCodigos?.length ? registro.volumesCodigos : pedido.etiquetas,
+      envio: pedido.envio || ((registro.enviosTotal || 1) > 1
+        ? { numero: registro.envioNumero || 1, total: registro.enviosTotal || 1 }
+        : undefined),
+      observacao: pedido.observacao || registro.observacaoEnvio,
+    };
+  });
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: RelatorioSeparacaoRequest = await request.json();
+    const { pedidos, formato = 'pdf' } = body;
+
+    if (!pedidos || pedidos.length === 0) {
+      return NextResponse.json(
+        { error: 'Array de pedidos é obrigatório' },
+        { status: 400 }
+      );
+    }
+
+    const semProdutos = pedidos.find(p => !p.produtos || p.produtos.length === 0);
+    if (semProdutos) {
+      return NextResponse.json(
+        { error: `Pedido ${semProdutos.transactionId} sem produtos` },
+        { status: 400 }
+      );
+    }
+
+    const completos = await completarComEtiquetas(pedidos);
+    console.log(`[Separação] Relatório ${formato} de ${completos.length} pedido(s)`);
+
+    if (formato === 'csv') {
+      // BOM para o Excel abrir os acentos corretamente
+      return new NextResponse('\uFEFF' + gerarRelatorioSeparacaoCsv(completos), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="separacao-${Date.now()}.csv"`,
+        },
+      });
+    }
+
+    const pdf = gerarRelatorioSeparacaoPdf(completos);
+    return new NextResponse(Buffer.from(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="separacao-${Date.now()}.pdf"`,
+      },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
+    console.error('Erro ao gerar relatório de separação:', errorMessage);
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { registrarEventoWebhook, finalizarEventoWebhook } from '@/lib/eventosWebhook';
+import {
+  ehPlataformaWebhook,
+  lerPayloadPlataforma,
+  verificarAssinaturaPlataforma,
+  processarEventoPlataforma,
+} from '@/lib/webhooksPlataformas';
+
+// Webhook nativo das plataformas (/api/webhooks/hotmart, /kiwify, /eduzz, /hubla)
+// Evento bruto guardado antes do processamento; erro responde 500 para a plataforma reenviar
+export async function POST(request: NextRequest, { params }: { params: Promise<{ plataforma: string }> }) {
+  const { plataforma } = await params;
+  if (!ehPlataformaWebhook(plataforma)) {
+    return NextResponse.json({ error: `Plataforma não suportada: ${plataforma}` }, { status: 404 });
+  }
+
+  const corpo = await request.text();
+  const payload = lerPayloadPlataforma(corpo, request.headers.get('content-type') || '');
+  if (!payload) {
+    return NextResponse.json({ error: 'Corpo inválido' }, { status: 400 });
+  }
+
+  const recusa = verificarAssinaturaPlataforma(plataforma, request.headers, request.nextUrl.searchParams, corpo, payload);
+  if (recusa) {
+    console.warn(`[Webhook ${plataforma}] Evento recusado: ${recusa}`);
+    return NextResponse.json({ error: recusa }, { status: 401 });
+  }
+
+  let eventoId: string | null = null;
+  try {
+    eventoId = await registrarEventoWebhook(plataforma, request.headers, corpo);
+    const resultado = await processarEventoPlataforma(plataforma, payload);
+    await finalizarEventoWebhook(eventoId, resultado);
+
+    console.log(`[Webhook ${plataforma}] ${resultado.tipo} ${resultado.chave}: ${resultado.mensagem}`);
+    return NextResponse.json({ success: true, eventoId, ...resultado });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
+    console.error(`[Webhook ${plataforma}] Erro ao processar evento ${eventoId || '(não registrado)'}:`, errorMessage);
+    if (eventoId) {
+      await finalizarEventoWebhook(eventoId, { status: 'erro', erro: errorMessage })
+        .catch(err => console.error(`[Webhook ${plataforma}] Erro ao registrar falha do evento:`, err));
+    }
+    return NextResponse.json({ success: false, eventoId, error: errorMessage }, { status: 500 });
+  }
+}
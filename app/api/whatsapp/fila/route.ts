@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/firebase';
+import { collection, query, where, getDocs, getCountFromServer } from 'firebase/firestore';
+import {
+  WHATSAPP_QUEUE_COLLECTION,
+  WhatsAppMessageStatus,
+  WHATSAPP_MESSAGE_STATUS_LABELS,
+  listarMensagensFila,
+  reenfileirarMensagens,
+} from '@/lib/whatsappQueue';
+
+const STATUS_VALIDOS = Object.keys(WHATSAPP_MESSAGE_STATUS_LABELS) as WhatsAppMessageStatus[];
+
+// GET - Listar mensagens da fila e contagem por status
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') as WhatsAppMessageStatus | null;
+    const max = Math.min(parseInt(searchParams.get('limit') || '100'), 500);
+
+    if (status && !STATUS_VALIDOS.includes(status)) {
+      return NextResponse.json(
+        { success: false, error: `Status inválido: ${status}` },
+        { status: 400 }
+      );
+    }
+
+    const contagens = await Promise.all(
+      STATUS_VALIDOS.map(async (s) => {
+        const snap = await getCountFromServer(
+          query(collection(db, WHATSAPP_QUEUE_COLLECTION), where('status', '==', s))
+        );
+        return [s, snap.data().count] as const;
+      })
+    );
+
+    const mensagens = await listarMensagensFila(status || undefined, max);
+
+    return NextResponse.json({
+      success: true,
+      contagem: Object.fromEntries(contagens),
+      mensagens: mensagens.map(m => ({
+        ...m,
+        criadoEm: m.criadoEm?.toDate().toISOString(),
+        atualizadoEm: m.atualizadoEm?.toDate().toISOString(),
+        enviadoEm: m.enviadoEm?.toDate().toISOString() || null,
+        proximaTentativa: m.proximaTentativa?.toDate().toISOString() || null,
+        enviandoDesde: m.enviandoDesde?.toDate().toISOString() || null,
+      })),
+    });
+  } catch (error) {
+    console.error('[Fila WhatsApp] Erro ao listar:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Erro desconhecido' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Reenviar mensagens
+// { action: 'reenviar', ids: string[] } - reenvia as mensagens informadas
+// { action: 'reenviarFalhas' }          - reenvia todas as mensagens com status "dead"
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { action, ids } = body as { action: string; ids?: string[] };
+
+    let idsParaReenviar: string[] = [];
+
+    if (action === 'reenviar') {
+      if (!ids || ids.length === 0) {
+        return NextResponse.json(
+          { success: false, error: 'Nenhuma mensagem informada' },
+          { status: 400 }
+        );
+      }
+      idsParaReenviar = ids;
+    } else if (action === 'reenviarFalhas') {
+      const snapshot = await getDocs(
+        query(collection(db, WHATSAPP_QUEUE_COLLECTION), where('status', '==', 'dead'))
+      );
+      idsParaReenviar = snapshot.docs.map(d => d.id);
+    } else {
+      return NextResponse.json({ success: false, error: 'Ação inválida' }, { status: 400 });
+    }
+
+    const { reenfileiradas, ignoradas } = await reenfileirarMensagens(idsParaReenviar);
+    console.log(`[Fila WhatsApp] ${reenfileiradas.length} mensagem(s) reenfileirada(s), ${ignoradas.length} ignorada(s)`);
+
+    // Dispara o worker sem esperar o próximo minuto do scheduler
+    if (reenfileiradas.length > 0) {
+      fetch(`${request.nextUrl.origin}/api/cron/whatsapp-fila`).catch(() => {});
+    }
+
+    return NextResponse.json({ success: true, reenfileiradas: reenfileiradas.length, ignoradas });
+  } catch (error) {
+    console.error('[Fila WhatsApp] Erro ao reenviar:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Erro desconhecido' },
+      { status: 500 }
+    );
+  }
+}
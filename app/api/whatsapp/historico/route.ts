@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { formatarTelefone } from '@/lib/telefone';
+import { buscarLogMensagens, WhatsAppLogCampoBusca } from '@/lib/whatsappLog';
+
+const CAMPOS_VALIDOS: WhatsAppLogCampoBusca[] = ['telefone', 'email', 'transactionId', 'codigo'];
+
+// GET - Histórico de mensagens por telefone, email, transactionId ou código de rastreio
+// ?campo=telefone&valor=85999999999
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const campo = searchParams.get('campo') as WhatsAppLogCampoBusca | null;
+    const valor = searchParams.get('valor')?.trim() || '';
+
+    if (!campo || !CAMPOS_VALIDOS.includes(campo)) {
+      return NextResponse.json(
+        { success: false, error: `Campo de busca inválido. Use: ${CAMPOS_VALIDOS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!valor) {
+      return NextResponse.json(
+        { success: false, error: 'Informe o valor da busca' },
+        { status: 400 }
+      );
+    }
+
+    // Telefone é gravado já formatado (55 + DDD + número)
+    const valorBusca = campo === 'telefone' ? formatarTelefone(valor) : valor;
+    if (!valorBusca) {
+      return NextResponse.json(
+        { success: false, error: 'Telefone inválido' },
+        { status: 400 }
+      );
+    }
+
+    const registros = await buscarLogMensagens(campo, valorBusca);
+
+    return NextResponse.json({
+      success: true,
+      total: registros.length,
+      registros: registros.map(r => ({
+        ...r,
+        enviadoEm: r.enviadoEm.toDate().toISOString(),
+        entregueEm: r.entregueEm?.toDate().toISOString() || null,
+        lidoEm: r.lidoEm?.toDate().toISOString() || null,
+      })),
+    });
+  } catch (error) {
+    console.error('[Histórico WhatsApp] Erro na busca:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Erro desconhecido' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  WHATSAPP_PROVIDER_LABELS,
+  WhatsAppProviderName,
+  WhatsAppProvidersConfig,
+  carregarProvidersConfig,
+  salvarProvidersConfig,
+  getWhatsAppProvider,
+} from '@/lib/whatsappProviders';
+import { WHATSAPP_MESSAGE_TIPO_LABELS, WhatsAppMessageTipo } from '@/lib/whatsappQueue';
+
+// GET - Provider de cada tipo de mensagem e quais providers estão configurados
+export async function GET() {
+  try {
+    const config = await carregarProvidersConfig();
+
+    const providers = (Object.keys(WHATSAPP_PROVIDER_LABELS) as WhatsAppProviderName[]).map(name => ({
+      name,
+      label: WHATSAPP_PROVIDER_LABELS[name],
+      configurado: getWhatsAppProvider(name).isConfigured(),
+    }));
+
+    const tipos = (Object.keys(WHATSAPP_MESSAGE_TIPO_LABELS) as WhatsAppMessageTipo[]).map(tipo => ({
+      tipo,
+      label: WHATSAPP_MESSAGE_TIPO_LABELS[tipo],
+    }));
+
+    return NextResponse.json({ success: true, config, providers, tipos });
+  } catch (error) {
+    console.error('[WhatsApp Providers] Erro ao carregar:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Erro desconhecido' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Salvar provider por tipo de mensagem
+// Body: { config: { cliente_etiqueta: 'evolution', admin_resumo: 'n8n', ... } }
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const recebido = (body.config || {}) as Partial<Record<WhatsAppMessageTipo, string>>;
+
+    const config = await carregarProvidersConfig();
+    for (const tipo of Object.keys(config) as WhatsAppMessageTipo[]) {
+      const valor = recebido[tipo];
+      if (valor === undefined) continue;
+
+      if (!(valor in WHATSAPP_PROVIDER_LABELS)) {
+        return NextResponse.json(
+          { success: false, error: `Provider inválido para ${WHATSAPP_MESSAGE_TIPO_LABELS[tipo]}: ${valor}` },
+          { status: 400 }
+        );
+      }
+      config[tipo] = valor as WhatsAppProviderName;
+    }
+
+    await salvarProvidersConfig(config as WhatsAppProvidersConfig);
+
+    return NextResponse.json({ success: true, config });
+  } catch (error) {
+    console.error('[WhatsApp Providers] Erro ao salvar:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Erro desconhecido' },
+      { status: 500 }
+    );
+  }
+}
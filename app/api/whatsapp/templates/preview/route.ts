@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  EtiquetaProcessada,
+  MessageTemplateId,
+  MESSAGE_TEMPLATE_DEFINITIONS,
+  SAMPLE_ETIQUETA,
+  buildAdminResumoContext,
+  buildEtiquetaContext,
+  fetchMessageTemplates,
+  renderTemplate,
+} from '@/lib/messageTemplates';
+
+interface PreviewRequest {
+  templateId: MessageTemplateId;
+  conteudo?: string; // Conteúdo em edição (ainda não salvo)
+  etiqueta?: Partial<EtiquetaProcessada>; // Sobrescreve campos da etiqueta de exemplo
+}
+
+// Renderiza um template contra uma etiqueta de exemplo
+export async function POST(request: NextRequest) {
+  try {
+    const body: PreviewRequest = await request.json();
+    const { templateId, conteudo, etiqueta: overrides } = body;
+
+    if (!MESSAGE_TEMPLATE_DEFINITIONS.some(d => d.id === templateId)) {
+      return NextResponse.json(
+        { success: false, error: `Template desconhecido: ${templateId}` },
+        { status: 400 }
+      );
+    }
+
+    // Templates salvos + conteúdo em edição (para os {{> partials}} refletirem o rascunho)
+    const templates = await fetchMessageTemplates();
+    if (typeof conteudo === 'string') {
+      templates[templateId] = conteudo;
+    }
+
+    const etiqueta: EtiquetaProcessada = { ...SAMPLE_ETIQUETA, ...overrides };
+
+    const context = templateId === 'admin_resumo'
+      ? buildAdminResumoContext({
+          novas: [etiqueta],
+          antigas: [{
+            ...etiqueta,
+            codigo: 'SQ000288300BR',
+            clienteNome: 'João Souza',
+            isEnvioParcial: false,
+            isMerged: false,
+            mergedTransactionIds: [],
+            observacaoEnvio: '',
+          }],
+          ordemPrioridade: 'antigos',
+          observacaoGeral: 'Lote de exemplo',
+        })
+      : buildEtiquetaContext(etiqueta);
+
+    try {
+      const mensagem = renderTemplate(templates[templateId], context, templates);
+      return NextResponse.json({ success: true, mensagem });
+    } catch (renderError) {
+      return NextResponse.json(
+        { success: false, error: renderError instanceof Error ? renderError.message : 'Template inválido' },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    console.error('[Templates] Erro no preview:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Erro desconhecido' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { timingSafeEqual } from 'crypto';
+import { EVOLUTION_CONFIG } from '@/lib/evolution';
+import { registrarEventoWebhook, finalizarEventoWebhook } from '@/lib/eventosWebhook';
+import { processarEventoEvolution } from '@/lib/evolutionWebhook';
+import type { EvolutionWebhookEvent } from '@/lib/evolutionWebhook';
+
+// Token opcional na URL do webhook configurada na Evolution (?token=...)
+// Sem ele, valida pelo apikey que a Evolution envia no corpo do evento
+const WEBHOOK_TOKEN = process.env.EVOLUTION_WEBHOOK_TOKEN || '';
+
+function tokensIguais(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+}
+
+// Verificar se o evento veio da nossa instância da Evolution
+function verificarOrigem(request: NextRequest, body: EvolutionWebhookEvent): boolean {
+  if (WEBHOOK_TOKEN) {
+    const token = request.nextUrl.searchParams.get('token') || request.headers.get('x-webhook-token') || '';
+    return tokensIguais(token, WEBHOOK_TOKEN);
+  }
+
+  if (!EVOLUTION_CONFIG.apiKey) return false;
+  return tokensIguais(body.apikey || '', EVOLUTION_CONFIG.apiKey);
+}
+
+// POST - Eventos da Evolution API (configurar MESSAGES_UPDATE e MESSAGES_UPSERT)
+export async function POST(request: NextRequest) {
+  const corpo = await request.text();
+  let body: EvolutionWebhookEvent;
+  try {
+    body = JSON.parse(corpo);
+  } catch {
+    return NextResponse.json({ success: false, error: 'JSON inválido' }, { status: 400 });
+  }
+
+  if (!verificarOrigem(request, body)) {
+    console.warn('[WhatsApp Webhook] Evento rejeitado: token/apikey inválido');
+    return NextResponse.json({ success: false, error: 'Não autorizado' }, { status: 401 });
+  }
+
+  // Evento guardado para reprocessamento (falha ao guardar não impede o processamento)
+  const eventoId = await registrarEventoWebhook('evolution', request.headers, corpo).catch(err => {
+    console.error('[WhatsApp Webhook] Erro ao registrar evento:', err);
+    return null;
+  });
+
+  try {
+    const resultado = await processarEventoEvolution(body);
+    if (eventoId) await finalizarEventoWebhook(eventoId, resultado);
+    return NextResponse.json({ success: true, evento: resultado.tipo, status: resultado.status, mensagem: resultado.mensagem });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
+    console.error(`[WhatsApp Webhook] Erro ao processar ${body.event}:`, errorMessage);
+    if (eventoId) {
+      await finalizarEventoWebhook(eventoId, { status: 'erro', erro: errorMessage })
+        .catch(err => console.error('[WhatsApp Webhook] Erro ao registrar falha do evento:', err));
+    }
+    // 500 faz a Evolution reenviar o evento
+    return NextResponse.json({ success: false, error: errorMessage }, { status: 500 });
+  }
+}
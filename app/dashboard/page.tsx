@@ -14,6 +14,17 @@ import CsvUploadUnified from '@/components/CsvUploadUnified';
 import EtiquetasUpload from '@/components/EtiquetasUpload';
 import CarrinhosAbandonados from '@/components/CarrinhosAbandonados';
 import SincronizacaoDatacrazy from '@/components/SincronizacaoDatacrazy';
+import RastreioWorker from '@/components/RastreioWorker';
+import EventosWebhook from '@/components/EventosWebhook';
+import MensagensTemplates from '@/components/MensagensTemplates';
+import WhatsAppFila from '@/components/WhatsAppFila';
+import WhatsAppProviders from '@/components/WhatsAppProviders';
+import WhatsAppHistorico from '@/components/WhatsAppHistorico';
+import WhatsAppRespostas from '@/components/WhatsAppRespostas';
+import CatalogoProdutos from '@/components/CatalogoProdutos';
+import ClassificacaoProdutos from '@/components/ClassificacaoProdutos';
+import RegrasFrete from '@/components/RegrasFrete';
+import PostagensConferir from '@/components/PostagensConferir';
 
 interface MenuItem {
   id: string;
@@ -479,6 +490,17 @@ export default function DashboardPage() {
         </svg>
       ),
     },
+    {
+      id: 'produtos',
+      label: 'Produtos',
+      icon: (
+        <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <path d="M21 16V8a2 2 0 0 0-1-1.73l-7-4a2 2 0 0 0-2 0l-7 4A2 2 0 0 0 3 8v8a2 2 0 0 0 1 1.73l7 4a2 2 0 0 0 2 0l7-4A2 2 0 0 0 21 16z" />
+          <polyline points="3.27 6.96 12 12.01 20.73 6.96" />
+          <line x1="12" y1="22.08" x2="12" y2="12" />
+        </svg>
+      ),
+    },
     {
       id: 'sincronizacao',
       label: 'Sincronização',
@@ -490,6 +512,15 @@ export default function DashboardPage() {
         </svg>
       ),
     },
+    {
+      id: 'mensagens',
+      label: 'Mensagens',
+      icon: (
+        <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z" />
+        </svg>
+      ),
+    },
     // Carrinhos Abandonados - temporariamente oculto (integração via N8N + Datacrazy)
     // {
     //   id: 'carrinhos',
@@ -1532,7 +1563,19 @@ export default function DashboardPage() {
         {/* Etiquetas Page */}
         {activeMenu === 'etiquetas' && (
           <div className="flex-1 overflow-auto px-4 md:px-[110px] pt-6 pb-8" style={{ backgroundColor: '#F8FAFC' }}>
-            <EtiquetasUpload />
+            <EtiquetasUpload userEmail={userEmail} />
+            <PostagensConferir userEmail={userEmail} />
+          </div>
+        )}
+
+        {/* Produtos Page */}
+        {activeMenu === 'produtos' && (
+          <div className="flex-1 overflow-auto px-4 md:px-[110px] pt-6 pb-8" style={{ backgroundColor: '#F8FAFC' }}>
+            <div className="flex flex-col items-center justify-start gap-6 min-h-full">
+              <ClassificacaoProdutos userEmail={userEmail} />
+              <CatalogoProdutos userEmail={userEmail} />
+              <RegrasFrete userEmail={userEmail} />
+            </div>
           </div>
         )}
 
@@ -1546,14 +1589,29 @@ export default function DashboardPage() {
         {/* Sincronização Page */}
         {activeMenu === 'sincronizacao' && (
           <div className="flex-1 overflow-auto px-4 md:px-[110px] pt-6 pb-8" style={{ backgroundColor: '#F8FAFC' }}>
-            <div className="flex flex-col items-center justify-start min-h-full">
+            <div className="flex flex-col items-center justify-start gap-6 min-h-full">
               <SincronizacaoDatacrazy />
+              <RastreioWorker />
+              <EventosWebhook />
+            </div>
+          </div>
+        )}
+
+        {/* Mensagens Page */}
+        {activeMenu === 'mensagens' && (
+          <div className="flex-1 overflow-auto px-4 md:px-[110px] pt-6 pb-8" style={{ backgroundColor: '#F8FAFC' }}>
+            <div className="flex flex-col items-center justify-start gap-6 min-h-full">
+              <WhatsAppRespostas userEmail={userEmail} />
+              <MensagensTemplates userEmail={userEmail} />
+              <WhatsAppProviders />
+              <WhatsAppFila />
+              <WhatsAppHistorico />
             </div>
           </div>
         )}
 
         {/* Placeholder for other menu items */}
-        {activeMenu !== 'inicio' && activeMenu !== 'configuracoes' && activeMenu !== 'administracao' && activeMenu !== 'integracoes' && activeMenu !== 'etiquetas' && activeMenu !== 'carrinhos' && activeMenu !== 'sincronizacao' && (
+        {activeMenu !== 'inicio' && activeMenu !== 'configuracoes' && activeMenu !== 'administracao' && activeMenu !== 'integracoes' && activeMenu !== 'etiquetas' && activeMenu !== 'carrinhos' && activeMenu !== 'sincronizacao' && activeMenu !== 'mensagens' && activeMenu !== 'produtos' && (
           <div className="flex-1 flex items-center justify-center p-8">
             <div className="text-center">
               <h2 className="text-2xl font-semibold text-slate-900 mb-2">
@@ -1,6 +1,7 @@
 'use client';
 
 import SincronizacaoDatacrazy from '@/components/SincronizacaoDatacrazy';
+import RastreioWorker from '@/components/RastreioWorker';
 
 export default function SincronizacaoPage() {
   return (
@@ -10,6 +11,7 @@ export default function SincronizacaoPage() {
       </div>
 
       <SincronizacaoDatacrazy />
+      <RastreioWorker />
     </div>
   );
 }
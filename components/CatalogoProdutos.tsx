@@ -0,0 +1,259 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  PerfilEmbalagem,
+  PerfilEmbalagemInput,
+  PERFIL_EMBALAGEM_PADRAO,
+  fetchCatalogoProdutos,
+  salvarPerfilEmbalagem,
+  excluirPerfilEmbalagem,
+  validarPerfilEmbalagem,
+} from '@/lib/catalogoProdutos';
+
+interface CatalogoProdutosProps {
+  userEmail?: string;
+}
+
+// Formulário guarda listas como texto (códigos separados por vírgula, nomes um por linha)
+interface FormPerfil {
+  nome: string;
+  codigos: string;
+  nomesProduto: string;
+  pesoGramas: string;
+  alturaCm: string;
+  larguraCm: string;
+  comprimentoCm: string;
+  conteudo: string;
+  valorDeclarado: string;
+}
+
+const FORM_VAZIO: FormPerfil = {
+  nome: '',
+  codigos: '',
+  nomesProduto: '',
+  pesoGramas: String(PERFIL_EMBALAGEM_PADRAO.pesoGramas),
+  alturaCm: String(PERFIL_EMBALAGEM_PADRAO.alturaCm),
+  larguraCm: String(PERFIL_EMBALAGEM_PADRAO.larguraCm),
+  comprimentoCm: String(PERFIL_EMBALAGEM_PADRAO.comprimentoCm),
+  conteudo: PERFIL_EMBALAGEM_PADRAO.conteudo,
+  valorDeclarado: '',
+};
+
+function perfilParaForm(perfil: PerfilEmbalagem): FormPerfil {
+  return {
+    nome: perfil.nome,
+    codigos: perfil.codigos.join(', '),
+    nomesProduto: perfil.nomesProduto.join('\n'),
+    pesoGramas: String(perfil.pesoGramas),
+    alturaCm: String(perfil.alturaCm),
+    larguraCm: String(perfil.larguraCm),
+    comprimentoCm: String(perfil.comprimentoCm),
+    conteudo: perfil.conteudo,
+    valorDeclarado: perfil.valorDeclarado ? String(perfil.valorDeclarado) : '',
+  };
+}
+
+function formParaPerfil(form: FormPerfil, atualizadoPor?: string): PerfilEmbalagemInput {
+  const numero = (valor: string) => parseFloat(valor.replace(',', '.')) || 0;
+  return {
+    nome: form.nome.trim(),
+    codigos: form.codigos.split(',').map(c => c.trim()).filter(Boolean),
+    nomesProduto: form.nomesProduto.split('\n').map(n => n.trim()).filter(Boolean),
+    pesoGramas: numero(form.pesoGramas),
+    alturaCm: numero(form.alturaCm),
+    larguraCm: numero(form.larguraCm),
+    comprimentoCm: numero(form.comprimentoCm),
+    conteudo: form.conteudo.trim(),
+    valorDeclarado: numero(form.valorDeclarado),
+    atualizadoPor,
+  };
+}
+
+export default function CatalogoProdutos({ userEmail }: CatalogoProdutosProps) {
+  const [perfis, setPerfis] = useState<PerfilEmbalagem[]>([]);
+  const [editandoId, setEditandoId] = useState<string | null>(null); // 'novo' para cadastro
+  const [form, setForm] = useState<FormPerfil>(FORM_VAZIO);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const carregar = async () => {
+    try {
+      setPerfis(await fetchCatalogoProdutos());
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Erro ao carregar catálogo' });
+    }
+  };
+
+  useEffect(() => {
+    carregar();
+  }, []);
+
+  const abrirForm = (perfil?: PerfilEmbalagem) => {
+    setEditandoId(perfil?.id || 'novo');
+    setForm(perfil ? perfilParaForm(perfil) : FORM_VAZIO);
+    setMessage(null);
+  };
+
+  const handleSave = async () => {
+    const perfil = formParaPerfil(form, userEmail);
+    const erro = validarPerfilEmbalagem(perfil);
+    if (erro) {
+      setMessage({ type: 'error', text: erro });
+      return;
+    }
+
+    setSaving(true);
+    setMessage(null);
+    try {
+      await salvarPerfilEmbalagem(perfil, editandoId === 'novo' ? undefined : editandoId || undefined);
+      setEditandoId(null);
+      setMessage({ type: 'success', text: 'Perfil salvo!' });
+      await carregar();
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Erro ao salvar perfil' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (perfil: PerfilEmbalagem) => {
+    if (!confirm(`Excluir o perfil "${perfil.nome}"? Os produtos dele voltam a usar o perfil padrão.`)) return;
+    try {
+      await excluirPerfilEmbalagem(perfil.id);
+      await carregar();
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Erro ao excluir perfil' });
+    }
+  };
+
+  const campo = (key: keyof FormPerfil, label: string, props: { type?: string; placeholder?: string } = {}) => (
+    <div>
+      <label className="block text-xs font-medium text-slate-600 mb-1">{label}</label>
+      <input
+        type={props.type || 'text'}
+        value={form[key]}
+        onChange={(e) => setForm(prev => ({ ...prev, [key]: e.target.value }))}
+        placeholder={props.placeholder}
+        className="w-full px-3 py-2 rounded-lg border border-slate-200 text-sm text-slate-800"
+      />
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200 p-6 w-full max-w-6xl">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-800">Catálogo de produtos</h2>
+          <p className="text-sm text-slate-500">
+            Peso, medidas e conteúdo declarado de cada produto na postagem. Sem cadastro: {PERFIL_EMBALAGEM_PADRAO.pesoGramas}g,{' '}
+            {PERFIL_EMBALAGEM_PADRAO.alturaCm}×{PERFIL_EMBALAGEM_PADRAO.larguraCm}×{PERFIL_EMBALAGEM_PADRAO.comprimentoCm} cm, {PERFIL_EMBALAGEM_PADRAO.conteudo}
+          </p>
+        </div>
+        {!editandoId && (
+          <button
+            onClick={() => abrirForm()}
+            className="px-4 py-2 rounded-lg text-sm font-medium bg-slate-800 text-white hover:bg-slate-900"
+          >
+            Novo perfil
+          </button>
+        )}
+      </div>
+
+      {editandoId && (
+        <div className="mb-6 p-4 rounded-lg border border-slate-200 bg-slate-50">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-3">
+            {campo('nome', 'Nome do perfil', { placeholder: 'Ex: Kit 3 livros' })}
+            {campo('codigos', 'Códigos/SKUs (separados por vírgula)', { placeholder: 'KIT3, KIT-3' })}
+          </div>
+          <div className="mb-3">
+            <label className="block text-xs font-medium text-slate-600 mb-1">
+              Nomes do produto nas plataformas (um por linha - usado quando o CSV não tem código)
+            </label>
+            <textarea
+              value={form.nomesProduto}
+              onChange={(e) => setForm(prev => ({ ...prev, nomesProduto: e.target.value }))}
+              rows={3}
+              className="w-full px-3 py-2 rounded-lg border border-slate-200 text-sm text-slate-800"
+            />
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-3">
+            {campo('pesoGramas', 'Peso (g)', { type: 'number' })}
+            {campo('alturaCm', 'Altura (cm)', { type: 'number' })}
+            {campo('larguraCm', 'Largura (cm)', { type: 'number' })}
+            {campo('comprimentoCm', 'Comprimento (cm)', { type: 'number' })}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
+            {campo('conteudo', 'Conteúdo declarado', { placeholder: 'LIVRO' })}
+            {campo('valorDeclarado', 'Valor declarado (R$, vazio = sem)', { placeholder: '0,00' })}
+          </div>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="px-4 py-2 rounded-lg text-sm font-medium bg-slate-800 text-white hover:bg-slate-900 disabled:opacity-50"
+            >
+              {saving ? 'Salvando...' : 'Salvar perfil'}
+            </button>
+            <button
+              onClick={() => setEditandoId(null)}
+              className="px-4 py-2 rounded-lg text-sm font-medium bg-slate-100 text-slate-700 hover:bg-slate-200"
+            >
+              Cancelar
+            </button>
+          </div>
+        </div>
+      )}
+
+      {message && (
+        <div className={`mb-4 p-3 rounded-lg text-sm ${message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+          {message.text}
+        </div>
+      )}
+
+      {perfis.length === 0 ? (
+        <p className="text-sm text-slate-500 py-6 text-center">Nenhum perfil cadastrado - todas as postagens usam o perfil padrão</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-slate-500 border-b border-slate-200">
+                <th className="py-2 pr-3">Perfil</th>
+                <th className="py-2 pr-3">Produtos</th>
+                <th className="py-2 pr-3">Peso</th>
+                <th className="py-2 pr-3">Medidas (A×L×C)</th>
+                <th className="py-2 pr-3">Conteúdo</th>
+                <th className="py-2 pr-3">Valor declarado</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {perfis.map(p => (
+                <tr key={p.id} className="border-b border-slate-100">
+                  <td className="py-2 pr-3 font-medium text-slate-800">{p.nome}</td>
+                  <td className="py-2 pr-3 text-slate-600 text-xs">
+                    {[...p.codigos, ...p.nomesProduto].join(' · ')}
+                  </td>
+                  <td className="py-2 pr-3 text-slate-600">{p.pesoGramas}g</td>
+                  <td className="py-2 pr-3 text-slate-600">{p.alturaCm}×{p.larguraCm}×{p.comprimentoCm} cm</td>
+                  <td className="py-2 pr-3 text-slate-600">{p.conteudo}</td>
+                  <td className="py-2 pr-3 text-slate-600">
+                    {p.valorDeclarado ? p.valorDeclarado.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' }) : '-'}
+                  </td>
+                  <td className="py-2 text-right whitespace-nowrap">
+                    <button onClick={() => abrirForm(p)} className="text-xs font-medium text-blue-600 hover:underline mr-3">
+                      Editar
+                    </button>
+                    <button onClick={() => handleDelete(p)} className="text-xs font-medium text-red-600 hover:underline">
+                      Excluir
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
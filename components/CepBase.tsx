@@ -0,0 +1,96 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import Papa from 'papaparse';
+import { CepRegistro, linhaParaCepRegistro, importarCeps, registrarImportacaoCeps, carregarInfoBaseCeps } from '@/lib/cep';
+
+// Linhas gravadas por vez (mostra progresso em arquivos grandes)
+const LOTE_IMPORTACAO = 5000;
+
+export default function CepBase() {
+  const [info, setInfo] = useState<{ ultimoArquivo: string; ultimoTotal: number; atualizadoEm: string } | null>(null);
+  const [progresso, setProgresso] = useState<{ gravados: number; total: number } | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    carregarInfoBaseCeps().then(setInfo).catch(() => setInfo(null));
+  }, []);
+
+  const handleFile = (file: File) => {
+    setMessage(null);
+    Papa.parse<Record<string, string>>(file, {
+      header: true,
+      skipEmptyLines: true,
+      complete: async (results) => {
+        const registros = results.data
+          .map(linhaParaCepRegistro)
+          .filter((r): r is CepRegistro => r !== null);
+
+        if (registros.length === 0) {
+          setMessage({ type: 'error', text: 'Nenhum CEP válido. O arquivo precisa das colunas cep, cidade e uf (logradouro e bairro opcionais)' });
+          return;
+        }
+
+        try {
+          setProgresso({ gravados: 0, total: registros.length });
+          for (let i = 0; i < registros.length; i += LOTE_IMPORTACAO) {
+            await importarCeps(registros.slice(i, i + LOTE_IMPORTACAO));
+            setProgresso({ gravados: Math.min(i + LOTE_IMPORTACAO, registros.length), total: registros.length });
+          }
+          await registrarImportacaoCeps(registros.length, file.name);
+          setInfo({ ultimoArquivo: file.name, ultimoTotal: registros.length, atualizadoEm: new Date().toISOString() });
+
+          const ignorados = results.data.length - registros.length;
+          setMessage({
+            type: 'success',
+            text: `${registros.length} CEP(s) importado(s)${ignorados > 0 ? ` (${ignorados} linha(s) ignorada(s))` : ''}`,
+          });
+        } catch (err) {
+          setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Erro ao importar CEPs' });
+        } finally {
+          setProgresso(null);
+          if (fileInputRef.current) fileInputRef.current.value = '';
+        }
+      },
+      error: (err) => setMessage({ type: 'error', text: err.message }),
+    });
+  };
+
+  return (
+    <div style={{ marginBottom: '1.5rem' }}>
+      <label style={{ display: 'block', fontFamily: 'var(--font-inter)', fontSize: '0.75rem', fontWeight: 600, color: '#64748B', marginBottom: '0.375rem' }}>
+        📍 Base de CEPs (validação de endereço)
+      </label>
+      <p style={{ margin: '0 0 0.5rem 0', fontFamily: 'var(--font-inter)', fontSize: '0.75rem', color: '#64748B' }}>
+        {info
+          ? `${info.ultimoTotal.toLocaleString('pt-BR')} CEPs de ${info.ultimoArquivo} (${new Date(info.atualizadoEm).toLocaleDateString('pt-BR')})`
+          : 'Nenhuma base importada - só a UF é conferida pela faixa do CEP'}
+      </p>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".csv"
+        disabled={!!progresso}
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) handleFile(file);
+        }}
+        style={{ fontFamily: 'var(--font-inter)', fontSize: '0.75rem', color: '#314158' }}
+      />
+      {progresso && (
+        <p style={{ margin: '0.25rem 0 0 0', fontFamily: 'var(--font-inter)', fontSize: '0.75rem', color: '#3B82F6' }}>
+          Importando... {progresso.gravados.toLocaleString('pt-BR')}/{progresso.total.toLocaleString('pt-BR')}
+        </p>
+      )}
+      {message && (
+        <p style={{ margin: '0.25rem 0 0 0', fontFamily: 'var(--font-inter)', fontSize: '0.75rem', color: message.type === 'success' ? '#16A34A' : '#DC2626' }}>
+          {message.text}
+        </p>
+      )}
+      <p style={{ margin: '0.25rem 0 0 0', fontFamily: 'var(--font-inter)', fontSize: '0.625rem', color: '#94A3B8' }}>
+        CSV com colunas cep, logradouro, bairro, cidade, uf. Reimportar sobrescreve os CEPs existentes
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,324 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  RegraClassificacao,
+  RegraClassificacaoInput,
+  CriterioClassificacao,
+  ProdutoVisto,
+  CRITERIO_CLASSIFICACAO_LABELS,
+  fetchRegrasClassificacao,
+  fetchProdutosVistos,
+  salvarRegraClassificacao,
+  excluirRegraClassificacao,
+  validarRegraClassificacao,
+  classificarProduto,
+} from '@/lib/classificacaoProdutos';
+
+interface ClassificacaoProdutosProps {
+  userEmail?: string;
+}
+
+interface FormRegra {
+  criterio: CriterioClassificacao;
+  valor: string;
+  requerEnvio: boolean;
+  observacao: string;
+}
+
+const FORM_VAZIO: FormRegra = {
+  criterio: 'codigo',
+  valor: '',
+  requerEnvio: true,
+  observacao: '',
+};
+
+const PLACEHOLDER_VALOR: Record<CriterioClassificacao, string> = {
+  codigo: 'Ex: 1234567',
+  nome: 'Nome exatamente como vem da plataforma',
+  regex: 'Ex: ^Livro .* \\(f[ií]sico\\)$',
+  plataforma: 'Nome do modelo de importação (ex: WooCommerce)',
+};
+
+export default function ClassificacaoProdutos({ userEmail }: ClassificacaoProdutosProps) {
+  const [regras, setRegras] = useState<RegraClassificacao[]>([]);
+  const [produtos, setProdutos] = useState<ProdutoVisto[]>([]);
+  const [editandoId, setEditandoId] = useState<string | null>(null); // 'novo' para cadastro
+  const [form, setForm] = useState<FormRegra>(FORM_VAZIO);
+  const [saving, setSaving] = useState(false);
+  const [somenteSemRegra, setSomenteSemRegra] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const carregar = async () => {
+    try {
+      const [regrasSalvas, produtosVistos] = await Promise.all([fetchRegrasClassificacao(), fetchProdutosVistos()]);
+      setRegras(regrasSalvas);
+      setProdutos(produtosVistos);
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Erro ao carregar classificação' });
+    }
+  };
+
+  useEffect(() => {
+    carregar();
+  }, []);
+
+  const abrirForm = (regra?: RegraClassificacao) => {
+    setEditandoId(regra?.id || 'novo');
+    setForm(regra
+      ? { criterio: regra.criterio, valor: regra.valor, requerEnvio: regra.requerEnvio, observacao: regra.observacao || '' }
+      : FORM_VAZIO);
+    setMessage(null);
+  };
+
+  const salvar = async (regra: RegraClassificacaoInput, id?: string) => {
+    const erro = validarRegraClassificacao(regra);
+    if (erro) {
+      setMessage({ type: 'error', text: erro });
+      return;
+    }
+
+    setSaving(true);
+    setMessage(null);
+    try {
+      await salvarRegraClassificacao(regra, id);
+      setEditandoId(null);
+      setMessage({ type: 'success', text: 'Regra salva! Vale a partir do próximo upload.' });
+      await carregar();
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Erro ao salvar regra' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = () => salvar(
+    { ...form, atualizadoPor: userEmail },
+    editandoId === 'novo' ? undefined : editandoId || undefined
+  );
+
+  // Regra rápida a partir de um produto visto: pelo código quando tem, senão pelo nome exato
+  const classificarRapido = (produto: ProdutoVisto, requerEnvio: boolean) => salvar({
+    criterio: produto.codigo ? 'codigo' : 'nome',
+    valor: produto.codigo || produto.nome,
+    requerEnvio,
+    observacao: produto.codigo ? produto.nome : '',
+    atualizadoPor: userEmail,
+  });
+
+  const handleDelete = async (regra: RegraClassificacao) => {
+    if (!confirm(`Excluir a regra "${regra.valor}"? Os produtos dela voltam a ser classificados pela palavra-chave no nome.`)) return;
+    try {
+      await excluirRegraClassificacao(regra.id);
+      await carregar();
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Erro ao excluir regra' });
+    }
+  };
+
+  const produtosClassificados = produtos
+    .map(produto => ({ produto, classificacao: classificarProduto(regras, produto) }))
+    .filter(({ classificacao }) => !somenteSemRegra || !classificacao.regra);
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200 p-6 w-full max-w-6xl">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-800">Classificação de produtos</h2>
+          <p className="text-sm text-slate-500">
+            Define quais vendas precisam de etiqueta. Ordem: código, nome exato, regex, plataforma. Sem regra: nome com
+            &quot;físico&quot; ou &quot;kit&quot; é tratado como físico.
+          </p>
+        </div>
+        {!editandoId && (
+          <button
+            onClick={() => abrirForm()}
+            className="px-4 py-2 rounded-lg text-sm font-medium bg-slate-800 text-white hover:bg-slate-900"
+          >
+            Nova regra
+          </button>
+        )}
+      </div>
+
+      {editandoId && (
+        <div className="mb-6 p-4 rounded-lg border border-slate-200 bg-slate-50">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3 mb-3">
+            <div>
+              <label className="block text-xs font-medium text-slate-600 mb-1">Critério</label>
+              <select
+                value={form.criterio}
+                onChange={(e) => setForm(prev => ({ ...prev, criterio: e.target.value as CriterioClassificacao }))}
+                className="w-full px-3 py-2 rounded-lg border border-slate-200 text-sm text-slate-800 bg-white"
+              >
+                {(Object.keys(CRITERIO_CLASSIFICACAO_LABELS) as CriterioClassificacao[]).map(criterio => (
+                  <option key={criterio} value={criterio}>{CRITERIO_CLASSIFICACAO_LABELS[criterio]}</option>
+                ))}
+              </select>
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-xs font-medium text-slate-600 mb-1">Valor</label>
+              <input
+                value={form.valor}
+                onChange={(e) => setForm(prev => ({ ...prev, valor: e.target.value }))}
+                placeholder={PLACEHOLDER_VALOR[form.criterio]}
+                className="w-full px-3 py-2 rounded-lg border border-slate-200 text-sm text-slate-800"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-600 mb-1">Envio</label>
+              <select
+                value={form.requerEnvio ? 'sim' : 'nao'}
+                onChange={(e) => setForm(prev => ({ ...prev, requerEnvio: e.target.value === 'sim' }))}
+                className="w-full px-3 py-2 rounded-lg border border-slate-200 text-sm text-slate-800 bg-white"
+              >
+                <option value="sim">Físico - gera etiqueta</option>
+                <option value="nao">Digital - sem envio</option>
+              </select>
+            </div>
+          </div>
+          <div className="mb-4">
+            <label className="block text-xs font-medium text-slate-600 mb-1">Observação</label>
+            <input
+              value={form.observacao}
+              onChange={(e) => setForm(prev => ({ ...prev, observacao: e.target.value }))}
+              placeholder='Ex: bônus digital que tem "kit" no nome'
+              className="w-full px-3 py-2 rounded-lg border border-slate-200 text-sm text-slate-800"
+            />
+          </div>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="px-4 py-2 rounded-lg text-sm font-medium bg-slate-800 text-white hover:bg-slate-900 disabled:opacity-50"
+            >
+              {saving ? 'Salvando...' : 'Salvar regra'}
+            </button>
+            <button
+              onClick={() => setEditandoId(null)}
+              className="px-4 py-2 rounded-lg text-sm font-medium bg-slate-100 text-slate-700 hover:bg-slate-200"
+            >
+              Cancelar
+            </button>
+          </div>
+        </div>
+      )}
+
+      {message && (
+        <div className={`mb-4 p-3 rounded-lg text-sm ${message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+          {message.text}
+        </div>
+      )}
+
+      {regras.length > 0 && (
+        <div className="overflow-x-auto mb-6">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-slate-500 border-b border-slate-200">
+                <th className="py-2 pr-3">Critério</th>
+                <th className="py-2 pr-3">Valor</th>
+                <th className="py-2 pr-3">Envio</th>
+                <th className="py-2 pr-3">Observação</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {regras.map(r => (
+                <tr key={r.id} className="border-b border-slate-100">
+                  <td className="py-2 pr-3 text-slate-600">{CRITERIO_CLASSIFICACAO_LABELS[r.criterio]}</td>
+                  <td className="py-2 pr-3 font-medium text-slate-800 font-mono text-xs">{r.valor}</td>
+                  <td className="py-2 pr-3">
+                    <span className={`px-2 py-0.5 rounded text-xs font-medium ${r.requerEnvio ? 'bg-green-100 text-green-700' : 'bg-slate-100 text-slate-600'}`}>
+                      {r.requerEnvio ? 'Físico' : 'Digital'}
+                    </span>
+                  </td>
+                  <td className="py-2 pr-3 text-slate-500 text-xs">{r.observacao || '-'}</td>
+                  <td className="py-2 text-right whitespace-nowrap">
+                    <button onClick={() => abrirForm(r)} className="text-xs font-medium text-blue-600 hover:underline mr-3">
+                      Editar
+                    </button>
+                    <button onClick={() => handleDelete(r)} className="text-xs font-medium text-red-600 hover:underline">
+                      Excluir
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-semibold text-slate-700">Produtos vistos nos uploads ({produtos.length})</h3>
+        <label className="flex items-center gap-2 text-xs text-slate-600">
+          <input type="checkbox" checked={somenteSemRegra} onChange={(e) => setSomenteSemRegra(e.target.checked)} />
+          Somente sem regra
+        </label>
+      </div>
+
+      {produtosClassificados.length === 0 ? (
+        <p className="text-sm text-slate-500 py-6 text-center">
+          {produtos.length === 0 ? 'Nenhum produto registrado - faça um upload na tela de etiquetas' : 'Todos os produtos têm regra'}
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-slate-500 border-b border-slate-200">
+                <th className="py-2 pr-3">Produto</th>
+                <th className="py-2 pr-3">Código</th>
+                <th className="py-2 pr-3">Plataforma</th>
+                <th className="py-2 pr-3">Vendas</th>
+                <th className="py-2 pr-3">Último upload</th>
+                <th className="py-2 pr-3">Classificação</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {produtosClassificados.map(({ produto, classificacao }) => (
+                <tr key={produto.id} className="border-b border-slate-100">
+                  <td className="py-2 pr-3 text-slate-800">{produto.nome}</td>
+                  <td className="py-2 pr-3 text-slate-600 text-xs">{produto.codigo || '-'}</td>
+                  <td className="py-2 pr-3 text-slate-600 text-xs">{produto.plataforma || '-'}</td>
+                  <td className="py-2 pr-3 text-slate-600">{produto.ocorrencias}</td>
+                  <td className="py-2 pr-3 text-slate-500 text-xs">{new Date(produto.ultimaVez).toLocaleDateString('pt-BR')}</td>
+                  <td className="py-2 pr-3">
+                    <span className={`px-2 py-0.5 rounded text-xs font-medium ${classificacao.requerEnvio ? 'bg-green-100 text-green-700' : 'bg-slate-100 text-slate-600'}`}>
+                      {classificacao.requerEnvio ? 'Físico' : 'Digital'}
+                    </span>
+                    <span className="ml-2 text-xs text-slate-400">
+                      {classificacao.regra ? CRITERIO_CLASSIFICACAO_LABELS[classificacao.regra.criterio] : 'palavra-chave'}
+                    </span>
+                  </td>
+                  <td className="py-2 text-right whitespace-nowrap">
+                    {classificacao.regra ? (
+                      <button onClick={() => abrirForm(classificacao.regra || undefined)} className="text-xs font-medium text-blue-600 hover:underline">
+                        Ver regra
+                      </button>
+                    ) : (
+                      <>
+                        <button
+                          onClick={() => classificarRapido(produto, true)}
+                          disabled={saving}
+                          className="text-xs font-medium text-green-700 hover:underline mr-3 disabled:opacity-50"
+                        >
+                          Físico
+                        </button>
+                        <button
+                          onClick={() => classificarRapido(produto, false)}
+                          disabled={saving}
+                          className="text-xs font-medium text-slate-600 hover:underline disabled:opacity-50"
+                        >
+                          Digital
+                        </button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
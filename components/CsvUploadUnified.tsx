@@ -18,7 +18,8 @@ import {
   validateMapping,
   autoDetectColumns,
 } from '@/lib/integrationTemplates';
-import Papa from 'papaparse';
+import { lerCabecalhoCsv } from '@/lib/csvParser';
+import { enviarArquivoImportacao } from '@/lib/arquivosImportacao';
 
 interface JobData {
   id: string;
@@ -32,7 +33,17 @@ interface JobData {
   sucessos: number;
   erros: number;
   ignorados: number;
-  ultimoIndice?: number; // Para retomada em caso de travamento
+  estornados?: number; // Reembolsos/chargebacks/cancelamentos revertidos no Datacrazy
+  simulacao?: boolean; // Dry-run: nada foi gravado no Datacrazy
+  resumoSimulacao?: {
+    leadsNovos: number;
+    leadsExistentes: number;
+    negociosNovos: number;
+    negociosExistentes: number;
+    tagsInexistentes: string[];
+    motivosIgnorados: Array<{ motivo: string; total: number }>;
+  };
+  ultimoIndice?: number; // Registros do arquivo já lidos, para retomada em caso de travamento
   criadoEm: string;
   atualizadoEm: string;
   mensagem: string;
@@ -60,12 +71,14 @@ const CSV_DOCS: Record<string, {
   name: string;
   color: string;
   statusValue: string;
+  statusRefundValue: string; // Status que revertem o negócio (reembolso, chargeback, cancelamento)
   columns: { field: string; column: string; required: boolean }[];
 }> = {
   hubla: {
     name: 'Hubla',
     color: '#9333EA',
     statusValue: 'Paga',
+    statusRefundValue: 'Reembolsada, Estornada, Cancelada',
     columns: [
       { field: 'Email', column: 'Email do cliente', required: true },
       { field: 'Nome', column: 'Nome do cliente', required: true },
@@ -85,6 +98,7 @@ const CSV_DOCS: Record<string, {
     name: 'Hotmart',
     color: '#F97316',
     statusValue: 'Aprovado',
+    statusRefundValue: 'Reembolsado, Chargeback, Cancelado',
     columns: [
       { field: 'Email', column: 'Email', required: true },
       { field: 'Nome', column: 'Nome', required: true },
@@ -107,6 +121,7 @@ const CSV_DOCS: Record<string, {
     name: 'Eduzz',
     color: '#3B82F6',
     statusValue: 'Paga',
+    statusRefundValue: 'Reembolsada, Cancelada, Chargeback',
     columns: [
       { field: 'Email', column: 'Cliente / E-mail', required: true },
       { field: 'Nome', column: 'Cliente / Nome', required: true },
@@ -129,6 +144,7 @@ const CSV_DOCS: Record<string, {
     name: 'Kiwify',
     color: '#22C55E',
     statusValue: 'paid',
+    statusRefundValue: 'refunded, chargedback',
     columns: [
       { field: 'Email', column: 'Email', required: true },
       { field: 'Nome', column: 'Cliente', required: true },
@@ -151,6 +167,7 @@ const CSV_DOCS: Record<string, {
     name: 'WooCommerce',
     color: '#7C3AED',
     statusValue: 'wc-completed',
+    statusRefundValue: 'wc-refunded, wc-cancelled',
     columns: [
       { field: 'Email', column: 'Billing Email Address', required: true },
       { field: 'Nome', column: 'Billing First Name', required: true },
@@ -192,6 +209,14 @@ export default function CsvUploadUnified({ userEmail }: CsvUploadUnifiedProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const templateFileInputRef = useRef<HTMLInputElement>(null);
 
+  // Simulação (dry-run) antes de importar; guarda o último início para "Importar agora" repetir sem simular
+  const [simularPrimeiro, setSimularPrimeiro] = useState(false);
+  const ultimoInicioRef = useRef<{
+    file: File;
+    mapping?: IntegrationMapping | Partial<IntegrationMapping>;
+    stageId?: string;
+  } | null>(null);
+
   // Estados para templates personalizados
   const [customTemplates, setCustomTemplates] = useState<IntegrationTemplate[]>([]);
   const [isLoadingTemplates, setIsLoadingTemplates] = useState(true);
@@ -324,23 +349,19 @@ export default function CsvUploadUnified({ userEmail }: CsvUploadUnifiedProps) {
     loadTemplates();
   }, []);
 
-  // Processar arquivo CSV e extrair colunas
-  const extractCsvColumns = (file: File): Promise<string[]> => {
-    return new Promise((resolve) => {
-      Papa.parse(file, {
-        preview: 1,
-        complete: (results) => {
-          if (results.data && results.data.length > 0) {
-            resolve(results.data[0] as string[]);
-          } else {
-            resolve([]);
-          }
-        },
-        error: () => resolve([]),
-      });
-    });
+  // Processar arquivo CSV e extrair colunas (lê só até o fim do cabeçalho)
+  const extractCsvColumns = async (file: File): Promise<string[]> => {
+    try {
+      return await lerCabecalhoCsv(file.stream());
+    } catch {
+      return [];
+    }
   };
 
+  // Envia o CSV para o Storage (o servidor lê de lá em stream). Cada início envia de novo: a simulação e a
+  // importação concluída removem o arquivo
+  const arquivoNoStorage = (file: File): Promise<string> => enviarArquivoImportacao(file);
+
   // Handler: Clicar em modelo fixo
   const handleFixedPlatformClick = (platform: Platform) => {
     setPendingFixedPlatform(platform);
@@ -378,7 +399,10 @@ export default function CsvUploadUnified({ userEmail }: CsvUploadUnifiedProps) {
     } else if (pendingTemplate) {
       // Modelo personalizado: validar e processar
       const columns = await extractCsvColumns(file);
-      const templateColumns = Object.values(pendingTemplate.mapping).filter(Boolean);
+      // statusFilter/statusRefundFilter são valores de status, não colunas
+      const templateColumns = Object.entries(pendingTemplate.mapping)
+        .filter(([campo, valor]) => valor && campo !== 'statusFilter' && campo !== 'statusRefundFilter')
+        .map(([, valor]) => valor);
       const missingColumns = templateColumns.filter(col => !columns.includes(col));
 
       if (missingColumns.length > 0) {
@@ -408,19 +432,29 @@ export default function CsvUploadUnified({ userEmail }: CsvUploadUnifiedProps) {
   };
 
   // Iniciar importação com mapeamento customizado
-  const startImportWithMapping = async (file: File, mapping: IntegrationMapping | Partial<IntegrationMapping>, stageId: string) => {
+  const startImportWithMapping = async (
+    file: File,
+    mapping: IntegrationMapping | Partial<IntegrationMapping>,
+    stageId: string,
+    simular = simularPrimeiro
+  ) => {
     setIsStarting(true);
     setError(null);
 
-    const formData = new FormData();
-    formData.append('file', file);
-    formData.append('customMapping', JSON.stringify(mapping));
-    formData.append('stageId', stageId);
-
     try {
+      const caminhoArquivo = await arquivoNoStorage(file);
+      ultimoInicioRef.current = { file, mapping, stageId };
+
       const response = await fetch('/api/import-csv/iniciar', {
         method: 'POST',
-        body: formData,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          caminhoArquivo,
+          arquivo: file.name,
+          customMapping: mapping,
+          stageId,
+          dryRun: simular,
+        }),
       });
 
       const data = await response.json();
@@ -428,7 +462,7 @@ export default function CsvUploadUnified({ userEmail }: CsvUploadUnifiedProps) {
       if (!data.success) {
         setError(data.error || 'Erro ao iniciar importação');
       } else {
-        setCompletedFiles(prev => [...prev, file.name]);
+        if (!simular) setCompletedFiles(prev => [...prev, file.name]);
         setShowMappingModal(false);
         setPendingFileForMapping(null);
       }
@@ -538,7 +572,7 @@ export default function CsvUploadUnified({ userEmail }: CsvUploadUnifiedProps) {
     setNewTemplateName('');
   };
 
-  const startImport = async () => {
+  const startImport = async (simular = simularPrimeiro) => {
     if (files.length === 0 || isStarting || isRunning) return;
 
     const file = files[currentFileIndex];
@@ -546,14 +580,19 @@ export default function CsvUploadUnified({ userEmail }: CsvUploadUnifiedProps) {
     setIsStarting(true);
     setError(null);
 
-    const formData = new FormData();
-    formData.append('file', file);
-    formData.append('platform', selectedPlatform.id);
-
     try {
+      const caminhoArquivo = await arquivoNoStorage(file);
+      ultimoInicioRef.current = { file };
+
       const response = await fetch('/api/import-csv/iniciar', {
         method: 'POST',
-        body: formData,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          caminhoArquivo,
+          arquivo: file.name,
+          platform: selectedPlatform.id,
+          dryRun: simular,
+        }),
       });
 
       const data = await response.json();
@@ -564,8 +603,8 @@ export default function CsvUploadUnified({ userEmail }: CsvUploadUnifiedProps) {
           console.log('Debug:', data.debug);
         }
       } else {
-        // Marcar arquivo como iniciado
-        setCompletedFiles(prev => [...prev, file.name]);
+        // Marcar arquivo como iniciado (simulação não conta: o arquivo ainda vai ser importado)
+        if (!simular) setCompletedFiles(prev => [...prev, file.name]);
         // Job será detectado automaticamente pelo onSnapshot
       }
     } catch (e) {
@@ -575,6 +614,18 @@ export default function CsvUploadUnified({ userEmail }: CsvUploadUnifiedProps) {
     setIsStarting(false);
   };
 
+  // Depois da simulação: apaga o job da simulação e importa o mesmo arquivo de verdade
+  const importarAposSimulacao = async () => {
+    const inicio = ultimoInicioRef.current;
+    if (!inicio) return;
+    await clearJob();
+    if (inicio.mapping && inicio.stageId) {
+      await startImportWithMapping(inicio.file, inicio.mapping, inicio.stageId, false);
+    } else {
+      await startImport(false);
+    }
+  };
+
   const isRunning = activeJob?.status === 'processando' || activeJob?.status === 'pendente';
   const isCompleted = activeJob?.status === 'concluido';
   const isError = activeJob?.status === 'erro';
@@ -585,24 +636,18 @@ export default function CsvUploadUnified({ userEmail }: CsvUploadUnifiedProps) {
 
 
 
-  // Função para retomar job travado
+  // Função para retomar job travado (o servidor relê o arquivo guardado no Storage)
   const resumeJob = async () => {
-    if (!activeJob || files.length === 0 || isResuming) return;
-
-    const file = files[currentFileIndex];
-    if (!file) return;
+    if (!activeJob || isResuming) return;
 
     setIsResuming(true);
     setError(null);
 
-    const formData = new FormData();
-    formData.append('file', file);
-    formData.append('jobId', activeJob.id);
-
     try {
       const response = await fetch('/api/import-csv/retomar', {
         method: 'POST',
-        body: formData,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jobId: activeJob.id }),
       });
 
       const data = await response.json();
@@ -621,14 +666,14 @@ export default function CsvUploadUnified({ userEmail }: CsvUploadUnifiedProps) {
 
   // Avançar para próximo arquivo quando job completar
   useEffect(() => {
-    if (isCompleted && files.length > 0 && currentFileIndex < files.length - 1) {
+    if (isCompleted && !activeJob?.simulacao && files.length > 0 && currentFileIndex < files.length - 1) {
       const timer = setTimeout(() => {
         setCurrentFileIndex(prev => prev + 1);
         clearJob();
       }, 2000);
       return () => clearTimeout(timer);
     }
-  }, [isCompleted, files.length, currentFileIndex, clearJob]);
+  }, [isCompleted, activeJob?.simulacao, files.length, currentFileIndex, clearJob]);
 
   return (
     <div
@@ -692,6 +737,24 @@ export default function CsvUploadUnified({ userEmail }: CsvUploadUnifiedProps) {
         </button>
       </div>
 
+      {/* Simulação (dry-run) */}
+      {!isRunning && (
+        <label
+          className="flex items-center gap-2"
+          style={{ fontFamily: 'var(--font-inter)', fontSize: '0.875rem', color: '#314158', cursor: 'pointer' }}
+        >
+          <input
+            type="checkbox"
+            checked={simularPrimeiro}
+            onChange={(e) => setSimularPrimeiro(e.target.checked)}
+          />
+          Simular antes de importar
+          <span style={{ fontSize: '0.75rem', color: '#94A3B8' }}>
+            (mostra o que seria criado, estornado e ignorado, sem gravar nada no Datacrazy)
+          </span>
+        </label>
+      )}
+
       {/* Progress Section - Running */}
       {isRunning && activeJob && (
         <div
@@ -724,7 +787,7 @@ export default function CsvUploadUnified({ userEmail }: CsvUploadUnifiedProps) {
                     fontWeight: 600,
                   }}
                 >
-                  Importação em andamento
+                  {activeJob.simulacao ? 'Simulação em andamento' : 'Importação em andamento'}
                 </p>
                 <p
                   style={{
@@ -795,10 +858,20 @@ export default function CsvUploadUnified({ userEmail }: CsvUploadUnifiedProps) {
 
                       <span style={{ fontFamily: 'var(--font-inter)', fontSize: '0.75rem', color: '#64748B' }}>
 
-                        ⏭️ {activeJob.processados - activeJob.sucessos - activeJob.erros - activeJob.ignorados} existentes
+                        ⏭️ {activeJob.processados - activeJob.sucessos - (activeJob.estornados || 0) - activeJob.erros - activeJob.ignorados} existentes
 
                       </span>
 
+                      {(activeJob.estornados || 0) > 0 && (
+
+                        <span style={{ fontFamily: 'var(--font-inter)', fontSize: '0.75rem', color: '#7C3AED' }}>
+
+                          ↩️ {activeJob.estornados} estornados
+
+                        </span>
+
+                      )}
+
                       <span style={{ fontFamily: 'var(--font-inter)', fontSize: '0.75rem', color: '#DC2626' }}>
 
                         ❌ {activeJob.erros} erros
@@ -1073,7 +1146,9 @@ export default function CsvUploadUnified({ userEmail }: CsvUploadUnifiedProps) {
                   color: isCompleted ? '#16A34A' : isCancelled ? '#D97706' : '#DC2626',
                 }}
               >
-                {isCompleted ? 'Importação concluída' : isCancelled ? 'Importação cancelada' : 'Erro na importação'}
+                {activeJob.simulacao
+                  ? isCompleted ? 'Simulação concluída - nada foi gravado' : isCancelled ? 'Simulação cancelada' : 'Erro na simulação'
+                  : isCompleted ? 'Importação concluída' : isCancelled ? 'Importação cancelada' : 'Erro na importação'}
               </span>
             </div>
             <button
@@ -1104,17 +1179,101 @@ export default function CsvUploadUnified({ userEmail }: CsvUploadUnifiedProps) {
             {activeJob.mensagem}
           </p>
 
+          {activeJob.simulacao ? (
+            <div className="flex flex-col gap-3">
+              <div className="flex gap-4 flex-wrap">
+                <span style={{ fontFamily: 'var(--font-inter)', fontSize: '0.75rem', color: '#16A34A' }}>
+                  ✅ {activeJob.sucessos} a importar
+                </span>
+                <span style={{ fontFamily: 'var(--font-inter)', fontSize: '0.75rem', color: '#7C3AED' }}>
+                  ↩️ {activeJob.estornados || 0} a estornar
+                </span>
+                <span style={{ fontFamily: 'var(--font-inter)', fontSize: '0.75rem', color: '#D97706' }}>
+                  ⚠️ {activeJob.ignorados} ignorados
+                </span>
+                <span style={{ fontFamily: 'var(--font-inter)', fontSize: '0.75rem', color: '#DC2626' }}>
+                  ❌ {activeJob.erros} erros
+                </span>
+              </div>
+
+              {activeJob.resumoSimulacao && (
+                <div style={{ fontFamily: 'var(--font-inter)', fontSize: '0.75rem', color: '#475569' }}>
+                  <p style={{ margin: 0 }}>
+                    Leads: {activeJob.resumoSimulacao.leadsNovos} novos, {activeJob.resumoSimulacao.leadsExistentes} existentes •
+                    Negócios: {activeJob.resumoSimulacao.negociosNovos} novos, {activeJob.resumoSimulacao.negociosExistentes} existentes
+                  </p>
+                  {activeJob.resumoSimulacao.tagsInexistentes.length > 0 && (
+                    <p style={{ margin: 0, marginTop: '0.25rem', color: '#B45309' }}>
+                      Tags que não existem no Datacrazy (o lead fica sem tag): {activeJob.resumoSimulacao.tagsInexistentes.join(', ')}
+                    </p>
+                  )}
+                  {activeJob.resumoSimulacao.motivosIgnorados.length > 0 && (
+                    <ul style={{ margin: 0, marginTop: '0.25rem', paddingLeft: '1rem' }}>
+                      {activeJob.resumoSimulacao.motivosIgnorados.slice(0, 5).map(m => (
+                        <li key={m.motivo}>{m.total}× {m.motivo}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+
+              {isCompleted && (
+                <div className="flex gap-2 flex-wrap">
+                  <a
+                    href={`/api/import-csv/relatorio?jobId=${activeJob.id}`}
+                    style={{
+                      fontFamily: 'var(--font-inter)',
+                      fontSize: '0.875rem',
+                      fontWeight: 500,
+                      color: '#3B82F6',
+                      border: '1px solid #BFDBFE',
+                      borderRadius: '0.5rem',
+                      padding: '0.5rem 0.75rem',
+                      textDecoration: 'none',
+                    }}
+                  >
+                    Baixar relatório
+                  </a>
+                  {ultimoInicioRef.current && (
+                    <button
+                      onClick={importarAposSimulacao}
+                      disabled={isStarting}
+                      style={{
+                        fontFamily: 'var(--font-inter)',
+                        fontSize: '0.875rem',
+                        fontWeight: 600,
+                        color: '#FFFFFF',
+                        backgroundColor: '#16A34A',
+                        border: 'none',
+                        borderRadius: '0.5rem',
+                        padding: '0.5rem 0.75rem',
+                        cursor: isStarting ? 'not-allowed' : 'pointer',
+                      }}
+                    >
+                      {isStarting ? 'Iniciando...' : 'Importar agora'}
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          ) : (
           <div className="flex gap-4 flex-wrap">
             <span style={{ fontFamily: 'var(--font-inter)', fontSize: '0.75rem', color: '#16A34A' }}>
               ✅ {activeJob.sucessos} criados
             </span>
             <span style={{ fontFamily: 'var(--font-inter)', fontSize: '0.75rem', color: '#64748B' }}>
-              ⏭️ {activeJob.processados - activeJob.sucessos - activeJob.erros - activeJob.ignorados} existentes
+              ⏭️ {activeJob.processados - activeJob.sucessos - (activeJob.estornados || 0) - activeJob.erros - activeJob.ignorados} existentes
             </span>
+            {(activeJob.estornados || 0) > 0 && (
+              <span style={{ fontFamily: 'var(--font-inter)', fontSize: '0.75rem', color: '#7C3AED' }}>
+                ↩️ {activeJob.estornados} estornados
+              </span>
+            )}
             <span style={{ fontFamily: 'var(--font-inter)', fontSize: '0.75rem', color: '#DC2626' }}>
               ❌ {activeJob.erros} erros
             </span>
           </div>
+          )}
         </div>
       )}
 
@@ -1605,7 +1764,7 @@ export default function CsvUploadUnified({ userEmail }: CsvUploadUnifiedProps) {
           {/* Import Button - só mostrar quando tem arquivos */}
           {files.length > 0 && (
           <button
-            onClick={startImport}
+            onClick={() => startImport()}
             disabled={files.length === 0 || isStarting}
             style={{
               width: '100%',
@@ -1621,7 +1780,11 @@ export default function CsvUploadUnified({ userEmail }: CsvUploadUnifiedProps) {
               transition: 'all 0.2s',
             }}
           >
-            {isStarting ? 'Iniciando...' : files.length > 1 ? `Iniciar Importação (${files.length} arquivos)` : 'Iniciar Importação'}
+            {isStarting
+              ? 'Iniciando...'
+              : simularPrimeiro
+                ? 'Simular Importação'
+                : files.length > 1 ? `Iniciar Importação (${files.length} arquivos)` : 'Iniciar Importação'}
           </button>
           )}
         </>
@@ -1886,7 +2049,19 @@ export default function CsvUploadUnified({ userEmail }: CsvUploadUnifiedProps) {
                         >
                           {CSV_DOCS[selectedDocPlatform].statusValue}
                         </code>{' '}
-                        serão importados.
+                        serão importados. Registros com status{' '}
+                        <code
+                          style={{
+                            backgroundColor: '#FDE68A',
+                            padding: '0.125rem 0.5rem',
+                            borderRadius: '0.25rem',
+                            fontFamily: 'monospace',
+                            fontSize: '0.75rem',
+                          }}
+                        >
+                          {CSV_DOCS[selectedDocPlatform].statusRefundValue}
+                        </code>{' '}
+                        movem o negócio existente para o stage de estorno e removem a tag do produto.
                       </p>
                     </div>
                   </div>
@@ -2246,25 +2421,43 @@ export default function CsvUploadUnified({ userEmail }: CsvUploadUnifiedProps) {
                     >
                       {FIELD_LABELS[field]}
                     </label>
-                    <select
-                      value={mappingForm[field] || ''}
-                      onChange={(e) => setMappingForm(prev => ({ ...prev, [field]: e.target.value }))}
-                      style={{
-                        flex: 1,
-                        padding: '0.5rem 0.75rem',
-                        fontFamily: 'var(--font-inter)',
-                        fontSize: '0.875rem',
-                        border: '1px solid #E2E8F0',
-                        borderRadius: '0.5rem',
-                        outline: 'none',
-                        backgroundColor: '#FFFFFF',
-                      }}
-                    >
-                      <option value="">Não mapear</option>
-                      {csvColumns.map(col => (
-                        <option key={col} value={col}>{col}</option>
-                      ))}
-                    </select>
+                    {field === 'statusRefundFilter' ? (
+                      <input
+                        type="text"
+                        value={mappingForm[field] || ''}
+                        onChange={(e) => setMappingForm(prev => ({ ...prev, [field]: e.target.value }))}
+                        placeholder="Ex: Reembolsado, Chargeback, Cancelado"
+                        style={{
+                          flex: 1,
+                          padding: '0.5rem 0.75rem',
+                          fontFamily: 'var(--font-inter)',
+                          fontSize: '0.875rem',
+                          border: '1px solid #E2E8F0',
+                          borderRadius: '0.5rem',
+                          outline: 'none',
+                        }}
+                      />
+                    ) : (
+                      <select
+                        value={mappingForm[field] || ''}
+                        onChange={(e) => setMappingForm(prev => ({ ...prev, [field]: e.target.value }))}
+                        style={{
+                          flex: 1,
+                          padding: '0.5rem 0.75rem',
+                          fontFamily: 'var(--font-inter)',
+                          fontSize: '0.875rem',
+                          border: '1px solid #E2E8F0',
+                          borderRadius: '0.5rem',
+                          outline: 'none',
+                          backgroundColor: '#FFFFFF',
+                        }}
+                      >
+                        <option value="">Não mapear</option>
+                        {csvColumns.map(col => (
+                          <option key={col} value={col}>{col}</option>
+                        ))}
+                      </select>
+                    )}
                   </div>
                 ))}
               </div>
@@ -4,23 +4,50 @@ import { useState, useRef, useEffect, useMemo } from 'react';
 import Image from 'next/image';
 import Papa from 'papaparse';
 import { db } from '@/lib/firebase';
-import { collection, query, where, getDocs, addDoc, Timestamp, deleteDoc, doc, updateDoc, getDoc, setDoc } from 'firebase/firestore';
-
-// Serviços ECT disponíveis (Correios) - códigos do contrato
-const SERVICOS_ECT = [
-  { code: '201501', name: 'IMPRESSO Normal Módico' },
-  { code: '3298', name: 'PAC Prata/Ouro/Platinum' },
-  { code: '3220', name: 'SEDEX Prata/Ouro/Platinum' },
-];
-
-const DEFAULT_SERVICO_ECT = '201501';
-
-// Função para verificar se é produto físico (contém "físico", "fisico" ou "kit" no nome)
-function isPhysicalProduct(productName: string): boolean {
-  const name = productName.toLowerCase();
-  // Verifica "físico" (com acento), "fisico" (sem acento) ou "kit"
-  return name.includes('físico') || name.includes('fisico') || name.includes('kit');
-}
+import { collection, query, where, getDocs, addDoc, Timestamp, deleteDoc, doc, updateDoc, getDoc, setDoc, onSnapshot } from 'firebase/firestore';
+import { DeliveryStatus, DELIVERY_STATUS_LABELS } from '@/lib/tracking';
+import { saveLabel, montarImpressaoEtiqueta } from '@/lib/etiquetas';
+import type { EtiquetaRecord } from '@/lib/etiquetas';
+import { JOBS_ETIQUETAS_COLLECTION, buscarItensJob } from '@/lib/jobsEtiquetas';
+import type { PedidoJobEtiquetas, ItemJobEtiquetas, JobEtiquetas } from '@/lib/jobsEtiquetas';
+import { normalizarTelefone, telefoneParaCadastro } from '@/lib/telefone';
+import WhatsAppHistorico from '@/components/WhatsAppHistorico';
+import CepBase from '@/components/CepBase';
+import { validarEnderecos, ValidacaoEndereco, STATUS_ENDERECO_LABELS } from '@/lib/cep';
+import { MAX_VOLUMES_POR_POSTAGEM, fetchCatalogoProdutos, montarVolume } from '@/lib/catalogoProdutos';
+import type { ProdutoPedido, PerfilEmbalagem } from '@/lib/catalogoProdutos';
+import {
+  SERVICOS_ECT,
+  DEFAULT_SERVICO_ECT,
+  getServicoName,
+  carregarRegrasFrete,
+  proporServico,
+  parseValorPedido,
+  formatarEstimativa,
+} from '@/lib/regrasFrete';
+import type { RegrasFreteConfig, PropostaFrete } from '@/lib/regrasFrete';
+import { NotaFiscal, parseNfeXml, vincularNotas, notaFiscalDoCsv, buscarNotasFiscais, salvarNotasFiscais } from '@/lib/notasFiscais';
+import type { NfeXml } from '@/lib/notasFiscais';
+import type { DeclaracaoConteudo } from '@/lib/declaracaoConteudo';
+import { FORMATO_ETIQUETA_LABELS } from '@/lib/etiquetasPdf';
+import type { FormatoEtiqueta } from '@/lib/etiquetasPdf';
+import type { PedidoSeparacao } from '@/lib/relatorioSeparacao';
+import { fetchRegrasClassificacao, classificarProduto, registrarProdutosVistos } from '@/lib/classificacaoProdutos';
+import type { RegraClassificacao } from '@/lib/classificacaoProdutos';
+import { salvarPedidosImportados, buscarFilaPedidos, atualizarAjustesPedido, dadosDoPedido, chavePedido } from '@/lib/pedidos';
+import type { PedidoRegistro, AtualizacaoAjustesPedido } from '@/lib/pedidos';
+
+// Cores do badge de status de entrega (rastreio)
+const DELIVERY_STATUS_COLORS: Record<DeliveryStatus, string> = {
+  pending: 'bg-slate-100 text-slate-600',
+  posted: 'bg-blue-100 text-blue-700',
+  in_transit: 'bg-blue-100 text-blue-700',
+  out_for_delivery: 'bg-indigo-100 text-indigo-700',
+  awaiting_pickup: 'bg-orange-100 text-orange-700',
+  delivered: 'bg-green-100 text-green-700',
+  returned: 'bg-red-100 text-red-700',
+  exception: 'bg-red-100 text-red-700',
+};
 
 // Campos necessários para etiquetas
 const REQUIRED_FIELDS = ['transaction', 'name', 'zip'] as const;
@@ -44,6 +71,10 @@ const FIELD_DEFINITIONS: { key: string; label: string; required: boolean; descri
   { key: 'country', label: 'País', required: false, description: 'País' },
   { key: 'saleDate', label: 'Data da Venda', required: false, description: 'Data da transação' },
   { key: 'totalPrice', label: 'Valor Total', required: false, description: 'Valor da compra' },
+  { key: 'nfNumero', label: 'NF-e Número', required: false, description: 'Número da nota fiscal (sem nota = declaração de conteúdo)' },
+  { key: 'nfSerie', label: 'NF-e Série', required: false, description: 'Série da nota fiscal' },
+  { key: 'nfData', label: 'NF-e Emissão', required: false, description: 'Data de emissão da nota fiscal' },
+  { key: 'nfValor', label: 'NF-e Valor', required: false, description: 'Valor total da nota fiscal' },
 ];
 
 // Mapeamento padrão para Hotmart (formato 2025)
@@ -284,18 +315,68 @@ interface PhysicalSale {
   mergedProductNames?: string[]; // Lista de nomes de produtos (se mesclado)
   mergedOriginalSales?: OriginalSaleData[]; // Dados completos para restauração
   mergedInto?: string; // Se este pedido foi mesclado em outro, qual é o ID
+  deliveryStatus?: DeliveryStatus; // Status de entrega da última etiqueta (atualizado pelo worker de rastreio)
+  plataforma?: string; // Template do upload (chave do pedido na fila salva; ausente = pedido fora da fila)
 }
 
-interface EtiquetaRecord {
-  transactionId: string;
-  etiqueta: string;
-  destinatario: string;
-  createdAt: Timestamp;
-  envioNumero?: number; // Qual envio é este (1, 2, 3...)
-  enviosTotal?: number; // Total de envios planejados
-  // Campos para pedidos mesclados
-  mergedTransactionIds?: string[]; // Lista de transactionIds se for pedido mesclado
-  produtos?: string[]; // Lista de produtos se for pedido mesclado
+// Produtos do pedido para o catálogo de embalagens (mesclados guardam nomes e códigos separados)
+function produtosDoPedido(sale: PhysicalSale): ProdutoPedido[] {
+  if (sale.isMerged && sale.mergedProductNames && sale.mergedProductNames.length > 0) {
+    const codigos = sale.productCode.split(',');
+    return sale.mergedProductNames.map((nome, i) => ({ nome, codigo: codigos[i]?.trim() || undefined }));
+  }
+  return [{ nome: sale.productName, codigo: sale.productCode || undefined }];
+}
+
+// Baixar arquivo (PDF/CSV) retornado pela API
+function baixarArquivo(blob: Blob, nome: string) {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = nome;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(url);
+  document.body.removeChild(a);
+}
+
+// PDF das etiquetas: layout da ViPP (ImpressaoRemota) ou layout próprio com a lista de separação
+type FormatoImpressao = 'vipp' | FormatoEtiqueta;
+
+function buscarPdfEtiquetas(codigos: string[], formato: FormatoImpressao): Promise<Response> {
+  if (formato === 'vipp') {
+    return fetch('/api/vipp/imprimir', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ etiquetas: codigos }),
+    });
+  }
+  return fetch('/api/vipp/etiquetas-pdf', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ etiquetas: codigos, formato, listaSeparacao: true }),
+  });
+}
+
+// Declarações de conteúdo dos pedidos sem nota fiscal (impressas junto das etiquetas)
+async function baixarDeclaracoesConteudo(declaracoes: DeclaracaoConteudo[]) {
+  if (declaracoes.length === 0) return;
+  try {
+    const response = await fetch('/api/vipp/declaracao-conteudo', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ declaracoes }),
+    });
+    if (response.headers.get('content-type')?.includes('application/pdf')) {
+      baixarArquivo(await response.blob(), `declaracao-conteudo-${Date.now()}.pdf`);
+    } else {
+      const result = await response.json();
+      alert(`Erro ao gerar declaração de conteúdo: ${result.error}`);
+    }
+  } catch (err) {
+    console.error('Erro ao gerar declaração de conteúdo:', err);
+    alert('Erro ao baixar a declaração de conteúdo');
+  }
 }
 
 function parseCSV(text: string): Record<string, string>[] {
@@ -322,11 +403,14 @@ interface ExistingLabelData {
   enviosRealizados: number;
   enviosTotal: number;
   ultimaEtiqueta: string;
+  deliveryStatus: DeliveryStatus;
 }
 
 // Buscar etiquetas já geradas no Firebase
 async function fetchExistingLabels(transactionIds: string[]): Promise<Map<string, ExistingLabelData>> {
   const labelsMap = new Map<string, ExistingLabelData>();
+  // Envio/volume da etiqueta usada em ultimaEtiqueta/deliveryStatus - a query "in" não garante ordem
+  const ordemUltima = new Map<string, { envio: number; volume: number }>();
 
   if (transactionIds.length === 0) return labelsMap;
 
@@ -345,13 +429,26 @@ async function fetchExistingLabels(transactionIds: string[]): Promise<Map<string
       const snapshot = await getDocs(q);
       snapshot.forEach(doc => {
         const data = doc.data() as EtiquetaRecord;
+        // Cancelada: pedido volta a pendente/parcial
+        if (data.status === 'cancelled') return;
         const existing = labelsMap.get(data.transactionId);
+        // Volumes extras da mesma postagem não contam como novo envio
+        const contaComoEnvio = !data.volumeNumero || data.volumeNumero === 1;
+        const ordem = { envio: data.envioNumero || 1, volume: data.volumeNumero || 1 };
+        const atual = ordemUltima.get(data.transactionId);
+        // Última etiqueta = envio mais alto; dentro do envio, o menor volume (código principal da postagem). Canceladas já saíram acima
+        const ehUltima = !atual || ordem.envio > atual.envio || (ordem.envio === atual.envio && ordem.volume < atual.volume);
+        if (ehUltima) ordemUltima.set(data.transactionId, ordem);
 
         if (existing) {
           // Já tem etiquetas, adiciona mais uma
           existing.etiquetas.push(data.etiqueta);
-          existing.enviosRealizados = existing.etiquetas.length;
-          existing.ultimaEtiqueta = data.etiqueta;
+          if (contaComoEnvio) existing.enviosRealizados++;
+          // Status de entrega é o da última etiqueta (o envio mais novo do pedido)
+          if (ehUltima) {
+            existing.ultimaEtiqueta = data.etiqueta;
+            existing.deliveryStatus = data.deliveryStatus || 'pending';
+          }
           // Atualiza enviosTotal se o registro tiver essa info
           if (data.enviosTotal && data.enviosTotal > existing.enviosTotal) {
             existing.enviosTotal = data.enviosTotal;
@@ -361,9 +458,10 @@ async function fetchExistingLabels(transactionIds: string[]): Promise<Map<string
           // Se não tem enviosTotal no Firebase, considera 1 (etiquetas antigas)
           labelsMap.set(data.transactionId, {
             etiquetas: [data.etiqueta],
-            enviosRealizados: 1,
+            enviosRealizados: contaComoEnvio ? 1 : 0,
             enviosTotal: data.enviosTotal || 1, // Compatibilidade com etiquetas antigas
             ultimaEtiqueta: data.etiqueta,
+            deliveryStatus: data.deliveryStatus || 'pending',
           });
         }
       });
@@ -375,46 +473,45 @@ async function fetchExistingLabels(transactionIds: string[]): Promise<Map<string
   return labelsMap;
 }
 
-// Salvar etiqueta no Firebase
-async function saveLabel(
-  transactionId: string,
-  etiqueta: string,
-  destinatario: string,
-  envioNumero: number,
-  enviosTotal: number,
-  mergedTransactionIds?: string[],
-  produtos?: string[],
-  observacaoEnvio?: string
-): Promise<void> {
+// Ligar as etiquetas canceladas (todas as caixas) ao código reemitido
+async function vincularReemissao(codigosCancelados: string[], codigoNovo: string): Promise<void> {
   try {
-    const docData: Record<string, unknown> = {
-      transactionId,
-      etiqueta,
-      destinatario,
-      envioNumero,
-      enviosTotal,
-      createdAt: Timestamp.now(),
-    };
-
-    // Adicionar dados de merge se existirem
-    if (mergedTransactionIds && mergedTransactionIds.length > 0) {
-      docData.mergedTransactionIds = mergedTransactionIds;
-    }
-    if (produtos && produtos.length > 0) {
-      docData.produtos = produtos;
-    }
-    // Adicionar observação do envio parcial se existir
-    if (observacaoEnvio) {
-      docData.observacaoEnvio = observacaoEnvio;
-    }
-
-    await addDoc(collection(db, 'etiquetas'), docData);
+    const snapshot = await getDocs(query(collection(db, 'etiquetas'), where('etiqueta', 'in', codigosCancelados)));
+    await Promise.all(snapshot.docs.map(d => updateDoc(doc(db, 'etiquetas', d.id), { substituidaPor: codigoNovo })));
   } catch (err) {
-    console.error('Erro ao salvar etiqueta:', err);
-    throw err;
+    console.error('Erro ao vincular reemissão:', err);
   }
 }
 
+// Formulário do modal de cancelamento/reemissão
+interface CancelamentoForm {
+  etiqueta: string;
+  motivo: string;
+  reemitir: boolean;
+  // Destino corrigido para a reemissão (preenchido com os dados do pedido)
+  destino: {
+    nome: string;
+    logradouro: string;
+    numero: string;
+    complemento: string;
+    bairro: string;
+    cidade: string;
+    uf: string;
+    cep: string;
+  };
+}
+
+const DESTINO_CAMPOS: Array<{ campo: keyof CancelamentoForm['destino']; label: string }> = [
+  { campo: 'nome', label: 'Nome' },
+  { campo: 'cep', label: 'CEP' },
+  { campo: 'logradouro', label: 'Logradouro' },
+  { campo: 'numero', label: 'Número' },
+  { campo: 'complemento', label: 'Complemento' },
+  { campo: 'bairro', label: 'Bairro' },
+  { campo: 'cidade', label: 'Cidade' },
+  { campo: 'uf', label: 'UF' },
+];
+
 // Interface para configurações de etiquetas
 interface EtiquetasSettings {
   adminPhone: string;
@@ -422,6 +519,7 @@ interface EtiquetasSettings {
   sendToN8n: boolean;
   sendClientNotification: boolean;
   useTestCredentials: boolean;
+  formatoImpressao?: FormatoImpressao;
   updatedAt?: Timestamp;
 }
 
@@ -520,6 +618,168 @@ async function removeMergeFromFirebase(mergeId: string): Promise<void> {
   }
 }
 
+// Pedido da fila salva como venda da tela
+function pedidoParaVenda(pedido: PedidoRegistro): PhysicalSale {
+  return {
+    ...dadosDoPedido(pedido),
+    plataforma: pedido.plataforma || '',
+    selected: false,
+    servicoEct: DEFAULT_SERVICO_ECT,
+    etiquetaStatus: 'pending',
+    enviosTotal: pedido.ajustes?.enviosTotal || 1,
+    enviosRealizados: 0,
+  };
+}
+
+// Ajuste do operador na fila salva (mesclados e pedidos fora da fila não têm documento próprio)
+function salvarAjustesVenda(sale: PhysicalSale | undefined, ajustes: AtualizacaoAjustesPedido, operador?: string) {
+  if (!sale || sale.isMerged || sale.plataforma === undefined) return;
+  atualizarAjustesPedido(chavePedido(sale.plataforma, sale.transaction), ajustes, operador)
+    .catch(err => console.error(`[Fila] Erro ao salvar ajustes do pedido ${sale.transaction}:`, err));
+}
+
+interface FilaEtiquetas {
+  vendas: PhysicalSale[];
+  notas: Record<string, NotaFiscal>;
+  servicos: Record<string, string>; // Serviço escolhido à mão (key = transactionId)
+  observacoes: Record<string, string>; // Observação do próximo envio (key = transactionId)
+}
+
+// Fila salva pronta para a tela: etiquetas já geradas, notas fiscais, merges e ajustes do operador
+// (avulsos = pedidos do upload que não vieram na consulta, ex.: erro ao gravar a fila)
+async function carregarFilaEtiquetas(avulsos: PhysicalSale[] = [], notasCsv: NotaFiscal[] = []): Promise<FilaEtiquetas> {
+  let pedidos: PedidoRegistro[] = [];
+  try {
+    pedidos = await buscarFilaPedidos();
+    console.log('[Fila] Pedidos na fila salva:', pedidos.length);
+  } catch (filaErr) {
+    console.error('[Fila] Erro ao carregar a fila salva:', filaErr);
+  }
+
+  const naFila = new Set(pedidos.map(p => p.transaction));
+  const vendas: PhysicalSale[] = [
+    ...pedidos.map(pedidoParaVenda),
+    ...avulsos.filter(s => !naFila.has(s.transaction)),
+  ];
+
+  const servicos: Record<string, string> = {};
+  const observacoes: Record<string, string> = {};
+  pedidos.forEach(p => {
+    if (p.ajustes?.servicoEct) servicos[p.transaction] = p.ajustes.servicoEct;
+    if (p.ajustes?.observacaoEnvio) observacoes[p.transaction] = p.ajustes.observacaoEnvio;
+  });
+
+  // Buscar etiquetas já geradas
+  const transactionIds = vendas.map(s => s.transaction);
+  console.log('[Fila] Buscando etiquetas existentes para', transactionIds.length, 'transações...');
+  const existingLabels = await fetchExistingLabels(transactionIds);
+  console.log('[Fila] Etiquetas existentes encontradas:', existingLabels.size);
+
+  // Notas fiscais: colunas do CSV (gravadas para os próximos uploads) + já importadas antes
+  let notas: Record<string, NotaFiscal>;
+  try {
+    if (notasCsv.length > 0) await salvarNotasFiscais(notasCsv);
+    const notasSalvas = await buscarNotasFiscais(transactionIds);
+    notasCsv.forEach(n => notasSalvas.set(n.transactionId, n));
+    notas = Object.fromEntries(notasSalvas);
+    console.log('[Fila] Notas fiscais encontradas:', notasSalvas.size);
+  } catch (nfErr) {
+    console.error('[Fila] Erro ao carregar notas fiscais:', nfErr);
+    notas = Object.fromEntries(notasCsv.map(n => [n.transactionId, n]));
+  }
+
+  // Marcar as que já têm etiqueta e calcular status de envios
+  const withLabels = vendas.map(sale => {
+    const existingData = existingLabels.get(sale.transaction);
+    if (existingData) {
+      // Envios planejados: o maior entre o registrado nas etiquetas e o ajustado na fila
+      const enviosTotal = Math.max(existingData.enviosTotal, sale.enviosTotal || 1);
+      // Determinar status baseado em enviosRealizados vs enviosTotal
+      let status: 'generated' | 'partial' = 'generated';
+      if (existingData.enviosRealizados < enviosTotal) {
+        status = 'partial';
+      }
+      return {
+        ...sale,
+        selected: false,
+        etiqueta: existingData.ultimaEtiqueta,
+        etiquetas: existingData.etiquetas,
+        etiquetaStatus: status,
+        enviosTotal,
+        enviosRealizados: existingData.enviosRealizados,
+        deliveryStatus: existingData.deliveryStatus,
+      };
+    }
+    // Pedido sem etiqueta ainda - padrão 1 envio
+    return {
+      ...sale,
+      enviosTotal: sale.enviosTotal || 1,
+      enviosRealizados: 0,
+    };
+  });
+
+  // Auto-merge: Carregar merges salvos do Firebase e aplicar
+  console.log('[Fila] Carregando merges salvos do Firebase...');
+  const savedMerges = await loadSavedMerges();
+  console.log('[Fila] Merges carregados:', savedMerges.length);
+  let finalSales: PhysicalSale[] = [...withLabels];
+
+  for (const merge of savedMerges) {
+    // Extrair transações originais do merge salvo
+    const originalTransactions = merge.originalSales.map(s => s.transaction);
+
+    // Encontrar quais transações do merge estão presentes nos dados atuais
+    const presentTransactions = originalTransactions.filter(
+      transId => finalSales.some(s => s.transaction === transId)
+    );
+
+    if (presentTransactions.length > 0) {
+      // Pelo menos uma transação do merge está presente - aplicar merge
+      const salesToMerge = finalSales.filter(s =>
+        originalTransactions.includes(s.transaction)
+      );
+
+      if (salesToMerge.length > 0) {
+        // Usar o primeiro pedido encontrado como base
+        const baseSale = salesToMerge[0];
+
+        // Usar o mergeId consistente do Firebase
+        const mergedId = merge.mergeId;
+
+        // Usar dados do Firebase para produtos (garante consistência mesmo se parcial)
+        const allProducts = merge.originalSales.map(s => s.productName);
+        const allProductCodes = merge.originalSales.map(s => s.productCode);
+
+        // Criar pedido mesclado com dados completos do Firebase
+        const mergedSale: PhysicalSale = {
+          ...baseSale,
+          transaction: mergedId,
+          productName: allProducts.join('\n'),
+          productCode: allProductCodes.join(','),
+          selected: false,
+          isMerged: true,
+          mergedTransactions: originalTransactions,
+          mergedProductNames: allProducts,
+          mergedOriginalSales: merge.originalSales,
+          enviosTotal: baseSale.enviosTotal || 1,
+          enviosRealizados: baseSale.enviosRealizados || 0,
+          etiquetaStatus: baseSale.etiquetaStatus || 'pending',
+        };
+
+        // Remover os originais e adicionar o mesclado
+        finalSales = [
+          ...finalSales.filter(s => !originalTransactions.includes(s.transaction)),
+          mergedSale,
+        ];
+
+        console.log('Auto-merge aplicado:', originalTransactions, '→', mergedId);
+      }
+    }
+  }
+
+  return { vendas: finalSales, notas, servicos, observacoes };
+}
+
 // Carregar configurações do Firebase
 async function loadEtiquetasSettings(): Promise<EtiquetasSettings | null> {
   try {
@@ -548,7 +808,11 @@ async function saveEtiquetasSettings(settings: Omit<EtiquetasSettings, 'updatedA
   }
 }
 
-export default function EtiquetasUpload() {
+interface EtiquetasUploadProps {
+  userEmail?: string; // Operador registrado nos cancelamentos
+}
+
+export default function EtiquetasUpload({ userEmail }: EtiquetasUploadProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
@@ -558,7 +822,22 @@ export default function EtiquetasUpload() {
   const [error, setError] = useState<string | null>(null);
   const [generationProgress, setGenerationProgress] = useState({ current: 0, total: 0, success: 0, errors: 0 });
   const [statusFilter, setStatusFilter] = useState<'all' | 'pending' | 'partial' | 'generated' | 'merge'>('all');
-  const [selectedServicoEct, setSelectedServicoEct] = useState(DEFAULT_SERVICO_ECT);
+  const [deliveryFilter, setDeliveryFilter] = useState<'all' | DeliveryStatus>('all');
+  const [historicoTransaction, setHistoricoTransaction] = useState<string | null>(null);
+  const [cancelamentoSale, setCancelamentoSale] = useState<PhysicalSale | null>(null); // Pedido no modal de cancelamento/reemissão
+  const [cancelamentoForm, setCancelamentoForm] = useState<CancelamentoForm | null>(null);
+  const [isCancelando, setIsCancelando] = useState(false);
+  const [jobEtiquetasId, setJobEtiquetasId] = useState<string | null>(null); // Lote desta aba sendo acompanhado
+  const [lotesEmAndamento, setLotesEmAndamento] = useState<JobEtiquetas[]>([]); // Lotes processando no servidor (inclusive de outra aba)
+  const [enderecoValidacao, setEnderecoValidacao] = useState<Record<string, ValidacaoEndereco>>({}); // Resultado da conferência de endereço (key = transactionId)
+  const [servicoOverride, setServicoOverride] = useState<Record<string, string>>({}); // Serviço escolhido à mão (key = transactionId, ausente = proposta das regras)
+  const [catalogoProdutos, setCatalogoProdutos] = useState<PerfilEmbalagem[]>([]);
+  const [regrasFrete, setRegrasFrete] = useState<RegrasFreteConfig | null>(null);
+  const [notasFiscais, setNotasFiscais] = useState<Record<string, NotaFiscal>>({}); // NF-e por transação (pedidos sem nota levam declaração de conteúdo)
+  const [isImportingNfe, setIsImportingNfe] = useState(false);
+  const filaCarregadaRef = useRef(false); // Upload já montou a tela (carga inicial da fila não sobrescreve)
+  const [isAtualizandoFila, setIsAtualizandoFila] = useState(false);
+  const nfeInputRef = useRef<HTMLInputElement>(null);
   const [showServiceConfirmModal, setShowServiceConfirmModal] = useState(false);
   const [pendingGeneration, setPendingGeneration] = useState<PhysicalSale[]>([]);
   const [searchText, setSearchText] = useState('');
@@ -599,12 +878,14 @@ export default function EtiquetasUpload() {
   const [sendToN8n, setSendToN8n] = useState(true); // Enviar dados para n8n/webhook
   const [sendClientNotification, setSendClientNotification] = useState(false); // Notificar cliente via WhatsApp
   const [useTestCredentials, setUseTestCredentials] = useState(false); // Usar credenciais de teste VIPP
+  const [formatoImpressao, setFormatoImpressao] = useState<FormatoImpressao>('vipp'); // Layout do PDF das etiquetas
   const [adminPhone, setAdminPhone] = useState('5585987080090'); // Telefone admin para notificações
   const [clientPhoneOverride, setClientPhoneOverride] = useState(''); // Telefone para testar notificação cliente
   const [showGenerationConfirmModal, setShowGenerationConfirmModal] = useState(false); // Modal de confirmação geração
   const [confirmEtiquetasText, setConfirmEtiquetasText] = useState(''); // Texto de confirmação "etiquetas" (produção)
   const [confirmEnviarText, setConfirmEnviarText] = useState(''); // Texto de confirmação "enviar" (cliente)
   const [envioObservacoes, setEnvioObservacoes] = useState<Record<string, string>>({}); // Observações para envios parciais (key = transactionId)
+  const [envioVolumes, setEnvioVolumes] = useState<Record<string, number>>({}); // Caixas da postagem (key = transactionId, padrão 1)
   const [ordemPrioridade, setOrdemPrioridade] = useState<'antigos' | 'novos'>('antigos'); // Ordem de prioridade: antigos primeiro ou novos primeiro
   const [observacaoGeral, setObservacaoGeral] = useState(''); // Observação geral para mensagem do admin
   const [showNewUploadConfirm, setShowNewUploadConfirm] = useState(false); // Modal de confirmação novo upload
@@ -630,30 +911,69 @@ export default function EtiquetasUpload() {
         setSendToN8n(settings.sendToN8n !== false); // default true
         setSendClientNotification(settings.sendClientNotification || false);
         setUseTestCredentials(settings.useTestCredentials || false);
+        setFormatoImpressao(settings.formatoImpressao || 'vipp');
       }
     };
     loadSettings();
   }, []);
 
-  // Validar telefone brasileiro (13 dígitos, começa com 55)
-  const isValidPhone = (phone: string): boolean => {
-    const cleaned = phone.replace(/\D/g, '');
-    return cleaned.length === 13 && cleaned.startsWith('55');
-  };
+  // Carregar catálogo e regras de frete para propor o serviço de cada pedido
+  useEffect(() => {
+    fetchCatalogoProdutos()
+      .then(setCatalogoProdutos)
+      .catch(err => console.error('Erro ao carregar catálogo de produtos:', err));
+    carregarRegrasFrete().then(setRegrasFrete);
+  }, []);
+
+  // Abrir direto na fila salva (pedidos dos uploads anteriores)
+  useEffect(() => {
+    setIsProcessing(true);
+    carregarFilaEtiquetas()
+      .then(fila => {
+        // Upload feito enquanto carregava já trouxe a fila atualizada
+        if (filaCarregadaRef.current) return;
+        setNotasFiscais(fila.notas);
+        setServicoOverride(fila.servicos);
+        setEnvioObservacoes(fila.observacoes);
+        setPhysicalSales(fila.vendas);
+      })
+      .catch(err => console.error('[Fila] Erro ao abrir a fila salva:', err))
+      .finally(() => setIsProcessing(false));
+  }, []);
+
+  // Lotes de etiquetas processando no servidor (continuam mesmo com a aba fechada)
+  useEffect(() => {
+    const q = query(collection(db, JOBS_ETIQUETAS_COLLECTION), where('status', '==', 'processando'));
+    const unsubscribe = onSnapshot(q, (snapshot) => {
+      setLotesEmAndamento(snapshot.docs.map(d => d.data() as JobEtiquetas));
+    }, (err) => {
+      console.error('Erro ao acompanhar lotes de etiquetas:', err);
+    });
+    return () => unsubscribe();
+  }, []);
 
   // Salvar configurações no Firebase quando mudarem
   const handleSaveSettings = async () => {
-    // Validar telefone admin antes de salvar
-    if (!isValidPhone(adminPhone)) {
-      alert('Telefone do admin inválido! Deve ter 13 dígitos e começar com 55.\nExemplo: 5585987080090');
+    // Validar telefones antes de salvar (gravados já normalizados)
+    const admin = normalizarTelefone(adminPhone);
+    if (!admin.valido) {
+      alert(`Telefone do admin inválido: ${admin.mensagem}.\nExemplo: 5585987080090`);
+      return;
+    }
+    const clienteTeste = clientPhoneOverride ? normalizarTelefone(clientPhoneOverride) : null;
+    if (clienteTeste && !clienteTeste.valido) {
+      alert(`Telefone teste do cliente inválido: ${clienteTeste.mensagem}`);
       return;
     }
+    setAdminPhone(admin.numero);
+    setClientPhoneOverride(clienteTeste?.numero || '');
     await saveEtiquetasSettings({
-      adminPhone,
-      clientPhoneOverride,
+      adminPhone: admin.numero,
+      clientPhoneOverride: clienteTeste?.numero || '',
       sendToN8n,
       sendClientNotification,
       useTestCredentials,
+      formatoImpressao,
     });
   };
 
@@ -760,6 +1080,11 @@ export default function EtiquetasUpload() {
 
       if (!passesStatusFilter) return false;
 
+      // Filtro de rastreio (só faz sentido para pedidos com etiqueta)
+      if (deliveryFilter !== 'all' && (!sale.etiqueta || sale.deliveryStatus !== deliveryFilter)) {
+        return false;
+      }
+
       // Se tem texto de busca, filtrar por ele
       if (hasSearchText) {
         const searchNormalized = normalizeText(searchText);
@@ -811,7 +1136,7 @@ export default function EtiquetasUpload() {
     }
 
     return result;
-  }, [physicalSales, statusFilter, hasSearchText, searchText, mergeCandidateKeys]);
+  }, [physicalSales, statusFilter, deliveryFilter, hasSearchText, searchText, mergeCandidateKeys]);
 
   const handleFile = async (file: File) => {
     console.log('[CSV] Iniciando processamento do arquivo:', file.name);
@@ -824,6 +1149,7 @@ export default function EtiquetasUpload() {
     setIsProcessing(true);
     setError(null);
     setFileName(file.name);
+    setSelectedTemplate(null); // Upload sem template: sem plataforma nas regras de classificação
 
     try {
       console.log('[CSV] Lendo conteúdo do arquivo...');
@@ -898,8 +1224,8 @@ export default function EtiquetasUpload() {
     }
   };
 
-  // Processar CSV com o mapeamento configurado
-  const processCSVWithMapping = async (rows: Record<string, string>[], mapping: ColumnMapping) => {
+  // Processar CSV com o mapeamento configurado (plataforma = nome do template, usada nas regras de classificação)
+  const processCSVWithMapping = async (rows: Record<string, string>[], mapping: ColumnMapping, plataforma?: string) => {
     console.log('[CSV] processCSVWithMapping iniciado com', rows.length, 'linhas');
     console.log('[CSV] Mapping:', mapping);
     setIsProcessing(true);
@@ -909,14 +1235,33 @@ export default function EtiquetasUpload() {
       // Salvar mapeamento no localStorage
       localStorage.setItem('etiquetas_column_mapping', JSON.stringify(mapping));
 
+      // Regras de classificação de produto (sem regras vale a palavra-chave no nome)
+      let regrasClassificacao: RegraClassificacao[] = [];
+      try {
+        regrasClassificacao = await fetchRegrasClassificacao();
+      } catch (regrasErr) {
+        console.error('[CSV] Erro ao carregar regras de classificação, usando palavra-chave no nome:', regrasErr);
+      }
+
+      // Produtos do upload para a tela de classificação (não bloqueia o processamento)
+      registrarProdutosVistos(rows.map(row => ({
+        nome: row[mapping.productName] || '',
+        codigo: row[mapping.productCode] || undefined,
+        plataforma,
+      }))).catch(err => console.error('[CSV] Erro ao registrar produtos vistos:', err));
+
       // Filtrar vendas de produtos físicos com status Aprovado ou Completo
       const filtered = rows
         .filter(row => {
           const productName = row[mapping.productName] || '';
           const status = row[mapping.status] || '';
 
-          // Verificar se é produto físico (contém "físico" ou "fisico" no nome)
-          const isPhysical = isPhysicalProduct(productName);
+          // Verificar se o produto requer envio (regras cadastradas em Produtos)
+          const isPhysical = classificarProduto(regrasClassificacao, {
+            nome: productName,
+            codigo: row[mapping.productCode] || undefined,
+            plataforma,
+          }).requerEnvio;
 
           // Verificar status (se mapeado)
           // Se não tem coluna de status mapeada, aceita todos
@@ -936,7 +1281,7 @@ export default function EtiquetasUpload() {
           name: row[mapping.name] || '',
           document: row[mapping.document] || '',
           email: row[mapping.email] || '',
-          phone: row[mapping.phone] || '',
+          phone: telefoneParaCadastro(row[mapping.phone]),
           zip: row[mapping.zip] || '',
           city: row[mapping.city] || '',
           state: (() => {
@@ -969,100 +1314,35 @@ export default function EtiquetasUpload() {
         });
       }
 
-      // Buscar etiquetas já geradas
-      const transactionIds = filtered.map(s => s.transaction);
-      console.log('[CSV] Buscando etiquetas existentes para', transactionIds.length, 'transações...');
-      const existingLabels = await fetchExistingLabels(transactionIds);
-      console.log('[CSV] Etiquetas existentes encontradas:', existingLabels.size);
-
-      // Marcar as que já têm etiqueta e calcular status de envios
-      const withLabels = filtered.map(sale => {
-        const existingData = existingLabels.get(sale.transaction);
-        if (existingData) {
-          // Determinar status baseado em enviosRealizados vs enviosTotal
-          let status: 'generated' | 'partial' = 'generated';
-          if (existingData.enviosRealizados < existingData.enviosTotal) {
-            status = 'partial';
-          }
-          return {
-            ...sale,
-            selected: false,
-            etiqueta: existingData.ultimaEtiqueta,
-            etiquetas: existingData.etiquetas,
-            etiquetaStatus: status,
-            enviosTotal: existingData.enviosTotal,
-            enviosRealizados: existingData.enviosRealizados,
-          };
-        }
-        // Pedido sem etiqueta ainda - padrão 1 envio
-        return {
-          ...sale,
-          enviosTotal: 1,
-          enviosRealizados: 0,
-        };
-      });
-
-      // Auto-merge: Carregar merges salvos do Firebase e aplicar
-      console.log('[CSV] Carregando merges salvos do Firebase...');
-      const savedMerges = await loadSavedMerges();
-      console.log('[CSV] Merges carregados:', savedMerges.length);
-      let finalSales: PhysicalSale[] = [...withLabels];
-
-      for (const merge of savedMerges) {
-        // Extrair transações originais do merge salvo
-        const originalTransactions = merge.originalSales.map(s => s.transaction);
-
-        // Encontrar quais transações do merge estão presentes nos dados atuais
-        const presentTransactions = originalTransactions.filter(
-          transId => finalSales.some(s => s.transaction === transId)
-        );
-
-        if (presentTransactions.length > 0) {
-          // Pelo menos uma transação do merge está presente - aplicar merge
-          const salesToMerge = finalSales.filter(s =>
-            originalTransactions.includes(s.transaction)
-          );
-
-          if (salesToMerge.length > 0) {
-            // Usar o primeiro pedido encontrado como base
-            const baseSale = salesToMerge[0];
-
-            // Usar o mergeId consistente do Firebase
-            const mergedId = merge.mergeId;
-
-            // Usar dados do Firebase para produtos (garante consistência mesmo se parcial)
-            const allProducts = merge.originalSales.map(s => s.productName);
-            const allProductCodes = merge.originalSales.map(s => s.productCode);
-
-            // Criar pedido mesclado com dados completos do Firebase
-            const mergedSale: PhysicalSale = {
-              ...baseSale,
-              transaction: mergedId,
-              productName: allProducts.join('\n'),
-              productCode: allProductCodes.join(','),
-              selected: false,
-              isMerged: true,
-              mergedTransactions: originalTransactions,
-              mergedProductNames: allProducts,
-              mergedOriginalSales: merge.originalSales,
-              enviosTotal: baseSale.enviosTotal || 1,
-              enviosRealizados: baseSale.enviosRealizados || 0,
-              etiquetaStatus: baseSale.etiquetaStatus || 'pending',
-            };
-
-            // Remover os originais e adicionar o mesclado
-            finalSales = [
-              ...finalSales.filter(s => !originalTransactions.includes(s.transaction)),
-              mergedSale,
-            ];
-
-            console.log('Auto-merge aplicado:', originalTransactions, '→', mergedId);
-          }
-        }
+      // Fila salva: upsert dos pedidos do upload; a tela mostra a fila inteira (uploads anteriores e de outros operadores)
+      let importados: PhysicalSale[] = filtered.map(sale => ({ ...sale, enviosTotal: 1, enviosRealizados: 0 }));
+      try {
+        const novos = await salvarPedidosImportados(importados, plataforma);
+        importados = importados.map(sale => ({ ...sale, plataforma: plataforma || '' }));
+        console.log('[CSV] Fila de pedidos atualizada:', novos, 'novo(s) de', importados.length);
+      } catch (filaErr) {
+        console.error('[CSV] Erro ao salvar pedidos na fila (seguindo só com este upload):', filaErr);
       }
 
-      console.log('[CSV] Setando', finalSales.length, 'pedidos físicos para exibição');
-      setPhysicalSales(finalSales);
+      // Notas fiscais das colunas do CSV (só dos pedidos físicos do upload)
+      const transactionIds = filtered.map(s => s.transaction);
+      const notasCsv = rows
+        .map(row => notaFiscalDoCsv(row[mapping.transaction] || '', {
+          numero: row[mapping.nfNumero],
+          serie: row[mapping.nfSerie],
+          data: row[mapping.nfData],
+          valor: row[mapping.nfValor],
+        }))
+        .filter((n): n is NotaFiscal => n !== null && transactionIds.includes(n.transactionId));
+
+      const fila = await carregarFilaEtiquetas(importados, notasCsv);
+      filaCarregadaRef.current = true;
+      setNotasFiscais(fila.notas);
+      setServicoOverride(fila.servicos);
+      setEnvioObservacoes(fila.observacoes);
+
+      console.log('[CSV] Setando', fila.vendas.length, 'pedidos físicos para exibição');
+      setPhysicalSales(fila.vendas);
       console.log('[CSV] processCSVWithMapping CONCLUÍDO com sucesso');
     } catch (err) {
       console.error('[CSV] ERRO em processCSVWithMapping:', err);
@@ -1087,7 +1367,7 @@ export default function EtiquetasUpload() {
       return;
     }
 
-    processCSVWithMapping(csvData, columnMapping);
+    processCSVWithMapping(csvData, columnMapping, selectedTemplate?.name);
   };
 
   // Atualizar mapeamento de uma coluna
@@ -1171,7 +1451,7 @@ export default function EtiquetasUpload() {
         console.log('[CSV] Template válido, processando direto...');
         setColumnMapping(templateMapping);
         setIsProcessing(false);
-        processCSVWithMapping(rows, templateMapping);
+        processCSVWithMapping(rows, templateMapping, template.name);
       } else {
         // Template inválido - mostrar modal de incompatibilidade
         console.log('[CSV] Template inválido para este CSV, mostrando modal...');
@@ -1254,7 +1534,7 @@ export default function EtiquetasUpload() {
       setShowColumnMappingModal(false);
 
       // Processar o CSV
-      processCSVWithMapping(csvData, columnMapping);
+      processCSVWithMapping(csvData, columnMapping, newTemplateName.trim());
     } catch (err) {
       setError('Erro ao salvar modelo');
       console.error(err);
@@ -1385,13 +1665,16 @@ export default function EtiquetasUpload() {
     setPhysicalSales(physicalSales.map(s =>
       s.transaction === transaction ? { ...s, enviosTotal: newTotal } : s
     ));
+    salvarAjustesVenda(physicalSales.find(s => s.transaction === transaction), { enviosTotal: newTotal }, userEmail);
   };
 
   // Incrementar enviosTotal para pedidos parciais (permitir mais envios)
   const incrementEnviosTotal = (transaction: string) => {
+    const sale = physicalSales.find(s => s.transaction === transaction);
     setPhysicalSales(physicalSales.map(s =>
       s.transaction === transaction ? { ...s, enviosTotal: s.enviosTotal + 1 } : s
     ));
+    if (sale) salvarAjustesVenda(sale, { enviosTotal: sale.enviosTotal + 1 }, userEmail);
   };
 
   // Verificar e iniciar merge de pedidos selecionados
@@ -1649,18 +1932,140 @@ export default function EtiquetasUpload() {
     });
   };
 
-  // Obter nome do serviço pelo código
-  const getServicoName = (code: string) => {
-    return SERVICOS_ECT.find(s => s.code === code)?.name || code;
+  // Serviço proposto pelas regras de frete (key = transactionId)
+  const propostasFrete = useMemo(() => {
+    const propostas: Record<string, PropostaFrete> = {};
+    if (!regrasFrete) return propostas;
+
+    physicalSales.filter(s => !s.mergedInto).forEach(sale => {
+      // Mesclados: valor do pedido é a soma dos originais
+      const valorPedido = sale.isMerged && sale.mergedOriginalSales && sale.mergedOriginalSales.length > 0
+        ? sale.mergedOriginalSales.reduce((total, original) => total + parseValorPedido(original.totalPrice), 0)
+        : parseValorPedido(sale.totalPrice);
+      propostas[sale.transaction] = proporServico(
+        regrasFrete,
+        montarVolume(catalogoProdutos, produtosDoPedido(sale)),
+        { cep: sale.zip, uf: sale.state, cidade: sale.city, valorPedido }
+      );
+    });
+    return propostas;
+  }, [physicalSales, catalogoProdutos, regrasFrete]);
+
+  // Serviço do pedido: escolha manual ou proposta das regras
+  const servicoDoPedido = (sale: PhysicalSale) =>
+    servicoOverride[sale.transaction] || propostasFrete[sale.transaction]?.servico || DEFAULT_SERVICO_ECT;
+
+  // Notas fiscais do pedido (mesclados juntam as notas das transações originais)
+  const notasDoPedido = (sale: PhysicalSale): NotaFiscal[] => {
+    const ids = sale.isMerged && sale.mergedTransactions ? sale.mergedTransactions : [sale.transaction];
+    return ids.map(id => notasFiscais[id]).filter((n): n is NotaFiscal => !!n);
   };
 
-  // Conta selecionados que podem receber novas etiquetas (pendentes ou parciais com envios faltando)
-  const selectedCount = physicalSales.filter(s =>
+  // Declaração de conteúdo do pedido: itens e valores do CSV, peso pelo catálogo
+  const declaracaoDoPedido = (sale: PhysicalSale, codigoRastreio?: string): DeclaracaoConteudo => {
+    const itens = sale.isMerged && sale.mergedOriginalSales && sale.mergedOriginalSales.length > 0
+      ? sale.mergedOriginalSales.map(o => ({ descricao: o.productName, quantidade: 1, valor: parseValorPedido(o.totalPrice) }))
+      : [{ descricao: sale.productName, quantidade: 1, valor: parseValorPedido(sale.totalPrice) }];
+    return {
+      transactionId: sale.transaction,
+      codigoRastreio,
+      destinatario: {
+        nome: sale.name,
+        documento: sale.document,
+        endereco: `${sale.address}, ${sale.number || 'S/N'}${sale.complement ? ` - ${sale.complement}` : ''} - ${sale.neighborhood}`,
+        cidade: sale.city,
+        uf: sale.state,
+        cep: sale.zip,
+      },
+      itens,
+      pesoGramas: montarVolume(catalogoProdutos, produtosDoPedido(sale)).pesoGramas,
+    };
+  };
+
+  // Importar pasta de XMLs de NF-e e vincular aos pedidos carregados
+  const handleImportNfe = async (files: FileList) => {
+    const xmls = Array.from(files).filter(f => f.name.toLowerCase().endsWith('.xml'));
+    if (xmls.length === 0) {
+      alert('Nenhum arquivo .xml encontrado');
+      return;
+    }
+
+    setIsImportingNfe(true);
+    try {
+      const nfes = (await Promise.all(xmls.map(async f => parseNfeXml(await f.text(), f.name))))
+        .filter((n): n is NfeXml => n !== null);
+      // Mesclados: notas ficam nas transações originais
+      const vendas = [
+        ...physicalSales.filter(s => !s.isMerged),
+        ...physicalSales.flatMap(s => s.mergedOriginalSales || []),
+      ];
+      const { notas, semPedido } = vincularNotas(nfes, vendas);
+
+      if (notas.length > 0) {
+        await salvarNotasFiscais(notas);
+        setNotasFiscais(prev => ({ ...prev, ...Object.fromEntries(notas.map(n => [n.transactionId, n])) }));
+      }
+
+      const ignorados = xmls.length - nfes.length;
+      alert(
+        `${notas.length} nota(s) vinculada(s) aos pedidos.` +
+        (semPedido.length > 0 ? `\n\nSem pedido correspondente (${semPedido.length}): ${semPedido.map(n => `NF ${n.numero} (${n.arquivo})`).join(', ')}` : '') +
+        (ignorados > 0 ? `\n\n${ignorados} arquivo(s) não são NF-e` : '')
+      );
+    } catch (err) {
+      console.error('Erro ao importar NF-e:', err);
+      alert(`Erro ao importar NF-e: ${err instanceof Error ? err.message : 'erro desconhecido'}`);
+    } finally {
+      setIsImportingNfe(false);
+      if (nfeInputRef.current) nfeInputRef.current.value = '';
+    }
+  };
+
+  // Trocar o serviço de um pedido (voltar para a proposta remove a escolha manual)
+  const handleServicoPedido = (sale: PhysicalSale, servico: string) => {
+    const proposta = servico === propostasFrete[sale.transaction]?.servico;
+    setServicoOverride(prev => {
+      const next = { ...prev };
+      if (proposta) delete next[sale.transaction];
+      else next[sale.transaction] = servico;
+      return next;
+    });
+    salvarAjustesVenda(sale, { servicoEct: proposta ? null : servico }, userEmail);
+  };
+
+  // Selecionados que podem receber novas etiquetas (pendentes ou parciais com envios faltando)
+  const selectedPendentes = physicalSales.filter(s =>
     s.selected && !s.mergedInto && (
       s.etiquetaStatus === 'pending' ||
       (s.etiquetaStatus === 'partial' && s.enviosRealizados < s.enviosTotal)
     )
-  ).length;
+  );
+  const selectedCount = selectedPendentes.length;
+
+  // Seletor geral: automático (regras), um serviço para todos os selecionados ou misto
+  const servicosSelecionados = new Set(selectedPendentes.map(s => servicoOverride[s.transaction] || 'auto'));
+  const servicoGeral = servicosSelecionados.size === 1 ? [...servicosSelecionados][0] : 'manual';
+
+  const handleServicoGeral = (servico: string) => {
+    setServicoOverride(prev => {
+      const next = { ...prev };
+      selectedPendentes.forEach(s => {
+        if (servico === 'auto') delete next[s.transaction];
+        else next[s.transaction] = servico;
+      });
+      return next;
+    });
+    selectedPendentes.forEach(s => salvarAjustesVenda(s, { servicoEct: servico === 'auto' ? null : servico }, userEmail));
+  };
+
+  // Resumo por serviço dos pedidos aguardando confirmação (custo estimado pela tabela de frete)
+  const resumoServicos = SERVICOS_ECT.map(servico => {
+    const pedidos = pendingGeneration.filter(s => servicoDoPedido(s) === servico.code);
+    const custo = pedidos.reduce((total, s) =>
+      total + (propostasFrete[s.transaction]?.estimativas.find(e => e.servico === servico.code)?.custo || 0), 0);
+    return { ...servico, pedidos: pedidos.length, custo };
+  }).filter(r => r.pedidos > 0);
+  const usaServicoDiferente = resumoServicos.some(r => r.code !== DEFAULT_SERVICO_ECT);
   const alreadyGeneratedCount = physicalSales.filter(s => s.etiquetaStatus === 'generated' && !s.mergedInto).length;
   const selectedGeneratedCount = physicalSales.filter(s => s.selected && s.etiquetaStatus === 'generated' && !s.mergedInto).length;
   const partialCount = physicalSales.filter(s => s.etiquetaStatus === 'partial' && !s.mergedInto).length;
@@ -1797,11 +2202,7 @@ export default function EtiquetasUpload() {
 
     // 2. IMPRIMIR - Baixar PDF localmente (sempre funciona)
     try {
-      const response = await fetch('/api/vipp/imprimir', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ etiquetas: selectedLabels }),
-      });
+      const response = await buscarPdfEtiquetas(selectedLabels, formatoImpressao);
 
       if (response.headers.get('content-type')?.includes('application/pdf')) {
         // Download direto do PDF
@@ -1827,6 +2228,292 @@ export default function EtiquetasUpload() {
       console.error('Erro ao imprimir etiquetas:', err);
       alert('Erro ao baixar PDF das etiquetas');
     }
+
+    // 3. DECLARAÇÃO DE CONTEÚDO - Pedidos sem nota fiscal
+    await baixarDeclaracoesConteudo(
+      selectedSales.filter(s => notasDoPedido(s).length === 0).map(s => declaracaoDoPedido(s, s.etiqueta))
+    );
+  };
+
+  // Relatório de separação do lote selecionado (totais por produto + romaneio por pedido)
+  const handleRelatorioSeparacao = async (formato: 'pdf' | 'csv') => {
+    const selectedSales = physicalSales.filter(s => s.selected && s.etiquetaStatus === 'generated' && s.etiqueta);
+    if (selectedSales.length === 0) return;
+
+    const pedidos: PedidoSeparacao[] = selectedSales.map(sale => ({
+      transactionId: sale.transaction,
+      destinatario: sale.name,
+      cidade: sale.city,
+      uf: sale.state,
+      etiquetas: [sale.etiqueta as string],
+      produtos: produtosDoPedido(sale),
+      ...(sale.isMerged && { mergedTransactionIds: sale.mergedTransactions || [] }),
+    }));
+
+    try {
+      const response = await fetch('/api/vipp/relatorio-separacao', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ pedidos, formato }),
+      });
+      if (response.ok) {
+        baixarArquivo(await response.blob(), `separacao-${new Date().toISOString().split('T')[0]}.${formato}`);
+      } else {
+        const result = await response.json();
+        alert(`Erro ao gerar relatório de separação: ${result.error}`);
+      }
+    } catch (err) {
+      console.error('Erro ao gerar relatório de separação:', err);
+      alert('Erro ao baixar o relatório de separação');
+    }
+  };
+
+  // Abrir modal de cancelamento com o destino atual do pedido
+  const openCancelamento = (sale: PhysicalSale) => {
+    setCancelamentoSale(sale);
+    setCancelamentoForm({
+      etiqueta: sale.etiqueta || sale.etiquetas?.[0] || '',
+      motivo: '',
+      reemitir: false,
+      destino: {
+        nome: sale.name,
+        logradouro: sale.address,
+        numero: sale.number,
+        complemento: sale.complement,
+        bairro: sale.neighborhood,
+        cidade: sale.city,
+        uf: sale.state,
+        cep: sale.zip,
+      },
+    });
+  };
+
+  const closeCancelamento = () => {
+    setCancelamentoSale(null);
+    setCancelamentoForm(null);
+  };
+
+  // Recarregar as etiquetas ativas de um pedido (após cancelar ou reemitir)
+  const refreshEtiquetasPedido = async (transaction: string) => {
+    const existentes = await fetchExistingLabels([transaction]);
+    const dados = existentes.get(transaction);
+
+    setPhysicalSales(prev => prev.map(s => {
+      if (s.transaction !== transaction) return s;
+      if (!dados) {
+        return { ...s, etiqueta: undefined, etiquetas: undefined, etiquetaStatus: 'pending', enviosRealizados: 0, deliveryStatus: undefined };
+      }
+      return {
+        ...s,
+        etiqueta: dados.ultimaEtiqueta,
+        etiquetas: dados.etiquetas,
+        etiquetaStatus: dados.enviosRealizados < s.enviosTotal ? 'partial' : 'generated',
+        enviosRealizados: dados.enviosRealizados,
+        deliveryStatus: dados.deliveryStatus,
+      };
+    }));
+  };
+
+  // Cancelar a etiqueta na ViPP e, se pedido, reemitir com o destino corrigido
+  const handleCancelarEtiqueta = async () => {
+    const sale = cancelamentoSale;
+    const form = cancelamentoForm;
+    if (!sale || !form || !form.etiqueta) return;
+
+    if (!form.motivo.trim()) {
+      alert('Informe o motivo do cancelamento');
+      return;
+    }
+
+    setIsCancelando(true);
+    try {
+      const response = await fetch('/api/vipp/cancelar-objeto', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          etiqueta: form.etiqueta,
+          motivo: form.motivo,
+          operador: userEmail || '',
+          useTestCredentials,
+        }),
+      });
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || 'Erro desconhecido');
+      }
+      if (result.aviso) console.warn(`[ViPP] ${sale.transaction}: ${result.aviso}`);
+
+      let mensagem = `Etiqueta cancelada: ${result.cancelados.join(', ')}`;
+
+      // Cancelamento parcial: caixas ainda ativas na ViPP seguram o envio (a reemissão daria 409)
+      if (form.reemitir && !result.liberada) {
+        mensagem += `\nReemissão não feita: ${result.aviso || 'nem todas as caixas foram canceladas'}. Cancele as restantes e reemita depois`;
+      } else if (form.reemitir) {
+        const destino = form.destino;
+        const destinatario = {
+          nome: destino.nome,
+          documento: sale.document,
+          logradouro: destino.logradouro,
+          numero: destino.numero || 'S/N',
+          complemento: destino.complemento,
+          bairro: destino.bairro,
+          cidade: destino.cidade,
+          uf: destino.uf.toUpperCase(),
+          cep: destino.cep.replace(/\D/g, ''),
+          telefone: sale.phone,
+          email: sale.email,
+        };
+        const postar = await fetch('/api/vipp/postar-objeto', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            transactionId: sale.transaction,
+            envioNumero: result.envioNumero, // Liberado pelo cancelamento
+            servicoEct: servicoDoPedido(sale),
+            useTestCredentials,
+            destinatario,
+            produtos: produtosDoPedido(sale),
+            notasFiscais: notasDoPedido(sale).map(({ numero, serie, dataEmissao, valorTotal }) => ({ numero, serie, dataEmissao, valorTotal })),
+            quantidadeVolumes: result.volumes.length, // Mesmas caixas da postagem cancelada
+          }),
+        });
+        const novo = await postar.json();
+        if (!novo.success || !novo.etiqueta) {
+          throw new Error(`${mensagem}, mas a reemissão falhou: ${novo.error || 'Erro desconhecido'}`);
+        }
+
+        // Mesmo número de envio da etiqueta cancelada
+        const codigosVolumes: string[] = novo.etiquetas?.length ? novo.etiquetas : [novo.etiqueta];
+        for (let v = 0; v < codigosVolumes.length; v++) {
+          await saveLabel(
+            sale.transaction,
+            codigosVolumes[v],
+            destino.nome,
+            result.envioNumero,
+            sale.enviosTotal,
+            sale.mergedTransactions,
+            sale.mergedProductNames,
+            undefined,
+            { telefone: sale.phone, email: sale.email },
+            { numero: v + 1, total: codigosVolumes.length, codigos: codigosVolumes },
+            form.etiqueta,
+            montarImpressaoEtiqueta(servicoDoPedido(sale), destinatario, produtosDoPedido(sale).map(p => p.nome))
+          );
+        }
+        await vincularReemissao(result.volumes, novo.etiqueta);
+        salvarAjustesVenda(sale, {
+          endereco: {
+            name: destino.nome,
+            address: destino.logradouro,
+            number: destino.numero,
+            complement: destino.complemento,
+            neighborhood: destino.bairro,
+            city: destino.cidade,
+            state: destino.uf.toUpperCase(),
+            zip: destino.cep,
+          },
+        }, userEmail);
+
+        // Pedido passa a usar o destino corrigido (impressão e declaração de conteúdo)
+        setPhysicalSales(prev => prev.map(s =>
+          s.transaction === sale.transaction
+            ? {
+                ...s,
+                name: destino.nome,
+                address: destino.logradouro,
+                number: destino.numero,
+                complement: destino.complemento,
+                neighborhood: destino.bairro,
+                city: destino.cidade,
+                state: destino.uf.toUpperCase(),
+                zip: destino.cep,
+              }
+            : s
+        ));
+        mensagem += `\nNova etiqueta: ${codigosVolumes.join(', ')}`;
+      }
+
+      closeCancelamento();
+      alert(mensagem);
+    } catch (err) {
+      console.error(`Erro ao cancelar etiqueta ${form.etiqueta}:`, err);
+      alert(err instanceof Error ? err.message : 'Erro ao cancelar etiqueta');
+    } finally {
+      await refreshEtiquetasPedido(sale.transaction);
+      setIsCancelando(false);
+    }
+  };
+
+  // Aplicar na tabela os pedidos do lote que já terminaram
+  const aplicarItensLote = (itens: ItemJobEtiquetas[]) => {
+    const porTransacao = new Map(itens.map(item => [item.transactionId, item]));
+    setPhysicalSales(prev => prev.map(s => {
+      const item = porTransacao.get(s.transaction);
+      if (!item) return s;
+      if (item.status === 'erro') return { ...s, etiquetaStatus: 'error' };
+
+      const codigos = item.etiquetas || [];
+      const enviosRealizados = Math.max(s.enviosRealizados, item.envioNumero);
+      return {
+        ...s,
+        etiqueta: codigos[0],
+        etiquetas: [...new Set([...(s.etiquetas || []), ...codigos])],
+        // Completo se realizados == total, parcial se ainda faltam
+        etiquetaStatus: enviosRealizados >= s.enviosTotal ? 'generated' : 'partial',
+        enviosRealizados,
+        deliveryStatus: 'pending',
+        selected: false,
+      };
+    }));
+  };
+
+  // Acompanhar o lote pelo Firestore até terminar (tabela e progresso atualizam conforme os pedidos saem)
+  const acompanharJobEtiquetas = (jobId: string) => new Promise<ItemJobEtiquetas[]>((resolve) => {
+    setJobEtiquetasId(jobId);
+    const aplicados = new Set<string>();
+
+    const unsubscribeItens = onSnapshot(collection(db, JOBS_ETIQUETAS_COLLECTION, jobId, 'itens'), (snapshot) => {
+      const terminados = snapshot.docs
+        .map(d => d.data() as ItemJobEtiquetas)
+        .filter(item => (item.status === 'gerada' || item.status === 'erro') && !aplicados.has(item.transactionId));
+      if (terminados.length === 0) return;
+
+      terminados.forEach(item => {
+        aplicados.add(item.transactionId);
+        if (item.status === 'erro') console.error(`Erro ao gerar etiqueta para ${item.transactionId}:`, item.erro);
+      });
+      aplicarItensLote(terminados);
+    });
+
+    const unsubscribeJob = onSnapshot(doc(db, JOBS_ETIQUETAS_COLLECTION, jobId), async (snapshot) => {
+      const job = snapshot.data() as JobEtiquetas | undefined;
+      if (!job) return;
+
+      setGenerationProgress({ current: job.processados, total: job.total, success: job.sucessos, errors: job.erros });
+      // Só sobraram itens a conferir na ViPP: o lote segue aberto no servidor (aparece em "Lotes de etiquetas no servidor")
+      const soFaltaConferir = !!job.aguardandoConferencia && job.processados + job.aguardandoConferencia >= job.total;
+      if (job.status === 'processando' && !soFaltaConferir) return;
+
+      unsubscribeJob();
+      unsubscribeItens();
+      setJobEtiquetasId(null);
+
+      // Leitura final: o snapshot dos itens pode chegar depois do job
+      const itens = await buscarItensJob(jobId);
+      aplicarItensLote(itens.filter(item => (item.status === 'gerada' || item.status === 'erro') && !aplicados.has(item.transactionId)));
+      resolve(itens);
+    });
+  });
+
+  // Cancelar o lote em andamento (pedidos já gerados continuam valendo)
+  const handleCancelarLote = async (jobId: string) => {
+    try {
+      const response = await fetch(`/api/vipp/lote?jobId=${jobId}`, { method: 'DELETE' });
+      const result = await response.json();
+      if (!result.success) alert(`Erro ao cancelar lote: ${result.error}`);
+    } catch (err) {
+      console.error('Erro ao cancelar lote:', err);
+    }
   };
 
   // Função que realmente executa a geração (chamada após confirmação)
@@ -1834,7 +2521,8 @@ export default function EtiquetasUpload() {
     toGenerate: PhysicalSale[],
     observacoes: Record<string, string> = {},
     ordem: 'antigos' | 'novos' = 'antigos',
-    obsGeral: string = ''
+    obsGeral: string = '',
+    volumesPorPedido: Record<string, number> = {}
   ) => {
     // Etiquetas já geradas que estão selecionadas (para incluir no PDF)
     const alreadyGenerated = physicalSales.filter(s => s.selected && s.etiquetaStatus === 'generated' && s.etiqueta);
@@ -1855,11 +2543,17 @@ export default function EtiquetasUpload() {
       isMerged?: boolean;
       mergedTransactionIds?: string[];
       produtos?: string[];
+      volumesCodigos?: string[];
     }> = [];
 
     // Todas as etiquetas para o PDF (novas + já geradas selecionadas)
     const todasEtiquetasParaPdf: string[] = alreadyGenerated.map(s => s.etiqueta as string);
 
+    // Declarações de conteúdo (pedidos sem nota fiscal, novos + já gerados selecionados)
+    const declaracoes: DeclaracaoConteudo[] = alreadyGenerated
+      .filter(s => notasDoPedido(s).length === 0)
+      .map(s => declaracaoDoPedido(s, s.etiqueta));
+
     // Etiquetas já geradas (para webhook do admin, sem enviar para cliente)
     const etiquetasJaGeradas = alreadyGenerated.map(sale => ({
       codigo: sale.etiqueta || '',
@@ -1896,131 +2590,103 @@ export default function EtiquetasUpload() {
       setIsGenerating(true);
       setGenerationProgress({ current: 0, total: toGenerate.length, success: 0, errors: 0 });
 
-      let successCount = 0;
-      let errorCount = 0;
+      // Lote processado no servidor: continua mesmo se a aba for fechada
+      const pedidos: PedidoJobEtiquetas[] = toGenerate.map(sale => ({
+        transactionId: sale.transaction,
+        envioNumero: sale.enviosRealizados + 1, // Próximo após os realizados
+        enviosTotal: sale.enviosTotal,
+        servicoEct: servicoDoPedido(sale), // Proposto pelas regras de frete ou escolhido à mão
+        destinatario: {
+          nome: sale.name,
+          documento: sale.document,
+          logradouro: sale.address,
+          numero: sale.number || 'S/N',
+          complemento: sale.complement,
+          bairro: sale.neighborhood,
+          cidade: sale.city,
+          uf: sale.state,
+          cep: sale.zip.replace(/\D/g, ''),
+          telefone: sale.phone,
+          email: sale.email,
+        },
+        produtos: produtosDoPedido(sale),
+        notasFiscais: notasDoPedido(sale).map(({ numero, serie, dataEmissao, valorTotal }) => ({ numero, serie, dataEmissao, valorTotal })),
+        quantidadeVolumes: volumesPorPedido[sale.transaction] || 1,
+        observacaoEnvio: observacoes[sale.transaction] || undefined, // observação do envio parcial
+        mergedTransactionIds: sale.mergedTransactions, // transactionIds originais se for mesclado
+        mergedProductNames: sale.mergedProductNames, // nomes dos produtos se for mesclado
+      }));
 
-      for (let i = 0; i < toGenerate.length; i++) {
-        const sale = toGenerate[i];
-
-        setGenerationProgress(prev => ({ ...prev, current: i + 1 }));
-
-        try {
-          // Chamar API do ViPP
-          const response = await fetch('/api/vipp/postar-objeto', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              transactionId: sale.transaction,
-              servicoEct: selectedServicoEct, // Código do serviço ECT selecionado globalmente
-              useTestCredentials, // Flag para usar credenciais de teste
-              destinatario: {
-                nome: sale.name,
-                documento: sale.document,
-                logradouro: sale.address,
-                numero: sale.number || 'S/N',
-                complemento: sale.complement,
-                bairro: sale.neighborhood,
-                cidade: sale.city,
-                uf: sale.state,
-                cep: sale.zip.replace(/\D/g, ''),
-                telefone: sale.phone,
-                email: sale.email,
-              },
-            }),
-          });
-
-          const result = await response.json();
-
-          if (result.success && result.etiqueta) {
-            // Calcular número do envio (próximo após os realizados)
-            const envioNumero = sale.enviosRealizados + 1;
-            const novoEnviosRealizados = envioNumero;
-            // Determinar novo status: completo se realizados == total, parcial se ainda faltam
-            const novoStatus = novoEnviosRealizados >= sale.enviosTotal ? 'generated' : 'partial';
-
-            // Salvar no Firebase com info de envios (incluindo dados de merge se existirem)
-            await saveLabel(
-              sale.transaction,
-              result.etiqueta,
-              sale.name,
-              envioNumero,
-              sale.enviosTotal,
-              sale.mergedTransactions, // transactionIds originais se for mesclado
-              sale.mergedProductNames, // nomes dos produtos se for mesclado
-              observacoes[sale.transaction] // observação do envio parcial
-            );
-
-            // Guardar para o webhook (cliente vai receber)
-            etiquetasNovas.push({
-              codigo: result.etiqueta,
-              transactionId: sale.transaction,
-              produto: sale.productName,
-              dataPedido: sale.saleDate, // Data do pedido
-              destinatario: {
-                nome: sale.name,
-                telefone: sale.phone,
-                email: sale.email,
-                logradouro: sale.address,
-                numero: sale.number || 'S/N',
-                complemento: sale.complement || '',
-                bairro: sale.neighborhood,
-                cidade: sale.city,
-                uf: sale.state,
-                cep: sale.zip?.replace(/\D/g, '') || '',
-              },
-              // Info de envio parcial
-              envioNumero: novoEnviosRealizados,
-              enviosTotal: sale.enviosTotal,
-              isEnvioParcial: sale.enviosTotal > 1,
-              // Observação do pedido (sempre envia, mesmo vazio)
-              observacaoEnvio: observacoes[sale.transaction] || '',
-              // Adicionar info de merge para o webhook
-              ...(sale.isMerged && {
-                isMerged: true,
-                mergedTransactionIds: sale.mergedTransactions,
-                produtos: sale.mergedProductNames,
-              }),
-            });
-
-            // Adicionar ao PDF
-            todasEtiquetasParaPdf.push(result.etiqueta);
-
-            // Atualizar estado local com novo enviosRealizados e status
-            setPhysicalSales(prev => prev.map(s =>
-              s.transaction === sale.transaction
-                ? {
-                    ...s,
-                    etiqueta: result.etiqueta,
-                    etiquetas: [...(s.etiquetas || []), result.etiqueta],
-                    etiquetaStatus: novoStatus as 'generated' | 'partial',
-                    enviosRealizados: novoEnviosRealizados,
-                    selected: false,
-                  }
-                : s
-            ));
-
-            successCount++;
-          } else {
-            throw new Error(result.error || 'Erro desconhecido');
-          }
-        } catch (err) {
-          console.error(`Erro ao gerar etiqueta para ${sale.transaction}:`, err);
-
-          setPhysicalSales(prev => prev.map(s =>
-            s.transaction === sale.transaction
-              ? { ...s, etiquetaStatus: 'error' }
-              : s
-          ));
+      try {
+        const response = await fetch('/api/vipp/lote', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ pedidos, useTestCredentials, criadoPor: userEmail }),
+        });
+        const result = await response.json();
+        if (!result.success) {
+          throw new Error(result.error || 'Erro desconhecido');
+        }
 
-          errorCount++;
+        const itens = await acompanharJobEtiquetas(result.jobId);
+        const aConferir = itens.filter(item => item.status === 'conferir').length;
+        if (aConferir > 0) {
+          alert(`${aConferir} postagem(ns) foram interrompidas e precisam ser conferidas na ViPP (Postagens a conferir). O lote termina sozinho depois da conferência.`);
         }
 
-        setGenerationProgress(prev => ({ ...prev, success: successCount, errors: errorCount }));
+        for (const item of itens) {
+          const sale = toGenerate.find(s => s.transaction === item.transactionId);
+          if (!sale || item.status !== 'gerada' || !item.etiquetas?.length) continue;
+          // Um código por caixa (volume) da mesma postagem
+          const codigosVolumes = item.etiquetas;
+          // Observação foi para este envio: sai da fila salva
+          if (observacoes[sale.transaction]) salvarAjustesVenda(sale, { observacaoEnvio: null }, userEmail);
+
+          // Adicionar ao PDF (todas as caixas)
+          todasEtiquetasParaPdf.push(...codigosVolumes);
+          if (notasDoPedido(sale).length === 0) {
+            declaracoes.push(declaracaoDoPedido(sale, codigosVolumes[0]));
+          }
 
-        // Delay entre requisições para não sobrecarregar a API
-        if (i < toGenerate.length - 1) {
-          await new Promise(r => setTimeout(r, 1000));
+          // Reaproveitada = etiqueta gerada antes, cliente já foi avisado
+          if (item.reaproveitada) continue;
+
+          // Guardar para o webhook (cliente vai receber)
+          etiquetasNovas.push({
+            codigo: codigosVolumes[0],
+            transactionId: sale.transaction,
+            produto: sale.productName,
+            dataPedido: sale.saleDate, // Data do pedido
+            destinatario: {
+              nome: sale.name,
+              telefone: sale.phone,
+              email: sale.email,
+              logradouro: sale.address,
+              numero: sale.number || 'S/N',
+              complemento: sale.complement || '',
+              bairro: sale.neighborhood,
+              cidade: sale.city,
+              uf: sale.state,
+              cep: sale.zip?.replace(/\D/g, '') || '',
+            },
+            // Info de envio parcial
+            envioNumero: item.envioNumero,
+            enviosTotal: sale.enviosTotal,
+            isEnvioParcial: sale.enviosTotal > 1,
+            // Observação do pedido (sempre envia, mesmo vazio)
+            observacaoEnvio: observacoes[sale.transaction] || '',
+            // Adicionar info de merge para o webhook
+            ...(sale.isMerged && {
+              isMerged: true,
+              mergedTransactionIds: sale.mergedTransactions,
+              produtos: sale.mergedProductNames,
+            }),
+            ...(codigosVolumes.length > 1 && { volumesCodigos: codigosVolumes }),
+          });
         }
+      } catch (err) {
+        console.error('Erro ao gerar lote de etiquetas:', err);
+        alert(`Erro ao gerar etiquetas: ${err instanceof Error ? err.message : 'Erro desconhecido'}`);
       }
 
       setIsGenerating(false);
@@ -2088,11 +2754,7 @@ export default function EtiquetasUpload() {
     // 2. IMPRIMIR - Baixar PDF local após webhook
     if (todasEtiquetasParaPdf.length > 0) {
       try {
-        const response = await fetch('/api/vipp/imprimir', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ etiquetas: todasEtiquetasParaPdf }),
-        });
+        const response = await buscarPdfEtiquetas(todasEtiquetasParaPdf, formatoImpressao);
 
         if (response.headers.get('content-type')?.includes('application/pdf')) {
           const blob = await response.blob();
@@ -2108,6 +2770,8 @@ export default function EtiquetasUpload() {
           const result = await response.json();
           if (result.downloadUrl) {
             window.open(result.downloadUrl, '_blank');
+          } else if (result.error) {
+            alert(`Etiquetas geradas: ${todasEtiquetasParaPdf.join(', ')}\n\nErro ao gerar o PDF: ${result.error}`);
           }
         }
       } catch (err) {
@@ -2115,10 +2779,13 @@ export default function EtiquetasUpload() {
         alert(`Etiquetas geradas: ${todasEtiquetasParaPdf.join(', ')}\n\nUse o botão "Imprimir" para baixar o PDF.`);
       }
     }
+
+    // 3. DECLARAÇÃO DE CONTEÚDO - Pedidos sem nota fiscal
+    await baixarDeclaracoesConteudo(declaracoes);
   };
 
   // Função chamada pelo botão - mostra confirmação se necessário
-  const handleGenerateLabels = () => {
+  const handleGenerateLabels = async () => {
     // Pode gerar se: pendente OU parcial com envios ainda pendentes
     const toGenerate = physicalSales.filter(s =>
       s.selected && (
@@ -2136,8 +2803,27 @@ export default function EtiquetasUpload() {
       return;
     }
 
+    // Conferir endereços pela base de CEPs: completa bairro/cidade/UF e bloqueia os inválidos
+    const validacoes = await validarEnderecos(toGenerate);
+    const porTransacao: Record<string, ValidacaoEndereco> = {};
+    toGenerate.forEach((sale, i) => { porTransacao[sale.transaction] = validacoes[i]; });
+    setEnderecoValidacao(prev => ({ ...prev, ...porTransacao }));
+    setPhysicalSales(prev => prev.map(s => porTransacao[s.transaction] ? { ...s, ...porTransacao[s.transaction].endereco } : s));
+
+    const corrigidas = toGenerate.map(sale => ({ ...sale, ...porTransacao[sale.transaction].endereco }));
+    const bloqueadas = corrigidas.filter(s => porTransacao[s.transaction].status === 'invalido');
+    const liberadas = corrigidas.filter(s => porTransacao[s.transaction].status !== 'invalido');
+
+    if (bloqueadas.length > 0) {
+      alert(
+        `${bloqueadas.length} pedido(s) com endereço inválido não serão gerados:\n\n` +
+        bloqueadas.map(s => `• ${s.name}: ${porTransacao[s.transaction].problemas.join(', ')}`).join('\n')
+      );
+    }
+    if (liberadas.length === 0) return;
+
     // Mostra modal de confirmação para novas etiquetas
-    setPendingGeneration(toGenerate);
+    setPendingGeneration(liberadas);
     setShowServiceConfirmModal(true);
   };
 
@@ -2152,9 +2838,10 @@ export default function EtiquetasUpload() {
       setShowGenerationConfirmModal(true);
       // pendingGeneration já está setado, será usado quando confirmar
     } else {
-      executeGeneration(pendingGeneration, envioObservacoes, ordemPrioridade, observacaoGeral);
+      executeGeneration(pendingGeneration, envioObservacoes, ordemPrioridade, observacaoGeral, envioVolumes);
       setPendingGeneration([]);
       setEnvioObservacoes({});
+      setEnvioVolumes({});
       setOrdemPrioridade('antigos');
       setObservacaoGeral('');
     }
@@ -2173,16 +2860,33 @@ export default function EtiquetasUpload() {
       setShowGenerationConfirmModal(false);
       setConfirmEtiquetasText('');
       setConfirmEnviarText('');
-      executeGeneration(pendingGeneration, envioObservacoes, ordemPrioridade, observacaoGeral);
+      executeGeneration(pendingGeneration, envioObservacoes, ordemPrioridade, observacaoGeral, envioVolumes);
       setPendingGeneration([]);
       setEnvioObservacoes({});
+      setEnvioVolumes({});
       setOrdemPrioridade('antigos');
       setObservacaoGeral('');
     }
   };
 
+  // Recarregar a fila salva (uploads e ajustes de outros operadores)
+  const handleAtualizarFila = async () => {
+    setIsAtualizandoFila(true);
+    try {
+      const fila = await carregarFilaEtiquetas();
+      setNotasFiscais(fila.notas);
+      setServicoOverride(fila.servicos);
+      setEnvioObservacoes(fila.observacoes);
+      setPhysicalSales(fila.vendas);
+    } finally {
+      setIsAtualizandoFila(false);
+    }
+  };
+
   const resetUpload = () => {
     setPhysicalSales([]);
+    setServicoOverride({});
+    setNotasFiscais({});
     setFileName(null);
     setTotalRows(0);
     setError(null);
@@ -2969,6 +3673,44 @@ export default function EtiquetasUpload() {
           >
             Novo Upload
           </button>
+          <button
+            onClick={handleAtualizarFila}
+            disabled={isGenerating || isAtualizandoFila}
+            className="px-3 py-1.5 rounded-lg border border-slate-300 hover:bg-slate-50 transition disabled:opacity-50"
+            style={{
+              fontFamily: 'var(--font-inter)',
+              fontWeight: 500,
+              fontSize: '0.75rem',
+              color: '#64748B',
+            }}
+            title="Recarregar a fila salva (uploads e ajustes de outros operadores)"
+          >
+            {isAtualizandoFila ? 'Atualizando...' : '🔄 Atualizar fila'}
+          </button>
+          {/* Importar pasta de XMLs de NF-e */}
+          <input
+            ref={nfeInputRef}
+            type="file"
+            accept=".xml"
+            multiple
+            {...{ webkitdirectory: '' }}
+            onChange={(e) => e.target.files && handleImportNfe(e.target.files)}
+            className="hidden"
+          />
+          <button
+            onClick={() => nfeInputRef.current?.click()}
+            disabled={isGenerating || isImportingNfe}
+            className="px-3 py-1.5 rounded-lg border border-slate-300 hover:bg-slate-50 transition disabled:opacity-50"
+            style={{
+              fontFamily: 'var(--font-inter)',
+              fontWeight: 500,
+              fontSize: '0.75rem',
+              color: '#64748B',
+            }}
+            title="Selecionar a pasta com os XMLs das notas fiscais"
+          >
+            {isImportingNfe ? 'Importando...' : `🧾 NF-e (${Object.keys(notasFiscais).length})`}
+          </button>
           <button
             onClick={() => setShowConfigModal(true)}
             className="p-1.5 rounded-lg border border-slate-300 hover:bg-slate-50 transition"
@@ -3120,6 +3862,22 @@ export default function EtiquetasUpload() {
               </span>
             )}
           </div>
+
+          {/* Filtro de Rastreio */}
+          <select
+            value={deliveryFilter}
+            onChange={(e) => setDeliveryFilter(e.target.value as 'all' | DeliveryStatus)}
+            className="px-2 py-1 rounded-md border border-slate-200 text-xs bg-white text-slate-700 focus:ring-orange-500 focus:border-orange-500"
+            style={{ fontFamily: 'var(--font-inter)' }}
+            title="Filtrar por status de entrega"
+          >
+            <option value="all">Rastreio: todos</option>
+            {(Object.keys(DELIVERY_STATUS_LABELS) as DeliveryStatus[]).map(status => (
+              <option key={status} value={status}>
+                {DELIVERY_STATUS_LABELS[status]} ({physicalSales.filter(s => !s.mergedInto && s.etiqueta && s.deliveryStatus === status).length})
+              </option>
+            ))}
+          </select>
         </div>
 
         {/* Botões de Ação - Direita */}
@@ -3160,6 +3918,30 @@ export default function EtiquetasUpload() {
                 </svg>
                 Exportar CSV
               </button>
+              <button
+                onClick={() => handleRelatorioSeparacao('pdf')}
+                className="px-2.5 py-1 rounded-md text-white transition hover:opacity-90 flex items-center gap-1.5 text-xs"
+                style={{
+                  backgroundColor: '#8B5CF6',
+                  fontFamily: 'var(--font-inter)',
+                  fontWeight: 500,
+                }}
+                title="Total de unidades por produto e romaneio de cada pedido"
+              >
+                📋 Separação PDF
+              </button>
+              <button
+                onClick={() => handleRelatorioSeparacao('csv')}
+                className="px-2.5 py-1 rounded-md transition hover:opacity-90 flex items-center gap-1.5 text-xs"
+                style={{
+                  backgroundColor: '#EDE9FE',
+                  color: '#6D28D9',
+                  fontFamily: 'var(--font-inter)',
+                  fontWeight: 500,
+                }}
+              >
+                Separação CSV
+              </button>
             </>
           )}
           {/* Dropdown de serviço + Botão gerar (quando tem pendentes) */}
@@ -3177,8 +3959,8 @@ export default function EtiquetasUpload() {
                   Serviço:
                 </label>
                 <select
-                  value={selectedServicoEct}
-                  onChange={(e) => setSelectedServicoEct(e.target.value)}
+                  value={servicoGeral}
+                  onChange={(e) => handleServicoGeral(e.target.value)}
                   disabled={isGenerating}
                   className="px-2 py-1 rounded-md border border-slate-300 text-xs bg-white disabled:opacity-50 text-slate-900"
                   style={{
@@ -3188,11 +3970,13 @@ export default function EtiquetasUpload() {
                     WebkitTextFillColor: '#0f172a',
                   }}
                 >
+                  <option value="auto">Automático (regras de frete)</option>
                   {SERVICOS_ECT.map(servico => (
                     <option key={servico.code} value={servico.code}>
                       {servico.name}
                     </option>
                   ))}
+                  {servicoGeral === 'manual' && <option value="manual" disabled>Por pedido</option>}
                 </select>
               </div>
               {/* Botão Mesclar - aparece quando 2+ itens selecionados (pendentes/gerados) */}
@@ -3250,8 +4034,17 @@ export default function EtiquetasUpload() {
             <span style={{ fontFamily: 'var(--font-inter)', fontSize: '0.875rem', color: '#314158' }}>
               Gerando etiquetas...
             </span>
-            <span style={{ fontFamily: 'var(--font-inter)', fontSize: '0.875rem', color: '#64748B' }}>
+            <span className="flex items-center gap-3" style={{ fontFamily: 'var(--font-inter)', fontSize: '0.875rem', color: '#64748B' }}>
               {generationProgress.success} sucesso, {generationProgress.errors} erros
+              {jobEtiquetasId && (
+                <button
+                  onClick={() => handleCancelarLote(jobEtiquetasId)}
+                  className="text-xs text-red-600 hover:underline"
+                  title="Para o lote no servidor (pedidos já gerados continuam valendo)"
+                >
+                  Cancelar lote
+                </button>
+              )}
             </span>
           </div>
           <div className="w-full h-2 bg-orange-200 rounded-full overflow-hidden">
@@ -3263,6 +4056,23 @@ export default function EtiquetasUpload() {
         </div>
       )}
 
+      {/* Lotes processando no servidor iniciados em outra aba (ou antes de recarregar a página) */}
+      {lotesEmAndamento.filter(job => job.id !== jobEtiquetasId).map(job => (
+        <div key={job.id} className="mb-4 p-3 rounded-xl bg-blue-50 border border-blue-200 flex items-center justify-between gap-4">
+          <span style={{ fontFamily: 'var(--font-inter)', fontSize: '0.8125rem', color: '#1E40AF' }}>
+            Lote de etiquetas no servidor: {job.processados}/{job.total} ({job.sucessos} sucesso, {job.erros} erros)
+            {job.criadoPor && ` · ${job.criadoPor}`}
+            {job.aguardandoConferencia ? ` · ${job.aguardandoConferencia} aguardando conferência na ViPP` : ''} - recarregue o CSV quando terminar
+          </span>
+          <button
+            onClick={() => handleCancelarLote(job.id)}
+            className="text-xs text-red-600 hover:underline whitespace-nowrap"
+          >
+            Cancelar lote
+          </button>
+        </div>
+      ))}
+
       {/* Tabela */}
       <div className="rounded-xl border border-slate-200 overflow-hidden bg-white">
         <div className="overflow-x-auto">
@@ -3350,6 +4160,18 @@ export default function EtiquetasUpload() {
                 >
                   Endereço
                 </th>
+                <th
+                  className="px-4 py-3 text-left"
+                  style={{
+                    fontFamily: 'var(--font-inter)',
+                    fontWeight: 600,
+                    fontSize: '0.75rem',
+                    color: '#64748B',
+                    textTransform: 'uppercase',
+                  }}
+                >
+                  Frete
+                </th>
                 <th
                   className="px-4 py-3 text-left"
                   style={{
@@ -3402,6 +4224,11 @@ export default function EtiquetasUpload() {
                         <span className="text-xs text-green-600 font-mono" title={sale.etiquetas?.join(', ') || sale.etiqueta}>
                           {sale.etiqueta}
                         </span>
+                        {sale.deliveryStatus && sale.deliveryStatus !== 'pending' && (
+                          <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${DELIVERY_STATUS_COLORS[sale.deliveryStatus]}`}>
+                            {DELIVERY_STATUS_LABELS[sale.deliveryStatus]}
+                          </span>
+                        )}
                       </div>
                     ) : sale.etiquetaStatus === 'partial' ? (
                       <div className="flex items-center gap-2">
@@ -3411,6 +4238,11 @@ export default function EtiquetasUpload() {
                         <span className="text-xs text-yellow-600 font-mono" title={sale.etiquetas?.join(', ') || sale.etiqueta}>
                           {sale.etiqueta}
                         </span>
+                        {sale.deliveryStatus && sale.deliveryStatus !== 'pending' && (
+                          <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${DELIVERY_STATUS_COLORS[sale.deliveryStatus]}`}>
+                            {DELIVERY_STATUS_LABELS[sale.deliveryStatus]}
+                          </span>
+                        )}
                       </div>
                     ) : sale.etiquetaStatus === 'error' ? (
                       <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-700">
@@ -3503,7 +4335,7 @@ export default function EtiquetasUpload() {
                       </p>
                       {sale.phone && (
                         <a
-                          href={`https://wa.me/${sale.phone.replace(/\D/g, '').replace(/^0+/, '').replace(/^(?!55)/, '55')}`}
+                          href={`https://wa.me/${telefoneParaCadastro(sale.phone)}`}
                           target="_blank"
                           rel="noopener noreferrer"
                           style={{
@@ -3520,6 +4352,41 @@ export default function EtiquetasUpload() {
                           <span>📱</span> {sale.phone}
                         </a>
                       )}
+                      {(sale.etiquetaStatus === 'generated' || sale.etiquetaStatus === 'partial') && (
+                        <button
+                          onClick={() => setHistoricoTransaction(sale.transaction)}
+                          style={{
+                            fontFamily: 'var(--font-inter)',
+                            fontSize: '0.75rem',
+                            color: '#2563EB',
+                            background: 'none',
+                            border: 'none',
+                            padding: 0,
+                            cursor: 'pointer',
+                          }}
+                          title="Ver mensagens WhatsApp enviadas"
+                        >
+                          💬 Mensagens
+                        </button>
+                      )}
+                      {(sale.etiquetaStatus === 'generated' || sale.etiquetaStatus === 'partial') && (
+                        <button
+                          onClick={() => openCancelamento(sale)}
+                          disabled={isGenerating || isCancelando}
+                          style={{
+                            fontFamily: 'var(--font-inter)',
+                            fontSize: '0.75rem',
+                            color: '#DC2626',
+                            background: 'none',
+                            border: 'none',
+                            padding: 0,
+                            cursor: 'pointer',
+                          }}
+                          title="Cancelar etiqueta na ViPP (e reemitir com destino corrigido)"
+                        >
+                          🚫 Cancelar/reemitir
+                        </button>
+                      )}
                     </div>
                   </td>
                   <td className="px-4 py-3">
@@ -3589,8 +4456,83 @@ export default function EtiquetasUpload() {
                       >
                         CEP: {sale.zip}
                       </p>
+                      {(enderecoValidacao[sale.transaction]?.status === 'revisar' || enderecoValidacao[sale.transaction]?.status === 'invalido') && (
+                        <p
+                          style={{
+                            fontFamily: 'var(--font-inter)',
+                            fontSize: '0.6875rem',
+                            fontWeight: 500,
+                            color: enderecoValidacao[sale.transaction].status === 'invalido' ? '#DC2626' : '#D97706',
+                          }}
+                          title={enderecoValidacao[sale.transaction].problemas.join('\n')}
+                        >
+                          ⚠️ {STATUS_ENDERECO_LABELS[enderecoValidacao[sale.transaction].status]}
+                        </p>
+                      )}
                     </div>
                   </td>
+                  <td className="px-4 py-3">
+                    {(sale.etiquetaStatus === 'pending' || (sale.etiquetaStatus === 'partial' && sale.enviosRealizados < sale.enviosTotal)) && propostasFrete[sale.transaction] ? (
+                      <div style={{ minWidth: '160px' }}>
+                        <select
+                          value={servicoDoPedido(sale)}
+                          onChange={(e) => handleServicoPedido(sale, e.target.value)}
+                          disabled={isGenerating}
+                          className="px-2 py-1 rounded-md border border-slate-300 text-xs bg-white disabled:opacity-50"
+                          style={{ fontFamily: 'var(--font-inter)', color: '#0f172a', WebkitTextFillColor: '#0f172a', maxWidth: '180px' }}
+                          title={propostasFrete[sale.transaction].estimativas
+                            .map(e => `${getServicoName(e.servico)}: ${formatarEstimativa(e)}`)
+                            .join('\n')}
+                        >
+                          {SERVICOS_ECT.map(s => (
+                            <option key={s.code} value={s.code}>
+                              {s.name}
+                            </option>
+                          ))}
+                        </select>
+                        {propostasFrete[sale.transaction].estimativas
+                          .filter(e => e.servico === servicoDoPedido(sale))
+                          .map(estimativa => (
+                            <p
+                              key={estimativa.servico}
+                              style={{
+                                margin: '0.25rem 0 0 0',
+                                fontFamily: 'var(--font-inter)',
+                                fontSize: '0.75rem',
+                                color: estimativa.disponivel ? '#314158' : '#DC2626',
+                              }}
+                            >
+                              {formatarEstimativa(estimativa)}
+                            </p>
+                          ))}
+                        <p
+                          style={{
+                            margin: 0,
+                            fontFamily: 'var(--font-inter)',
+                            fontSize: '0.6875rem',
+                            color: servicoOverride[sale.transaction] ? '#D97706' : '#94A3B8',
+                          }}
+                        >
+                          {servicoOverride[sale.transaction] ? 'Alterado manualmente' : propostasFrete[sale.transaction].descricao}
+                        </p>
+                        <p
+                          style={{
+                            margin: 0,
+                            fontFamily: 'var(--font-inter)',
+                            fontSize: '0.6875rem',
+                            color: notasDoPedido(sale).length > 0 ? '#16A34A' : '#94A3B8',
+                          }}
+                          title={notasDoPedido(sale).map(n => `NF ${n.numero} série ${n.serie || '-'} (${n.origem.toUpperCase()})`).join('\n')}
+                        >
+                          {notasDoPedido(sale).length > 0
+                            ? `🧾 NF ${notasDoPedido(sale).map(n => n.numero).join(', ')}`
+                            : 'Sem NF · declaração de conteúdo'}
+                        </p>
+                      </div>
+                    ) : (
+                      <span style={{ fontFamily: 'var(--font-inter)', fontSize: '0.8125rem', color: '#94A3B8' }}>-</span>
+                    )}
+                  </td>
                   <td className="px-4 py-3">
                     <p
                       style={{
@@ -3632,6 +4574,250 @@ export default function EtiquetasUpload() {
         </div>
       )}
 
+      {/* Modal de Histórico de Mensagens WhatsApp */}
+      {historicoTransaction && (
+        <div
+          style={{
+            position: 'fixed',
+            top: 0,
+            left: 0,
+            right: 0,
+            bottom: 0,
+            backgroundColor: 'rgba(0, 0, 0, 0.5)',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            zIndex: 9999,
+            padding: '1rem',
+          }}
+          onClick={() => setHistoricoTransaction(null)}
+        >
+          <div
+            style={{
+              backgroundColor: '#FFF',
+              borderRadius: '1rem',
+              padding: '1.5rem',
+              maxWidth: '700px',
+              width: '100%',
+              maxHeight: '90vh',
+              overflowY: 'auto',
+              boxShadow: '0 20px 25px -5px rgba(0,0,0,0.1)',
+            }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem' }}>
+              <h3
+                style={{
+                  margin: 0,
+                  fontFamily: 'var(--font-inter)',
+                  fontSize: '1.125rem',
+                  fontWeight: 600,
+                  color: '#314158',
+                }}
+              >
+                Mensagens WhatsApp
+              </h3>
+              <button
+                onClick={() => setHistoricoTransaction(null)}
+                style={{ background: 'none', border: 'none', fontSize: '1.25rem', color: '#64748B', cursor: 'pointer' }}
+              >
+                ✕
+              </button>
+            </div>
+            <WhatsAppHistorico
+              embedded
+              buscaInicial={{ campo: 'transactionId', valor: historicoTransaction }}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Modal de Cancelamento/Reemissão de Etiqueta */}
+      {cancelamentoSale && cancelamentoForm && (
+        <div
+          style={{
+            position: 'fixed',
+            top: 0,
+            left: 0,
+            right: 0,
+            bottom: 0,
+            backgroundColor: 'rgba(0, 0, 0, 0.5)',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            zIndex: 9999,
+            padding: '1rem',
+          }}
+          onClick={() => !isCancelando && closeCancelamento()}
+        >
+          <div
+            style={{
+              backgroundColor: '#FFF',
+              borderRadius: '1rem',
+              padding: '1.5rem',
+              maxWidth: '560px',
+              width: '100%',
+              maxHeight: '90vh',
+              overflowY: 'auto',
+              boxShadow: '0 20px 25px -5px rgba(0,0,0,0.1)',
+            }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <h3
+              style={{
+                margin: '0 0 0.25rem 0',
+                fontFamily: 'var(--font-inter)',
+                fontSize: '1.125rem',
+                fontWeight: 600,
+                color: '#314158',
+              }}
+            >
+              Cancelar etiqueta
+            </h3>
+            <p style={{ margin: '0 0 1rem 0', fontFamily: 'var(--font-inter)', fontSize: '0.75rem', color: '#64748B' }}>
+              {cancelamentoSale.name} · {cancelamentoSale.transaction}
+              {useTestCredentials && ' · credenciais de teste'}
+            </p>
+
+            <label style={{ display: 'block', marginBottom: '0.75rem', fontFamily: 'var(--font-inter)', fontSize: '0.75rem', color: '#314158' }}>
+              Etiqueta (todas as caixas da postagem são canceladas)
+              <select
+                value={cancelamentoForm.etiqueta}
+                onChange={(e) => setCancelamentoForm({ ...cancelamentoForm, etiqueta: e.target.value })}
+                disabled={isCancelando}
+                style={{
+                  display: 'block',
+                  width: '100%',
+                  marginTop: '0.25rem',
+                  padding: '0.5rem 0.75rem',
+                  fontFamily: 'var(--font-inter)',
+                  fontSize: '0.75rem',
+                  color: '#1E293B',
+                  backgroundColor: '#FFF',
+                  border: '1px solid #E2E8F0',
+                  borderRadius: '0.375rem',
+                }}
+              >
+                {(cancelamentoSale.etiquetas || [cancelamentoForm.etiqueta]).map(codigo => (
+                  <option key={codigo} value={codigo}>{codigo}</option>
+                ))}
+              </select>
+            </label>
+
+            <label style={{ display: 'block', marginBottom: '0.75rem', fontFamily: 'var(--font-inter)', fontSize: '0.75rem', color: '#314158' }}>
+              Motivo *
+              <textarea
+                value={cancelamentoForm.motivo}
+                onChange={(e) => setCancelamentoForm({ ...cancelamentoForm, motivo: e.target.value })}
+                placeholder="Ex: CEP errado, cliente mudou de endereço..."
+                rows={2}
+                disabled={isCancelando}
+                style={{
+                  display: 'block',
+                  width: '100%',
+                  marginTop: '0.25rem',
+                  padding: '0.5rem 0.75rem',
+                  fontFamily: 'var(--font-inter)',
+                  fontSize: '0.75rem',
+                  color: '#1E293B',
+                  backgroundColor: '#FFF',
+                  border: '1px solid #E2E8F0',
+                  borderRadius: '0.375rem',
+                  boxSizing: 'border-box',
+                  resize: 'none',
+                }}
+              />
+            </label>
+
+            <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.75rem', fontFamily: 'var(--font-inter)', fontSize: '0.8125rem', color: '#314158', cursor: 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={cancelamentoForm.reemitir}
+                onChange={(e) => setCancelamentoForm({ ...cancelamentoForm, reemitir: e.target.checked })}
+                disabled={isCancelando}
+                className="w-4 h-4 rounded border-slate-300 text-orange-500 focus:ring-orange-500"
+              />
+              Reemitir com o destino corrigido
+            </label>
+
+            {cancelamentoForm.reemitir && (
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '0.5rem', marginBottom: '1rem', backgroundColor: '#F8FAFC', border: '1px solid #E2E8F0', borderRadius: '0.5rem', padding: '0.75rem' }}>
+                {DESTINO_CAMPOS.map(({ campo, label }) => (
+                  <label key={campo} style={{ fontFamily: 'var(--font-inter)', fontSize: '0.6875rem', color: '#64748B' }}>
+                    {label}
+                    <input
+                      type="text"
+                      value={cancelamentoForm.destino[campo]}
+                      onChange={(e) => setCancelamentoForm({
+                        ...cancelamentoForm,
+                        destino: { ...cancelamentoForm.destino, [campo]: e.target.value },
+                      })}
+                      disabled={isCancelando}
+                      style={{
+                        display: 'block',
+                        width: '100%',
+                        marginTop: '0.125rem',
+                        padding: '0.375rem 0.5rem',
+                        fontFamily: 'var(--font-inter)',
+                        fontSize: '0.75rem',
+                        color: '#1E293B',
+                        backgroundColor: '#FFF',
+                        border: '1px solid #E2E8F0',
+                        borderRadius: '0.375rem',
+                        boxSizing: 'border-box',
+                      }}
+                    />
+                  </label>
+                ))}
+              </div>
+            )}
+
+            <div style={{ display: 'flex', gap: '0.75rem' }}>
+              <button
+                onClick={closeCancelamento}
+                disabled={isCancelando}
+                style={{
+                  flex: 1,
+                  padding: '0.75rem',
+                  fontFamily: 'var(--font-inter)',
+                  fontSize: '0.875rem',
+                  fontWeight: 500,
+                  color: '#64748B',
+                  backgroundColor: '#F1F5F9',
+                  border: 'none',
+                  borderRadius: '0.5rem',
+                  cursor: isCancelando ? 'not-allowed' : 'pointer',
+                }}
+              >
+                Voltar
+              </button>
+              <button
+                onClick={handleCancelarEtiqueta}
+                disabled={isCancelando || !cancelamentoForm.motivo.trim()}
+                style={{
+                  flex: 1,
+                  padding: '0.75rem',
+                  fontFamily: 'var(--font-inter)',
+                  fontSize: '0.875rem',
+                  fontWeight: 600,
+                  color: '#FFF',
+                  backgroundColor: isCancelando || !cancelamentoForm.motivo.trim() ? '#FCA5A5' : '#DC2626',
+                  border: 'none',
+                  borderRadius: '0.5rem',
+                  cursor: isCancelando || !cancelamentoForm.motivo.trim() ? 'not-allowed' : 'pointer',
+                }}
+              >
+                {isCancelando
+                  ? 'Processando...'
+                  : cancelamentoForm.reemitir
+                    ? 'Cancelar e reemitir'
+                    : 'Cancelar etiqueta'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Modal de Confirmação de Serviço */}
       {showServiceConfirmModal && (
         <div
@@ -3651,6 +4837,7 @@ export default function EtiquetasUpload() {
           onClick={() => {
             setShowServiceConfirmModal(false);
             setEnvioObservacoes({});
+            setEnvioVolumes({});
             setOrdemPrioridade('antigos');
             setObservacaoGeral('');
           }}
@@ -3674,10 +4861,10 @@ export default function EtiquetasUpload() {
                 fontFamily: 'var(--font-inter)',
                 fontSize: '1.125rem',
                 fontWeight: 600,
-                color: selectedServicoEct === DEFAULT_SERVICO_ECT ? '#F97316' : '#DC2626',
+                color: !usaServicoDiferente ? '#F97316' : '#DC2626',
               }}
             >
-              {selectedServicoEct === DEFAULT_SERVICO_ECT
+              {!usaServicoDiferente
                 ? 'Confirmar Geração de Etiquetas'
                 : '⚠️ Atenção: Serviço Diferente!'
               }
@@ -3685,8 +4872,8 @@ export default function EtiquetasUpload() {
 
             <div
               style={{
-                backgroundColor: selectedServicoEct === DEFAULT_SERVICO_ECT ? '#FFF7ED' : '#FEF2F2',
-                border: `1px solid ${selectedServicoEct === DEFAULT_SERVICO_ECT ? '#FDBA74' : '#FECACA'}`,
+                backgroundColor: !usaServicoDiferente ? '#FFF7ED' : '#FEF2F2',
+                border: `1px solid ${!usaServicoDiferente ? '#FDBA74' : '#FECACA'}`,
                 borderRadius: '0.5rem',
                 padding: '1rem',
                 marginBottom: '1rem',
@@ -3700,19 +4887,27 @@ export default function EtiquetasUpload() {
                   color: '#64748B',
                 }}
               >
-                Serviço selecionado:
-              </p>
-              <p
-                style={{
-                  margin: '0 0 1rem 0',
-                  fontFamily: 'var(--font-inter)',
-                  fontSize: '1rem',
-                  fontWeight: 600,
-                  color: selectedServicoEct === DEFAULT_SERVICO_ECT ? '#F97316' : '#DC2626',
-                }}
-              >
-                {getServicoName(selectedServicoEct)}
+                Serviços (frete estimado):
               </p>
+              <div style={{ margin: '0 0 1rem 0' }}>
+                {resumoServicos.map(resumo => (
+                  <p
+                    key={resumo.code}
+                    style={{
+                      margin: 0,
+                      fontFamily: 'var(--font-inter)',
+                      fontSize: '1rem',
+                      fontWeight: 600,
+                      color: resumo.code === DEFAULT_SERVICO_ECT ? '#F97316' : '#DC2626',
+                    }}
+                  >
+                    {resumo.name}: {resumo.pedidos} pedido{resumo.pedidos !== 1 ? 's' : ''}
+                    <span style={{ fontWeight: 400, fontSize: '0.8125rem', color: '#64748B' }}>
+                      {' '}· ~{resumo.custo.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}
+                    </span>
+                  </p>
+                ))}
+              </div>
               <p
                 style={{
                   margin: 0,
@@ -3723,9 +4918,35 @@ export default function EtiquetasUpload() {
               >
                 <strong>{pendingGeneration.length}</strong> etiqueta{pendingGeneration.length !== 1 ? 's' : ''} será{pendingGeneration.length !== 1 ? 'ão' : ''} gerada{pendingGeneration.length !== 1 ? 's' : ''}.
               </p>
+              {pendingGeneration.some(s => notasDoPedido(s).length === 0) && (
+                <p style={{ margin: '0.5rem 0 0 0', fontFamily: 'var(--font-inter)', fontSize: '0.75rem', color: '#64748B' }}>
+                  🧾 {pendingGeneration.filter(s => notasDoPedido(s).length === 0).length} pedido(s) sem NF-e: a declaração de conteúdo será baixada junto das etiquetas
+                </p>
+              )}
             </div>
 
-            {selectedServicoEct !== DEFAULT_SERVICO_ECT && (
+            {/* Conferência de endereços */}
+            {pendingGeneration.some(s => enderecoValidacao[s.transaction]?.status === 'revisar' || enderecoValidacao[s.transaction]?.status === 'corrigido') && (
+              <div style={{ backgroundColor: '#FFFBEB', border: '1px solid #FCD34D', borderRadius: '0.5rem', padding: '1rem', marginBottom: '1rem' }}>
+                <p style={{ margin: '0 0 0.5rem 0', fontFamily: 'var(--font-inter)', fontSize: '0.875rem', fontWeight: 600, color: '#92400E' }}>
+                  📍 ENDEREÇOS
+                </p>
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '0.375rem', maxHeight: '160px', overflowY: 'auto' }}>
+                  {pendingGeneration
+                    .filter(s => enderecoValidacao[s.transaction]?.status === 'revisar' || enderecoValidacao[s.transaction]?.status === 'corrigido')
+                    .map(sale => {
+                      const validacao = enderecoValidacao[sale.transaction];
+                      return (
+                        <p key={sale.transaction} style={{ margin: 0, fontFamily: 'var(--font-inter)', fontSize: '0.75rem', color: validacao.status === 'revisar' ? '#B45309' : '#166534' }}>
+                          <strong>{sale.name}</strong>: {[...validacao.problemas, ...validacao.correcoes].join(' · ')}
+                        </p>
+                      );
+                    })}
+                </div>
+              </div>
+            )}
+
+            {usaServicoDiferente && (
               <p
                 style={{
                   margin: '0 0 1rem 0',
@@ -3735,7 +4956,7 @@ export default function EtiquetasUpload() {
                   fontWeight: 500,
                 }}
               >
-                Você está gerando etiquetas com um serviço diferente do padrão (IMPRESSO Normal Módico). Confirma?
+                Há pedidos com serviço diferente do padrão ({getServicoName(DEFAULT_SERVICO_ECT)}). Confirma?
               </p>
             )}
 
@@ -3822,7 +5043,7 @@ export default function EtiquetasUpload() {
                 📝 OBSERVAÇÕES POR PEDIDO
               </p>
               <p style={{ margin: '0.25rem 0 0.75rem 0', fontFamily: 'var(--font-inter)', fontSize: '0.75rem', color: '#92400E' }}>
-                Informe o que vai em cada pedido (aparece na mensagem do admin)
+                Informe o que vai em cada pedido (aparece na mensagem do admin) e em quantas caixas ele será postado
               </p>
               <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem', maxHeight: '200px', overflowY: 'auto' }}>
                 {pendingGeneration.map(sale => (
@@ -3835,23 +5056,51 @@ export default function EtiquetasUpload() {
                         </span>
                       )}
                     </p>
-                    <input
-                      type="text"
-                      value={envioObservacoes[sale.transaction] || ''}
-                      onChange={(e) => setEnvioObservacoes(prev => ({ ...prev, [sale.transaction]: e.target.value }))}
-                      placeholder={sale.enviosTotal > 1 ? "O que vai neste envio?" : "Observação (opcional)"}
-                      style={{
-                        width: '100%',
-                        padding: '0.5rem 0.75rem',
-                        fontFamily: 'var(--font-inter)',
-                        fontSize: '0.75rem',
-                        color: '#1E293B',
-                        backgroundColor: '#FFF',
-                        border: '1px solid #E2E8F0',
-                        borderRadius: '0.375rem',
-                        boxSizing: 'border-box',
-                      }}
-                    />
+                    <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+                      <input
+                        type="text"
+                        value={envioObservacoes[sale.transaction] || ''}
+                        onChange={(e) => setEnvioObservacoes(prev => ({ ...prev, [sale.transaction]: e.target.value }))}
+                        onBlur={(e) => salvarAjustesVenda(sale, { observacaoEnvio: e.target.value.trim() || null }, userEmail)}
+                        placeholder={sale.enviosTotal > 1 ? "O que vai neste envio?" : "Observação (opcional)"}
+                        style={{
+                          flex: 1,
+                          padding: '0.5rem 0.75rem',
+                          fontFamily: 'var(--font-inter)',
+                          fontSize: '0.75rem',
+                          color: '#1E293B',
+                          backgroundColor: '#FFF',
+                          border: '1px solid #E2E8F0',
+                          borderRadius: '0.375rem',
+                          boxSizing: 'border-box',
+                        }}
+                      />
+                      {/* Caixas desta postagem (cada uma recebe seu código) */}
+                      <label style={{ display: 'flex', alignItems: 'center', gap: '0.25rem', fontFamily: 'var(--font-inter)', fontSize: '0.6875rem', color: '#78350F', whiteSpace: 'nowrap' }}>
+                        📦 Volumes
+                        <input
+                          type="number"
+                          min={1}
+                          max={MAX_VOLUMES_POR_POSTAGEM}
+                          value={envioVolumes[sale.transaction] || 1}
+                          onChange={(e) => {
+                            const volumes = Math.min(MAX_VOLUMES_POR_POSTAGEM, Math.max(1, parseInt(e.target.value) || 1));
+                            setEnvioVolumes(prev => ({ ...prev, [sale.transaction]: volumes }));
+                          }}
+                          style={{
+                            width: '3.25rem',
+                            padding: '0.5rem 0.375rem',
+                            fontFamily: 'var(--font-inter)',
+                            fontSize: '0.75rem',
+                            color: '#1E293B',
+                            backgroundColor: '#FFF',
+                            border: '1px solid #E2E8F0',
+                            borderRadius: '0.375rem',
+                            boxSizing: 'border-box',
+                          }}
+                        />
+                      </label>
+                    </div>
                   </div>
                 ))}
               </div>
@@ -3862,6 +5111,7 @@ export default function EtiquetasUpload() {
                 onClick={() => {
                   setShowServiceConfirmModal(false);
                   setEnvioObservacoes({});
+                  setEnvioVolumes({});
                   setOrdemPrioridade('antigos');
                   setObservacaoGeral('');
                 }}
@@ -3889,7 +5139,7 @@ export default function EtiquetasUpload() {
                   fontSize: '0.875rem',
                   fontWeight: 500,
                   color: '#FFF',
-                  backgroundColor: selectedServicoEct === DEFAULT_SERVICO_ECT ? '#F97316' : '#DC2626',
+                  backgroundColor: !usaServicoDiferente ? '#F97316' : '#DC2626',
                   border: 'none',
                   borderRadius: '0.5rem',
                   cursor: 'pointer',
@@ -5464,6 +6714,26 @@ export default function EtiquetasUpload() {
               </div>
             </div>
 
+            {/* Layout do PDF das etiquetas */}
+            <div style={{ marginBottom: '1rem', padding: '1rem', backgroundColor: '#F8FAFC', borderRadius: '0.75rem', border: '1px solid #E2E8F0' }}>
+              <p style={{ margin: 0, fontFamily: 'var(--font-inter)', fontSize: '0.875rem', fontWeight: 600, color: '#1E293B' }}>
+                🖨️ Impressão das etiquetas
+              </p>
+              <p style={{ margin: '0.25rem 0 0.5rem 0', fontFamily: 'var(--font-inter)', fontSize: '0.75rem', color: '#64748B' }}>
+                Layout próprio não depende da ViPP e inclui a lista de separação do lote
+              </p>
+              <select
+                value={formatoImpressao}
+                onChange={(e) => setFormatoImpressao(e.target.value as FormatoImpressao)}
+                style={{ width: '100%', padding: '0.5rem', fontFamily: 'var(--font-inter)', fontSize: '0.875rem', border: '1px solid #E2E8F0', borderRadius: '0.5rem', backgroundColor: '#FFF' }}
+              >
+                <option value="vipp">ViPP - Etiqueta Correios 10x15</option>
+                {(Object.keys(FORMATO_ETIQUETA_LABELS) as FormatoEtiqueta[]).map(formato => (
+                  <option key={formato} value={formato}>Layout próprio - {FORMATO_ETIQUETA_LABELS[formato]}</option>
+                ))}
+              </select>
+            </div>
+
             {/* Toggle: Enviar para N8N */}
             <div style={{ marginBottom: '1rem', padding: '1rem', backgroundColor: sendToN8n ? '#F0FDF4' : '#FEF2F2', borderRadius: '0.75rem', border: sendToN8n ? '1px solid #86EFAC' : '1px solid #FECACA' }}>
               <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
@@ -5556,7 +6826,7 @@ export default function EtiquetasUpload() {
               <input
                 type="text"
                 value={adminPhone}
-                onChange={(e) => setAdminPhone(e.target.value.replace(/\D/g, ''))}
+                onChange={(e) => setAdminPhone(e.target.value.replace(/[^\d+]/g, ''))}
                 placeholder="5585999999999"
                 style={{
                   width: '100%',
@@ -5579,7 +6849,7 @@ export default function EtiquetasUpload() {
               <input
                 type="text"
                 value={clientPhoneOverride}
-                onChange={(e) => setClientPhoneOverride(e.target.value.replace(/\D/g, ''))}
+                onChange={(e) => setClientPhoneOverride(e.target.value.replace(/[^\d+]/g, ''))}
                 placeholder="Vazio = usa telefone do CSV"
                 style={{
                   width: '100%',
@@ -5598,6 +6868,8 @@ export default function EtiquetasUpload() {
               </p>
             </div>
 
+            <CepBase />
+
             {/* Botão fechar */}
             <button
               onClick={() => {
@@ -5643,6 +6915,7 @@ export default function EtiquetasUpload() {
             setConfirmEtiquetasText('');
             setConfirmEnviarText('');
             setEnvioObservacoes({});
+            setEnvioVolumes({});
             setOrdemPrioridade('antigos');
             setObservacaoGeral('');
           }}
@@ -5834,6 +7107,7 @@ export default function EtiquetasUpload() {
                         type="text"
                         value={envioObservacoes[sale.transaction] || ''}
                         onChange={(e) => setEnvioObservacoes(prev => ({ ...prev, [sale.transaction]: e.target.value }))}
+                        onBlur={(e) => salvarAjustesVenda(sale, { observacaoEnvio: e.target.value.trim() || null }, userEmail)}
                         placeholder="O que vai neste envio?"
                         style={{
                           width: '100%',
@@ -5869,6 +7143,7 @@ export default function EtiquetasUpload() {
                   setConfirmEtiquetasText('');
                   setConfirmEnviarText('');
                   setEnvioObservacoes({});
+                  setEnvioVolumes({});
                   setOrdemPrioridade('antigos');
                   setObservacaoGeral('');
                 }}
@@ -5957,7 +7232,7 @@ export default function EtiquetasUpload() {
                 margin: '0 0 1.5rem 0',
               }}
             >
-              Deseja importar um novo CSV? Os dados atuais serão substituídos.
+              Deseja importar um novo CSV? Os pedidos do arquivo entram na fila salva junto com os atuais.
             </p>
             <div style={{ display: 'flex', gap: '0.75rem' }}>
               <button
@@ -0,0 +1,284 @@
+'use client';
+
+import { useState, useEffect, useCallback, Fragment } from 'react';
+import {
+  EventoWebhook,
+  ORIGEM_EVENTO_WEBHOOK_LABELS,
+  OrigemEventoWebhook,
+  STATUS_EVENTO_WEBHOOK_LABELS,
+  StatusEventoWebhook,
+} from '@/lib/eventosWebhook';
+
+const STATUS_COLORS: Record<StatusEventoWebhook, { bg: string; text: string }> = {
+  recebido: { bg: '#DBEAFE', text: '#1D4ED8' },
+  processado: { bg: '#DCFCE7', text: '#15803D' },
+  ignorado: { bg: '#F1F5F9', text: '#475569' },
+  erro: { bg: '#FEE2E2', text: '#B91C1C' },
+};
+
+const STATUS_ORDER: StatusEventoWebhook[] = ['recebido', 'processado', 'ignorado', 'erro'];
+
+const ORIGENS = Object.keys(ORIGEM_EVENTO_WEBHOOK_LABELS) as OrigemEventoWebhook[];
+
+// Períodos do filtro, em dias
+const PERIODOS = [
+  { dias: 1, label: 'Últimas 24h' },
+  { dias: 7, label: 'Últimos 7 dias' },
+  { dias: 30, label: 'Últimos 30 dias' },
+];
+
+// Corpo formatado quando é JSON; senão como chegou
+function formatarCorpo(corpo: string): string {
+  try {
+    return JSON.stringify(JSON.parse(corpo), null, 2);
+  } catch {
+    return corpo;
+  }
+}
+
+export default function EventosWebhook() {
+  const [eventos, setEventos] = useState<EventoWebhook[]>([]);
+  const [contagem, setContagem] = useState<Partial<Record<StatusEventoWebhook, number>>>({});
+  const [statusFilter, setStatusFilter] = useState<StatusEventoWebhook | null>(null);
+  const [origemFilter, setOrigemFilter] = useState<OrigemEventoWebhook | ''>('');
+  const [periodoDias, setPeriodoDias] = useState(7);
+  const [loading, setLoading] = useState(false);
+  const [reprocessando, setReprocessando] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [resumo, setResumo] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const filtroAtual = useCallback(() => ({
+    ...(origemFilter && { origem: origemFilter }),
+    ...(statusFilter && { status: statusFilter }),
+    de: new Date(Date.now() - periodoDias * 24 * 60 * 60 * 1000).toISOString(),
+  }), [origemFilter, statusFilter, periodoDias]);
+
+  const carregar = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ limit: '200', ...filtroAtual() });
+      const response = await fetch(`/api/eventos-webhook?${params.toString()}`);
+      const data = await response.json();
+      if (data.success) {
+        setEventos(data.eventos);
+        setContagem(data.contagem);
+        setError(null);
+      } else {
+        setError(data.error || 'Erro ao carregar eventos');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erro ao carregar eventos');
+    } finally {
+      setLoading(false);
+    }
+  }, [filtroAtual]);
+
+  // Carregar e atualizar a cada 30s
+  useEffect(() => {
+    carregar();
+    const interval = setInterval(carregar, 30000);
+    return () => clearInterval(interval);
+  }, [carregar]);
+
+  const reprocessar = async (
+    body: { action: 'reprocessar'; ids: string[] } | ({ action: 'reprocessarFiltro' } & ReturnType<typeof filtroAtual>),
+    envolveEtiquetas: boolean
+  ) => {
+    // Lote de etiquetas reprocessado repete só os envios que falharam (WhatsApp, N8N, SwipeOne, planilha)
+    if (envolveEtiquetas && !confirm('Reprocessar lotes de etiquetas repete os envios que falharam (WhatsApp, N8N, SwipeOne, planilha). Continuar?')) {
+      return;
+    }
+
+    setError(null);
+    setResumo(null);
+    setReprocessando(true);
+    try {
+      const response = await fetch('/api/eventos-webhook', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (data.success) {
+        setResumo(`${data.reprocessados} evento(s) reprocessado(s)${data.falhas > 0 ? `, ${data.falhas} com falha` : ''}`);
+      } else {
+        setError(data.error || 'Erro ao reprocessar');
+      }
+      await carregar();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erro ao reprocessar');
+    } finally {
+      setReprocessando(false);
+    }
+  };
+
+  const reprocessarFiltro = () => {
+    const falhas = eventos.filter(e => e.status === 'erro').length;
+    if (!confirm(`Reprocessar até 100 eventos com falha do filtro atual (${falhas} listado(s))?`)) return;
+    reprocessar({ action: 'reprocessarFiltro', ...filtroAtual(), status: 'erro' }, !origemFilter || origemFilter === 'etiquetas');
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200 p-6 w-full max-w-6xl">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-800">Eventos de webhook</h2>
+          <p className="text-sm text-slate-500">
+            Tudo que chega das plataformas, da Evolution e dos lotes de etiquetas fica guardado para reprocessar
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={carregar}
+            disabled={loading}
+            className="px-3 py-2 rounded-lg text-sm font-medium bg-slate-100 text-slate-700 hover:bg-slate-200 disabled:opacity-50"
+          >
+            {loading ? 'Atualizando...' : 'Atualizar'}
+          </button>
+          <button
+            onClick={reprocessarFiltro}
+            disabled={reprocessando || !eventos.some(e => e.status === 'erro')}
+            className="px-3 py-2 rounded-lg text-sm font-medium bg-blue-100 text-blue-700 hover:bg-blue-200 disabled:opacity-50"
+          >
+            {reprocessando ? 'Reprocessando...' : 'Reprocessar falhas'}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <select
+          value={origemFilter}
+          onChange={(e) => setOrigemFilter(e.target.value as OrigemEventoWebhook | '')}
+          className="px-3 py-1.5 rounded-lg border border-slate-200 text-xs text-slate-700"
+        >
+          <option value="">Todas as origens</option>
+          {ORIGENS.map(origem => (
+            <option key={origem} value={origem}>{ORIGEM_EVENTO_WEBHOOK_LABELS[origem]}</option>
+          ))}
+        </select>
+        <select
+          value={periodoDias}
+          onChange={(e) => setPeriodoDias(Number(e.target.value))}
+          className="px-3 py-1.5 rounded-lg border border-slate-200 text-xs text-slate-700"
+        >
+          {PERIODOS.map(p => (
+            <option key={p.dias} value={p.dias}>{p.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <button
+          onClick={() => setStatusFilter(null)}
+          className={`px-3 py-1.5 rounded-full text-xs font-medium ${
+            statusFilter === null ? 'bg-slate-800 text-white' : 'bg-slate-100 text-slate-700'
+          }`}
+        >
+          Todos
+        </button>
+        {STATUS_ORDER.map(status => (
+          <button
+            key={status}
+            onClick={() => setStatusFilter(status)}
+            className="px-3 py-1.5 rounded-full text-xs font-medium"
+            style={{
+              backgroundColor: statusFilter === status ? STATUS_COLORS[status].text : STATUS_COLORS[status].bg,
+              color: statusFilter === status ? '#FFFFFF' : STATUS_COLORS[status].text,
+            }}
+          >
+            {STATUS_EVENTO_WEBHOOK_LABELS[status]} ({contagem[status] || 0})
+          </button>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-500 border-b border-slate-200">
+              <th className="py-2 pr-3 font-medium">Recebido em</th>
+              <th className="py-2 pr-3 font-medium">Origem</th>
+              <th className="py-2 pr-3 font-medium">Evento</th>
+              <th className="py-2 pr-3 font-medium">Status</th>
+              <th className="py-2 pr-3 font-medium">Tentativas</th>
+              <th className="py-2 font-medium"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {eventos.length === 0 && (
+              <tr>
+                <td colSpan={6} className="py-6 text-center text-slate-400">Nenhum evento</td>
+              </tr>
+            )}
+            {eventos.map(e => (
+              <Fragment key={e.id}>
+                <tr
+                  onClick={() => setExpandedId(expandedId === e.id ? null : e.id)}
+                  className="border-b border-slate-100 hover:bg-slate-50 cursor-pointer"
+                >
+                  <td className="py-2 pr-3 text-slate-600 whitespace-nowrap">
+                    {new Date(e.recebidoEm).toLocaleString('pt-BR')}
+                  </td>
+                  <td className="py-2 pr-3 text-slate-600">{ORIGEM_EVENTO_WEBHOOK_LABELS[e.origem] || e.origem}</td>
+                  <td className="py-2 pr-3">
+                    <p className="text-slate-800">{e.tipo || '-'}</p>
+                    {e.chave && <p className="text-xs text-slate-500">{e.chave}</p>}
+                  </td>
+                  <td className="py-2 pr-3">
+                    <span
+                      className="px-2 py-0.5 rounded-full text-xs font-medium"
+                      style={{ backgroundColor: STATUS_COLORS[e.status].bg, color: STATUS_COLORS[e.status].text }}
+                    >
+                      {STATUS_EVENTO_WEBHOOK_LABELS[e.status]}
+                    </span>
+                  </td>
+                  <td className="py-2 pr-3 text-slate-600">{e.tentativas}</td>
+                  <td className="py-2 text-right">
+                    <button
+                      onClick={(ev) => {
+                        ev.stopPropagation();
+                        reprocessar({ action: 'reprocessar', ids: [e.id] }, e.origem === 'etiquetas');
+                      }}
+                      disabled={reprocessando}
+                      className="text-xs text-blue-600 hover:underline disabled:opacity-50"
+                    >
+                      Reprocessar
+                    </button>
+                  </td>
+                </tr>
+                {expandedId === e.id && (
+                  <tr className="bg-slate-50">
+                    <td colSpan={6} className="px-3 py-3">
+                      {e.erro && <p className="text-xs text-red-600 mb-2">Erro: {e.erro}</p>}
+                      {e.mensagem && <p className="text-xs text-slate-600 mb-2">{e.mensagem}</p>}
+                      {e.reprocessadoEm && (
+                        <p className="text-xs text-slate-500 mb-2">
+                          Último reprocessamento: {new Date(e.reprocessadoEm).toLocaleString('pt-BR')}
+                        </p>
+                      )}
+                      <pre className="text-xs text-slate-700 whitespace-pre-wrap break-all max-h-80 overflow-y-auto">
+                        {formatarCorpo(e.corpo)}
+                      </pre>
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {resumo && (
+        <div className="mt-4 p-4 bg-green-50 border border-green-200 rounded-lg text-green-700">
+          {resumo}
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
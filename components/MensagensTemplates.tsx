@@ -0,0 +1,188 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  MESSAGE_TEMPLATE_DEFINITIONS,
+  DEFAULT_MESSAGE_TEMPLATES,
+  MessageTemplateId,
+  fetchMessageTemplates,
+  saveMessageTemplate,
+  resetMessageTemplate,
+  validateTemplate,
+} from '@/lib/messageTemplates';
+
+interface MensagensTemplatesProps {
+  userEmail?: string;
+}
+
+export default function MensagensTemplates({ userEmail }: MensagensTemplatesProps) {
+  const [templates, setTemplates] = useState<Record<MessageTemplateId, string>>(DEFAULT_MESSAGE_TEMPLATES);
+  const [selectedId, setSelectedId] = useState<MessageTemplateId>('cliente_etiqueta');
+  const [conteudo, setConteudo] = useState(DEFAULT_MESSAGE_TEMPLATES.cliente_etiqueta);
+  const [preview, setPreview] = useState('');
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const definition = MESSAGE_TEMPLATE_DEFINITIONS.find(d => d.id === selectedId)!;
+  const hasChanges = conteudo !== templates[selectedId];
+  const isDefault = templates[selectedId] === DEFAULT_MESSAGE_TEMPLATES[selectedId];
+  const validation = validateTemplate(conteudo);
+
+  // Carregar templates salvos
+  useEffect(() => {
+    const load = async () => {
+      const saved = await fetchMessageTemplates();
+      setTemplates(saved);
+      setConteudo(saved.cliente_etiqueta);
+    };
+    load();
+  }, []);
+
+  // Atualizar preview (debounce para não chamar a API a cada tecla)
+  useEffect(() => {
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch('/api/whatsapp/templates/preview', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ templateId: selectedId, conteudo }),
+        });
+        const data = await response.json();
+        if (data.success) {
+          setPreview(data.mensagem);
+          setPreviewError(null);
+        } else {
+          setPreviewError(data.error || 'Erro ao gerar preview');
+        }
+      } catch (err) {
+        setPreviewError(err instanceof Error ? err.message : 'Erro ao gerar preview');
+      }
+    }, 400);
+
+    return () => clearTimeout(timeout);
+  }, [selectedId, conteudo]);
+
+  const selectTemplate = (id: MessageTemplateId) => {
+    if (hasChanges && !confirm('Descartar alterações não salvas?')) return;
+    setSelectedId(id);
+    setConteudo(templates[id]);
+    setMessage(null);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      await saveMessageTemplate(selectedId, conteudo, userEmail);
+      setTemplates(prev => ({ ...prev, [selectedId]: conteudo }));
+      setMessage({ type: 'success', text: 'Template salvo!' });
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Erro ao salvar template' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!confirm('Restaurar o texto padrão deste template?')) return;
+    setSaving(true);
+    setMessage(null);
+    try {
+      await resetMessageTemplate(selectedId);
+      setTemplates(prev => ({ ...prev, [selectedId]: DEFAULT_MESSAGE_TEMPLATES[selectedId] }));
+      setConteudo(DEFAULT_MESSAGE_TEMPLATES[selectedId]);
+      setMessage({ type: 'success', text: 'Template padrão restaurado' });
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Erro ao restaurar template' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200 p-6 w-full max-w-6xl">
+      <div className="mb-6">
+        <h2 className="text-lg font-semibold text-slate-800">Mensagens WhatsApp</h2>
+        <p className="text-sm text-slate-500">
+          Textos enviados aos clientes e ao admin quando as etiquetas são geradas
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {MESSAGE_TEMPLATE_DEFINITIONS.map(def => (
+          <button
+            key={def.id}
+            onClick={() => selectTemplate(def.id)}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+              selectedId === def.id
+                ? 'bg-blue-600 text-white'
+                : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+            }`}
+          >
+            {def.nome}
+          </button>
+        ))}
+      </div>
+
+      <p className="text-sm text-slate-500 mb-4">{definition.descricao}</p>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">Template</label>
+          <textarea
+            value={conteudo}
+            onChange={(e) => setConteudo(e.target.value)}
+            rows={18}
+            className={`w-full px-3 py-2 rounded-lg border text-sm text-slate-800 font-mono ${
+              validation.valid ? 'border-slate-200' : 'border-red-400'
+            }`}
+          />
+          {!validation.valid && (
+            <p className="text-xs text-red-600 mt-1">{validation.error}</p>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">Pré-visualização (etiqueta de exemplo)</label>
+          <div className="w-full min-h-[200px] px-3 py-2 rounded-lg bg-green-50 border border-green-200 text-sm text-slate-800 whitespace-pre-wrap">
+            {previewError ? <span className="text-red-600">{previewError}</span> : preview}
+          </div>
+        </div>
+      </div>
+
+      <div className="mt-4 p-3 bg-slate-50 rounded-lg text-xs text-slate-600 space-y-1">
+        <p>
+          <span className="font-medium">Variáveis:</span>{' '}
+          {definition.variaveis.map(v => `{{${v}}}`).join(', ')}
+        </p>
+        <p>
+          <span className="font-medium">Blocos:</span>{' '}
+          {'{{#if variavel}}...{{else}}...{{/if}}'}, {'{{#each lista}}...{{this}}...{{/each}}'}, {'{{> admin_item}}'}
+        </p>
+      </div>
+
+      <div className="flex items-center gap-3 mt-4">
+        <button
+          onClick={handleSave}
+          disabled={saving || !hasChanges || !validation.valid}
+          className="px-4 py-2 rounded-lg text-sm font-medium bg-slate-800 text-white hover:bg-slate-900 disabled:opacity-50"
+        >
+          {saving ? 'Salvando...' : 'Salvar template'}
+        </button>
+        <button
+          onClick={handleReset}
+          disabled={saving || (isDefault && !hasChanges)}
+          className="px-4 py-2 rounded-lg text-sm font-medium bg-slate-100 text-slate-700 hover:bg-slate-200 disabled:opacity-50"
+        >
+          Restaurar padrão
+        </button>
+        {message && (
+          <span className={`text-sm ${message.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+            {message.text}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { PostagemVipp } from '@/lib/postagensVipp';
+
+interface PostagensConferirProps {
+  userEmail?: string;
+}
+
+// Postagens que caíram no meio (timeout, erro de rede, deploy): a ViPP pode ou não ter gerado a etiqueta.
+// O operador confere na ViPP pelo pedido e confirma os códigos ou libera o envio para postar de novo
+export default function PostagensConferir({ userEmail }: PostagensConferirProps) {
+  const [postagens, setPostagens] = useState<PostagemVipp[]>([]);
+  const [codigos, setCodigos] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [resolvendo, setResolvendo] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const carregar = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/vipp/postagens');
+      const data = await response.json();
+      if (data.success) {
+        setPostagens(data.postagens);
+        setError(null);
+      } else {
+        setError(data.error || 'Erro ao carregar postagens');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erro ao carregar postagens');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Carregar e atualizar a cada 60s
+  useEffect(() => {
+    carregar();
+    const interval = setInterval(carregar, 60000);
+    return () => clearInterval(interval);
+  }, [carregar]);
+
+  const resolver = async (postagem: PostagemVipp, acao: 'confirmar' | 'liberar') => {
+    const etiquetas = (codigos[postagem.chave] || '').split(/[\s,;]+/).filter(Boolean);
+    if (acao === 'confirmar' && etiquetas.length === 0) {
+      setError('Informe os códigos encontrados na ViPP');
+      return;
+    }
+    if (acao === 'liberar' && !confirm(`Confirma que o pedido ${postagem.transactionId} (envio ${postagem.envioNumero}) NÃO tem etiqueta na ViPP? Ele será postado de novo.`)) {
+      return;
+    }
+
+    setResolvendo(postagem.chave);
+    setError(null);
+    try {
+      const response = await fetch('/api/vipp/postagens', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          transactionId: postagem.transactionId,
+          envioNumero: postagem.envioNumero,
+          teste: !!postagem.teste,
+          acao,
+          etiquetas,
+          operador: userEmail || 'desconhecido',
+        }),
+      });
+      const data = await response.json();
+      if (!data.success) setError(data.error || 'Erro ao resolver postagem');
+      await carregar();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erro ao resolver postagem');
+    } finally {
+      setResolvendo(null);
+    }
+  };
+
+  // Nada a conferir: não ocupa espaço na tela de etiquetas
+  if (postagens.length === 0 && !error) return null;
+
+  return (
+    <div className="bg-white rounded-2xl border border-amber-200 p-6 w-full mt-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-800">Postagens a conferir ({postagens.length})</h2>
+          <p className="text-sm text-slate-500">
+            A postagem caiu no meio e a ViPP pode ter gerado a etiqueta. Procure o pedido na ViPP: se existir, confirme os códigos;
+            se não, libere para postar de novo. Lotes com esses pedidos continuam sozinhos depois da conferência;
+            fora de lote, gerar a etiqueta do pedido de novo devolve os códigos confirmados
+          </p>
+        </div>
+        <button
+          onClick={carregar}
+          disabled={loading}
+          className="px-3 py-2 rounded-lg text-sm font-medium bg-slate-100 text-slate-700 hover:bg-slate-200 disabled:opacity-50"
+        >
+          {loading ? 'Atualizando...' : 'Atualizar'}
+        </button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-500 border-b border-slate-200">
+              <th className="py-2 pr-3 font-medium">Pedido</th>
+              <th className="py-2 pr-3 font-medium">Envio</th>
+              <th className="py-2 pr-3 font-medium">Desde</th>
+              <th className="py-2 pr-3 font-medium">Erro</th>
+              <th className="py-2 pr-3 font-medium">Códigos na ViPP</th>
+              <th className="py-2 font-medium"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {postagens.map(p => (
+              <tr key={p.chave} className="border-b border-slate-100">
+                <td className="py-2 pr-3 text-slate-800">{p.transactionId}</td>
+                <td className="py-2 pr-3 text-slate-600">{p.envioNumero}{p.teste && ' (teste)'}</td>
+                <td className="py-2 pr-3 text-slate-600 whitespace-nowrap">{new Date(p.iniciadoEm).toLocaleString('pt-BR')}</td>
+                <td className="py-2 pr-3 text-xs text-slate-500">{p.erro || (p.status === 'postando' ? 'Interrompida' : '-')}</td>
+                <td className="py-2 pr-3">
+                  <input
+                    type="text"
+                    value={codigos[p.chave] || ''}
+                    onChange={(e) => setCodigos(prev => ({ ...prev, [p.chave]: e.target.value }))}
+                    placeholder="AA123456789BR, ..."
+                    className="w-48 px-2 py-1 rounded border border-slate-200 text-xs"
+                  />
+                </td>
+                <td className="py-2 text-right whitespace-nowrap">
+                  <button
+                    onClick={() => resolver(p, 'confirmar')}
+                    disabled={resolvendo === p.chave}
+                    className="text-xs text-green-700 hover:underline disabled:opacity-50 mr-3"
+                  >
+                    Confirmar etiqueta
+                  </button>
+                  <button
+                    onClick={() => resolver(p, 'liberar')}
+                    disabled={resolvendo === p.chave}
+                    className="text-xs text-red-600 hover:underline disabled:opacity-50"
+                  >
+                    Não existe - liberar
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {error && (
+        <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,313 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { db } from '@/lib/firebase';
+import { doc, onSnapshot, getDoc, setDoc } from 'firebase/firestore';
+import {
+  DELIVERY_STATUS_LABELS,
+  DeliveryStatus,
+  TRACKING_MILESTONES,
+  TRACKING_MILESTONE_LABELS,
+  DEFAULT_MILESTONE_TEMPLATES,
+  TrackingMilestone,
+  TrackingNotificationsConfig,
+  mergeTrackingNotificationsConfig,
+} from '@/lib/tracking';
+
+interface TrackingWorkerConfig {
+  enabled: boolean;
+  sincronizando: boolean;
+  intervalMinutes: number;
+  proximaExecucao: string | null;
+  ultimaExecucao?: string;
+  ultimoResumo?: {
+    total: number;
+    consultadas: number;
+    atualizadas: number;
+    semEventos: number;
+    erros: number;
+    mudancas: Partial<Record<DeliveryStatus, number>>;
+    notificados?: number;
+    errosNotificacao?: number;
+  };
+}
+
+const INTERVAL_OPTIONS = [30, 60, 120, 240, 360];
+
+export default function RastreioWorker() {
+  const [config, setConfig] = useState<TrackingWorkerConfig | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notificacoes, setNotificacoes] = useState<TrackingNotificationsConfig>(mergeTrackingNotificationsConfig(null));
+  const [showNotificacoes, setShowNotificacoes] = useState(false);
+  const [savingNotificacoes, setSavingNotificacoes] = useState(false);
+
+  // Listener para config do worker de rastreio
+  useEffect(() => {
+    const configRef = doc(db, 'configuracoes', 'tracking_worker_config');
+    const unsubscribe = onSnapshot(configRef, (snapshot) => {
+      if (snapshot.exists()) {
+        setConfig(snapshot.data() as TrackingWorkerConfig);
+      } else {
+        setConfig({
+          enabled: false,
+          sincronizando: false,
+          intervalMinutes: 60,
+          proximaExecucao: null,
+        });
+      }
+    });
+
+    return () => unsubscribe();
+  }, []);
+
+  // Carregar config das notificações de marcos
+  useEffect(() => {
+    const loadNotificacoes = async () => {
+      try {
+        const snap = await getDoc(doc(db, 'configuracoes', 'tracking_notifications_config'));
+        setNotificacoes(mergeTrackingNotificationsConfig(snap.exists() ? snap.data() : null));
+      } catch (err) {
+        console.error('Erro ao carregar notificações de rastreio:', err);
+      }
+    };
+    loadNotificacoes();
+  }, []);
+
+  const updateMarco = (marco: TrackingMilestone, changes: Partial<{ enabled: boolean; template: string }>) => {
+    setNotificacoes(prev => ({
+      ...prev,
+      milestones: {
+        ...prev.milestones,
+        [marco]: { ...prev.milestones[marco], ...changes },
+      },
+    }));
+  };
+
+  const salvarNotificacoes = async () => {
+    setSavingNotificacoes(true);
+    setError(null);
+    try {
+      await setDoc(doc(db, 'configuracoes', 'tracking_notifications_config'), {
+        ...notificacoes,
+        atualizadoEm: new Date().toISOString(),
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erro ao salvar notificações');
+    } finally {
+      setSavingNotificacoes(false);
+    }
+  };
+
+  const toggleWorker = async (enabled: boolean, intervalMinutes = config?.intervalMinutes || 60) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/cron/rastreio-etiquetas', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'toggle', enabled, intervalMinutes }),
+      });
+
+      const data = await response.json();
+      if (!data.success) {
+        setError(data.error || 'Erro ao alterar worker');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erro desconhecido');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const consultarAgora = () => {
+    setError(null);
+    // Fire-and-forget - o progresso aparece via onSnapshot
+    fetch('/api/cron/rastreio-etiquetas?manual=true')
+      .then(res => res.json())
+      .then(data => console.log('[Rastreio] Resultado:', data))
+      .catch(err => console.error('[Rastreio] Erro:', err));
+  };
+
+  const resumo = config?.ultimoResumo;
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200 p-6 w-full max-w-4xl">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="w-12 h-12 rounded-xl bg-yellow-100 flex items-center justify-center">
+          <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="#CA8A04" strokeWidth="2">
+            <rect x="1" y="3" width="15" height="13" />
+            <polygon points="16 8 20 8 23 11 23 16 16 16 16 8" />
+            <circle cx="5.5" cy="18.5" r="2.5" />
+            <circle cx="18.5" cy="18.5" r="2.5" />
+          </svg>
+        </div>
+        <div>
+          <h2 className="text-lg font-semibold text-slate-800">Rastreio Correios</h2>
+          <p className="text-sm text-slate-500">
+            Atualiza o status de entrega de todas as etiquetas em aberto
+          </p>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between p-4 bg-slate-50 rounded-xl mb-4">
+        <div className="flex items-center gap-4">
+          <div className={`w-3 h-3 rounded-full ${config?.enabled ? 'bg-green-500 animate-pulse' : 'bg-slate-400'}`} />
+          <div>
+            <p className="font-medium text-slate-800">Worker de Rastreio</p>
+            <p className="text-sm text-slate-500">
+              {config?.enabled
+                ? config?.sincronizando
+                  ? 'Consultando...'
+                  : config?.proximaExecucao
+                    ? `Próxima consulta: ${new Date(config.proximaExecucao).toLocaleString('pt-BR')}`
+                    : 'Aguardando primeira consulta terminar...'
+                : 'Desabilitado'}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={config?.intervalMinutes || 60}
+            onChange={(e) => toggleWorker(!!config?.enabled, parseInt(e.target.value))}
+            disabled={loading}
+            className="px-2 py-2 rounded-lg border border-slate-200 text-sm text-slate-700 bg-white"
+          >
+            {INTERVAL_OPTIONS.map(min => (
+              <option key={min} value={min}>
+                {min < 60 ? `${min} min` : `${min / 60}h`}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => toggleWorker(!config?.enabled)}
+            disabled={loading}
+            className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+              config?.enabled
+                ? 'bg-red-100 text-red-700 hover:bg-red-200'
+                : 'bg-green-100 text-green-700 hover:bg-green-200'
+            } disabled:opacity-50`}
+          >
+            {config?.enabled ? 'Desabilitar' : 'Habilitar'}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={consultarAgora}
+          disabled={loading || config?.sincronizando}
+          className={`px-5 py-2.5 rounded-lg font-medium transition-colors ${
+            loading || config?.sincronizando
+              ? 'bg-slate-300 text-slate-500 cursor-not-allowed'
+              : 'bg-blue-600 text-white hover:bg-blue-700'
+          }`}
+        >
+          {config?.sincronizando ? 'Consultando...' : 'Consultar Agora'}
+        </button>
+        {config?.ultimaExecucao && (
+          <span className="text-sm text-slate-500">
+            Última consulta: {new Date(config.ultimaExecucao).toLocaleString('pt-BR')}
+          </span>
+        )}
+      </div>
+
+      {resumo && (
+        <div className="flex flex-wrap gap-4 text-sm mt-4">
+          <span className="text-slate-600">Em aberto: {resumo.total}</span>
+          <span className="text-slate-600">Atualizadas: {resumo.atualizadas}</span>
+          <span className="text-slate-600">Sem eventos: {resumo.semEventos}</span>
+          {resumo.erros > 0 && <span className="text-red-600">Erros: {resumo.erros}</span>}
+          {(resumo.notificados || 0) > 0 && <span className="text-green-600">WhatsApp enfileirados: {resumo.notificados}</span>}
+          {(resumo.errosNotificacao || 0) > 0 && <span className="text-red-600">Erros ao enfileirar: {resumo.errosNotificacao}</span>}
+          {(Object.entries(resumo.mudancas || {}) as [DeliveryStatus, number][]).map(([status, count]) => (
+            <span key={status} className="text-slate-600">
+              {DELIVERY_STATUS_LABELS[status]}: {count}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* Notificações de marcos */}
+      <div className="mt-6 border-t border-slate-200 pt-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="font-medium text-slate-800">Notificações WhatsApp por marco</p>
+            <p className="text-sm text-slate-500">
+              Cada marco é enviado uma única vez por código de rastreio
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <label className="flex items-center gap-2 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={notificacoes.enabled}
+                onChange={(e) => setNotificacoes(prev => ({ ...prev, enabled: e.target.checked }))}
+                className="w-4 h-4 rounded border-slate-300"
+              />
+              Ativas
+            </label>
+            <button
+              onClick={() => setShowNotificacoes(!showNotificacoes)}
+              className="text-sm text-blue-600 hover:underline"
+            >
+              {showNotificacoes ? 'Ocultar mensagens' : 'Editar mensagens'}
+            </button>
+          </div>
+        </div>
+
+        {showNotificacoes && (
+          <div className="mt-4 space-y-4">
+            {TRACKING_MILESTONES.map(marco => (
+              <div key={marco} className="p-3 bg-slate-50 rounded-lg">
+                <div className="flex items-center justify-between mb-2">
+                  <label className="flex items-center gap-2 text-sm font-medium text-slate-700">
+                    <input
+                      type="checkbox"
+                      checked={notificacoes.milestones[marco].enabled}
+                      onChange={(e) => updateMarco(marco, { enabled: e.target.checked })}
+                      className="w-4 h-4 rounded border-slate-300"
+                    />
+                    {TRACKING_MILESTONE_LABELS[marco]}
+                  </label>
+                  <button
+                    onClick={() => updateMarco(marco, { template: DEFAULT_MILESTONE_TEMPLATES[marco] })}
+                    className="text-xs text-slate-500 hover:underline"
+                  >
+                    Restaurar padrão
+                  </button>
+                </div>
+                <textarea
+                  value={notificacoes.milestones[marco].template}
+                  onChange={(e) => updateMarco(marco, { template: e.target.value })}
+                  rows={4}
+                  className="w-full px-3 py-2 rounded-lg border border-slate-200 text-sm text-slate-800 font-mono"
+                />
+              </div>
+            ))}
+            <p className="text-xs text-slate-500">
+              Variáveis: {'{{nome}}'}, {'{{codigo}}'}, {'{{local}}'}, {'{{descricao}}'}, {'{{linkRastreio}}'}
+            </p>
+          </div>
+        )}
+
+        <div className="mt-4">
+          <button
+            onClick={salvarNotificacoes}
+            disabled={savingNotificacoes}
+            className="px-4 py-2 rounded-lg text-sm font-medium bg-slate-800 text-white hover:bg-slate-900 disabled:opacity-50"
+          >
+            {savingNotificacoes ? 'Salvando...' : 'Salvar notificações'}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
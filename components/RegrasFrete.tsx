@@ -0,0 +1,380 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  RegrasFreteConfig,
+  RegraFrete,
+  RegiaoFrete,
+  CriterioFrete,
+  SERVICOS_ECT,
+  REGIAO_FRETE_LABELS,
+  CRITERIO_FRETE_LABELS,
+  carregarRegrasFrete,
+  salvarRegrasFrete,
+  validarRegrasFrete,
+  getDefaultRegrasFrete,
+} from '@/lib/regrasFrete';
+
+interface RegrasFreteProps {
+  userEmail?: string;
+}
+
+const REGIOES = Object.keys(REGIAO_FRETE_LABELS) as RegiaoFrete[];
+
+function novaRegra(): RegraFrete {
+  return {
+    id: `regra_${Date.now()}`,
+    nome: '',
+    ativa: true,
+    ufs: [],
+    somenteCapitais: false,
+    valorMinimo: null,
+    valorMaximo: null,
+    pesoMaximoGramas: null,
+    servico: '',
+    criterio: 'mais_barato',
+  };
+}
+
+// Listas editadas como texto separado por vírgula
+function parseLista(valor: string): string[] {
+  return valor.split(',').map(v => v.trim().toUpperCase()).filter(Boolean);
+}
+
+function parseNumero(valor: string): number | null {
+  if (!valor.trim()) return null;
+  const numero = parseFloat(valor.replace(',', '.'));
+  return isNaN(numero) ? null : numero;
+}
+
+export default function RegrasFrete({ userEmail }: RegrasFreteProps) {
+  const [config, setConfig] = useState<RegrasFreteConfig | null>(null);
+  const [versao, setVersao] = useState(0); // Recria campos não controlados ao carregar/restaurar
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    carregarRegrasFrete().then(setConfig);
+  }, []);
+
+  if (!config) {
+    return (
+      <div className="bg-white rounded-2xl border border-slate-200 p-6 w-full max-w-6xl">
+        <p className="text-sm text-slate-500">Carregando regras de frete...</p>
+      </div>
+    );
+  }
+
+  const atualizarRegra = (id: string, campos: Partial<RegraFrete>) => {
+    setConfig(prev => prev && { ...prev, regras: prev.regras.map(r => (r.id === id ? { ...r, ...campos } : r)) });
+  };
+
+  const moverRegra = (index: number, direcao: -1 | 1) => {
+    setConfig(prev => {
+      if (!prev) return prev;
+      const regras = [...prev.regras];
+      const destino = index + direcao;
+      if (destino < 0 || destino >= regras.length) return prev;
+      [regras[index], regras[destino]] = [regras[destino], regras[index]];
+      return { ...prev, regras };
+    });
+  };
+
+  const atualizarTabela = (servico: string, campo: 'precoBase' | 'precoKgAdicional' | 'prazoDias', regiao: RegiaoFrete, valor: string) => {
+    setConfig(prev => prev && {
+      ...prev,
+      tabela: {
+        ...prev.tabela,
+        [servico]: {
+          ...prev.tabela[servico],
+          [campo]: { ...prev.tabela[servico][campo], [regiao]: parseNumero(valor) ?? 0 },
+        },
+      },
+    });
+  };
+
+  const handleSave = async () => {
+    const erro = validarRegrasFrete(config);
+    if (erro) {
+      setMessage({ type: 'error', text: erro });
+      return;
+    }
+
+    setSaving(true);
+    setMessage(null);
+    try {
+      await salvarRegrasFrete(config, userEmail);
+      setMessage({ type: 'success', text: 'Regras de frete salvas!' });
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Erro ao salvar regras' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRestaurarTabela = () => {
+    if (!confirm('Restaurar a tabela de preços e prazos para os valores de referência? As regras são mantidas.')) return;
+    setConfig(prev => prev && { ...prev, tabela: getDefaultRegrasFrete().tabela });
+    setVersao(v => v + 1);
+  };
+
+  const inputClass = 'w-full px-2 py-1.5 rounded-lg border border-slate-200 text-sm text-slate-800';
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200 p-6 w-full max-w-6xl">
+      <div className="mb-4">
+        <h2 className="text-lg font-semibold text-slate-800">Regras de frete</h2>
+        <p className="text-sm text-slate-500">
+          Serviço proposto para cada pedido nas etiquetas. A primeira regra ativa que casa com o pedido decide;
+          sem regra, vale o critério padrão entre os serviços que atendem o volume
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-6">
+        <div>
+          <label className="block text-xs font-medium text-slate-600 mb-1">UF de origem</label>
+          <input
+            key={`origem-${versao}`}
+            defaultValue={config.ufOrigem}
+            onBlur={(e) => setConfig(prev => prev && { ...prev, ufOrigem: e.target.value.trim().toUpperCase() })}
+            maxLength={2}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-600 mb-1">Critério padrão</label>
+          <select
+            value={config.criterioPadrao}
+            onChange={(e) => setConfig(prev => prev && { ...prev, criterioPadrao: e.target.value as CriterioFrete })}
+            className={inputClass}
+          >
+            {Object.entries(CRITERIO_FRETE_LABELS).map(([criterio, label]) => (
+              <option key={criterio} value={criterio}>{label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-semibold text-slate-700">Regras (em ordem de prioridade)</h3>
+        <button
+          onClick={() => setConfig(prev => prev && { ...prev, regras: [...prev.regras, novaRegra()] })}
+          className="px-3 py-1.5 rounded-lg text-xs font-medium bg-slate-800 text-white hover:bg-slate-900"
+        >
+          Nova regra
+        </button>
+      </div>
+
+      {config.regras.length === 0 ? (
+        <p className="text-sm text-slate-500 py-4 text-center">Nenhuma regra - todos os pedidos usam o critério padrão</p>
+      ) : (
+        <div className="space-y-3 mb-6">
+          {config.regras.map((regra, index) => (
+            <div key={regra.id} className={`p-4 rounded-lg border ${regra.ativa ? 'border-slate-200 bg-slate-50' : 'border-slate-100 bg-white opacity-60'}`}>
+              <div className="flex items-center gap-3 mb-3">
+                <span className="text-xs font-semibold text-slate-400">#{index + 1}</span>
+                <input
+                  value={regra.nome}
+                  onChange={(e) => atualizarRegra(regra.id, { nome: e.target.value })}
+                  placeholder="Ex: SEDEX para capitais acima de R$ 300"
+                  className={`${inputClass} flex-1`}
+                />
+                <label className="flex items-center gap-1.5 text-xs text-slate-600 whitespace-nowrap">
+                  <input
+                    type="checkbox"
+                    checked={regra.ativa}
+                    onChange={(e) => atualizarRegra(regra.id, { ativa: e.target.checked })}
+                  />
+                  Ativa
+                </label>
+                <button onClick={() => moverRegra(index, -1)} disabled={index === 0} className="text-xs text-slate-500 disabled:opacity-30">▲</button>
+                <button onClick={() => moverRegra(index, 1)} disabled={index === config.regras.length - 1} className="text-xs text-slate-500 disabled:opacity-30">▼</button>
+                <button
+                  onClick={() => setConfig(prev => prev && { ...prev, regras: prev.regras.filter(r => r.id !== regra.id) })}
+                  className="text-xs font-medium text-red-600 hover:underline"
+                >
+                  Excluir
+                </button>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+                <div className="md:col-span-2">
+                  <label className="block text-xs font-medium text-slate-600 mb-1">UFs destino (vazio = todas)</label>
+                  <input
+                    key={`ufs-${regra.id}-${versao}`}
+                    defaultValue={regra.ufs.join(', ')}
+                    onBlur={(e) => atualizarRegra(regra.id, { ufs: parseLista(e.target.value) })}
+                    placeholder="SP, RJ, MG"
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-slate-600 mb-1">Valor mín. (R$)</label>
+                  <input
+                    key={`min-${regra.id}-${versao}`}
+                    defaultValue={regra.valorMinimo ?? ''}
+                    onBlur={(e) => atualizarRegra(regra.id, { valorMinimo: parseNumero(e.target.value) })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-slate-600 mb-1">Valor máx. (R$)</label>
+                  <input
+                    key={`max-${regra.id}-${versao}`}
+                    defaultValue={regra.valorMaximo ?? ''}
+                    onBlur={(e) => atualizarRegra(regra.id, { valorMaximo: parseNumero(e.target.value) })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-slate-600 mb-1">Peso máx. (g)</label>
+                  <input
+                    key={`peso-${regra.id}-${versao}`}
+                    defaultValue={regra.pesoMaximoGramas ?? ''}
+                    onBlur={(e) => atualizarRegra(regra.id, { pesoMaximoGramas: parseNumero(e.target.value) })}
+                    className={inputClass}
+                  />
+                </div>
+                <div className="flex items-end pb-2">
+                  <label className="flex items-center gap-1.5 text-xs text-slate-600">
+                    <input
+                      type="checkbox"
+                      checked={regra.somenteCapitais}
+                      onChange={(e) => atualizarRegra(regra.id, { somenteCapitais: e.target.checked })}
+                    />
+                    Só capitais
+                  </label>
+                </div>
+                <div className="md:col-span-2">
+                  <label className="block text-xs font-medium text-slate-600 mb-1">Usar serviço</label>
+                  <select
+                    value={regra.servico}
+                    onChange={(e) => atualizarRegra(regra.id, { servico: e.target.value })}
+                    className={inputClass}
+                  >
+                    <option value="">Pelo critério</option>
+                    {SERVICOS_ECT.map(s => (
+                      <option key={s.code} value={s.code}>{s.name}</option>
+                    ))}
+                  </select>
+                </div>
+                {!regra.servico && (
+                  <div className="md:col-span-2">
+                    <label className="block text-xs font-medium text-slate-600 mb-1">Critério</label>
+                    <select
+                      value={regra.criterio}
+                      onChange={(e) => atualizarRegra(regra.id, { criterio: e.target.value as CriterioFrete })}
+                      className={inputClass}
+                    >
+                      {Object.entries(CRITERIO_FRETE_LABELS).map(([criterio, label]) => (
+                        <option key={criterio} value={criterio}>{label}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between mb-2 mt-6">
+        <h3 className="text-sm font-semibold text-slate-700">Tabela de preços e prazos (estimativa)</h3>
+        <button onClick={handleRestaurarTabela} className="text-xs font-medium text-blue-600 hover:underline">
+          Restaurar valores de referência
+        </button>
+      </div>
+      <div className="space-y-4 mb-6">
+        {SERVICOS_ECT.map(servico => {
+          const tabela = config.tabela[servico.code];
+          return (
+            <div key={servico.code} className="p-4 rounded-lg border border-slate-200">
+              <p className="text-sm font-medium text-slate-800 mb-3">{servico.name}</p>
+              <div className="overflow-x-auto mb-3">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-slate-500">
+                      <th className="py-1 pr-3"></th>
+                      {REGIOES.map(regiao => (
+                        <th key={regiao} className="py-1 pr-3">{REGIAO_FRETE_LABELS[regiao]}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {([
+                      ['precoBase', 'Até 1 kg (R$)'],
+                      ['precoKgAdicional', 'Kg adicional (R$)'],
+                      ['prazoDias', 'Prazo (dias úteis)'],
+                    ] as const).map(([campo, label]) => (
+                      <tr key={campo}>
+                        <td className="py-1 pr-3 text-xs text-slate-600 whitespace-nowrap">{label}</td>
+                        {REGIOES.map(regiao => (
+                          <td key={regiao} className="py-1 pr-3">
+                            <input
+                              key={`${servico.code}-${campo}-${regiao}-${versao}`}
+                              defaultValue={tabela[campo][regiao]}
+                              onBlur={(e) => atualizarTabela(servico.code, campo, regiao, e.target.value)}
+                              className={inputClass}
+                            />
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-medium text-slate-600 mb-1">Peso máximo (g)</label>
+                  <input
+                    key={`${servico.code}-peso-${versao}`}
+                    defaultValue={tabela.pesoMaximoGramas}
+                    onBlur={(e) => setConfig(prev => prev && {
+                      ...prev,
+                      tabela: { ...prev.tabela, [servico.code]: { ...prev.tabela[servico.code], pesoMaximoGramas: parseNumero(e.target.value) ?? 0 } },
+                    })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-slate-600 mb-1">Só aceita conteúdo (vazio = qualquer)</label>
+                  <input
+                    key={`${servico.code}-conteudo-${versao}`}
+                    defaultValue={tabela.conteudosPermitidos.join(', ')}
+                    onBlur={(e) => setConfig(prev => prev && {
+                      ...prev,
+                      tabela: { ...prev.tabela, [servico.code]: { ...prev.tabela[servico.code], conteudosPermitidos: parseLista(e.target.value) } },
+                    })}
+                    placeholder="LIVRO"
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {message && (
+        <div className={`mb-4 p-3 rounded-lg text-sm ${message.type === 'success' ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+          {message.text}
+        </div>
+      )}
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-4 py-2 rounded-lg text-sm font-medium bg-slate-800 text-white hover:bg-slate-900 disabled:opacity-50"
+        >
+          {saving ? 'Salvando...' : 'Salvar regras'}
+        </button>
+        {config.atualizadoEm && (
+          <span className="text-xs text-slate-400">
+            Atualizado em {new Date(config.atualizadoEm).toLocaleString('pt-BR')}
+            {config.atualizadoPor ? ` por ${config.atualizadoPor}` : ''}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
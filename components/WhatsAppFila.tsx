@@ -0,0 +1,301 @@
+'use client';
+
+import { useState, useEffect, useCallback, Fragment } from 'react';
+import { db } from '@/lib/firebase';
+import { doc, onSnapshot } from 'firebase/firestore';
+import {
+  WHATSAPP_MESSAGE_STATUS_LABELS,
+  WHATSAPP_MESSAGE_TIPO_LABELS,
+  WhatsAppMessageStatus,
+  WhatsAppMessageTipo,
+  WhatsAppMessageReferencia,
+} from '@/lib/whatsappQueue';
+import { WHATSAPP_PROVIDER_LABELS, WhatsAppProviderName } from '@/lib/whatsappProviders';
+
+interface MensagemFila {
+  id: string;
+  telefone: string;
+  mensagem: string;
+  tipo: WhatsAppMessageTipo;
+  status: WhatsAppMessageStatus;
+  referencia: WhatsAppMessageReferencia;
+  tentativas: number;
+  maxTentativas: number;
+  ultimoErro?: string;
+  criadoEm: string;
+  enviadoEm: string | null;
+  proximaTentativa: string | null;
+}
+
+interface FilaWorkerConfig {
+  enabled?: boolean;
+  sincronizando?: boolean;
+  ultimaExecucao?: string;
+  ultimoResumo?: {
+    total: number;
+    enviadas: number;
+    falhas: number;
+    descartadas: number;
+    adiadas?: number;
+    providersNaoConfigurados?: WhatsAppProviderName[];
+  };
+}
+
+const STATUS_COLORS: Record<WhatsAppMessageStatus, { bg: string; text: string }> = {
+  queued: { bg: '#F1F5F9', text: '#475569' },
+  sending: { bg: '#DBEAFE', text: '#1D4ED8' },
+  sent: { bg: '#DCFCE7', text: '#15803D' },
+  failed: { bg: '#FEF3C7', text: '#B45309' },
+  dead: { bg: '#FEE2E2', text: '#B91C1C' },
+};
+
+const STATUS_ORDER: WhatsAppMessageStatus[] = ['queued', 'sending', 'sent', 'failed', 'dead'];
+
+export default function WhatsAppFila() {
+  const [mensagens, setMensagens] = useState<MensagemFila[]>([]);
+  const [contagem, setContagem] = useState<Partial<Record<WhatsAppMessageStatus, number>>>({});
+  const [statusFilter, setStatusFilter] = useState<WhatsAppMessageStatus | null>(null);
+  const [config, setConfig] = useState<FilaWorkerConfig | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const carregar = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ limit: '100' });
+      if (statusFilter) params.set('status', statusFilter);
+
+      const response = await fetch(`/api/whatsapp/fila?${params.toString()}`);
+      const data = await response.json();
+      if (data.success) {
+        setMensagens(data.mensagens);
+        setContagem(data.contagem);
+        setError(null);
+      } else {
+        setError(data.error || 'Erro ao carregar fila');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erro ao carregar fila');
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter]);
+
+  // Carregar e atualizar a cada 15s
+  useEffect(() => {
+    carregar();
+    const interval = setInterval(carregar, 15000);
+    return () => clearInterval(interval);
+  }, [carregar]);
+
+  // Listener para config do worker da fila
+  useEffect(() => {
+    const unsubscribe = onSnapshot(doc(db, 'configuracoes', 'whatsapp_queue_worker_config'), (snapshot) => {
+      setConfig(snapshot.exists() ? (snapshot.data() as FilaWorkerConfig) : {});
+    });
+    return () => unsubscribe();
+  }, []);
+
+  const reenviar = async (body: { action: 'reenviar'; ids: string[] } | { action: 'reenviarFalhas' }) => {
+    setError(null);
+    try {
+      const response = await fetch('/api/whatsapp/fila', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        setError(data.error || 'Erro ao reenviar');
+      } else if (data.ignoradas?.length > 0) {
+        // Mensagens que já saíram da fila (enviadas ou em envio) ou foram removidas não são reenviadas
+        setError(
+          `${data.ignoradas.length} mensagem(s) não reenviada(s): ` +
+          data.ignoradas.map((i: { id: string; motivo: string }) => `${i.id} (${i.motivo})`).join(', ')
+        );
+      }
+      await carregar();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erro ao reenviar');
+    }
+  };
+
+  const togglePausa = async () => {
+    setError(null);
+    try {
+      await fetch('/api/cron/whatsapp-fila', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'toggle', enabled: config?.enabled === false }),
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erro ao alterar fila');
+    }
+  };
+
+  const pausada = config?.enabled === false;
+  const naoConfigurados = config?.ultimoResumo?.providersNaoConfigurados || [];
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200 p-6 w-full max-w-6xl">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-800">Fila de envio</h2>
+          <p className="text-sm text-slate-500">
+            {pausada
+              ? 'Envio pausado - as mensagens continuam entrando na fila'
+              : config?.sincronizando
+                ? 'Enviando mensagens...'
+                : config?.ultimaExecucao
+                  ? `Último envio: ${new Date(config.ultimaExecucao).toLocaleString('pt-BR')}`
+                  : 'Mensagens são enviadas a cada minuto pelo worker'}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={carregar}
+            disabled={loading}
+            className="px-3 py-2 rounded-lg text-sm font-medium bg-slate-100 text-slate-700 hover:bg-slate-200 disabled:opacity-50"
+          >
+            {loading ? 'Atualizando...' : 'Atualizar'}
+          </button>
+          <button
+            onClick={togglePausa}
+            className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+              pausada
+                ? 'bg-green-100 text-green-700 hover:bg-green-200'
+                : 'bg-red-100 text-red-700 hover:bg-red-200'
+            }`}
+          >
+            {pausada ? 'Retomar envio' : 'Pausar envio'}
+          </button>
+        </div>
+      </div>
+
+      {naoConfigurados.length > 0 && (
+        <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+          {naoConfigurados.map(p => WHATSAPP_PROVIDER_LABELS[p] || p).join(', ')} não configurado(s):{' '}
+          {config?.ultimoResumo?.adiadas || 0} mensagem(s) aguardando na fila sem gastar tentativa.
+          Verifique as variáveis de ambiente do provider
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <button
+          onClick={() => setStatusFilter(null)}
+          className={`px-3 py-1.5 rounded-full text-xs font-medium ${
+            statusFilter === null ? 'bg-slate-800 text-white' : 'bg-slate-100 text-slate-700'
+          }`}
+        >
+          Todas
+        </button>
+        {STATUS_ORDER.map(status => (
+          <button
+            key={status}
+            onClick={() => setStatusFilter(status)}
+            className="px-3 py-1.5 rounded-full text-xs font-medium"
+            style={{
+              backgroundColor: statusFilter === status ? STATUS_COLORS[status].text : STATUS_COLORS[status].bg,
+              color: statusFilter === status ? '#FFFFFF' : STATUS_COLORS[status].text,
+            }}
+          >
+            {WHATSAPP_MESSAGE_STATUS_LABELS[status]} ({contagem[status] || 0})
+          </button>
+        ))}
+        {(contagem.dead || 0) > 0 && (
+          <button
+            onClick={() => reenviar({ action: 'reenviarFalhas' })}
+            className="ml-auto px-3 py-1.5 rounded-lg text-xs font-medium bg-red-600 text-white hover:bg-red-700"
+          >
+            Reenviar todas as falhas ({contagem.dead})
+          </button>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-500 border-b border-slate-200">
+              <th className="py-2 pr-3 font-medium">Criada em</th>
+              <th className="py-2 pr-3 font-medium">Destinatário</th>
+              <th className="py-2 pr-3 font-medium">Tipo</th>
+              <th className="py-2 pr-3 font-medium">Status</th>
+              <th className="py-2 pr-3 font-medium">Tentativas</th>
+              <th className="py-2 font-medium"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {mensagens.length === 0 && (
+              <tr>
+                <td colSpan={6} className="py-6 text-center text-slate-400">Nenhuma mensagem</td>
+              </tr>
+            )}
+            {mensagens.map(m => (
+              <Fragment key={m.id}>
+                <tr
+                  onClick={() => setExpandedId(expandedId === m.id ? null : m.id)}
+                  className="border-b border-slate-100 hover:bg-slate-50 cursor-pointer"
+                >
+                  <td className="py-2 pr-3 text-slate-600 whitespace-nowrap">
+                    {new Date(m.criadoEm).toLocaleString('pt-BR')}
+                  </td>
+                  <td className="py-2 pr-3">
+                    <p className="text-slate-800">{m.referencia?.clienteNome || '-'}</p>
+                    <p className="text-xs text-slate-500">
+                      {m.telefone}{m.referencia?.codigo ? ` · ${m.referencia.codigo}` : ''}
+                    </p>
+                  </td>
+                  <td className="py-2 pr-3 text-slate-600">{WHATSAPP_MESSAGE_TIPO_LABELS[m.tipo] || m.tipo}</td>
+                  <td className="py-2 pr-3">
+                    <span
+                      className="px-2 py-0.5 rounded-full text-xs font-medium"
+                      style={{ backgroundColor: STATUS_COLORS[m.status].bg, color: STATUS_COLORS[m.status].text }}
+                    >
+                      {WHATSAPP_MESSAGE_STATUS_LABELS[m.status]}
+                    </span>
+                    {m.status === 'failed' && m.proximaTentativa && (
+                      <p className="text-xs text-slate-500 mt-1">
+                        Próxima: {new Date(m.proximaTentativa).toLocaleTimeString('pt-BR')}
+                      </p>
+                    )}
+                  </td>
+                  <td className="py-2 pr-3 text-slate-600">{m.tentativas}/{m.maxTentativas}</td>
+                  <td className="py-2 text-right">
+                    {(m.status === 'failed' || m.status === 'dead') && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          reenviar({ action: 'reenviar', ids: [m.id] });
+                        }}
+                        className="text-xs text-blue-600 hover:underline"
+                      >
+                        Reenviar
+                      </button>
+                    )}
+                  </td>
+                </tr>
+                {expandedId === m.id && (
+                  <tr className="bg-slate-50">
+                    <td colSpan={6} className="px-3 py-3">
+                      {m.ultimoErro && (
+                        <p className="text-xs text-red-600 mb-2">Último erro: {m.ultimoErro}</p>
+                      )}
+                      <p className="text-xs text-slate-700 whitespace-pre-wrap">{m.mensagem}</p>
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {error && (
+        <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { WHATSAPP_ENTREGA_STATUS_LABELS } from '@/lib/whatsappLog';
+import type { WhatsAppLogCampoBusca, WhatsAppEntregaStatus } from '@/lib/whatsappLog';
+import { WHATSAPP_MESSAGE_TIPO_LABELS } from '@/lib/whatsappQueue';
+import type { WhatsAppMessageTipo } from '@/lib/whatsappQueue';
+
+interface RegistroHistorico {
+  id: string;
+  telefone: string;
+  mensagem: string;
+  tipo: WhatsAppMessageTipo;
+  clienteNome: string;
+  clienteEmail: string;
+  transactionId: string;
+  transactionIds: string[];
+  codigo: string;
+  tentativa: number;
+  provider?: string;
+  sucesso: boolean;
+  statusEntrega?: WhatsAppEntregaStatus;
+  httpStatus: number | null;
+  respostaProvider: unknown;
+  erro: string | null;
+  enviadoEm: string;
+}
+
+interface WhatsAppHistoricoProps {
+  // Busca executada ao abrir (ex: link a partir da tabela de etiquetas)
+  buscaInicial?: { campo: WhatsAppLogCampoBusca; valor: string };
+  // Sem card externo (para uso dentro de modal)
+  embedded?: boolean;
+}
+
+const CAMPO_LABELS: Record<WhatsAppLogCampoBusca, string> = {
+  telefone: 'Telefone',
+  email: 'Email',
+  transactionId: 'Transação',
+  codigo: 'Código de rastreio',
+};
+
+const ENTREGA_COLORS: Record<WhatsAppEntregaStatus, string> = {
+  sent: 'bg-slate-100 text-slate-700',
+  delivered: 'bg-blue-100 text-blue-700',
+  read: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+};
+
+export default function WhatsAppHistorico({ buscaInicial, embedded }: WhatsAppHistoricoProps) {
+  const [campo, setCampo] = useState<WhatsAppLogCampoBusca>(buscaInicial?.campo || 'telefone');
+  const [valor, setValor] = useState(buscaInicial?.valor || '');
+  const [registros, setRegistros] = useState<RegistroHistorico[] | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const buscar = useCallback(async (campoBusca: WhatsAppLogCampoBusca, valorBusca: string) => {
+    if (!valorBusca.trim()) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ campo: campoBusca, valor: valorBusca });
+      const response = await fetch(`/api/whatsapp/historico?${params.toString()}`);
+      const data = await response.json();
+      if (data.success) {
+        setRegistros(data.registros);
+      } else {
+        setError(data.error || 'Erro na busca');
+        setRegistros(null);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erro na busca');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (buscaInicial?.valor) {
+      buscar(buscaInicial.campo, buscaInicial.valor);
+    }
+  }, [buscaInicial?.campo, buscaInicial?.valor, buscar]);
+
+  return (
+    <div className={embedded ? 'w-full' : 'bg-white rounded-2xl border border-slate-200 p-6 w-full max-w-6xl'}>
+      {!embedded && (
+        <div className="mb-4">
+          <h2 className="text-lg font-semibold text-slate-800">Histórico de mensagens</h2>
+          <p className="text-sm text-slate-500">
+            Cada tentativa de envio fica registrada com o texto enviado e a resposta do WhatsApp
+          </p>
+        </div>
+      )}
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          buscar(campo, valor);
+        }}
+        className="flex flex-wrap items-center gap-2 mb-4"
+      >
+        <select
+          value={campo}
+          onChange={(e) => setCampo(e.target.value as WhatsAppLogCampoBusca)}
+          className="px-2 py-2 rounded-lg border border-slate-200 text-sm text-slate-700 bg-white"
+        >
+          {(Object.keys(CAMPO_LABELS) as WhatsAppLogCampoBusca[]).map(c => (
+            <option key={c} value={c}>{CAMPO_LABELS[c]}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={valor}
+          onChange={(e) => setValor(e.target.value)}
+          placeholder={`Buscar por ${CAMPO_LABELS[campo].toLowerCase()}`}
+          className="flex-1 min-w-[200px] px-3 py-2 rounded-lg border border-slate-200 text-sm text-slate-800"
+        />
+        <button
+          type="submit"
+          disabled={loading || !valor.trim()}
+          className="px-4 py-2 rounded-lg text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          {loading ? 'Buscando...' : 'Buscar'}
+        </button>
+      </form>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {registros && registros.length === 0 && (
+        <p className="text-sm text-slate-500 py-6 text-center">Nenhuma mensagem encontrada</p>
+      )}
+
+      {registros && registros.length > 0 && (
+        <div className="space-y-2">
+          {registros.map(r => (
+            <div key={r.id} className="border border-slate-200 rounded-lg">
+              <button
+                onClick={() => setExpandedId(expandedId === r.id ? null : r.id)}
+                className="w-full flex flex-wrap items-center gap-3 px-3 py-2 text-left hover:bg-slate-50"
+              >
+                <span
+                  className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                    ENTREGA_COLORS[r.statusEntrega || (r.sucesso ? 'sent' : 'failed')]
+                  }`}
+                >
+                  {WHATSAPP_ENTREGA_STATUS_LABELS[r.statusEntrega || (r.sucesso ? 'sent' : 'failed')]}
+                </span>
+                <span className="text-sm text-slate-600">{new Date(r.enviadoEm).toLocaleString('pt-BR')}</span>
+                <span className="text-sm text-slate-800">{r.clienteNome || r.telefone}</span>
+                <span className="text-xs text-slate-500">{WHATSAPP_MESSAGE_TIPO_LABELS[r.tipo] || r.tipo}</span>
+                {r.codigo && <span className="text-xs text-slate-500">{r.codigo}</span>}
+                <span className="text-xs text-slate-400 ml-auto">Tentativa {r.tentativa}</span>
+              </button>
+
+              {expandedId === r.id && (
+                <div className="px-3 pb-3 text-xs text-slate-700 space-y-2 border-t border-slate-100 pt-2">
+                  <p>
+                    <span className="font-medium">Para:</span> {r.telefone}
+                    {r.clienteEmail && ` · ${r.clienteEmail}`}
+                    {r.transactionIds.length > 0 && ` · ${r.transactionIds.join(', ')}`}
+                    {r.provider && ` · via ${r.provider}`}
+                  </p>
+                  <p className="whitespace-pre-wrap bg-green-50 rounded p-2">{r.mensagem}</p>
+                  {r.erro && (
+                    <p className="text-red-600 whitespace-pre-wrap break-all">
+                      <span className="font-medium">Erro{r.httpStatus ? ` (HTTP ${r.httpStatus})` : ''}:</span> {r.erro}
+                    </p>
+                  )}
+                  {r.respostaProvider !== null && (
+                    <pre className="bg-slate-50 rounded p-2 overflow-x-auto">
+                      {JSON.stringify(r.respostaProvider, null, 2)}
+                    </pre>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { WhatsAppProviderName, WhatsAppProvidersConfig } from '@/lib/whatsappProviders';
+import type { WhatsAppMessageTipo } from '@/lib/whatsappQueue';
+
+interface ProviderInfo {
+  name: WhatsAppProviderName;
+  label: string;
+  configurado: boolean;
+}
+
+interface TipoInfo {
+  tipo: WhatsAppMessageTipo;
+  label: string;
+}
+
+export default function WhatsAppProviders() {
+  const [config, setConfig] = useState<WhatsAppProvidersConfig | null>(null);
+  const [salvo, setSalvo] = useState<WhatsAppProvidersConfig | null>(null);
+  const [providers, setProviders] = useState<ProviderInfo[]>([]);
+  const [tipos, setTipos] = useState<TipoInfo[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch('/api/whatsapp/providers');
+        const data = await response.json();
+        if (data.success) {
+          setConfig(data.config);
+          setSalvo(data.config);
+          setProviders(data.providers);
+          setTipos(data.tipos);
+        } else {
+          setMessage({ type: 'error', text: data.error || 'Erro ao carregar providers' });
+        }
+      } catch (err) {
+        setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Erro ao carregar providers' });
+      }
+    };
+    load();
+  }, []);
+
+  const handleSave = async () => {
+    if (!config) return;
+    setSaving(true);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/whatsapp/providers', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ config }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        setConfig(data.config);
+        setSalvo(data.config);
+        setMessage({ type: 'success', text: 'Providers salvos!' });
+      } else {
+        setMessage({ type: 'error', text: data.error || 'Erro ao salvar providers' });
+      }
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Erro ao salvar providers' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!config) return null;
+
+  const hasChanges = JSON.stringify(config) !== JSON.stringify(salvo);
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200 p-6 w-full max-w-6xl">
+      <div className="mb-4">
+        <h2 className="text-lg font-semibold text-slate-800">Provider de envio</h2>
+        <p className="text-sm text-slate-500">
+          Por onde cada tipo de mensagem é enviado. Com N8N nas etiquetas, o envio fica com o fluxo do N8N
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {tipos.map(({ tipo, label }) => {
+          const atual = providers.find(p => p.name === config[tipo]);
+          return (
+            <div key={tipo}>
+              <label className="block text-sm font-medium text-slate-700 mb-1">{label}</label>
+              <select
+                value={config[tipo]}
+                onChange={(e) => setConfig({ ...config, [tipo]: e.target.value as WhatsAppProviderName })}
+                className="w-full px-3 py-2 rounded-lg border border-slate-200 text-sm text-slate-800 bg-white"
+              >
+                {providers.map(p => (
+                  <option key={p.name} value={p.name}>
+                    {p.label}{p.configurado ? '' : ' (não configurado)'}
+                  </option>
+                ))}
+              </select>
+              {atual && !atual.configurado && (
+                <p className="text-xs text-orange-600 mt-1">
+                  Variáveis de ambiente do provider ausentes - as mensagens vão falhar
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center gap-3 mt-4">
+        <button
+          onClick={handleSave}
+          disabled={saving || !hasChanges}
+          className="px-4 py-2 rounded-lg text-sm font-medium bg-slate-800 text-white hover:bg-slate-900 disabled:opacity-50"
+        >
+          {saving ? 'Salvando...' : 'Salvar providers'}
+        </button>
+        {message && (
+          <span className={`text-sm ${message.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+            {message.text}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
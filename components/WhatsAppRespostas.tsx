@@ -0,0 +1,110 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { db } from '@/lib/firebase';
+import { collection, query, orderBy, limit, onSnapshot } from 'firebase/firestore';
+import { WhatsAppResposta, WHATSAPP_RESPOSTAS_COLLECTION, marcarRespostaResolvida } from '@/lib/whatsappRespostas';
+
+interface WhatsAppRespostasProps {
+  userEmail?: string;
+}
+
+export default function WhatsAppRespostas({ userEmail }: WhatsAppRespostasProps) {
+  const [respostas, setRespostas] = useState<WhatsAppResposta[]>([]);
+  const [mostrarResolvidas, setMostrarResolvidas] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Listener das respostas mais recentes
+  useEffect(() => {
+    const q = query(
+      collection(db, WHATSAPP_RESPOSTAS_COLLECTION),
+      orderBy('recebidoEm', 'desc'),
+      limit(200)
+    );
+    const unsubscribe = onSnapshot(q, (snapshot) => {
+      setRespostas(snapshot.docs.map(d => ({ id: d.id, ...d.data() } as WhatsAppResposta)));
+    });
+    return () => unsubscribe();
+  }, []);
+
+  const toggleResolvida = async (resposta: WhatsAppResposta) => {
+    setError(null);
+    try {
+      await marcarRespostaResolvida(resposta.id, !resposta.resolvida, userEmail);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erro ao atualizar resposta');
+    }
+  };
+
+  const pendentes = respostas.filter(r => !r.resolvida).length;
+  const visiveis = mostrarResolvidas ? respostas : respostas.filter(r => !r.resolvida);
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200 p-6 w-full max-w-6xl">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-800">
+            Respostas dos clientes
+            {pendentes > 0 && (
+              <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-700">
+                {pendentes} pendente{pendentes !== 1 ? 's' : ''}
+              </span>
+            )}
+          </h2>
+          <p className="text-sm text-slate-500">
+            Mensagens recebidas no WhatsApp, vinculadas à última etiqueta enviada ao cliente
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-slate-700">
+          <input
+            type="checkbox"
+            checked={mostrarResolvidas}
+            onChange={(e) => setMostrarResolvidas(e.target.checked)}
+            className="w-4 h-4 rounded border-slate-300"
+          />
+          Mostrar resolvidas
+        </label>
+      </div>
+
+      {visiveis.length === 0 && (
+        <p className="text-sm text-slate-500 py-6 text-center">Nenhuma resposta pendente</p>
+      )}
+
+      <div className="space-y-2">
+        {visiveis.map(r => (
+          <div
+            key={r.id}
+            className={`border rounded-lg p-3 ${r.resolvida ? 'border-slate-100 bg-slate-50 opacity-70' : 'border-orange-200'}`}
+          >
+            <div className="flex flex-wrap items-center gap-2 mb-1">
+              <span className="text-sm font-medium text-slate-800">{r.clienteNome || r.nome || r.telefone}</span>
+              <span className="text-xs text-slate-500">{r.telefone}</span>
+              <span className="text-xs text-slate-400">
+                {r.recebidoEm?.toDate().toLocaleString('pt-BR')}
+              </span>
+              <button
+                onClick={() => toggleResolvida(r)}
+                className={`ml-auto text-xs font-medium ${r.resolvida ? 'text-slate-500' : 'text-green-700'} hover:underline`}
+              >
+                {r.resolvida ? 'Reabrir' : 'Marcar como resolvida'}
+              </button>
+            </div>
+            <p className="text-sm text-slate-700 whitespace-pre-wrap">{r.texto}</p>
+            <p className="text-xs text-slate-500 mt-1">
+              {r.codigo || r.transactionId
+                ? `Etiqueta ${r.codigo || '-'} · Transação ${r.transactionId || '-'}`
+                : 'Nenhuma etiqueta encontrada para este telefone'}
+              {r.resolvida && r.resolvidaPor && ` · Resolvida por ${r.resolvidaPor}`}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {error && (
+        <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
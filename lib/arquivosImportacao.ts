@@ -0,0 +1,57 @@
+import { storage } from '@/lib/firebase';
+import { ref, uploadBytes, getDownloadURL, deleteObject } from 'firebase/storage';
+import { PosicaoCsv, registrosCsv, registrosCsvComPosicao } from '@/lib/csvParser';
+
+// CSVs de importação guardados no Storage: o navegador envia o arquivo uma vez e os jobs (importação, simulação,
+// retomada) leem o arquivo em stream a partir do caminho salvo no job
+
+export const ARQUIVOS_IMPORTACAO_PATH = 'importacoes';
+
+export async function enviarArquivoImportacao(file: File): Promise<string> {
+  const caminho = `${ARQUIVOS_IMPORTACAO_PATH}/${Date.now()}-${file.name.replace(/[^\w.-]+/g, '_')}`;
+  await uploadBytes(ref(storage, caminho), file, { contentType: 'text/csv' });
+  return caminho;
+}
+
+// Descarta os primeiros bytes do stream (servidor que ignorou o Range e devolveu o arquivo inteiro)
+function pularBytes(stream: ReadableStream<Uint8Array>, total: number): ReadableStream<Uint8Array> {
+  let restante = total;
+  return stream.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      if (restante >= chunk.length) {
+        restante -= chunk.length;
+        return;
+      }
+      controller.enqueue(restante > 0 ? chunk.subarray(restante) : chunk);
+      restante = 0;
+    },
+  }));
+}
+
+// inicioByte > 0: download parcial (Range) a partir do byte, para retomar sem ler o começo do arquivo
+export async function abrirArquivoImportacao(caminho: string, inicioByte = 0): Promise<ReadableStream<Uint8Array>> {
+  const url = await getDownloadURL(ref(storage, caminho));
+  const response = await fetch(url, inicioByte > 0 ? { headers: { Range: `bytes=${inicioByte}-` } } : undefined);
+  if (!response.ok || !response.body) {
+    throw new Error(`Arquivo ${caminho} indisponível (${response.status})`);
+  }
+  return inicioByte > 0 && response.status !== 206 ? pularBytes(response.body, inicioByte) : response.body;
+}
+
+export async function* registrosArquivoImportacao(caminho: string): AsyncGenerator<Record<string, string>> {
+  yield* registrosCsv(await abrirArquivoImportacao(caminho));
+}
+
+// Registros com o ponto de retomada de cada um; com "inicio" a leitura começa direto no byte guardado
+export async function* registrosArquivoImportacaoComPosicao(
+  caminho: string,
+  inicio?: PosicaoCsv
+): AsyncGenerator<{ registro: Record<string, string>; posicao: PosicaoCsv | null }> {
+  yield* registrosCsvComPosicao(await abrirArquivoImportacao(caminho, inicio?.byte), inicio);
+}
+
+export async function removerArquivoImportacao(caminho: string): Promise<void> {
+  await deleteObject(ref(storage, caminho)).catch(err => {
+    console.error(`[Importação] Erro ao remover arquivo ${caminho}:`, err);
+  });
+}
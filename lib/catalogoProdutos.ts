@@ -0,0 +1,165 @@
+import { db } from '@/lib/firebase';
+import { collection, doc, getDocs, addDoc, updateDoc, deleteDoc } from 'firebase/firestore';
+
+// Perfil de embalagem de um produto (peso, medidas e conteúdo declarado na postagem)
+export interface PerfilEmbalagem {
+  id: string;
+  nome: string; // Nome do perfil (ex: "Kit 3 livros")
+  codigos: string[]; // Códigos/SKUs do produto (campo productCode do CSV)
+  nomesProduto: string[]; // Nomes do produto como vêm das plataformas (usado se não houver código)
+  pesoGramas: number;
+  alturaCm: number;
+  larguraCm: number;
+  comprimentoCm: number;
+  conteudo: string; // Descrição do conteúdo na postagem
+  valorDeclarado: number; // R$ (0 = sem valor declarado)
+  atualizadoEm?: string;
+  atualizadoPor?: string;
+}
+
+export type PerfilEmbalagemInput = Omit<PerfilEmbalagem, 'id' | 'atualizadoEm'>;
+
+// Volume já calculado para a postagem
+export interface VolumePostagem {
+  pesoGramas: number;
+  alturaCm: number;
+  larguraCm: number;
+  comprimentoCm: number;
+  conteudo: string;
+  valorDeclarado: number;
+  perfis: string[]; // Nomes dos perfis usados ('Padrão' quando o produto não está no catálogo)
+}
+
+// Produto do pedido (pedidos mesclados têm vários)
+export interface ProdutoPedido {
+  codigo?: string;
+  nome: string;
+}
+
+export const CATALOGO_PRODUTOS_COLLECTION = 'catalogo_produtos';
+
+// Perfil usado quando o produto não está no catálogo (valores antigos fixos da postagem)
+export const PERFIL_EMBALAGEM_PADRAO: Omit<PerfilEmbalagem, 'id' | 'codigos' | 'nomesProduto'> = {
+  nome: 'Padrão',
+  pesoGramas: 500,
+  alturaCm: 8,
+  larguraCm: 22,
+  comprimentoCm: 26,
+  conteudo: 'LIVRO',
+  valorDeclarado: 0,
+};
+
+// Limites dos Correios para pacote (lado máximo 100 cm, altura mínima 2 cm)
+const LADO_MAXIMO_CM = 100;
+const ALTURA_MINIMA_CM = 2;
+
+function normalizarChave(valor: string): string {
+  return (valor || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export async function fetchCatalogoProdutos(): Promise<PerfilEmbalagem[]> {
+  const snapshot = await getDocs(collection(db, CATALOGO_PRODUTOS_COLLECTION));
+  return snapshot.docs
+    .map(d => ({ id: d.id, ...d.data() } as PerfilEmbalagem))
+    .sort((a, b) => a.nome.localeCompare(b.nome));
+}
+
+export function validarPerfilEmbalagem(perfil: PerfilEmbalagemInput): string | null {
+  if (!perfil.nome.trim()) return 'Informe o nome do perfil';
+  if (perfil.codigos.length === 0 && perfil.nomesProduto.length === 0) {
+    return 'Informe ao menos um código ou nome de produto';
+  }
+  if (!(perfil.pesoGramas > 0)) return 'Peso deve ser maior que zero';
+  if ([perfil.alturaCm, perfil.larguraCm, perfil.comprimentoCm].some(d => !(d > 0))) {
+    return 'Altura, largura e comprimento devem ser maiores que zero';
+  }
+  if (!perfil.conteudo.trim()) return 'Informe a descrição do conteúdo';
+  if (perfil.valorDeclarado < 0) return 'Valor declarado não pode ser negativo';
+  return null;
+}
+
+export async function salvarPerfilEmbalagem(perfil: PerfilEmbalagemInput, id?: string): Promise<string> {
+  const erro = validarPerfilEmbalagem(perfil);
+  if (erro) throw new Error(erro);
+
+  const data = {
+    ...perfil,
+    codigos: perfil.codigos.map(c => c.trim()).filter(Boolean),
+    nomesProduto: perfil.nomesProduto.map(n => n.trim()).filter(Boolean),
+    atualizadoEm: new Date().toISOString(),
+  };
+
+  if (id) {
+    await updateDoc(doc(db, CATALOGO_PRODUTOS_COLLECTION, id), data);
+    return id;
+  }
+  const ref = await addDoc(collection(db, CATALOGO_PRODUTOS_COLLECTION), data);
+  return ref.id;
+}
+
+export async function excluirPerfilEmbalagem(id: string): Promise<void> {
+  await deleteDoc(doc(db, CATALOGO_PRODUTOS_COLLECTION, id));
+}
+
+// Encontrar o perfil do produto: primeiro pelo código, depois pelo nome exato, depois por nome contido
+export function encontrarPerfil(catalogo: PerfilEmbalagem[], produto: ProdutoPedido): PerfilEmbalagem | null {
+  const codigo = normalizarChave(produto.codigo || '');
+  if (codigo) {
+    const porCodigo = catalogo.find(p => p.codigos.some(c => normalizarChave(c) === codigo));
+    if (porCodigo) return porCodigo;
+  }
+
+  const nome = normalizarChave(produto.nome);
+  if (!nome) return null;
+
+  return catalogo.find(p => p.nomesProduto.some(n => normalizarChave(n) === nome))
+    || catalogo.find(p => p.nomesProduto.some(n => normalizarChave(n) && nome.includes(normalizarChave(n))))
+    || null;
+}
+
+// Montar o volume da postagem a partir dos produtos do pedido
+// Mesclados: pesos e valores somados, itens empilhados (alturas somadas) na maior base
+export function montarVolume(catalogo: PerfilEmbalagem[], produtos: ProdutoPedido[]): VolumePostagem {
+  const perfis = (produtos.length > 0 ? produtos : [{ nome: '' }])
+    .map(p => encontrarPerfil(catalogo, p) || PERFIL_EMBALAGEM_PADRAO);
+
+  const conteudos = [...new Set(perfis.map(p => p.conteudo.trim().toUpperCase()))];
+
+  return {
+    pesoGramas: perfis.reduce((total, p) => total + p.pesoGramas, 0),
+    alturaCm: Math.min(LADO_MAXIMO_CM, Math.max(ALTURA_MINIMA_CM, perfis.reduce((total, p) => total + p.alturaCm, 0))),
+    larguraCm: Math.max(...perfis.map(p => p.larguraCm)),
+    comprimentoCm: Math.max(...perfis.map(p => p.comprimentoCm)),
+    conteudo: conteudos.join(', '),
+    valorDeclarado: Math.round(perfis.reduce((total, p) => total + p.valorDeclarado, 0) * 100) / 100,
+    perfis: perfis.map(p => p.nome),
+  };
+}
+
+// Limite de caixas numa mesma postagem
+export const MAX_VOLUMES_POR_POSTAGEM = 10;
+
+// Dividir o pedido em várias caixas: produtos distribuídos entre os volumes;
+// com menos produtos que caixas, peso e valor declarado são divididos igualmente
+export function montarVolumes(catalogo: PerfilEmbalagem[], produtos: ProdutoPedido[], quantidade: number): VolumePostagem[] {
+  const total = Math.min(MAX_VOLUMES_POR_POSTAGEM, Math.max(1, Math.floor(quantidade) || 1));
+  if (total === 1) return [montarVolume(catalogo, produtos)];
+
+  if (produtos.length >= total) {
+    const grupos: ProdutoPedido[][] = Array.from({ length: total }, () => []);
+    produtos.forEach((p, i) => grupos[i % total].push(p));
+    return grupos.map(grupo => montarVolume(catalogo, grupo));
+  }
+
+  const volume = montarVolume(catalogo, produtos);
+  return Array.from({ length: total }, () => ({
+    ...volume,
+    pesoGramas: Math.ceil(volume.pesoGramas / total),
+    valorDeclarado: Math.round((volume.valorDeclarado / total) * 100) / 100,
+  }));
+}
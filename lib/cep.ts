@@ -0,0 +1,299 @@
+import { db } from '@/lib/firebase';
+import { collection, doc, getDoc, getDocs, query, where, documentId, writeBatch, setDoc } from 'firebase/firestore';
+
+// Registro da base local de CEPs (importada de arquivo, sem consulta externa)
+export interface CepRegistro {
+  cep: string; // 8 dígitos
+  logradouro: string; // Vazio em CEP geral de cidade
+  bairro: string;
+  cidade: string;
+  uf: string;
+}
+
+// Endereço como vem do CSV (mesmos campos do PhysicalSale)
+export interface EnderecoVenda {
+  zip: string;
+  address: string;
+  number: string;
+  complement: string;
+  neighborhood: string;
+  city: string;
+  state: string;
+}
+
+// ok: nada a fazer | corrigido: preenchido automaticamente | revisar: divergência | invalido: bloqueia a geração
+export type StatusEndereco = 'ok' | 'corrigido' | 'revisar' | 'invalido';
+
+export interface ValidacaoEndereco {
+  status: StatusEndereco;
+  problemas: string[]; // Divergências e erros (mostrados para revisão)
+  correcoes: string[]; // O que foi preenchido automaticamente
+  endereco: EnderecoVenda; // Endereço já com as correções aplicadas
+  cepEncontrado: boolean;
+}
+
+export const STATUS_ENDERECO_LABELS: Record<StatusEndereco, string> = {
+  ok: 'Endereço OK',
+  corrigido: 'Endereço completado',
+  revisar: 'Revisar endereço',
+  invalido: 'Endereço inválido',
+};
+
+export const CEPS_COLLECTION = 'ceps';
+const CEP_BASE_CONFIG_DOC = 'cep_base';
+
+// Faixas de CEP por UF (Correios) - valida a UF mesmo sem a base importada
+const FAIXAS_CEP_UF: Array<[string, number, number]> = [
+  ['SP', 1000, 19999], ['RJ', 20000, 28999], ['ES', 29000, 29999], ['MG', 30000, 39999],
+  ['BA', 40000, 48999], ['SE', 49000, 49999], ['PE', 50000, 56999], ['AL', 57000, 57999],
+  ['PB', 58000, 58999], ['RN', 59000, 59999], ['CE', 60000, 63999], ['PI', 64000, 64999],
+  ['MA', 65000, 65999], ['PA', 66000, 68899], ['AP', 68900, 68999], ['AM', 69000, 69299],
+  ['RR', 69300, 69399], ['AM', 69400, 69899], ['AC', 69900, 69999], ['DF', 70000, 72799],
+  ['GO', 72800, 72999], ['DF', 73000, 73699], ['GO', 73700, 76799], ['RO', 76800, 76999],
+  ['TO', 77000, 77999], ['MT', 78000, 78899], ['MS', 79000, 79999], ['PR', 80000, 87999],
+  ['SC', 88000, 89999], ['RS', 90000, 99999],
+];
+
+const UFS_VALIDAS = new Set(FAIXAS_CEP_UF.map(([uf]) => uf));
+
+// Nome do estado por extenso (alguns CSVs trazem "São Paulo" em vez de "SP")
+const UF_POR_NOME: Record<string, string> = {
+  acre: 'AC', alagoas: 'AL', amapa: 'AP', amazonas: 'AM', bahia: 'BA', ceara: 'CE',
+  'distrito federal': 'DF', 'espirito santo': 'ES', goias: 'GO', maranhao: 'MA',
+  'mato grosso': 'MT', 'mato grosso do sul': 'MS', 'minas gerais': 'MG', para: 'PA',
+  paraiba: 'PB', parana: 'PR', pernambuco: 'PE', piaui: 'PI', 'rio de janeiro': 'RJ',
+  'rio grande do norte': 'RN', 'rio grande do sul': 'RS', rondonia: 'RO', roraima: 'RR',
+  'santa catarina': 'SC', 'sao paulo': 'SP', sergipe: 'SE', tocantins: 'TO',
+};
+
+// Limite do operador 'in' do Firestore
+const MAX_IN_QUERY = 30;
+const BATCH_LIMIT = 500;
+
+// Comparação sem acento/caixa/pontuação
+function normalizarTexto(valor: string): string {
+  return (valor || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9 ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function limparCep(cep: string): string {
+  return (cep || '').replace(/\D/g, '').padStart(8, '0').slice(-8);
+}
+
+export function isCepValido(cep: string): boolean {
+  const digitos = (cep || '').replace(/\D/g, '');
+  return (digitos.length === 8 || digitos.length === 7) && !/^0+$/.test(digitos);
+}
+
+// UF esperada pela faixa do CEP
+export function ufDoCep(cep: string): string | null {
+  const prefixo = parseInt(limparCep(cep).substring(0, 5), 10);
+  const faixa = FAIXAS_CEP_UF.find(([, inicio, fim]) => prefixo >= inicio && prefixo <= fim);
+  return faixa ? faixa[0] : null;
+}
+
+// Sigla da UF a partir de "SP", "sp" ou "São Paulo"
+export function normalizarUf(uf: string): string {
+  const valor = (uf || '').trim();
+  if (UFS_VALIDAS.has(valor.toUpperCase())) return valor.toUpperCase();
+  return UF_POR_NOME[normalizarTexto(valor)] || valor.toUpperCase();
+}
+
+// Separar número embutido no logradouro ("Rua das Flores, 123" -> "Rua das Flores" + "123")
+export function separarNumero(logradouro: string): { logradouro: string; numero: string } | null {
+  const match = (logradouro || '').trim().match(/^(.+?)[,\s]+(?:n[º°o.]*\s*)?(\d{1,6}[a-zA-Z]?)$/i);
+  if (!match) return null;
+
+  const rua = match[1].replace(/[,\s-]+$/, '').trim();
+  // "Rua 25" e "Avenida 7" são nomes de rua, não rua + número
+  if (rua.split(/\s+/).length < 2) return null;
+
+  return { logradouro: rua, numero: match[2] };
+}
+
+// Buscar CEPs na base local (ids = CEP com 8 dígitos)
+export async function buscarCeps(ceps: string[]): Promise<Map<string, CepRegistro>> {
+  const resultado = new Map<string, CepRegistro>();
+  const unicos = [...new Set(ceps.filter(isCepValido).map(limparCep))];
+
+  for (let i = 0; i < unicos.length; i += MAX_IN_QUERY) {
+    const chunk = unicos.slice(i, i + MAX_IN_QUERY);
+    const snapshot = await getDocs(query(collection(db, CEPS_COLLECTION), where(documentId(), 'in', chunk)));
+    snapshot.docs.forEach(d => resultado.set(d.id, d.data() as CepRegistro));
+  }
+
+  return resultado;
+}
+
+// Validar e completar endereço com a base de CEPs
+export function validarEndereco(endereco: EnderecoVenda, registro: CepRegistro | null): ValidacaoEndereco {
+  const corrigido: EnderecoVenda = { ...endereco };
+  const problemas: string[] = [];
+  const correcoes: string[] = [];
+  let bloqueia = false;
+
+  // CEP
+  if (!isCepValido(corrigido.zip)) {
+    problemas.push(corrigido.zip ? `CEP inválido: ${corrigido.zip}` : 'CEP vazio');
+    bloqueia = true;
+  } else if (corrigido.zip.replace(/\D/g, '').length === 7) {
+    // Excel remove o zero à esquerda
+    corrigido.zip = limparCep(corrigido.zip);
+    correcoes.push(`CEP completado com zero: ${corrigido.zip}`);
+  }
+
+  // UF por extenso
+  const ufNormalizada = normalizarUf(corrigido.state);
+  if (ufNormalizada !== corrigido.state) {
+    corrigido.state = ufNormalizada;
+    if (ufNormalizada) correcoes.push(`UF normalizada: ${ufNormalizada}`);
+  }
+
+  // Número embutido no logradouro
+  if (!corrigido.number?.trim()) {
+    const separado = separarNumero(corrigido.address);
+    if (separado) {
+      corrigido.address = separado.logradouro;
+      corrigido.number = separado.numero;
+      correcoes.push(`Número separado do logradouro: ${separado.numero}`);
+    }
+  }
+
+  if (registro) {
+    if (!corrigido.city.trim()) {
+      corrigido.city = registro.cidade;
+      correcoes.push(`Cidade preenchida pelo CEP: ${registro.cidade}`);
+    } else if (normalizarTexto(corrigido.city) !== normalizarTexto(registro.cidade)) {
+      problemas.push(`Cidade "${corrigido.city}" diferente do CEP (${registro.cidade})`);
+    }
+
+    if (!corrigido.state) {
+      corrigido.state = registro.uf;
+      correcoes.push(`UF preenchida pelo CEP: ${registro.uf}`);
+    } else if (corrigido.state !== registro.uf) {
+      problemas.push(`UF "${corrigido.state}" diferente do CEP (${registro.uf})`);
+    }
+
+    if (!corrigido.neighborhood.trim() && registro.bairro) {
+      corrigido.neighborhood = registro.bairro;
+      correcoes.push(`Bairro preenchido pelo CEP: ${registro.bairro}`);
+    }
+
+    if (!corrigido.address.trim() && registro.logradouro) {
+      corrigido.address = registro.logradouro;
+      correcoes.push(`Logradouro preenchido pelo CEP: ${registro.logradouro}`);
+    }
+  } else if (isCepValido(corrigido.zip)) {
+    // Sem a base: pelo menos a UF tem que bater com a faixa do CEP
+    const ufEsperada = ufDoCep(corrigido.zip);
+    if (ufEsperada && !corrigido.state) {
+      corrigido.state = ufEsperada;
+      correcoes.push(`UF preenchida pela faixa do CEP: ${ufEsperada}`);
+    } else if (ufEsperada && corrigido.state !== ufEsperada) {
+      problemas.push(`UF "${corrigido.state}" não corresponde à faixa do CEP (${ufEsperada})`);
+    }
+  }
+
+  // Campos obrigatórios para a etiqueta
+  if (!corrigido.address.trim()) {
+    problemas.push('Logradouro vazio');
+    bloqueia = true;
+  }
+  if (!corrigido.city.trim()) {
+    problemas.push('Cidade vazia');
+    bloqueia = true;
+  }
+  if (!UFS_VALIDAS.has(corrigido.state)) {
+    problemas.push(corrigido.state ? `UF inexistente: ${corrigido.state}` : 'UF vazia');
+    bloqueia = true;
+  }
+  if (!corrigido.neighborhood.trim()) {
+    problemas.push('Bairro vazio');
+  }
+  if (!corrigido.number?.trim()) {
+    problemas.push('Sem número (vai como S/N)');
+  }
+
+  const status: StatusEndereco = bloqueia
+    ? 'invalido'
+    : problemas.length > 0
+      ? 'revisar'
+      : correcoes.length > 0 ? 'corrigido' : 'ok';
+
+  return { status, problemas, correcoes, endereco: corrigido, cepEncontrado: !!registro };
+}
+
+// Validar vários endereços de uma vez (uma consulta à base por lote de CEPs)
+export async function validarEnderecos<T extends EnderecoVenda>(vendas: T[]): Promise<ValidacaoEndereco[]> {
+  let base = new Map<string, CepRegistro>();
+  try {
+    base = await buscarCeps(vendas.map(v => v.zip));
+  } catch (error) {
+    console.error('[CEP] Erro ao consultar base local, validando só pela faixa:', error);
+  }
+
+  return vendas.map(v => validarEndereco(v, base.get(limparCep(v.zip)) || null));
+}
+
+// ========== IMPORTAÇÃO DA BASE ==========
+
+// Colunas aceitas no arquivo da base (CSV com cabeçalho)
+const COLUNAS_BASE: Record<keyof CepRegistro, string[]> = {
+  cep: ['cep', 'zip', 'codigo_postal'],
+  logradouro: ['logradouro', 'endereco', 'rua', 'address'],
+  bairro: ['bairro', 'neighborhood'],
+  cidade: ['cidade', 'localidade', 'municipio', 'city'],
+  uf: ['uf', 'estado', 'state'],
+};
+
+// Converter linha do CSV da base em registro (null se não tiver CEP/cidade/UF)
+export function linhaParaCepRegistro(row: Record<string, string>): CepRegistro | null {
+  const valores: Partial<CepRegistro> = {};
+  const chaves = Object.keys(row);
+
+  (Object.keys(COLUNAS_BASE) as Array<keyof CepRegistro>).forEach(campo => {
+    const coluna = chaves.find(c => COLUNAS_BASE[campo].includes(normalizarTexto(c).replace(/ /g, '_')));
+    valores[campo] = coluna ? (row[coluna] || '').trim() : '';
+  });
+
+  if (!isCepValido(valores.cep || '') || !valores.cidade || !valores.uf) return null;
+
+  return {
+    cep: limparCep(valores.cep!),
+    logradouro: valores.logradouro || '',
+    bairro: valores.bairro || '',
+    cidade: valores.cidade,
+    uf: normalizarUf(valores.uf),
+  };
+}
+
+// Gravar registros na base (sobrescreve CEPs já existentes)
+export async function importarCeps(registros: CepRegistro[]): Promise<number> {
+  for (let i = 0; i < registros.length; i += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    registros.slice(i, i + BATCH_LIMIT).forEach(r => {
+      batch.set(doc(db, CEPS_COLLECTION, r.cep), r);
+    });
+    await batch.commit();
+  }
+  return registros.length;
+}
+
+// Resumo da última importação (exibido nas configurações)
+export async function registrarImportacaoCeps(total: number, arquivo: string): Promise<void> {
+  await setDoc(doc(db, 'configuracoes', CEP_BASE_CONFIG_DOC), {
+    ultimoArquivo: arquivo,
+    ultimoTotal: total,
+    atualizadoEm: new Date().toISOString(),
+  });
+}
+
+export async function carregarInfoBaseCeps(): Promise<{ ultimoArquivo: string; ultimoTotal: number; atualizadoEm: string } | null> {
+  const snap = await getDoc(doc(db, 'configuracoes', CEP_BASE_CONFIG_DOC));
+  return snap.exists() ? (snap.data() as { ultimoArquivo: string; ultimoTotal: number; atualizadoEm: string }) : null;
+}
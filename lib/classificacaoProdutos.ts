@@ -0,0 +1,192 @@
+import { db } from '@/lib/firebase';
+import { collection, doc, getDocs, addDoc, updateDoc, deleteDoc, writeBatch, increment } from 'firebase/firestore';
+
+// Classificação dos produtos: quais vendas precisam de etiqueta (produto físico) e quais não (digital/bônus).
+// Regras cadastradas por código, nome exato, regex do nome ou plataforma; sem regra vale a palavra-chave no nome.
+
+export type CriterioClassificacao = 'codigo' | 'nome' | 'regex' | 'plataforma';
+
+export const CRITERIO_CLASSIFICACAO_LABELS: Record<CriterioClassificacao, string> = {
+  codigo: 'Código do produto',
+  nome: 'Nome exato',
+  regex: 'Nome (regex)',
+  plataforma: 'Plataforma',
+};
+
+// Ordem de avaliação: da regra mais específica para a mais geral
+const ORDEM_CRITERIOS: CriterioClassificacao[] = ['codigo', 'nome', 'regex', 'plataforma'];
+
+export interface RegraClassificacao {
+  id: string;
+  criterio: CriterioClassificacao;
+  valor: string; // Código, nome, expressão regular ou nome da plataforma (template do upload)
+  requerEnvio: boolean; // true = produto físico (gera etiqueta)
+  observacao?: string;
+  atualizadoEm?: string;
+  atualizadoPor?: string;
+}
+
+export type RegraClassificacaoInput = Omit<RegraClassificacao, 'id' | 'atualizadoEm'>;
+
+// Produto como aparece no upload
+export interface ProdutoClassificavel {
+  nome: string;
+  codigo?: string;
+  plataforma?: string; // Nome do template de mapeamento usado no upload
+}
+
+export interface ClassificacaoProduto {
+  requerEnvio: boolean;
+  regra: RegraClassificacao | null; // null = palavra-chave no nome (sem regra cadastrada)
+}
+
+// Produto distinto já visto nos uploads (tela de classificação)
+export interface ProdutoVisto {
+  id: string;
+  nome: string;
+  codigo: string;
+  plataforma: string;
+  ocorrencias: number; // Linhas de venda somadas em todos os uploads
+  primeiraVez: string;
+  ultimaVez: string;
+}
+
+export const REGRAS_CLASSIFICACAO_COLLECTION = 'regras_classificacao_produtos';
+export const PRODUTOS_VISTOS_COLLECTION = 'produtos_vistos';
+
+// Limite de operações por batch do Firestore
+const LOTE_ESCRITA = 500;
+
+function normalizarChave(valor: string): string {
+  return (valor || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Critério antigo: "físico", "fisico" ou "kit" no nome
+export function requerEnvioPorNome(nome: string): boolean {
+  const chave = normalizarChave(nome);
+  return chave.includes('fisico') || chave.includes('kit');
+}
+
+function regraAtende(regra: RegraClassificacao, produto: ProdutoClassificavel): boolean {
+  switch (regra.criterio) {
+    case 'codigo':
+      return !!produto.codigo && normalizarChave(produto.codigo) === normalizarChave(regra.valor);
+    case 'nome':
+      return normalizarChave(produto.nome) === normalizarChave(regra.valor);
+    case 'regex':
+      try {
+        return new RegExp(regra.valor, 'i').test(produto.nome);
+      } catch {
+        return false;
+      }
+    case 'plataforma':
+      return !!produto.plataforma && normalizarChave(produto.plataforma) === normalizarChave(regra.valor);
+  }
+}
+
+export function classificarProduto(regras: RegraClassificacao[], produto: ProdutoClassificavel): ClassificacaoProduto {
+  for (const criterio of ORDEM_CRITERIOS) {
+    const regra = regras.find(r => r.criterio === criterio && regraAtende(r, produto));
+    if (regra) return { requerEnvio: regra.requerEnvio, regra };
+  }
+  return { requerEnvio: requerEnvioPorNome(produto.nome), regra: null };
+}
+
+export async function fetchRegrasClassificacao(): Promise<RegraClassificacao[]> {
+  const snapshot = await getDocs(collection(db, REGRAS_CLASSIFICACAO_COLLECTION));
+  return snapshot.docs
+    .map(d => ({ id: d.id, ...d.data() } as RegraClassificacao))
+    .sort((a, b) => ORDEM_CRITERIOS.indexOf(a.criterio) - ORDEM_CRITERIOS.indexOf(b.criterio) || a.valor.localeCompare(b.valor));
+}
+
+export function validarRegraClassificacao(regra: RegraClassificacaoInput): string | null {
+  if (!CRITERIO_CLASSIFICACAO_LABELS[regra.criterio]) return 'Critério inválido';
+  if (!regra.valor.trim()) return 'Informe o valor da regra';
+  if (regra.criterio === 'regex') {
+    try {
+      new RegExp(regra.valor, 'i');
+    } catch {
+      return 'Expressão regular inválida';
+    }
+  }
+  return null;
+}
+
+export async function salvarRegraClassificacao(regra: RegraClassificacaoInput, id?: string): Promise<string> {
+  const erro = validarRegraClassificacao(regra);
+  if (erro) throw new Error(erro);
+
+  // Firestore não aceita undefined
+  const data: Record<string, unknown> = {
+    criterio: regra.criterio,
+    valor: regra.valor.trim(),
+    requerEnvio: regra.requerEnvio,
+    observacao: regra.observacao?.trim() || '',
+    atualizadoEm: new Date().toISOString(),
+  };
+  if (regra.atualizadoPor) data.atualizadoPor = regra.atualizadoPor;
+
+  if (id) {
+    await updateDoc(doc(db, REGRAS_CLASSIFICACAO_COLLECTION, id), data);
+    return id;
+  }
+  const ref = await addDoc(collection(db, REGRAS_CLASSIFICACAO_COLLECTION), data);
+  return ref.id;
+}
+
+export async function excluirRegraClassificacao(id: string): Promise<void> {
+  await deleteDoc(doc(db, REGRAS_CLASSIFICACAO_COLLECTION, id));
+}
+
+// Id do documento: plataforma + código (ou nome) normalizados ("/" não é permitido em id)
+function idProdutoVisto(produto: ProdutoClassificavel): string {
+  return normalizarChave(`${produto.plataforma || ''}|${produto.codigo || produto.nome}`)
+    .replace(/\//g, '_')
+    .substring(0, 300);
+}
+
+// Registrar os produtos de um upload (um documento por produto distinto, com contagem de linhas)
+export async function registrarProdutosVistos(produtos: ProdutoClassificavel[]): Promise<void> {
+  const contagem = new Map<string, { produto: ProdutoClassificavel; linhas: number }>();
+  for (const produto of produtos) {
+    if (!produto.nome.trim()) continue;
+    const id = idProdutoVisto(produto);
+    const atual = contagem.get(id);
+    if (atual) {
+      atual.linhas++;
+    } else {
+      contagem.set(id, { produto, linhas: 1 });
+    }
+  }
+
+  const agora = new Date().toISOString();
+  const existentes = new Set((await getDocs(collection(db, PRODUTOS_VISTOS_COLLECTION))).docs.map(d => d.id));
+  const entradas = [...contagem.entries()];
+
+  for (let i = 0; i < entradas.length; i += LOTE_ESCRITA) {
+    const batch = writeBatch(db);
+    for (const [id, { produto, linhas }] of entradas.slice(i, i + LOTE_ESCRITA)) {
+      batch.set(doc(db, PRODUTOS_VISTOS_COLLECTION, id), {
+        nome: produto.nome.trim(),
+        codigo: produto.codigo?.trim() || '',
+        plataforma: produto.plataforma || '',
+        ocorrencias: increment(linhas),
+        ultimaVez: agora,
+        ...(!existentes.has(id) && { primeiraVez: agora }),
+      }, { merge: true });
+    }
+    await batch.commit();
+  }
+}
+
+export async function fetchProdutosVistos(): Promise<ProdutoVisto[]> {
+  const snapshot = await getDocs(collection(db, PRODUTOS_VISTOS_COLLECTION));
+  return snapshot.docs
+    .map(d => ({ id: d.id, ...d.data() } as ProdutoVisto))
+    .sort((a, b) => b.ultimaVez.localeCompare(a.ultimaVez) || a.nome.localeCompare(b.nome));
+}
@@ -0,0 +1,65 @@
+// Código de barras Code 128 (código de rastreio e CEP nas etiquetas impressas com layout próprio)
+
+// Larguras barra/espaço de cada símbolo (valores 0-106), em módulos
+const PADROES_CODE128 = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112',
+];
+
+const INICIO_B = 104;
+const INICIO_C = 105;
+const PARADA = 106;
+
+// Barra do código: posição e largura em módulos a partir do início (zona de silêncio fica por conta de quem desenha)
+export interface BarraCodigo {
+  inicio: number;
+  largura: number;
+}
+
+export interface CodigoBarras {
+  barras: BarraCodigo[];
+  modulos: number; // Largura total em módulos
+}
+
+// Só dígitos em quantidade par vai no conjunto C (dois dígitos por símbolo), o resto no conjunto B
+export function codificarCode128(texto: string): CodigoBarras {
+  const conjuntoC = /^(\d{2})+$/.test(texto);
+  const valores: number[] = [conjuntoC ? INICIO_C : INICIO_B];
+
+  if (conjuntoC) {
+    for (let i = 0; i < texto.length; i += 2) valores.push(Number(texto.substring(i, i + 2)));
+  } else {
+    for (const char of texto) {
+      const codigo = char.charCodeAt(0);
+      if (codigo < 32 || codigo > 127) {
+        throw new Error(`Caractere inválido para Code 128: "${char}"`);
+      }
+      valores.push(codigo - 32);
+    }
+  }
+
+  // Dígito verificador: início + soma(posição × valor), módulo 103
+  const soma = valores.reduce((total, valor, i) => total + (i === 0 ? valor : valor * i), 0);
+  valores.push(soma % 103, PARADA);
+
+  const barras: BarraCodigo[] = [];
+  let posicao = 0;
+  for (const valor of valores) {
+    [...PADROES_CODE128[valor]].forEach((largura, i) => {
+      // Posições pares são barras, ímpares são espaços
+      if (i % 2 === 0) barras.push({ inicio: posicao, largura: Number(largura) });
+      posicao += Number(largura);
+    });
+  }
+
+  return { barras, modulos: posicao };
+}
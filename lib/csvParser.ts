@@ -0,0 +1,231 @@
+// Leitor de CSV (RFC 4180) incremental, compartilhado pela estimativa no navegador, pela simulação e pela importação.
+// Lê o arquivo em pedaços (File.stream() ou corpo do download), sem carregar tudo na memória:
+// campos entre aspas podem ter delimitador, aspas escapadas ("") e quebras de linha
+
+const DELIMITADORES = [',', ';', '\t', '|'];
+
+// Linha lida + bytes (UTF-8) do arquivo até o fim dela. fim = null quando o texto teve bytes inválidos em UTF-8
+// (arquivo em Latin-1, por exemplo): aí a contagem não bate com o arquivo e não serve para retomar
+export interface LinhaCsv {
+  campos: string[];
+  fim: number | null;
+}
+
+export interface ParserCsv {
+  processar(texto: string): LinhaCsv[];
+  finalizar(): LinhaCsv[];
+  delimitador(): string;
+}
+
+// Ponto de retomada da leitura no meio do arquivo (download parcial a partir de "byte")
+export interface PosicaoCsv {
+  byte: number;
+  cabecalho: string[];
+  delimitador: string;
+}
+
+function bytesUtf8(codigo: number): number {
+  if (codigo < 0x80) return 1;
+  if (codigo < 0x800) return 2;
+  if (codigo >= 0xd800 && codigo <= 0xdfff) return 2; // Metade de um par substituto (4 bytes no par)
+  return 3;
+}
+
+// Delimitador mais frequente fora de aspas na linha de cabeçalho
+function detectarDelimitador(linha: string): string {
+  let melhor = ',';
+  let maior = 0;
+  for (const delimitador of DELIMITADORES) {
+    let total = 0;
+    let dentroAspas = false;
+    for (const c of linha) {
+      if (c === '"') dentroAspas = !dentroAspas;
+      else if (c === delimitador && !dentroAspas) total++;
+    }
+    if (total > maior) {
+      maior = total;
+      melhor = delimitador;
+    }
+  }
+  return melhor;
+}
+
+// byteInicial: posição no arquivo do primeiro caractere recebido (retomada ou BOM descartado)
+export function criarParserCsv(delimitadorFixo?: string, byteInicial = 0): ParserCsv {
+  let delimitador = delimitadorFixo || '';
+  let bytes = byteInicial;
+  let bytesExatos = true;
+  let aguardandoCabecalho = ''; // Texto guardado até a primeira linha completa (para detectar o delimitador)
+  let campo = '';
+  let registro: string[] = [];
+  let inicioCampo = true;
+  let dentroAspas = false;
+  let aspaPendente = false; // Aspa dentro de campo entre aspas: fecha o campo ou escapa a próxima
+  let ignorarLf = false; // \r já fechou o registro; \n seguinte (CRLF) é descartado
+
+  const fecharCampo = () => {
+    registro.push(campo);
+    campo = '';
+    inicioCampo = true;
+  };
+
+  const consumir = (texto: string, saida: LinhaCsv[]) => {
+    for (let i = 0; i < texto.length; i++) {
+      const c = texto[i];
+      bytes += bytesUtf8(c.charCodeAt(0));
+      if (c === '\uFFFD') bytesExatos = false;
+
+      if (ignorarLf) {
+        ignorarLf = false;
+        if (c === '\n') continue;
+      }
+
+      if (dentroAspas) {
+        if (aspaPendente) {
+          aspaPendente = false;
+          if (c === '"') {
+            campo += '"';
+            continue;
+          }
+          dentroAspas = false; // Aspa de fechamento: o caractere atual segue como fora das aspas
+        } else {
+          if (c === '"') aspaPendente = true;
+          else campo += c;
+          continue;
+        }
+      }
+
+      if (c === '"' && inicioCampo) {
+        dentroAspas = true;
+        inicioCampo = false;
+      } else if (c === delimitador) {
+        fecharCampo();
+      } else if (c === '\n' || c === '\r') {
+        fecharCampo();
+        saida.push({ campos: registro, fim: bytesExatos ? bytes : null });
+        registro = [];
+        ignorarLf = c === '\r';
+      } else {
+        campo += c;
+        inicioCampo = false;
+      }
+    }
+  };
+
+  return {
+    processar(texto: string): LinhaCsv[] {
+      const saida: LinhaCsv[] = [];
+      if (!delimitador) {
+        aguardandoCabecalho += texto;
+        const fimLinha = aguardandoCabecalho.search(/[\r\n]/);
+        if (fimLinha === -1) return saida;
+        delimitador = detectarDelimitador(aguardandoCabecalho.slice(0, fimLinha));
+        texto = aguardandoCabecalho;
+        aguardandoCabecalho = '';
+      }
+      consumir(texto, saida);
+      return saida;
+    },
+
+    finalizar(): LinhaCsv[] {
+      const saida: LinhaCsv[] = [];
+      if (!delimitador) {
+        delimitador = detectarDelimitador(aguardandoCabecalho);
+        consumir(aguardandoCabecalho, saida);
+        aguardandoCabecalho = '';
+      }
+      if (aspaPendente) {
+        aspaPendente = false;
+        dentroAspas = false;
+      }
+      // Última linha sem quebra no final
+      if (campo !== '' || registro.length > 0 || !inicioCampo) {
+        fecharCampo();
+        saida.push({ campos: registro, fim: bytesExatos ? bytes : null });
+        registro = [];
+      }
+      return saida;
+    },
+
+    delimitador(): string {
+      return delimitador;
+    },
+  };
+}
+
+function linhaVazia(linha: string[]): boolean {
+  return linha.length === 1 && linha[0] === '';
+}
+
+// Linhas do CSV com a posição em bytes, na ordem do arquivo. Sem "inicio" lê do começo (cabeçalho incluído);
+// com "inicio" o stream já começa no byte informado e o delimitador é o do cabeçalho lido antes.
+// Parar a iteração cancela a leitura do stream
+async function* linhasCsvComPosicao(
+  stream: ReadableStream<Uint8Array>,
+  inicio?: PosicaoCsv
+): AsyncGenerator<LinhaCsv & { delimitador: string }> {
+  const leitor = stream.getReader();
+  // TextDecoder descarta o BOM do início (os 3 bytes entram na contagem pelo byteInicial)
+  const decoder = new TextDecoder('utf-8');
+  let parser: ParserCsv | null = null;
+  let terminou = false;
+
+  try {
+    while (!terminou) {
+      const { done, value } = await leitor.read();
+      terminou = done;
+      if (!parser) {
+        const bom = !inicio && !!value && value[0] === 0xef && value[1] === 0xbb && value[2] === 0xbf;
+        parser = criarParserCsv(inicio?.delimitador, inicio ? inicio.byte : bom ? 3 : 0);
+      }
+      const linhas = done
+        ? [...parser.processar(decoder.decode()), ...parser.finalizar()]
+        : parser.processar(decoder.decode(value, { stream: true }));
+
+      for (const linha of linhas) {
+        if (!linhaVazia(linha.campos)) yield { ...linha, delimitador: parser.delimitador() };
+      }
+    }
+  } finally {
+    if (!terminou) await leitor.cancel().catch(() => {});
+    leitor.releaseLock();
+  }
+}
+
+// Linhas do CSV (cabeçalho incluído), na ordem do arquivo
+export async function* linhasCsv(stream: ReadableStream<Uint8Array>): AsyncGenerator<string[]> {
+  for await (const linha of linhasCsvComPosicao(stream)) yield linha.campos;
+}
+
+// Registros indexados pelo cabeçalho (nomes com trim, campo ausente = '')
+export async function* registrosCsv(stream: ReadableStream<Uint8Array>): AsyncGenerator<Record<string, string>> {
+  for await (const { registro } of registrosCsvComPosicao(stream)) yield registro;
+}
+
+// Registros com o ponto de retomada depois de cada um (null se o arquivo não permite contar os bytes).
+// Com "inicio" o stream começa em inicio.byte e o cabeçalho é o guardado na posição
+export async function* registrosCsvComPosicao(
+  stream: ReadableStream<Uint8Array>,
+  inicio?: PosicaoCsv
+): AsyncGenerator<{ registro: Record<string, string>; posicao: PosicaoCsv | null }> {
+  let cabecalho: string[] | null = inicio ? inicio.cabecalho : null;
+  for await (const linha of linhasCsvComPosicao(stream, inicio)) {
+    if (!cabecalho) {
+      cabecalho = linha.campos.map(h => h.trim());
+      continue;
+    }
+    const registro: Record<string, string> = {};
+    cabecalho.forEach((nome, i) => { registro[nome] = linha.campos[i] ?? ''; });
+    yield {
+      registro,
+      posicao: linha.fim === null ? null : { byte: linha.fim, cabecalho, delimitador: linha.delimitador },
+    };
+  }
+}
+
+export async function lerCabecalhoCsv(stream: ReadableStream<Uint8Array>): Promise<string[]> {
+  for await (const linha of linhasCsv(stream)) {
+    return linha.map(h => h.trim());
+  }
+  return [];
+}
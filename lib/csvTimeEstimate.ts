@@ -1,3 +1,5 @@
+import { registrosCsv } from '@/lib/csvParser';
+
 export interface CsvTimeEstimate {
   totalRows: number;
   paidRows: number;
@@ -21,33 +23,23 @@ export async function estimateCsvImportTime(
   file: File,
   platform: CsvPlatform
 ): Promise<CsvTimeEstimate> {
-  const text = await file.text();
-  const lines = text.split('\n').filter(line => line.trim());
-
-  if (lines.length < 2) {
-    return { totalRows: 0, paidRows: 0, estimatedSeconds: 0, estimatedMinutes: 0, formattedTime: '0s' };
-  }
-
-  const headers = lines[0].split(',').map(h => h.trim().replace(/^"|"$/g, ''));
   const filter = STATUS_FILTERS[platform];
-  const statusIndex = headers.findIndex(h => h === filter.column);
-
+  let totalRows = 0;
   let paidRows = 0;
 
-  // Se não encontrou a coluna de status, considera todas as linhas
-  if (statusIndex === -1) {
-    paidRows = lines.length - 1;
-  } else {
-    for (let i = 1; i < lines.length; i++) {
-      const values = lines[i].split(',');
-      const status = values[statusIndex]?.trim().replace(/^"|"$/g, '') || '';
-
-      if (filter.values.includes(status)) {
-        paidRows++;
-      }
+  // Leitura em stream: campos entre aspas podem ter vírgulas e quebras de linha
+  for await (const row of registrosCsv(file.stream())) {
+    totalRows++;
+    // Se não encontrou a coluna de status, considera todas as linhas
+    if (!(filter.column in row) || filter.values.includes(row[filter.column].trim())) {
+      paidRows++;
     }
   }
 
+  if (totalRows === 0) {
+    return { totalRows: 0, paidRows: 0, estimatedSeconds: 0, estimatedMinutes: 0, formattedTime: '0s' };
+  }
+
   // ~1.5 segundos por linha
   const estimatedSeconds = Math.ceil(paidRows * 1.5);
   const estimatedMinutes = Math.ceil(estimatedSeconds / 60);
@@ -62,7 +54,7 @@ export async function estimateCsvImportTime(
   }
 
   return {
-    totalRows: lines.length - 1,
+    totalRows,
     paidRows,
     estimatedSeconds,
     estimatedMinutes,
@@ -0,0 +1,521 @@
+import { telefoneParaCadastro } from '@/lib/telefone';
+
+// Cadastro de vendas no Datacrazy (lead + tag do produto + negócio), compartilhado pela importação de CSV e pelos webhooks
+
+const DATACRAZY_TOKEN = process.env.DATACRAZY_API || '';
+const API_URL = 'https://api.g1.datacrazy.io/api/v1';
+
+export function safeString(val: unknown): string {
+  if (val === null || val === undefined) return '';
+  return String(val).trim();
+}
+
+export function safeEmail(val: unknown): string | null {
+  const email = safeString(val).toLowerCase();
+  if (!email || !email.includes('@') || !email.includes('.')) return null;
+  return email;
+}
+
+async function apiRequest(method: string, endpoint: string, body?: unknown) {
+  const options: RequestInit = {
+    method,
+    headers: {
+      'Authorization': `Bearer ${DATACRAZY_TOKEN}`,
+      'Content-Type': 'application/json',
+    },
+  };
+  if (body) options.body = JSON.stringify(body);
+
+  const response = await fetch(`${API_URL}${endpoint}`, options);
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`API ${response.status}: ${text}`);
+  }
+  return response.json();
+}
+
+// Colunas do registro (CSV da plataforma ou venda normalizada do webhook)
+export interface ColumnMap {
+  email: string;
+  name: string;
+  phone: string;
+  taxId: string;
+  product: string;
+  transactionId: string;
+  total: string;
+  status: string;
+  statusPaid: string | string[];
+  statusRefunded?: string | string[]; // Reembolso, chargeback ou cancelamento: negócio vai para o stage de estorno
+  zip?: string;
+  address?: string;
+  addressNumber?: string;
+  addressComplement?: string;
+  neighborhood?: string;
+  city?: string;
+  state?: string;
+}
+
+// Mapeamento de colunas do CSV exportado por cada plataforma
+export const COLUMN_MAP: Record<string, ColumnMap> = {
+  hubla: {
+    email: 'Email do cliente',
+    name: 'Nome do cliente',
+    phone: 'Telefone do cliente',
+    taxId: 'Documento do cliente',
+    product: 'Nome do produto',
+    transactionId: 'ID da fatura',
+    total: 'Valor total',
+    status: 'Status da fatura',
+    statusPaid: 'Paga',
+    statusRefunded: ['Reembolsada', 'Estornada', 'Cancelada'],
+    zip: 'Endereço CEP',
+    address: 'Endereço Rua',
+    city: 'Endereço Cidade',
+    state: 'Endereço Estado',
+  },
+  hotmart: {
+    email: 'Email',
+    name: 'Nome',
+    phone: 'Telefone Final',
+    taxId: 'Documento',
+    product: 'Nome do Produto',
+    transactionId: 'Transação',
+    total: 'Preço Total',
+    status: 'Status',
+    statusPaid: ['Aprovado', 'Completo'],
+    statusRefunded: ['Reembolsado', 'Chargeback', 'Cancelado'],
+    zip: 'CEP',
+    address: 'Endereço',
+    addressNumber: 'Número',
+    addressComplement: 'Complemento',
+    neighborhood: 'Bairro',
+    city: 'Cidade',
+    state: 'Estado',
+  },
+  eduzz: {
+    email: 'Cliente / E-mail',
+    name: 'Cliente / Nome',
+    phone: 'Cliente / Fones',
+    taxId: 'Cliente / Documento',
+    product: 'Produto',
+    transactionId: 'Fatura',
+    total: 'Valor da Venda',
+    status: 'Status',
+    statusPaid: 'Paga',
+    statusRefunded: ['Reembolsada', 'Cancelada', 'Chargeback'],
+    zip: 'CEP',
+    address: 'Endereço',
+    addressNumber: 'Numero',
+    addressComplement: 'Complemento',
+    neighborhood: 'Bairro',
+    city: 'Cidade',
+    state: 'UF',
+  },
+  kiwify: {
+    email: 'Email',
+    name: 'Cliente',
+    phone: 'Celular',
+    taxId: 'CPF / CNPJ',
+    product: 'Produto',
+    transactionId: 'ID da venda',
+    total: 'Valor líquido',
+    status: 'Status',
+    statusPaid: 'paid',
+    statusRefunded: ['refunded', 'chargedback'],
+    zip: 'CEP',
+    address: 'Endereço',
+    addressNumber: 'Numero',
+    addressComplement: 'Complemento',
+    neighborhood: 'Bairro',
+    city: 'Cidade',
+    state: 'Estado',
+  },
+  woo: {
+    email: 'Billing Email Address',
+    name: 'Billing First Name',
+    phone: 'Billing Phone',
+    taxId: '_billing_cpf',
+    product: 'Product Name #1',
+    transactionId: 'Order ID',
+    total: 'Order Total',
+    status: 'Order Status',
+    statusPaid: 'wc-completed',
+    statusRefunded: ['wc-refunded', 'wc-cancelled'],
+    zip: 'Billing Postcode',
+    address: 'Billing Address 1',
+    addressComplement: 'Billing Address 2',
+    city: 'Billing City',
+    state: 'Billing State',
+    neighborhood: '_billing_neighborhood',
+  },
+};
+
+function statusConfere(status: string, esperado: string | string[] | undefined): boolean {
+  if (!esperado) return false;
+  return Array.isArray(esperado) ? esperado.includes(status) : status === esperado;
+}
+
+export function ehRegistroPago(row: Record<string, string>, columns: ColumnMap): boolean {
+  return statusConfere(safeString(row[columns.status]), columns.statusPaid);
+}
+
+export function ehRegistroEstornado(row: Record<string, string>, columns: ColumnMap): boolean {
+  return statusConfere(safeString(row[columns.status]), columns.statusRefunded);
+}
+
+// Linhas que entram no job: pagas (cadastro) e estornadas (reversão); as demais são só puladas na leitura do arquivo
+export function entraNaImportacao(row: Record<string, string>, columns: ColumnMap): boolean {
+  return ehRegistroPago(row, columns) || ehRegistroEstornado(row, columns);
+}
+
+// Limite do Datacrazy: 60 chamadas/minuto por rota
+// Com cache, a maioria dos registros usa 2-3 chamadas
+// O rate limiting automático aguarda quando chega perto do limite
+
+// Cache de uma execução (job de importação, simulação ou evento de webhook) - criado por quem processa, nunca global.
+// leads guarda só o id e o email que encontrou o lead: as tags são lidas de novo antes de cada PATCH
+export interface CacheDatacrazy {
+  leads: Map<string, { id: string; busca: string }>;
+  tags: Map<string, string | null>;
+}
+
+export function criarCacheDatacrazy(): CacheDatacrazy {
+  return { leads: new Map(), tags: new Map() };
+}
+
+// Estado de uma simulação (dry-run), criado pelo job: leads como estariam depois das linhas anteriores do mesmo arquivo.
+// existe = já no Datacrazy ou criado por uma linha anterior; negocios = externalId -> stageId (null até a primeira consulta)
+export type LeadsSimulados = Map<string, { id: string | null; existe: boolean; tags: Set<string>; negocios: Map<string, string> | null }>;
+
+// Contador de chamadas para rate limiting
+let apiCallsThisMinute = 0;
+let lastMinuteReset = Date.now();
+
+export async function apiRequestWithRateLimit(method: string, endpoint: string, body?: unknown) {
+  // Reset contador a cada minuto
+  const now = Date.now();
+  if (now - lastMinuteReset >= 60000) {
+    apiCallsThisMinute = 0;
+    lastMinuteReset = now;
+  }
+
+  // Se chegou perto do limite, aguardar
+  if (apiCallsThisMinute >= 55) {
+    const waitTime = 60000 - (now - lastMinuteReset) + 1000;
+    console.log(`[RATE-LIMIT] Aguardando ${waitTime}ms para reset do limite`);
+    await new Promise(r => setTimeout(r, waitTime));
+    apiCallsThisMinute = 0;
+    lastMinuteReset = Date.now();
+  }
+
+  apiCallsThisMinute++;
+  return apiRequest(method, endpoint, body);
+}
+
+// Tag do produto (mesmo nome do produto no Datacrazy), com cache
+async function buscarTagProduto(productName: string, cache: CacheDatacrazy): Promise<string | null> {
+  if (cache.tags.has(productName)) return cache.tags.get(productName) || null;
+
+  const tagSearch = await apiRequestWithRateLimit('GET', `/tags?search=${encodeURIComponent(productName)}`);
+  const tagId = tagSearch?.data?.[0]?.id || null;
+  cache.tags.set(productName, tagId);
+  return tagId;
+}
+
+// Tags atuais do lead (a lista do PATCH substitui as tags inteiras: nunca montar a partir de dado guardado).
+// null se a busca não devolver o lead - melhor não mexer nas tags do que apagar as que existem
+async function buscarTagsLead(busca: string, leadId: string): Promise<{ id: string }[] | null> {
+  const leadSearch = await apiRequestWithRateLimit('GET', `/leads?search=${encodeURIComponent(busca)}`);
+  const lead = (leadSearch?.data || []).find((l: { id: string }) => l.id === leadId);
+  return lead ? lead.tags || [] : null;
+}
+
+// Processar registro com cache e rate limiting (origem vai no "source" do lead: "CSV Hotmart", "Webhook Kiwify"...)
+export async function processarRegistroComCache(
+  row: Record<string, string>,
+  columns: ColumnMap,
+  stageId: string,
+  platform: string,
+  origem: string,
+  cache: CacheDatacrazy
+): Promise<{ status: 'created' | 'exists' | 'skipped'; message: string; email?: string; name?: string }> {
+  const email = safeEmail(row[columns.email]);
+  const name = safeString(row[columns.name]) || 'Sem nome';
+  const productName = safeString(row[columns.product]);
+  const transactionId = safeString(row[columns.transactionId]);
+
+  if (!email || !transactionId) {
+    return { status: 'skipped', message: 'Sem email ou transactionId', email: email || '', name };
+  }
+
+  const phone = telefoneParaCadastro(safeString(row[columns.phone]));
+
+  const taxId = safeString(row[columns.taxId]).replace(/\D/g, '');
+
+  const zipCode = safeString(row[columns.zip || '']);
+  const streetAddress = safeString(row[columns.address || '']);
+  const addressNumber = safeString(row[columns.addressNumber || '']);
+  const addressComplement = safeString(row[columns.addressComplement || '']);
+  const neighborhood = safeString(row[columns.neighborhood || '']);
+  const city = safeString(row[columns.city || '']);
+  const state = safeString(row[columns.state || '']);
+
+  let fullAddress = streetAddress;
+  if (addressNumber) fullAddress += `, ${addressNumber}`;
+  if (addressComplement) fullAddress += ` - ${addressComplement}`;
+  if (neighborhood) fullAddress += ` - ${neighborhood}`;
+
+  const address = zipCode ? { zip: zipCode, address: fullAddress, city, state, country: 'Brasil' } : undefined;
+  const saleValue = parseFloat(safeString(row[columns.total]).replace(',', '.')) || 0;
+
+  let leadId: string | undefined;
+  let leadTags: { id: string }[] | null = [];
+
+  // Verificar cache primeiro
+  const cachedLead = cache.leads.get(email);
+  if (cachedLead) {
+    leadId = cachedLead.id;
+  } else {
+    // Buscar no Datacrazy com rate limiting
+    const leadSearch = await apiRequestWithRateLimit('GET', `/leads?search=${encodeURIComponent(email)}`);
+
+    if (!leadSearch || leadSearch.count === 0) {
+      try {
+        const newLead = await apiRequestWithRateLimit('POST', '/leads', {
+          name, email, phone: phone || undefined, taxId: taxId || undefined,
+          address: address?.zip ? address : undefined,
+          source: `${origem} ${platform.charAt(0).toUpperCase() + platform.slice(1)}`,
+        });
+        leadId = newLead?.id;
+        leadTags = [];
+        if (leadId) cache.leads.set(email, { id: leadId, busca: email });
+      } catch (createError) {
+        const errorMsg = createError instanceof Error ? createError.message : '';
+        if (errorMsg.includes('lead-with-same-contact-exists')) {
+          const emailMatch = errorMsg.match(/"email":"([^"]+)"/);
+          const existingEmail = emailMatch ? emailMatch[1] : null;
+          if (existingEmail) {
+            const existingSearch = await apiRequestWithRateLimit('GET', `/leads?search=${encodeURIComponent(existingEmail)}`);
+            if (existingSearch?.data?.[0]) {
+              leadId = existingSearch.data[0].id;
+              leadTags = existingSearch.data[0].tags || [];
+              if (email && leadId) cache.leads.set(email, { id: leadId, busca: existingEmail });
+            } else throw createError;
+          } else throw createError;
+        } else throw createError;
+      }
+    } else {
+      const existingLead = leadSearch.data[0];
+      leadId = existingLead.id;
+      leadTags = existingLead.tags || [];
+      if (email && leadId) cache.leads.set(email, { id: leadId, busca: email });
+
+      const updateData: Record<string, unknown> = {};
+      if (phone && !existingLead.phone) updateData.phone = phone;
+      if (taxId && !existingLead.taxId) updateData.taxId = taxId;
+      if (address?.zip && (!existingLead.address || !existingLead.address.zip)) updateData.address = address;
+      if (Object.keys(updateData).length > 0) await apiRequestWithRateLimit('PATCH', `/leads/${leadId}`, updateData);
+    }
+  }
+
+  // Tag com cache (lead vindo do cache: tags lidas de novo antes de gravar)
+  if (productName && leadId) {
+    try {
+      const tagId = await buscarTagProduto(productName, cache);
+      if (tagId && cachedLead) leadTags = await buscarTagsLead(cachedLead.busca, leadId);
+
+      if (tagId && leadTags && !leadTags.some((t: { id: string }) => t.id === tagId)) {
+        await apiRequestWithRateLimit('PATCH', `/leads/${leadId}`, {
+          tags: [...leadTags.map((t: { id: string }) => ({ id: t.id })), { id: tagId }]
+        });
+      }
+    } catch { /* ignora */ }
+  }
+
+  if (!leadId) return { status: 'skipped', message: 'Sem leadId', email, name };
+
+  const leadBusinesses = await apiRequestWithRateLimit('GET', `/leads/${leadId}/businesses`);
+  const existingBusiness = leadBusinesses?.data?.find((biz: { externalId?: string }) => biz.externalId === transactionId);
+
+  if (!existingBusiness) {
+    await apiRequestWithRateLimit('POST', '/businesses', { leadId, stageId, externalId: transactionId, total: saleValue });
+    return { status: 'created', message: `Negócio criado: R$ ${saleValue.toFixed(2)}`, email, name };
+  }
+  return { status: 'exists', message: `Business já existe`, email, name };
+}
+
+// Stage IDs por plataforma (primeiro stage "Lead" de cada pipeline)
+export const STAGES: Record<string, string> = {
+  hubla: '74022307-988f-4a81-a3df-c14b28bd41d9',
+  hotmart: '0c2bf45f-1c4b-4730-b02c-286b7c018f29',
+  eduzz: '3bbc9611-aa0d-47d5-a755-a9cdcfc453ef',
+  kiwify: '491a2794-7576-45d0-8d8e-d5a6855f17e2',
+  woo: '2c16fbba-092d-48a8-929b-55c5b9d638cc',
+};
+
+// Stage de estorno de cada pipeline (perdido/reembolsado), configurado no .env
+// Sem stage configurado o negócio fica onde está; a tag do produto sai do lead do mesmo jeito
+export const STAGES_ESTORNO: Record<string, string> = {
+  hubla: process.env.DATACRAZY_STAGE_ESTORNO_HUBLA || '',
+  hotmart: process.env.DATACRAZY_STAGE_ESTORNO_HOTMART || '',
+  eduzz: process.env.DATACRAZY_STAGE_ESTORNO_EDUZZ || '',
+  kiwify: process.env.DATACRAZY_STAGE_ESTORNO_KIWIFY || '',
+  woo: process.env.DATACRAZY_STAGE_ESTORNO_WOO || '',
+};
+
+// Stage de estorno do pipeline a que o stage inicial pertence (mapeamento customizado escolhe o stage, não a plataforma)
+function stageEstornoDoPipeline(stageId: string): string {
+  const plataforma = Object.keys(STAGES).find(p => STAGES[p] === stageId);
+  return plataforma ? STAGES_ESTORNO[plataforma] : '';
+}
+
+// Reembolso, chargeback ou cancelamento: move o negócio da transação para o stage de estorno e tira a tag do produto.
+// Não cria lead nem negócio (venda que nunca foi cadastrada é ignorada)
+export async function processarEstornoComCache(
+  row: Record<string, string>,
+  columns: ColumnMap,
+  stageId: string,
+  cache: CacheDatacrazy
+): Promise<{ status: 'reverted' | 'skipped'; message: string; email?: string; name?: string }> {
+  const email = safeEmail(row[columns.email]);
+  const name = safeString(row[columns.name]) || 'Sem nome';
+  const productName = safeString(row[columns.product]);
+  const transactionId = safeString(row[columns.transactionId]);
+  const statusVenda = safeString(row[columns.status]) || 'Estorno';
+
+  if (!email || !transactionId) {
+    return { status: 'skipped', message: 'Sem email ou transactionId', email: email || '', name };
+  }
+
+  const cachedLead = cache.leads.get(email);
+  let lead: { id: string; busca: string; tags: { id: string }[] | null };
+  if (cachedLead) {
+    lead = { ...cachedLead, tags: null }; // Tags lidas só se houver tag para tirar
+  } else {
+    const leadSearch = await apiRequestWithRateLimit('GET', `/leads?search=${encodeURIComponent(email)}`);
+    const existingLead = leadSearch?.data?.[0];
+    if (!existingLead?.id) return { status: 'skipped', message: `${statusVenda}: lead não encontrado`, email, name };
+    lead = { id: existingLead.id as string, busca: email, tags: existingLead.tags || [] };
+    cache.leads.set(email, { id: lead.id, busca: email });
+  }
+
+  const leadBusinesses = await apiRequestWithRateLimit('GET', `/leads/${lead.id}/businesses`);
+  const business = leadBusinesses?.data?.find((biz: { externalId?: string }) => biz.externalId === transactionId);
+  if (!business) {
+    return { status: 'skipped', message: `${statusVenda}: negócio não encontrado`, email, name };
+  }
+
+  const stageEstorno = stageEstornoDoPipeline(stageId);
+  const jaEstornado = !!stageEstorno && business.stageId === stageEstorno;
+  if (stageEstorno && !jaEstornado) {
+    await apiRequestWithRateLimit('PATCH', `/businesses/${business.id}`, { stageId: stageEstorno });
+  }
+
+  let tagRemovida = false;
+  if (productName) {
+    const tagId = await buscarTagProduto(productName, cache);
+    const tagsAtuais = tagId ? lead.tags ?? await buscarTagsLead(lead.busca, lead.id) : null;
+    if (tagId && tagsAtuais?.some(t => t.id === tagId)) {
+      const tags = tagsAtuais.filter(t => t.id !== tagId);
+      await apiRequestWithRateLimit('PATCH', `/leads/${lead.id}`, { tags: tags.map(t => ({ id: t.id })) });
+      tagRemovida = true;
+    }
+  }
+
+  if (jaEstornado && !tagRemovida) {
+    return { status: 'skipped', message: `${statusVenda}: negócio já estornado`, email, name };
+  }
+
+  const partes = [
+    stageEstorno ? (jaEstornado ? 'negócio já estava no stage de estorno' : 'negócio movido para estorno') : 'stage de estorno não configurado',
+    tagRemovida ? 'tag removida' : 'sem tag do produto',
+  ];
+  return { status: 'reverted', message: `${statusVenda}: ${partes.join(', ')}`, email, name };
+}
+
+// Resultado da simulação de uma linha (dry-run): o que a importação faria, sem escrever nada no Datacrazy
+export interface SimulacaoRegistro {
+  acao: 'importar' | 'estornar' | 'ignorar';
+  lead: 'novo' | 'existente' | '';
+  tag: 'adicionar' | 'remover' | 'ja_tem' | 'inexistente' | '';
+  negocio: 'criar' | 'existente' | 'estornar' | 'ja_estornado' | '';
+  motivo: string;
+}
+
+// Mesmas decisões de processarRegistroComCache/processarEstornoComCache, só com leituras (GET)
+export async function simularRegistroComCache(
+  row: Record<string, string>,
+  columns: ColumnMap,
+  stageId: string,
+  cache: CacheDatacrazy,
+  leadsSimulados: LeadsSimulados
+): Promise<SimulacaoRegistro> {
+  const ignorar = (motivo: string): SimulacaoRegistro => ({ acao: 'ignorar', lead: '', tag: '', negocio: '', motivo });
+
+  const pago = ehRegistroPago(row, columns);
+  const estornado = ehRegistroEstornado(row, columns);
+  if (!pago && !estornado) return ignorar(`Status "${safeString(row[columns.status])}" não é pago nem estorno`);
+
+  const email = safeEmail(row[columns.email]);
+  const transactionId = safeString(row[columns.transactionId]);
+  if (!email) return ignorar('Sem email válido');
+  if (!transactionId) return ignorar('Sem transactionId');
+
+  let lead = leadsSimulados.get(email);
+  if (!lead) {
+    const leadSearch = await apiRequestWithRateLimit('GET', `/leads?search=${encodeURIComponent(email)}`);
+    const existingLead = leadSearch?.data?.[0];
+    lead = existingLead?.id
+      ? { id: existingLead.id as string, existe: true, tags: new Set((existingLead.tags || []).map((t: { id: string }) => t.id)), negocios: null }
+      : { id: null, existe: false, tags: new Set(), negocios: new Map() };
+    leadsSimulados.set(email, lead);
+  }
+  const leadNovo = !lead.existe;
+
+  if (lead.negocios === null) {
+    const leadBusinesses = await apiRequestWithRateLimit('GET', `/leads/${lead.id}/businesses`);
+    lead.negocios = new Map(
+      (leadBusinesses?.data || [])
+        .filter((biz: { externalId?: string }) => biz.externalId)
+        .map((biz: { externalId: string; stageId?: string }) => [biz.externalId, biz.stageId || ''])
+    );
+  }
+  const negocios = lead.negocios as Map<string, string>;
+
+  const productName = safeString(row[columns.product]);
+  const tagId = productName ? await buscarTagProduto(productName, cache) : null;
+
+  if (estornado) {
+    if (leadNovo) return ignorar('Estorno: lead não encontrado');
+    if (!negocios.has(transactionId)) return ignorar('Estorno: negócio não encontrado');
+
+    const stageEstorno = stageEstornoDoPipeline(stageId);
+    const jaEstornado = !!stageEstorno && negocios.get(transactionId) === stageEstorno;
+    const temTag = !!tagId && lead.tags.has(tagId);
+    if (jaEstornado && !temTag) return ignorar('Estorno: negócio já estornado');
+
+    if (stageEstorno) negocios.set(transactionId, stageEstorno);
+    if (tagId) lead.tags.delete(tagId);
+    return {
+      acao: 'estornar',
+      lead: 'existente',
+      tag: temTag ? 'remover' : productName && !tagId ? 'inexistente' : '',
+      negocio: jaEstornado ? 'ja_estornado' : 'estornar',
+      motivo: stageEstorno ? '' : 'Stage de estorno não configurado: só a tag sai',
+    };
+  }
+
+  const tag = !productName ? '' : !tagId ? 'inexistente' : lead.tags.has(tagId) ? 'ja_tem' : 'adicionar';
+  const negocioExiste = negocios.has(transactionId);
+  if (tagId) lead.tags.add(tagId);
+  negocios.set(transactionId, negocios.get(transactionId) ?? stageId);
+  lead.existe = true;
+
+  return {
+    acao: 'importar',
+    lead: leadNovo ? 'novo' : 'existente',
+    tag,
+    negocio: negocioExiste ? 'existente' : 'criar',
+    motivo: tag === 'inexistente' ? `Tag "${productName}" não existe no Datacrazy` : '',
+  };
+}
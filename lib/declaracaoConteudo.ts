@@ -0,0 +1,160 @@
+import { criarDocumentoPdf, quebrarTexto, PaginaPdf } from '@/lib/pdf';
+
+// Declaração de conteúdo dos Correios - impressa junto da etiqueta quando o pedido não tem NF-e
+
+export interface PessoaDeclaracao {
+  nome: string;
+  documento: string;
+  endereco: string; // Logradouro, número e complemento
+  cidade: string;
+  uf: string;
+  cep: string;
+}
+
+export interface ItemDeclaracao {
+  descricao: string;
+  quantidade: number;
+  valor: number; // Valor total do item em R$
+}
+
+export interface DeclaracaoConteudo {
+  transactionId: string;
+  codigoRastreio?: string;
+  destinatario: PessoaDeclaracao;
+  itens: ItemDeclaracao[];
+  pesoGramas: number;
+}
+
+const TEXTO_DECLARACAO =
+  'Declaro que não me enquadro no conceito de contribuinte previsto no art. 4º da Lei Complementar nº 87/1996, ' +
+  'uma vez que não realizo, com habitualidade ou em volume que caracterize intuito comercial, operações de circulação ' +
+  'de mercadoria, ainda que se iniciem no exterior, ou estou dispensado da emissão da nota fiscal por força da ' +
+  'legislação tributária vigente, responsabilizando-me, nos termos da lei e a quem de direito, por informações inverídicas.\n' +
+  'Declaro ainda que não estou postando conteúdo inflamável, explosivo, causador de combustão espontânea, tóxico, ' +
+  'corrosivo, gás ou qualquer outro conteúdo que constitua perigo, conforme o art. 13 da Lei Postal nº 6.538/78.';
+
+// Remetente das variáveis de ambiente (mesmo cadastro do perfil ViPP)
+export function getRemetenteDeclaracao(): PessoaDeclaracao | null {
+  const remetente = {
+    nome: process.env.REMETENTE_NOME || '',
+    documento: process.env.REMETENTE_DOCUMENTO || '',
+    endereco: process.env.REMETENTE_ENDERECO || '',
+    cidade: process.env.REMETENTE_CIDADE || '',
+    uf: process.env.REMETENTE_UF || '',
+    cep: process.env.REMETENTE_CEP || '',
+  };
+  return remetente.nome && remetente.endereco ? remetente : null;
+}
+
+// Juntar itens com a mesma descrição (pedidos mesclados com o mesmo produto)
+export function agruparItens(itens: ItemDeclaracao[]): ItemDeclaracao[] {
+  const grupos = new Map<string, ItemDeclaracao>();
+  for (const item of itens) {
+    const chave = item.descricao.trim().toUpperCase();
+    const atual = grupos.get(chave);
+    if (atual) {
+      atual.quantidade += item.quantidade;
+      atual.valor += item.valor;
+    } else {
+      grupos.set(chave, { ...item, descricao: item.descricao.trim() });
+    }
+  }
+  return [...grupos.values()];
+}
+
+function moeda(valor: number): string {
+  return valor.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+}
+
+export function formatarCep(cep: string): string {
+  const digitos = (cep || '').replace(/\D/g, '').padStart(8, '0');
+  return `${digitos.substring(0, 5)}-${digitos.substring(5)}`;
+}
+
+// Quadro de remetente/destinatário
+function quadroPessoa(pagina: PaginaPdf, x: number, y: number, titulo: string, pessoa: PessoaDeclaracao) {
+  const largura = 90;
+  pagina.retangulo(x, y, largura, 34);
+  pagina.texto(x + 2, y + 5, titulo, { tamanho: 9, negrito: true });
+  pagina.texto(x + 2, y + 11, `Nome: ${pessoa.nome}`.substring(0, 60), { tamanho: 8 });
+  quebrarTexto(`Endereço: ${pessoa.endereco}`, largura - 4, 8).slice(0, 2).forEach((linha, i) => {
+    pagina.texto(x + 2, y + 16 + i * 4, linha, { tamanho: 8 });
+  });
+  pagina.texto(x + 2, y + 25, `Cidade/UF: ${pessoa.cidade}/${pessoa.uf}`.substring(0, 60), { tamanho: 8 });
+  pagina.texto(x + 2, y + 30, `CEP: ${formatarCep(pessoa.cep)}    CPF/CNPJ: ${pessoa.documento || '-'}`, { tamanho: 8 });
+}
+
+function desenharDeclaracao(pagina: PaginaPdf, remetente: PessoaDeclaracao, declaracao: DeclaracaoConteudo) {
+  const margem = 15;
+  const largura = 180;
+  let y = 20;
+
+  pagina.texto(105, y, 'DECLARAÇÃO DE CONTEÚDO', { tamanho: 14, negrito: true, alinhamento: 'centro' });
+  y += 6;
+  pagina.texto(105, y, `Pedido ${declaracao.transactionId}${declaracao.codigoRastreio ? ` · Objeto ${declaracao.codigoRastreio}` : ''}`, {
+    tamanho: 8,
+    alinhamento: 'centro',
+  });
+  y += 6;
+
+  quadroPessoa(pagina, margem, y, 'REMETENTE', remetente);
+  quadroPessoa(pagina, margem + 90, y, 'DESTINATÁRIO', declaracao.destinatario);
+  y += 40;
+
+  // Identificação dos bens
+  pagina.texto(105, y, 'IDENTIFICAÇÃO DOS BENS', { tamanho: 10, negrito: true, alinhamento: 'centro' });
+  y += 3;
+  const colunas = { item: margem + 2, conteudo: margem + 14, quantidade: margem + 140, valor: margem + largura - 2 };
+  pagina.retangulo(margem, y, largura, 7);
+  pagina.texto(colunas.item, y + 5, 'ITEM', { tamanho: 8, negrito: true });
+  pagina.texto(colunas.conteudo, y + 5, 'CONTEÚDO', { tamanho: 8, negrito: true });
+  pagina.texto(colunas.quantidade, y + 5, 'QUANT.', { tamanho: 8, negrito: true });
+  pagina.texto(colunas.valor, y + 5, 'VALOR', { tamanho: 8, negrito: true, alinhamento: 'direita' });
+  y += 7;
+
+  const itens = agruparItens(declaracao.itens);
+  itens.forEach((item, i) => {
+    pagina.retangulo(margem, y, largura, 6);
+    pagina.texto(colunas.item, y + 4.3, String(i + 1), { tamanho: 8 });
+    pagina.texto(colunas.conteudo, y + 4.3, item.descricao.substring(0, 75), { tamanho: 8 });
+    pagina.texto(colunas.quantidade, y + 4.3, String(item.quantidade), { tamanho: 8 });
+    pagina.texto(colunas.valor, y + 4.3, moeda(item.valor), { tamanho: 8, alinhamento: 'direita' });
+    y += 6;
+  });
+
+  const totalQuantidade = itens.reduce((total, item) => total + item.quantidade, 0);
+  const totalValor = itens.reduce((total, item) => total + item.valor, 0);
+  pagina.retangulo(margem, y, largura, 7);
+  pagina.texto(colunas.conteudo, y + 5, 'TOTAIS', { tamanho: 8, negrito: true });
+  pagina.texto(colunas.quantidade, y + 5, String(totalQuantidade), { tamanho: 8, negrito: true });
+  pagina.texto(colunas.valor, y + 5, moeda(totalValor), { tamanho: 8, negrito: true, alinhamento: 'direita' });
+  y += 7;
+  pagina.retangulo(margem, y, largura, 7);
+  pagina.texto(colunas.conteudo, y + 5, 'PESO TOTAL (kg)', { tamanho: 8, negrito: true });
+  pagina.texto(colunas.valor, y + 5, (declaracao.pesoGramas / 1000).toFixed(3).replace('.', ','), {
+    tamanho: 8,
+    negrito: true,
+    alinhamento: 'direita',
+  });
+  y += 14;
+
+  // Declaração e assinatura
+  pagina.texto(105, y, 'DECLARAÇÃO', { tamanho: 10, negrito: true, alinhamento: 'centro' });
+  y += 6;
+  quebrarTexto(TEXTO_DECLARACAO, largura, 8).forEach(linha => {
+    pagina.texto(margem, y, linha, { tamanho: 8 });
+    y += 4;
+  });
+  y += 12;
+  pagina.texto(margem, y, '_______________________, ______ de ______________________ de ________', { tamanho: 9 });
+  y += 18;
+  pagina.linha(margem + 50, y, margem + 130, y);
+  pagina.texto(105, y + 4, 'Assinatura do declarante/remetente', { tamanho: 8, alinhamento: 'centro' });
+}
+
+// Uma página A4 por pedido
+export function gerarDeclaracoesPdf(remetente: PessoaDeclaracao, declaracoes: DeclaracaoConteudo[]): Uint8Array {
+  const documento = criarDocumentoPdf();
+  declaracoes.forEach(declaracao => desenharDeclaracao(documento.novaPagina(), remetente, declaracao));
+  return documento.gerar();
+}
@@ -0,0 +1,141 @@
+import { db } from '@/lib/firebase';
+import { collection, query, where, getDocs, addDoc, Timestamp } from 'firebase/firestore';
+import type { DeliveryStatus, TrackingEvent, TrackingMilestone } from '@/lib/tracking';
+import type { DestinatarioVipp } from '@/lib/vipp';
+
+// Registros da coleção "etiquetas" (um por código/caixa), usados pela tela de etiquetas e pelo job de lote
+
+export interface EtiquetaRecord {
+  transactionId: string;
+  etiqueta: string;
+  destinatario: string;
+  createdAt: Timestamp;
+  envioNumero?: number; // Qual envio é este (1, 2, 3...)
+  enviosTotal?: number; // Total de envios planejados
+  // Volumes (caixas) da mesma postagem - cada volume tem seu código, mas é um único envio
+  volumeNumero?: number;
+  volumesTotal?: number;
+  volumesCodigos?: string[];
+  // Campos para pedidos mesclados
+  mergedTransactionIds?: string[]; // Lista de transactionIds se for pedido mesclado
+  produtos?: string[]; // Lista de produtos se for pedido mesclado
+  observacaoEnvio?: string; // Observação do envio parcial
+  telefone?: string;
+  email?: string;
+  // Campos de rastreio (atualizados pelo worker /api/cron/rastreio-etiquetas)
+  deliveryStatus?: DeliveryStatus;
+  trackingEvents?: TrackingEvent[];
+  trackingCheckedAt?: string;
+  notificacoesEnviadas?: TrackingMilestone[]; // Marcos já notificados ao cliente (deduplicação)
+  // Cancelamento (/api/vipp/cancelar-objeto) - registro fica no histórico mas não conta como envio
+  status?: 'cancelled';
+  cancelamentoMotivo?: string;
+  canceladoPor?: string;
+  canceladoEm?: string;
+  // Reemissão: liga a etiqueta cancelada à nova
+  reemitidaDe?: string; // Código cancelado que esta etiqueta substitui
+  substituidaPor?: string; // Código novo (na etiqueta cancelada)
+  impressao?: ImpressaoEtiqueta; // Etiquetas antigas não têm (só imprimem pela ViPP)
+}
+
+// Dados da postagem para imprimir a etiqueta com layout próprio (/api/vipp/etiquetas-pdf) sem depender da ViPP
+export interface ImpressaoEtiqueta {
+  servicoEct: string;
+  endereco: Omit<DestinatarioVipp, 'telefone' | 'email' | 'documento'>;
+  produtos: string[]; // Nomes dos produtos do envio (lista de separação)
+}
+
+export function montarImpressaoEtiqueta(
+  servicoEct: string,
+  destinatario: DestinatarioVipp,
+  produtos: string[]
+): ImpressaoEtiqueta {
+  // Firestore não aceita undefined (campos opcionais do formulário)
+  return {
+    servicoEct,
+    endereco: {
+      nome: destinatario.nome || '',
+      logradouro: destinatario.logradouro || '',
+      numero: destinatario.numero || 'S/N',
+      complemento: destinatario.complemento || '',
+      bairro: destinatario.bairro || '',
+      cidade: destinatario.cidade || '',
+      uf: destinatario.uf || '',
+      cep: destinatario.cep?.replace(/\D/g, '') || '',
+    },
+    produtos,
+  };
+}
+
+// Salvar etiqueta no Firebase
+export async function saveLabel(
+  transactionId: string,
+  etiqueta: string,
+  destinatario: string,
+  envioNumero: number,
+  enviosTotal: number,
+  mergedTransactionIds?: string[],
+  produtos?: string[],
+  observacaoEnvio?: string,
+  contato?: { telefone: string; email: string },
+  volume?: { numero: number; total: number; codigos: string[] },
+  reemitidaDe?: string,
+  impressao?: ImpressaoEtiqueta
+): Promise<void> {
+  try {
+    const docData: Record<string, unknown> = {
+      transactionId,
+      etiqueta,
+      destinatario,
+      envioNumero,
+      enviosTotal,
+      deliveryStatus: 'pending',
+      createdAt: Timestamp.now(),
+    };
+
+    // Adicionar dados de merge se existirem
+    if (mergedTransactionIds && mergedTransactionIds.length > 0) {
+      docData.mergedTransactionIds = mergedTransactionIds;
+    }
+    if (produtos && produtos.length > 0) {
+      docData.produtos = produtos;
+    }
+    // Adicionar observação do envio parcial se existir
+    if (observacaoEnvio) {
+      docData.observacaoEnvio = observacaoEnvio;
+    }
+    // Contato do cliente (usado pelas notificações de rastreio)
+    if (contato) {
+      docData.telefone = contato.telefone;
+      docData.email = contato.email;
+    }
+    // Postagem com mais de uma caixa
+    if (volume && volume.total > 1) {
+      docData.volumeNumero = volume.numero;
+      docData.volumesTotal = volume.total;
+      docData.volumesCodigos = volume.codigos;
+    }
+    // Reemissão de uma etiqueta cancelada
+    if (reemitidaDe) {
+      docData.reemitidaDe = reemitidaDe;
+    }
+    if (impressao) {
+      docData.impressao = impressao;
+    }
+
+    await addDoc(collection(db, 'etiquetas'), docData);
+  } catch (err) {
+    console.error('Erro ao salvar etiqueta:', err);
+    throw err;
+  }
+}
+
+// Códigos ativos (não cancelados) de um envio do pedido - evita postar o mesmo envio duas vezes
+export async function buscarEtiquetasDoEnvio(transactionId: string, envioNumero: number): Promise<string[]> {
+  const snapshot = await getDocs(query(collection(db, 'etiquetas'), where('transactionId', '==', transactionId)));
+  return snapshot.docs
+    .map(d => d.data() as EtiquetaRecord)
+    .filter(e => e.status !== 'cancelled' && (e.envioNumero || 1) === envioNumero)
+    .sort((a, b) => (a.volumeNumero || 1) - (b.volumeNumero || 1))
+    .map(e => e.etiqueta);
+}
@@ -0,0 +1,203 @@
+import { criarDocumentoPdf, quebrarTexto, PaginaPdf, DocumentoPdf, TamanhoPagina, PAGINA_A4 } from '@/lib/pdf';
+import { codificarCode128 } from '@/lib/codigoBarras';
+import { formatarCep, PessoaDeclaracao } from '@/lib/declaracaoConteudo';
+import { getServicoName } from '@/lib/regrasFrete';
+import type { ImpressaoEtiqueta } from '@/lib/etiquetas';
+
+// Etiquetas de postagem com layout próprio (alternativa à ImpressaoRemota da ViPP): imprime a partir
+// dos dados gravados em "etiquetas", no formato escolhido, com a lista de separação do lote
+
+// a4_4          - folha A4 com 4 etiquetas (impressora comum, recortar)
+// termica_10x15 - uma etiqueta por página de 100x150 mm (impressora térmica)
+export type FormatoEtiqueta = 'a4_4' | 'termica_10x15';
+
+export const FORMATO_ETIQUETA_LABELS: Record<FormatoEtiqueta, string> = {
+  a4_4: 'A4 - 4 etiquetas por folha',
+  termica_10x15: 'Térmica 10x15',
+};
+
+export interface DadosEtiquetaPdf {
+  codigo: string;
+  transactionId: string;
+  servicoEct: string;
+  destinatario: ImpressaoEtiqueta['endereco'];
+  produtos: string[];
+  volume?: { numero: number; total: number };
+  observacao?: string;
+}
+
+const PAGINA_TERMICA_10X15: TamanhoPagina = { larguraMm: 100, alturaMm: 150 };
+
+// Área de uma etiqueta (cabe em 1/4 de A4 e na térmica 10x15)
+const LARGURA_ETIQUETA = 100;
+const ALTURA_ETIQUETA = 145;
+const MARGEM_ETIQUETA = 4;
+
+function desenharCodigoBarras(pagina: PaginaPdf, x: number, y: number, largura: number, altura: number, texto: string) {
+  const { barras, modulos } = codificarCode128(texto);
+  const modulo = largura / modulos;
+  barras.forEach(barra => {
+    pagina.retangulo(x + barra.inicio * modulo, y, barra.largura * modulo, altura, { preenchido: true });
+  });
+}
+
+function desenharEtiqueta(pagina: PaginaPdf, x: number, y: number, remetente: PessoaDeclaracao, etiqueta: DadosEtiquetaPdf) {
+  const esquerda = x + MARGEM_ETIQUETA;
+  const direita = x + LARGURA_ETIQUETA - MARGEM_ETIQUETA;
+  const largura = LARGURA_ETIQUETA - MARGEM_ETIQUETA * 2;
+  const destino = etiqueta.destinatario;
+
+  pagina.retangulo(x, y, LARGURA_ETIQUETA, ALTURA_ETIQUETA, { espessura: 0.3 });
+
+  // Serviço, pedido e volume
+  pagina.texto(esquerda, y + 7, getServicoName(etiqueta.servicoEct).toUpperCase().substring(0, 28), { tamanho: 11, negrito: true });
+  pagina.texto(direita, y + 5.5, `Pedido ${etiqueta.transactionId}`.substring(0, 30), { tamanho: 7, alinhamento: 'direita' });
+  if (etiqueta.volume && etiqueta.volume.total > 1) {
+    pagina.texto(direita, y + 9.5, `Volume ${etiqueta.volume.numero}/${etiqueta.volume.total}`, { tamanho: 8, negrito: true, alinhamento: 'direita' });
+  }
+  pagina.linha(esquerda, y + 12, direita, y + 12, 0.3);
+
+  // Código de rastreio
+  pagina.texto(x + LARGURA_ETIQUETA / 2, y + 19, etiqueta.codigo, { tamanho: 14, negrito: true, alinhamento: 'centro' });
+  desenharCodigoBarras(pagina, esquerda + 4, y + 22, largura - 8, 20, etiqueta.codigo);
+
+  pagina.texto(esquerda, y + 49, 'Recebedor: ____________________________________________', { tamanho: 8 });
+  pagina.texto(esquerda, y + 55, 'Assinatura: ______________________  Documento: ____________', { tamanho: 8 });
+
+  // Destinatário (com o CEP em código de barras para a triagem)
+  const yDestino = y + 60;
+  pagina.retangulo(esquerda, yDestino, largura, 47);
+  pagina.texto(esquerda + 2, yDestino + 5, 'DESTINATÁRIO', { tamanho: 9, negrito: true });
+  pagina.texto(esquerda + 2, yDestino + 11, destino.nome.substring(0, 42), { tamanho: 10, negrito: true });
+  const endereco = `${destino.logradouro}, ${destino.numero || 'S/N'}${destino.complemento ? ` - ${destino.complemento}` : ''}`;
+  quebrarTexto(endereco, largura - 4, 9).slice(0, 2).forEach((linha, i) => {
+    pagina.texto(esquerda + 2, yDestino + 16 + i * 4, linha, { tamanho: 9 });
+  });
+  if (destino.bairro) {
+    pagina.texto(esquerda + 2, yDestino + 24, destino.bairro.substring(0, 50), { tamanho: 9 });
+  }
+  pagina.texto(esquerda + 2, yDestino + 30, `${formatarCep(destino.cep)}  ${destino.cidade}/${destino.uf}`.substring(0, 45), {
+    tamanho: 10,
+    negrito: true,
+  });
+  desenharCodigoBarras(pagina, esquerda + 2, yDestino + 33, 40, 11, destino.cep.replace(/\D/g, '').padStart(8, '0'));
+
+  // Conteúdo do volume (conferência na embalagem)
+  let yConteudo = y + 112;
+  const conteudo = [
+    ...quebrarTexto(`Conteúdo: ${etiqueta.produtos.join(', ') || '-'}`, largura, 7).slice(0, 2),
+    ...(etiqueta.observacao ? quebrarTexto(`Obs.: ${etiqueta.observacao}`, largura, 7).slice(0, 1) : []),
+  ];
+  conteudo.forEach(linha => {
+    pagina.texto(esquerda, yConteudo, linha, { tamanho: 7 });
+    yConteudo += 3.5;
+  });
+
+  // Remetente
+  const yRemetente = y + 123;
+  pagina.linha(esquerda, yRemetente, direita, yRemetente, 0.3);
+  pagina.texto(esquerda, yRemetente + 4.5, 'REMETENTE', { tamanho: 8, negrito: true });
+  pagina.texto(esquerda, yRemetente + 9, remetente.nome.substring(0, 55), { tamanho: 8 });
+  pagina.texto(esquerda, yRemetente + 13, remetente.endereco.substring(0, 60), { tamanho: 8 });
+  pagina.texto(esquerda, yRemetente + 17, `${formatarCep(remetente.cep)}  ${remetente.cidade}/${remetente.uf}`.substring(0, 55), { tamanho: 8 });
+}
+
+// Juntar produtos repetidos do pedido ("2x Produto")
+function agruparProdutos(produtos: string[]): string[] {
+  const contagem = new Map<string, number>();
+  produtos.forEach(produto => contagem.set(produto, (contagem.get(produto) || 0) + 1));
+  return [...contagem.entries()].map(([produto, quantidade]) => (quantidade > 1 ? `${quantidade}x ${produto}` : produto));
+}
+
+// Lista de separação: produtos de cada pedido do lote, no tamanho de página do formato
+function desenharListaSeparacao(documento: DocumentoPdf, tamanho: TamanhoPagina, etiquetas: DadosEtiquetaPdf[]) {
+  const margem = tamanho.larguraMm > 150 ? 15 : 6;
+  const largura = tamanho.larguraMm - margem * 2;
+  const limite = tamanho.alturaMm - margem;
+
+  // Volumes do mesmo pedido saem juntos
+  const pedidos = new Map<string, DadosEtiquetaPdf[]>();
+  etiquetas.forEach(etiqueta => {
+    pedidos.set(etiqueta.transactionId, [...(pedidos.get(etiqueta.transactionId) || []), etiqueta]);
+  });
+
+  let numeroPagina = 0;
+  let pagina = documento.novaPagina();
+  let y = margem;
+
+  const cabecalho = () => {
+    numeroPagina++;
+    pagina.texto(margem, y + 5, 'LISTA DE SEPARAÇÃO', { tamanho: 12, negrito: true });
+    pagina.texto(tamanho.larguraMm - margem, y + 5, `Página ${numeroPagina}`, { tamanho: 7, alinhamento: 'direita' });
+    pagina.texto(margem, y + 10, `${pedidos.size} pedido(s) · ${etiquetas.length} etiqueta(s) · ${new Date().toLocaleString('pt-BR')}`, { tamanho: 7 });
+    pagina.linha(margem, y + 12, tamanho.larguraMm - margem, y + 12, 0.3);
+    y += 18;
+  };
+  cabecalho();
+
+  pedidos.forEach((volumes, transactionId) => {
+    const primeiro = volumes[0];
+    const linhas = [
+      ...agruparProdutos(primeiro.produtos).flatMap(produto => quebrarTexto(`• ${produto}`, largura - 6, 8)),
+      ...(primeiro.observacao ? quebrarTexto(`Obs.: ${primeiro.observacao}`, largura - 6, 8) : []),
+    ];
+    const alturaPedido = 9 + linhas.length * 4 + 3;
+
+    if (y + alturaPedido > limite && y > margem + 18) {
+      pagina = documento.novaPagina();
+      y = margem;
+      cabecalho();
+    }
+
+    pagina.retangulo(margem, y - 3, 3, 3);
+    pagina.texto(margem + 5, y, `${transactionId} - ${primeiro.destinatario.nome}`.substring(0, Math.floor(largura / 2)), {
+      tamanho: 9,
+      negrito: true,
+    });
+    y += 4.5;
+    pagina.texto(margem + 5, y, `Etiqueta(s): ${volumes.map(v => v.codigo).join(', ')}`, { tamanho: 7 });
+    y += 4.5;
+    linhas.forEach(linha => {
+      pagina.texto(margem + 6, y, linha, { tamanho: 8 });
+      y += 4;
+    });
+    y += 3;
+  });
+}
+
+export function gerarEtiquetasPdf(
+  remetente: PessoaDeclaracao,
+  etiquetas: DadosEtiquetaPdf[],
+  formato: FormatoEtiqueta,
+  opcoes: { listaSeparacao?: boolean } = {}
+): Uint8Array {
+  const tamanho = formato === 'a4_4' ? PAGINA_A4 : PAGINA_TERMICA_10X15;
+  const documento = criarDocumentoPdf(tamanho);
+
+  if (opcoes.listaSeparacao) {
+    desenharListaSeparacao(documento, tamanho, etiquetas);
+  }
+
+  if (formato === 'a4_4') {
+    // 2x2 com sobra dividida igualmente entre as margens
+    const folgaX = (tamanho.larguraMm - LARGURA_ETIQUETA * 2) / 3;
+    const folgaY = (tamanho.alturaMm - ALTURA_ETIQUETA * 2) / 3;
+    const posicoes = [
+      { x: folgaX, y: folgaY },
+      { x: folgaX * 2 + LARGURA_ETIQUETA, y: folgaY },
+      { x: folgaX, y: folgaY * 2 + ALTURA_ETIQUETA },
+      { x: folgaX * 2 + LARGURA_ETIQUETA, y: folgaY * 2 + ALTURA_ETIQUETA },
+    ];
+    for (let i = 0; i < etiquetas.length; i += posicoes.length) {
+      const pagina = documento.novaPagina();
+      etiquetas.slice(i, i + posicoes.length).forEach((etiqueta, j) => {
+        desenharEtiqueta(pagina, posicoes[j].x, posicoes[j].y, remetente, etiqueta);
+      });
+    }
+  } else {
+    const margemTopo = (tamanho.alturaMm - ALTURA_ETIQUETA) / 2;
+    etiquetas.forEach(etiqueta => desenharEtiqueta(documento.novaPagina(), 0, margemTopo, remetente, etiqueta));
+  }
+
+  return documento.gerar();
+}
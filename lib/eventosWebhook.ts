@@ -0,0 +1,128 @@
+import { db } from '@/lib/firebase';
+import { collection, doc, setDoc, updateDoc, getDocs, query, where, limit, increment, deleteField } from 'firebase/firestore';
+
+// Eventos recebidos nas rotas de integração, guardados brutos (headers + corpo) antes do processamento.
+// Falhas ficam com status "erro" (dead-letter) e podem ser reprocessadas a partir do corpo guardado.
+
+export type StatusEventoWebhook = 'recebido' | 'processado' | 'ignorado' | 'erro';
+
+// Plataformas de venda (/api/webhooks/*), Evolution (/api/whatsapp/webhook) e lote de etiquetas (/api/webhook/etiquetas)
+export type OrigemEventoWebhook = 'hotmart' | 'kiwify' | 'eduzz' | 'hubla' | 'evolution' | 'etiquetas';
+
+export const ORIGEM_EVENTO_WEBHOOK_LABELS: Record<OrigemEventoWebhook, string> = {
+  hotmart: 'Hotmart',
+  kiwify: 'Kiwify',
+  eduzz: 'Eduzz',
+  hubla: 'Hubla',
+  evolution: 'Evolution (WhatsApp)',
+  etiquetas: 'Lote de etiquetas',
+};
+
+export const STATUS_EVENTO_WEBHOOK_LABELS: Record<StatusEventoWebhook, string> = {
+  recebido: 'Recebido',
+  processado: 'Processado',
+  ignorado: 'Ignorado',
+  erro: 'Falha',
+};
+
+export interface EventoWebhook {
+  id: string;
+  origem: OrigemEventoWebhook;
+  tipo: string; // Evento informado no payload (PURCHASE_APPROVED, messages.update, ...)
+  chave: string; // Identificador do negócio (transactionId), vazio se não houver
+  headers: Record<string, string>;
+  corpo: string; // Corpo exatamente como chegou
+  status: StatusEventoWebhook;
+  mensagem?: string;
+  erro?: string;
+  tentativas: number; // Processamentos (1 = só o da chegada)
+  etapasConcluidas?: string[]; // Passos com efeito externo já feitos (o reprocessamento não repete)
+  recebidoEm: string;
+  processadoEm?: string;
+  reprocessadoEm?: string;
+}
+
+// Resultado de um handler (chegada ou reprocessamento)
+export interface ResultadoEventoWebhook {
+  status: Exclude<StatusEventoWebhook, 'recebido'>;
+  tipo?: string;
+  chave?: string;
+  mensagem?: string;
+  erro?: string;
+  etapasConcluidas?: string[];
+}
+
+export interface FiltroEventosWebhook {
+  origem?: OrigemEventoWebhook;
+  status?: StatusEventoWebhook;
+  de?: string; // ISO, recebidoEm >= de
+  ate?: string; // ISO, recebidoEm <= ate
+}
+
+export const EVENTOS_WEBHOOK_COLLECTION = 'eventos_webhook';
+
+// Sem filtro de data, a listagem olha os últimos dias
+const DIAS_PADRAO_LISTAGEM = 7;
+
+// Segredos não são guardados (a assinatura já foi conferida na chegada)
+const HEADERS_SENSIVEIS = ['authorization', 'cookie', 'x-hotmart-hottok', 'x-hubla-token', 'x-signature', 'x-webhook-token', 'apikey'];
+
+export async function registrarEventoWebhook(origem: OrigemEventoWebhook, headers: Headers, corpo: string): Promise<string> {
+  const ref = doc(collection(db, EVENTOS_WEBHOOK_COLLECTION));
+  const headersGuardados: Record<string, string> = {};
+  headers.forEach((valor, nome) => {
+    if (!HEADERS_SENSIVEIS.includes(nome.toLowerCase())) headersGuardados[nome.toLowerCase()] = valor;
+  });
+
+  const evento: EventoWebhook = {
+    id: ref.id,
+    origem,
+    tipo: '',
+    chave: '',
+    headers: headersGuardados,
+    corpo,
+    status: 'recebido',
+    tentativas: 1,
+    recebidoEm: new Date().toISOString(),
+  };
+  await setDoc(ref, evento);
+  return ref.id;
+}
+
+export async function finalizarEventoWebhook(id: string, resultado: ResultadoEventoWebhook, reprocessamento = false): Promise<void> {
+  const agora = new Date().toISOString();
+  // Firestore não aceita undefined; erro antigo sai quando o evento passa
+  const dados: Record<string, unknown> = {
+    status: resultado.status,
+    processadoEm: agora,
+    erro: resultado.erro !== undefined ? resultado.erro : deleteField(),
+  };
+  if (resultado.tipo !== undefined) dados.tipo = resultado.tipo;
+  if (resultado.chave !== undefined) dados.chave = resultado.chave;
+  if (resultado.mensagem !== undefined) dados.mensagem = resultado.mensagem;
+  if (resultado.etapasConcluidas !== undefined) dados.etapasConcluidas = resultado.etapasConcluidas;
+  if (reprocessamento) {
+    dados.tentativas = increment(1);
+    dados.reprocessadoEm = agora;
+  }
+  await updateDoc(doc(db, EVENTOS_WEBHOOK_COLLECTION, id), dados);
+}
+
+// Listar eventos (mais recentes primeiro). Consulta por um campo só (sem índice composto), resto filtrado em memória
+export async function listarEventosWebhook(filtro: FiltroEventosWebhook = {}, max = 200): Promise<EventoWebhook[]> {
+  const de = filtro.de || new Date(Date.now() - DIAS_PADRAO_LISTAGEM * 24 * 60 * 60 * 1000).toISOString();
+  const consulta = filtro.status
+    ? query(collection(db, EVENTOS_WEBHOOK_COLLECTION), where('status', '==', filtro.status), limit(1000))
+    : query(collection(db, EVENTOS_WEBHOOK_COLLECTION), where('recebidoEm', '>=', de), limit(1000));
+
+  const snapshot = await getDocs(consulta);
+  return snapshot.docs
+    .map(d => d.data() as EventoWebhook)
+    .filter(e =>
+      (!filtro.origem || e.origem === filtro.origem) &&
+      (!filtro.de || e.recebidoEm >= filtro.de) &&
+      (!filtro.ate || e.recebidoEm <= filtro.ate)
+    )
+    .sort((a, b) => b.recebidoEm.localeCompare(a.recebidoEm))
+    .slice(0, max);
+}
@@ -0,0 +1,55 @@
+import type { ResultadoEnvioWhatsApp } from '@/lib/whatsappProviders';
+
+// Configuração Evolution API para envio de WhatsApp
+export const EVOLUTION_CONFIG = {
+  baseUrl: process.env.EVOLUTION_API_URL || '',
+  apiKey: process.env.EVOLUTION_API_KEY || '',
+  instanceName: process.env.EVOLUTION_INSTANCE_NAME || '',
+  messageDelay: parseInt(process.env.EVOLUTION_MESSAGE_DELAY || '5000'),
+  useEvolution: process.env.WHATSAPP_USE_EVOLUTION === 'true',
+};
+
+export function isEvolutionConfigured(): boolean {
+  return !!(EVOLUTION_CONFIG.baseUrl && EVOLUTION_CONFIG.apiKey && EVOLUTION_CONFIG.instanceName);
+}
+
+// Função de delay
+export function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Função para enviar mensagem via Evolution API
+export async function enviarMensagemEvolution(telefone: string, mensagem: string): Promise<ResultadoEnvioWhatsApp> {
+  try {
+    // Remove barra final da URL base se houver
+    const baseUrl = EVOLUTION_CONFIG.baseUrl.replace(/\/$/, '');
+    const url = `${baseUrl}/message/sendText/${EVOLUTION_CONFIG.instanceName}`;
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'apikey': EVOLUTION_CONFIG.apiKey,
+      },
+      body: JSON.stringify({
+        number: telefone,
+        text: mensagem,
+        linkPreview: false,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`[Evolution] Erro ao enviar para ${telefone}:`, errorText);
+      return { success: false, error: errorText, httpStatus: response.status };
+    }
+
+    const resposta = await response.json();
+    console.log(`[Evolution] Mensagem enviada para ${telefone}`);
+    return { success: true, httpStatus: response.status, resposta };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
+    console.error(`[Evolution] Exceção ao enviar para ${telefone}:`, errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
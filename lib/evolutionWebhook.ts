@@ -0,0 +1,151 @@
+import { EVOLUTION_CONFIG } from '@/lib/evolution';
+import { atualizarStatusEntrega, WhatsAppEntregaStatus } from '@/lib/whatsappLog';
+import { registrarResposta } from '@/lib/whatsappRespostas';
+import type { ResultadoEventoWebhook } from '@/lib/eventosWebhook';
+
+// Eventos da Evolution API: acks de entrega das mensagens enviadas e respostas dos clientes
+// (usado pelo webhook e pelo reprocessamento de eventos guardados)
+
+interface EvolutionMessageKey {
+  id?: string;
+  remoteJid?: string;
+  fromMe?: boolean;
+}
+
+// Item de messages.update (v2 manda campos soltos, v1 manda key + update)
+interface EvolutionMessageUpdate {
+  keyId?: string;
+  remoteJid?: string;
+  fromMe?: boolean;
+  status?: string | number;
+  key?: EvolutionMessageKey;
+  update?: { status?: string | number };
+}
+
+// Item de messages.upsert
+interface EvolutionMessageUpsert {
+  key?: EvolutionMessageKey;
+  pushName?: string;
+  messageType?: string;
+  messageTimestamp?: number | string;
+  message?: {
+    conversation?: string;
+    extendedTextMessage?: { text?: string };
+    imageMessage?: { caption?: string };
+    videoMessage?: { caption?: string };
+    documentMessage?: { caption?: string };
+  };
+}
+
+export interface EvolutionWebhookEvent {
+  event?: string;
+  instance?: string;
+  apikey?: string;
+  data?: unknown;
+}
+
+// MESSAGES_UPDATE (global) e messages.update (por instância) são o mesmo evento
+function normalizarEvento(evento: string): string {
+  return evento.toLowerCase().replace(/_/g, '.');
+}
+
+// Converter status do ack (string na v2, número na v1) para o status do histórico
+function statusDoAck(status: string | number | undefined): WhatsAppEntregaStatus | null {
+  switch (status) {
+    case 'DELIVERY_ACK':
+    case 3:
+      return 'delivered';
+    case 'READ':
+    case 'PLAYED':
+    case 4:
+    case 5:
+      return 'read';
+    case 'ERROR':
+    case 0:
+      return 'failed';
+    default:
+      return null; // PENDING / SERVER_ACK - já registrado como enviada
+  }
+}
+
+function extrairTexto(item: EvolutionMessageUpsert): string {
+  const m = item.message;
+  return m?.conversation
+    || m?.extendedTextMessage?.text
+    || m?.imageMessage?.caption
+    || m?.videoMessage?.caption
+    || m?.documentMessage?.caption
+    || `[${item.messageType || 'mensagem'}]`;
+}
+
+function comoLista<T>(data: unknown): T[] {
+  if (!data) return [];
+  return (Array.isArray(data) ? data : [data]) as T[];
+}
+
+async function processarAcks(data: unknown): Promise<number> {
+  let atualizados = 0;
+
+  for (const item of comoLista<EvolutionMessageUpdate>(data)) {
+    const fromMe = item.fromMe ?? item.key?.fromMe;
+    const messageId = item.keyId || item.key?.id;
+    const status = statusDoAck(item.status ?? item.update?.status);
+
+    // Só interessam acks das mensagens que nós enviamos
+    if (!fromMe || !messageId || !status) continue;
+
+    atualizados += await atualizarStatusEntrega(messageId, status);
+  }
+
+  return atualizados;
+}
+
+async function processarMensagensRecebidas(data: unknown): Promise<number> {
+  let registradas = 0;
+
+  for (const item of comoLista<EvolutionMessageUpsert>(data)) {
+    const jid = item.key?.remoteJid || '';
+
+    // Ignora mensagens enviadas por nós, grupos e status
+    if (item.key?.fromMe || !item.key?.id || !jid.endsWith('@s.whatsapp.net')) continue;
+
+    const timestamp = Number(item.messageTimestamp);
+    const resultado = await registrarResposta({
+      id: item.key.id,
+      telefone: jid.split('@')[0],
+      nome: item.pushName || '',
+      texto: extrairTexto(item),
+      tipoMensagem: item.messageType || 'conversation',
+      recebidoEm: timestamp ? new Date(timestamp * 1000) : undefined,
+    });
+
+    if (resultado.novo) {
+      registradas++;
+      console.log(`[WhatsApp Webhook] Resposta de ${jid} registrada (etiqueta: ${resultado.etiquetaId || 'não encontrada'})`);
+    }
+  }
+
+  return registradas;
+}
+
+// Processar um evento já validado (origem conferida pela rota)
+export async function processarEventoEvolution(body: EvolutionWebhookEvent): Promise<ResultadoEventoWebhook> {
+  const evento = normalizarEvento(body.event || '');
+
+  if (EVOLUTION_CONFIG.instanceName && body.instance && body.instance !== EVOLUTION_CONFIG.instanceName) {
+    return { status: 'ignorado', tipo: evento, mensagem: `Instância ${body.instance}` };
+  }
+
+  if (evento === 'messages.update') {
+    const atualizados = await processarAcks(body.data);
+    return { status: 'processado', tipo: evento, mensagem: `${atualizados} mensagem(s) atualizada(s)` };
+  }
+
+  if (evento === 'messages.upsert') {
+    const registradas = await processarMensagensRecebidas(body.data);
+    return { status: 'processado', tipo: evento, mensagem: `${registradas} resposta(s) registrada(s)` };
+  }
+
+  // Outros eventos (connection.update, send.message...) são aceitos e ignorados
+  return { status: 'ignorado', tipo: evento, mensagem: 'Evento não tratado' };
+}
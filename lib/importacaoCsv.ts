@@ -0,0 +1,228 @@
+import { db } from '@/lib/firebase';
+import { doc, getDoc, updateDoc, deleteField, runTransaction } from 'firebase/firestore';
+import {
+  ColumnMap,
+  safeString,
+  criarCacheDatacrazy,
+  ehRegistroEstornado,
+  entraNaImportacao,
+  processarEstornoComCache,
+  processarRegistroComCache,
+} from '@/lib/datacrazy';
+import { registrosArquivoImportacao, registrosArquivoImportacaoComPosicao, removerArquivoImportacao } from '@/lib/arquivosImportacao';
+import type { PosicaoCsv } from '@/lib/csvParser';
+
+// Importação de CSV para o Datacrazy a partir do arquivo guardado no Storage. O job de jobs_importacao guarda só
+// a configuração (colunas, stage, caminho do arquivo), os contadores e o cursor: 'ultimoIndice' = registros do
+// arquivo já lidos e 'posicaoArquivo' = byte logo depois deles (+ cabeçalho e delimitador). Cada execução baixa o
+// arquivo a partir dessa posição e processa em lotes; sem posição (arquivo fora de UTF-8) lê do início e pula
+// até o cursor
+
+const TAMANHO_LOTE = 20; // Progresso, cursor e cancelamento são gravados/verificados a cada lote
+const JOB_ATIVO_MS = 5 * 60 * 1000; // Sem atualização há mais que isso = job travado, pode ser retomado
+
+export interface AnaliseArquivoImportacao {
+  totalOriginal: number;
+  pagos: number;
+  estornos: number;
+  statusEncontrados: string[];
+}
+
+export interface ResultadoExecucaoImportacao {
+  status: 'processando' | 'concluido' | 'cancelado';
+  processados: number;
+  total: number;
+  ultimoIndice: number;
+}
+
+// Contagem antes de criar o job (o total do job é só de pagas + estornadas)
+export async function analisarArquivoImportacao(caminho: string, columns: ColumnMap): Promise<AnaliseArquivoImportacao> {
+  let totalOriginal = 0, pagos = 0, estornos = 0;
+  const statusEncontrados = new Set<string>();
+
+  for await (const row of registrosArquivoImportacao(caminho)) {
+    totalOriginal++;
+    if (ehRegistroEstornado(row, columns)) estornos++;
+    else if (entraNaImportacao(row, columns)) pagos++;
+    if (statusEncontrados.size < 10) statusEncontrados.add(safeString(row[columns.status]));
+  }
+
+  return { totalOriginal, pagos, estornos, statusEncontrados: [...statusEncontrados] };
+}
+
+// Outra execução atualizou o job há pouco (evita duas leituras do mesmo arquivo processando em paralelo)
+export function jobImportacaoAtivo(job: { status?: string; atualizadoEm?: string }): boolean {
+  return job.status === 'processando' && Date.now() - Date.parse(job.atualizadoEm || '') < JOB_ATIVO_MS;
+}
+
+// Processa o job a partir do cursor. Sem limite roda até o fim (background); com limite para no primeiro lote que
+// atingir o limite e devolve 'processando' para a próxima chamada continuar
+export async function processarJobImportacao(jobId: string, limite = Infinity): Promise<ResultadoExecucaoImportacao> {
+  const jobRef = doc(db, 'jobs_importacao', jobId);
+  const jobSnap = await getDoc(jobRef);
+  if (!jobSnap.exists()) throw new Error('Job não encontrado');
+
+  const job = jobSnap.data();
+  const platform = job.plataforma as string;
+  const stageId = job.stageId as string;
+  const columns = job.colunas as ColumnMap;
+  const caminhoArquivo = job.caminhoArquivo as string;
+  const total = (job.total as number) || 0;
+  const inicio = (job.ultimoIndice as number) || 0;
+  const posicaoInicial = inicio > 0 ? (job.posicaoArquivo as PosicaoCsv | undefined) : undefined;
+
+  let processados = (job.processados as number) || 0;
+  let sucessos = (job.sucessos as number) || 0;
+  let erros = (job.erros as number) || 0;
+  let ignorados = (job.ignorados as number) || 0;
+  let estornados = (job.estornados as number) || 0;
+  const errosDetalhes: Array<{ email: string; name: string; error: string }> = job.errosDetalhes || [];
+  let ultimaMensagem = inicio > 0 ? `Retomando do registro ${inicio}...` : '';
+  let ultimoIndice = inicio;
+  let posicao: PosicaoCsv | null = posicaoInicial || null;
+  let nestaExecucao = 0;
+  let cancelado = false;
+  let interrompido = false;
+  let lote: Array<{ row: Record<string, string>; indice: number; posicao: PosicaoCsv | null }> = [];
+
+  console.log(`[IMPORT-CSV] Job ${jobId} lendo ${caminhoArquivo} a partir do registro ${inicio}${posicaoInicial ? ` (byte ${posicaoInicial.byte})` : ''} (${processados}/${total} processados)`);
+
+  // Cache desta execução (leads e tags repetidos no arquivo)
+  const cache = criarCacheDatacrazy();
+
+  const salvarProgresso = async () => {
+    try {
+      await updateDoc(jobRef, {
+        processados,
+        sucessos,
+        erros,
+        ignorados,
+        estornados,
+        ultimoIndice,
+        posicaoArquivo: posicao || deleteField(),
+        errosDetalhes: errosDetalhes.slice(-50),
+        atualizadoEm: new Date().toISOString(),
+        mensagem: ultimaMensagem,
+      });
+    } catch (err) {
+      if ((err as { code?: string }).code === 'not-found') {
+        console.log('[IMPORT-CSV] Job deletado, parando processamento');
+        cancelado = true;
+      }
+    }
+  };
+
+  const verificarCancelamento = async (): Promise<boolean> => {
+    try {
+      const snap = await getDoc(jobRef);
+      if (!snap.exists() || snap.data().status === 'cancelado') {
+        console.log(`[IMPORT-CSV] Job ${jobId} CANCELADO no registro ${ultimoIndice}`);
+        return true;
+      }
+    } catch (err) {
+      console.log(`[IMPORT-CSV] Erro ao verificar cancelamento: ${err}`);
+      return true;
+    }
+    return false;
+  };
+
+  const processarLote = async () => {
+    for (const { row } of lote) {
+      try {
+        const result = ehRegistroEstornado(row, columns)
+          ? await processarEstornoComCache(row, columns, stageId, cache)
+          : await processarRegistroComCache(row, columns, stageId, platform, 'CSV', cache);
+        processados++;
+        if (result.status === 'created') sucessos++;
+        else if (result.status === 'reverted') estornados++;
+        else if (result.status === 'skipped') ignorados++;
+        ultimaMensagem = `[${processados}/${total}] ${result.email || ''} - ${result.message}`;
+      } catch (e) {
+        erros++;
+        processados++;
+        const errorMsg = e instanceof Error ? e.message : 'Erro';
+        const email = safeString(row[columns.email]);
+        const name = safeString(row[columns.name]);
+        errosDetalhes.push({ email, name, error: errorMsg });
+        ultimaMensagem = `[${processados}/${total}] ❌ ${email} - ${errorMsg.substring(0, 100)}`;
+      }
+      nestaExecucao++;
+
+      // Rate limiting já é gerenciado por apiRequestWithRateLimit
+      // Delay mínimo entre registros para evitar sobrecarga
+      await new Promise(r => setTimeout(r, 100));
+    }
+
+    // Cursor avança só depois do lote inteiro: uma retomada repete no máximo um lote (o cadastro é idempotente)
+    ultimoIndice = lote[lote.length - 1].indice;
+    posicao = lote[lote.length - 1].posicao;
+    lote = [];
+    await salvarProgresso();
+    if (!cancelado && await verificarCancelamento()) cancelado = true;
+  };
+
+  try {
+    // Com posição guardada a leitura já começa depois do registro 'inicio'
+    let indice = posicaoInicial ? inicio : 0;
+    for await (const { registro: row, posicao: posicaoRegistro } of registrosArquivoImportacaoComPosicao(caminhoArquivo, posicaoInicial)) {
+      indice++;
+      if (indice <= inicio || !entraNaImportacao(row, columns)) continue;
+
+      lote.push({ row, indice, posicao: posicaoRegistro });
+      if (lote.length >= TAMANHO_LOTE) {
+        await processarLote();
+        if (cancelado) break;
+        if (nestaExecucao >= limite) {
+          interrompido = true;
+          break;
+        }
+      }
+    }
+    if (!cancelado && !interrompido && lote.length > 0) await processarLote();
+    if (!cancelado && !interrompido) ultimoIndice = indice;
+  } catch (e) {
+    const errorMsg = e instanceof Error ? e.message : 'Erro desconhecido';
+    await updateDoc(jobRef, {
+      status: 'erro',
+      atualizadoEm: new Date().toISOString(),
+      mensagem: `❌ Erro ao ler o arquivo: ${errorMsg.substring(0, 200)}`,
+    }).catch(() => {});
+    throw e;
+  }
+
+  if (cancelado) {
+    console.log(`[IMPORT-CSV] Job ${jobId} cancelado/deletado no registro ${ultimoIndice}`);
+    return { status: 'cancelado', processados, total, ultimoIndice };
+  }
+
+  if (interrompido) {
+    // 'pendente' entre trechos: a próxima chamada de /processar não vê o job como ativo (cancelamento não é desfeito)
+    await runTransaction(db, async (transaction) => {
+      const snap = await transaction.get(jobRef);
+      if (snap.exists() && snap.data().status === 'processando') transaction.update(jobRef, { status: 'pendente' });
+    }).catch(err => console.log(`[IMPORT-CSV] Job ${jobId} - não foi possível pausar`, err));
+    console.log(`[IMPORT-CSV] Job ${jobId} pausado no registro ${ultimoIndice} (${processados}/${total})`);
+    return { status: 'processando', processados, total, ultimoIndice };
+  }
+
+  try {
+    await updateDoc(jobRef, {
+      status: 'concluido',
+      processados,
+      sucessos,
+      erros,
+      ignorados,
+      estornados,
+      ultimoIndice,
+      errosDetalhes: errosDetalhes.slice(-50),
+      atualizadoEm: new Date().toISOString(),
+      mensagem: `✅ Concluído! Criados: ${sucessos}, Existentes: ${processados - sucessos - estornados - erros - ignorados}, Estornados: ${estornados}, Erros: ${erros}, Ignorados: ${ignorados}`,
+    });
+    console.log(`[IMPORT-CSV] Job ${jobId} concluído com sucesso`);
+  } catch (err) {
+    console.log(`[IMPORT-CSV] Job ${jobId} - não foi possível atualizar status final`, err);
+  }
+
+  await removerArquivoImportacao(caminhoArquivo);
+  return { status: 'concluido', processados, total, ultimoIndice };
+}
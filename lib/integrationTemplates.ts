@@ -22,6 +22,7 @@ export interface IntegrationMapping {
   total?: string;       // Coluna do CSV para valor
   status: string;       // Coluna do CSV para status (obrigatório)
   statusFilter: string; // Valor do status a filtrar (ex: "Paga", "Aprovado")
+  statusRefundFilter?: string; // Status de reembolso/chargeback/cancelamento, separados por vírgula (ex: "Reembolsado, Chargeback")
   // Endereço
   zip?: string;
   address?: string;
@@ -66,6 +67,7 @@ export const OPTIONAL_MAPPING_FIELDS: (keyof IntegrationMapping)[] = [
   'taxId',
   'product',
   'total',
+  'statusRefundFilter',
   'zip',
   'address',
   'number',
@@ -86,6 +88,7 @@ export const FIELD_LABELS: Record<keyof IntegrationMapping, string> = {
   total: 'Valor Total',
   status: 'Status',
   statusFilter: 'Filtrar Status (valor)',
+  statusRefundFilter: 'Status de estorno (valores)',
   zip: 'CEP',
   address: 'Rua',
   number: 'Número',
@@ -200,6 +203,7 @@ export function autoDetectColumns(
     total: ['total', 'valor', 'value', 'price', 'preço', 'preco', 'amount'],
     status: ['status', 'situação', 'situacao', 'state'],
     statusFilter: [],
+    statusRefundFilter: [],
     zip: ['cep', 'zip', 'codigo postal', 'postal'],
     address: ['rua', 'endereço', 'endereco', 'address', 'logradouro', 'street'],
     number: ['número', 'numero', 'number', 'nº', 'num'],
@@ -0,0 +1,497 @@
+import { db } from '@/lib/firebase';
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  query,
+  where,
+  documentId,
+  writeBatch,
+  runTransaction,
+  updateDoc,
+  deleteField,
+} from 'firebase/firestore';
+import { saveLabel, buscarEtiquetasDoEnvio, montarImpressaoEtiqueta } from '@/lib/etiquetas';
+import { buscarPostagem, postagemAguardaConferencia } from '@/lib/postagensVipp';
+import type { DestinatarioVipp } from '@/lib/vipp';
+import type { ProdutoPedido } from '@/lib/catalogoProdutos';
+import type { NotaFiscalPostagem } from '@/lib/notasFiscais';
+
+// Geração de etiquetas em lote no servidor: o navegador envia o lote uma vez e acompanha
+// o progresso pelo Firestore (jobs_etiquetas/{jobId} + itens/{transactionId sem "/"}).
+
+// Status do job
+// processando - worker postando os itens (o cron retoma se o worker parar ou se há itens a conferir)
+// concluido   - todos os itens gerados ou com erro
+// cancelado   - cancelado pelo usuário (itens já gerados continuam valendo)
+export type StatusJobEtiquetas = 'processando' | 'concluido' | 'cancelado';
+
+// Status de um pedido do lote
+// pendente - aguardando postagem (ou nova tentativa)
+// postando - reservado pelo worker, chamada à ViPP em andamento
+// gerada   - etiqueta(s) salva(s) em "etiquetas"
+// erro     - erro da ViPP ou tentativas esgotadas
+// conferir - postagem interrompida (pode ter etiqueta na ViPP): volta para a fila quando o operador
+//            resolver em "Postagens a conferir" (o cron verifica a cada rodada)
+export type StatusItemJobEtiquetas = 'pendente' | 'postando' | 'gerada' | 'erro' | 'conferir';
+
+export const STATUS_ITEM_JOB_ETIQUETAS_LABELS: Record<StatusItemJobEtiquetas, string> = {
+  pendente: 'Na fila',
+  postando: 'Postando',
+  gerada: 'Gerada',
+  erro: 'Erro',
+  conferir: 'Conferir na ViPP',
+};
+
+// Pedido como o navegador envia (mesmos dados da postar-objeto + dados do envio)
+export interface PedidoJobEtiquetas {
+  transactionId: string;
+  envioNumero: number;
+  enviosTotal: number;
+  servicoEct: string;
+  destinatario: DestinatarioVipp;
+  produtos: ProdutoPedido[];
+  notasFiscais: NotaFiscalPostagem[];
+  quantidadeVolumes: number;
+  observacaoEnvio?: string;
+  mergedTransactionIds?: string[];
+  mergedProductNames?: string[];
+}
+
+export interface ItemJobEtiquetas extends PedidoJobEtiquetas {
+  ordem: number;
+  status: StatusItemJobEtiquetas;
+  tentativas: number;
+  etiquetas?: string[]; // Um código por caixa (gravado assim que a ViPP responde)
+  reaproveitada?: boolean; // Envio já tinha etiqueta - não foi postado de novo
+  erro?: string;
+  postandoDesde?: string;
+  proximaTentativa?: string; // Pendente só volta a ser postado a partir daqui
+  atualizadoEm: string;
+}
+
+export interface JobEtiquetas {
+  id: string;
+  status: StatusJobEtiquetas;
+  total: number;
+  processados: number;
+  sucessos: number;
+  erros: number;
+  useTestCredentials: boolean;
+  criadoPor?: string;
+  criadoEm: string;
+  atualizadoEm: string; // Heartbeat do worker
+  workerDesde?: string; // Lock: worker processando desde (ausente = livre)
+  aguardandoConferencia?: number; // Itens parados em "conferir" (o resto do lote já terminou)
+  mensagem: string;
+}
+
+export const JOBS_ETIQUETAS_COLLECTION = 'jobs_etiquetas';
+const ITENS_SUBCOLLECTION = 'itens';
+
+const MAX_TENTATIVAS = parseInt(process.env.ETIQUETAS_LOTE_MAX_TENTATIVAS || '3');
+const DELAY_ENTRE_POSTAGENS_MS = 1000; // Não sobrecarregar a ViPP
+const DELAY_ENTRE_RODADAS_MS = 5000; // Antes de tentar de novo os que falharam
+const DELAY_POSTAGEM_EM_ANDAMENTO_MS = 60 * 1000; // Outro request postando o mesmo envio
+
+// Worker sem heartbeat há mais que isso é considerado parado (cron retoma)
+export const JOB_ETIQUETAS_TRAVADO_MS = 5 * 60 * 1000;
+
+const MAX_IN_QUERY = 30;
+const BATCH_LIMIT = 500;
+
+function itensRef(jobId: string) {
+  return collection(db, JOBS_ETIQUETAS_COLLECTION, jobId, ITENS_SUBCOLLECTION);
+}
+
+// "/" não é permitido em id de documento (mesma regra da chave das postagens)
+function idItem(transactionId: string): string {
+  return transactionId.replace(/\//g, '_');
+}
+
+function itemRef(jobId: string, transactionId: string) {
+  return doc(itensRef(jobId), idItem(transactionId));
+}
+
+function aguardandoNovaTentativa(item: ItemJobEtiquetas): boolean {
+  return !!item.proximaTentativa && new Date(item.proximaTentativa).getTime() > Date.now();
+}
+
+// Firestore não aceita undefined
+function semUndefined<T extends object>(obj: T): T {
+  return JSON.parse(JSON.stringify(obj));
+}
+
+// Pedidos que já estão em um lote aberto (o mesmo pedido não pode ser postado por dois workers)
+async function pedidosEmJobsAbertos(transactionIds: string[]): Promise<string[]> {
+  const abertos = await getDocs(
+    query(collection(db, JOBS_ETIQUETAS_COLLECTION), where('status', '==', 'processando'))
+  );
+  const encontrados: string[] = [];
+
+  for (const job of abertos.docs) {
+    for (let i = 0; i < transactionIds.length; i += MAX_IN_QUERY) {
+      const chunk = transactionIds.slice(i, i + MAX_IN_QUERY).map(idItem);
+      const snapshot = await getDocs(query(itensRef(job.id), where(documentId(), 'in', chunk)));
+      snapshot.docs
+        .filter(d => ['pendente', 'postando', 'conferir'].includes(d.data().status))
+        .forEach(d => encontrados.push(d.data().transactionId));
+    }
+  }
+
+  return encontrados;
+}
+
+// Criar job com um item por pedido (doc id = transactionId sem "/")
+export async function criarJobEtiquetas(
+  pedidos: PedidoJobEtiquetas[],
+  opcoes: { useTestCredentials: boolean; criadoPor?: string }
+): Promise<string> {
+  const transactionIds = pedidos.map(p => p.transactionId);
+  if (new Set(transactionIds.map(idItem)).size !== transactionIds.length) {
+    throw new Error('Pedido repetido no lote');
+  }
+
+  const emAndamento = await pedidosEmJobsAbertos(transactionIds);
+  if (emAndamento.length > 0) {
+    throw new Error(`Pedido(s) já em um lote em andamento: ${emAndamento.join(', ')}`);
+  }
+
+  const jobRef = doc(collection(db, JOBS_ETIQUETAS_COLLECTION));
+  const agora = new Date().toISOString();
+
+  for (let i = 0; i < pedidos.length; i += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    pedidos.slice(i, i + BATCH_LIMIT).forEach((pedido, index) => {
+      const item: ItemJobEtiquetas = {
+        ...pedido,
+        ordem: i + index,
+        status: 'pendente',
+        tentativas: 0,
+        atualizadoEm: agora,
+      };
+      batch.set(itemRef(jobRef.id, pedido.transactionId), semUndefined(item));
+    });
+    await batch.commit();
+  }
+
+  // Job criado por último: o worker só enxerga lotes completos
+  const job: JobEtiquetas = {
+    id: jobRef.id,
+    status: 'processando',
+    total: pedidos.length,
+    processados: 0,
+    sucessos: 0,
+    erros: 0,
+    useTestCredentials: opcoes.useTestCredentials,
+    criadoEm: agora,
+    atualizadoEm: agora,
+    mensagem: `Gerando ${pedidos.length} etiqueta(s)...`,
+    ...(opcoes.criadoPor && { criadoPor: opcoes.criadoPor }),
+  };
+  await setDoc(jobRef, job);
+
+  return jobRef.id;
+}
+
+export async function buscarItensJob(jobId: string): Promise<ItemJobEtiquetas[]> {
+  const snapshot = await getDocs(itensRef(jobId));
+  return snapshot.docs
+    .map(d => d.data() as ItemJobEtiquetas)
+    .sort((a, b) => a.ordem - b.ordem);
+}
+
+// Pegar o lock do job (só um worker por vez; lock sem heartbeat expira)
+async function adquirirJob(jobId: string): Promise<JobEtiquetas | null> {
+  const ref = doc(db, JOBS_ETIQUETAS_COLLECTION, jobId);
+
+  return runTransaction(db, async (transaction) => {
+    const snap = await transaction.get(ref);
+    if (!snap.exists()) return null;
+
+    const job = snap.data() as JobEtiquetas;
+    if (job.status !== 'processando') return null;
+    if (job.workerDesde && Date.now() - new Date(job.atualizadoEm).getTime() < JOB_ETIQUETAS_TRAVADO_MS) {
+      return null;
+    }
+
+    const agora = new Date().toISOString();
+    transaction.update(ref, { workerDesde: agora, atualizadoEm: agora });
+    return { ...job, workerDesde: agora };
+  });
+}
+
+// Reservar item para postagem (transação: nunca dois workers postando o mesmo pedido)
+async function reservarItem(jobId: string, transactionId: string): Promise<ItemJobEtiquetas | null> {
+  const ref = itemRef(jobId, transactionId);
+
+  return runTransaction(db, async (transaction) => {
+    const snap = await transaction.get(ref);
+    if (!snap.exists()) return null;
+
+    const item = snap.data() as ItemJobEtiquetas;
+    if (item.status !== 'pendente' || aguardandoNovaTentativa(item)) return null;
+
+    const agora = new Date().toISOString();
+    const atualizado = { status: 'postando' as const, tentativas: item.tentativas + 1, postandoDesde: agora, atualizadoEm: agora };
+    transaction.update(ref, { ...atualizado, proximaTentativa: deleteField() });
+    return { ...item, ...atualizado };
+  });
+}
+
+async function atualizarItem(jobId: string, transactionId: string, dados: Record<string, unknown>) {
+  await updateDoc(itemRef(jobId, transactionId), { ...dados, atualizadoEm: new Date().toISOString() });
+}
+
+// Gravar os códigos em "etiquetas" e concluir o item
+async function concluirItem(jobId: string, item: ItemJobEtiquetas, codigos: string[]) {
+  const impressao = montarImpressaoEtiqueta(item.servicoEct, item.destinatario, item.produtos.map(p => p.nome));
+  for (let v = 0; v < codigos.length; v++) {
+    await saveLabel(
+      item.transactionId,
+      codigos[v],
+      item.destinatario.nome,
+      item.envioNumero,
+      item.enviosTotal,
+      item.mergedTransactionIds,
+      item.mergedProductNames,
+      item.observacaoEnvio,
+      { telefone: item.destinatario.telefone, email: item.destinatario.email },
+      { numero: v + 1, total: codigos.length, codigos },
+      undefined,
+      impressao
+    );
+  }
+  await atualizarItem(jobId, item.transactionId, { status: 'gerada', etiquetas: codigos, erro: deleteField(), postandoDesde: deleteField() });
+}
+
+// Itens que ficaram em "postando" quando o worker anterior parou
+async function recuperarItem(jobId: string, item: ItemJobEtiquetas): Promise<StatusItemJobEtiquetas> {
+  const existentes = await buscarEtiquetasDoEnvio(item.transactionId, item.envioNumero);
+  if (existentes.length > 0) {
+    await atualizarItem(jobId, item.transactionId, { status: 'gerada', etiquetas: existentes, postandoDesde: deleteField() });
+    return 'gerada';
+  }
+
+  // ViPP respondeu mas os códigos não chegaram a ser salvos
+  if (item.etiquetas && item.etiquetas.length > 0) {
+    await concluirItem(jobId, item, item.etiquetas);
+    return 'gerada';
+  }
+
+  // Volta para a fila: a chave de idempotência da postar-objeto devolve a etiqueta se a ViPP
+  // chegou a gerar, ou responde 409 para conferir se a postagem ficou pela metade (item vai para "conferir")
+  await atualizarItem(jobId, item.transactionId, { status: 'pendente', postandoDesde: deleteField() });
+  return 'pendente';
+}
+
+// Item esperando conferência: volta para a fila quando o operador resolveu a postagem
+// (confirmada = a postar-objeto devolve os códigos; liberada = posta de novo)
+async function verificarItemConferido(jobId: string, item: ItemJobEtiquetas, useTestCredentials: boolean): Promise<StatusItemJobEtiquetas> {
+  const postagem = await buscarPostagem(item.transactionId, item.envioNumero, useTestCredentials);
+  if (postagem && postagemAguardaConferencia(postagem)) return 'conferir';
+
+  await atualizarItem(jobId, item.transactionId, { status: 'pendente', erro: deleteField() });
+  return 'pendente';
+}
+
+// Postar um item (retorna o status final da tentativa)
+async function postarItem(jobId: string, item: ItemJobEtiquetas, origin: string, useTestCredentials: boolean): Promise<StatusItemJobEtiquetas> {
+  // Idempotente por pedido + envio: se já existe etiqueta ativa, só reaproveita
+  const existentes = await buscarEtiquetasDoEnvio(item.transactionId, item.envioNumero);
+  if (existentes.length > 0) {
+    await atualizarItem(jobId, item.transactionId, { status: 'gerada', etiquetas: existentes, reaproveitada: true, postandoDesde: deleteField() });
+    return 'gerada';
+  }
+
+  let erro: string;
+  let definitivo = false;
+  try {
+    const response = await fetch(`${origin}/api/vipp/postar-objeto`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        transactionId: item.transactionId,
+        envioNumero: item.envioNumero, // Chave de idempotência: repetir o envio devolve a mesma etiqueta
+        servicoEct: item.servicoEct,
+        useTestCredentials,
+        destinatario: item.destinatario,
+        produtos: item.produtos,
+        notasFiscais: item.notasFiscais,
+        quantidadeVolumes: item.quantidadeVolumes,
+      }),
+    });
+    const result = await response.json();
+
+    if (result.success && result.etiqueta) {
+      const codigos: string[] = result.etiquetas?.length ? result.etiquetas : [result.etiqueta];
+      if (result.aviso) console.warn(`[LOTE ETIQUETAS] ${item.transactionId}: ${result.aviso}`);
+      // Códigos no item antes de salvar: se o worker cair aqui, a recuperação só grava
+      await atualizarItem(jobId, item.transactionId, { etiquetas: codigos });
+      await concluirItem(jobId, item, codigos);
+      return 'gerada';
+    }
+
+    erro = result.error || 'Erro desconhecido';
+
+    // Resultado desconhecido na ViPP: espera a conferência do operador (não tenta de novo nem vira erro)
+    if (result.conferir) {
+      await atualizarItem(jobId, item.transactionId, { status: 'conferir', erro, postandoDesde: deleteField() });
+      console.log(`[LOTE ETIQUETAS] ${item.transactionId} aguardando conferência na ViPP: ${erro}`);
+      return 'conferir';
+    }
+    // Outro request está postando o mesmo envio agora: volta para a fila sem gastar tentativa,
+    // mas só tenta de novo depois que a outra postagem tiver tempo de terminar
+    if (response.status === 409 && !result.etiqueta) {
+      const proximaTentativa = new Date(Date.now() + DELAY_POSTAGEM_EM_ANDAMENTO_MS).toISOString();
+      await atualizarItem(jobId, item.transactionId, { status: 'pendente', tentativas: item.tentativas - 1, proximaTentativa, erro, postandoDesde: deleteField() });
+      console.log(`[LOTE ETIQUETAS] ${item.transactionId} sendo postado por outro request, nova tentativa às ${proximaTentativa}`);
+      return 'pendente';
+    }
+    // Erro de validação da ViPP (4xx) ou envio já postado com outros dados não melhora tentando de novo
+    definitivo = response.status >= 400 && response.status < 500;
+  } catch (err) {
+    erro = err instanceof Error ? err.message : 'Erro desconhecido';
+  }
+
+  const esgotou = definitivo || item.tentativas >= MAX_TENTATIVAS;
+  await atualizarItem(jobId, item.transactionId, {
+    status: esgotou ? 'erro' : 'pendente',
+    erro,
+    postandoDesde: deleteField(),
+  });
+  console.log(`[LOTE ETIQUETAS] ${item.transactionId} tentativa ${item.tentativas}: ${erro}${esgotou ? '' : ' (vai tentar de novo)'}`);
+  return esgotou ? 'erro' : 'pendente';
+}
+
+// Processar um job até concluir, ser cancelado ou acabar o tempo (o cron continua depois).
+// Retorna null se outro worker está com o job.
+export async function processarJobEtiquetas(
+  jobId: string,
+  origin: string,
+  maxExecucaoMs?: number
+): Promise<{ status: StatusJobEtiquetas; sucessos: number; erros: number } | null> {
+  const job = await adquirirJob(jobId);
+  if (!job) return null;
+
+  const jobRef = doc(db, JOBS_ETIQUETAS_COLLECTION, jobId);
+  const inicio = Date.now();
+  console.log(`[LOTE ETIQUETAS] Job ${jobId} iniciando (${job.total} pedidos)`);
+
+  const statusItens = new Map<string, StatusItemJobEtiquetas>();
+  const resumo = () => {
+    const valores = [...statusItens.values()];
+    const sucessos = valores.filter(s => s === 'gerada').length;
+    const erros = valores.filter(s => s === 'erro').length;
+    return { sucessos, erros, processados: sucessos + erros };
+  };
+  // Heartbeat + progresso (o navegador acompanha pelo onSnapshot)
+  const atualizarJob = async (dados: Record<string, unknown> = {}) => {
+    const { sucessos, erros, processados } = resumo();
+    await updateDoc(jobRef, {
+      processados,
+      sucessos,
+      erros,
+      atualizadoEm: new Date().toISOString(),
+      mensagem: `Gerando... ${processados}/${job.total}`,
+      aguardandoConferencia: deleteField(),
+      ...dados,
+    });
+  };
+  const cancelado = async () => {
+    const snap = await getDoc(jobRef);
+    return !snap.exists() || snap.data().status === 'cancelado';
+  };
+  const liberar = async () => {
+    try {
+      await updateDoc(jobRef, { workerDesde: deleteField(), atualizadoEm: new Date().toISOString() });
+    } catch (err) {
+      console.error(`[LOTE ETIQUETAS] Erro ao liberar job ${jobId}:`, err);
+    }
+  };
+
+  try {
+    const itens = await buscarItensJob(jobId);
+    for (const item of itens) {
+      if (item.status === 'postando') statusItens.set(item.transactionId, await recuperarItem(jobId, item));
+      else if (item.status === 'conferir') statusItens.set(item.transactionId, await verificarItemConferido(jobId, item, job.useTestCredentials));
+      else statusItens.set(item.transactionId, item.status);
+    }
+
+    // Rodadas até não sobrar pendente (os que falharam voltam como pendente até esgotar as tentativas)
+    let pendentes = (await buscarItensJob(jobId)).filter(i => i.status === 'pendente');
+    while (pendentes.length > 0) {
+      for (const pendente of pendentes) {
+        if (maxExecucaoMs && Date.now() - inicio > maxExecucaoMs) {
+          console.log(`[LOTE ETIQUETAS] Job ${jobId} pausado por tempo, cron continua`);
+          await atualizarJob();
+          await liberar();
+          return { status: 'processando', ...resumo() };
+        }
+        if (aguardandoNovaTentativa(pendente)) continue;
+        if (await cancelado()) {
+          console.log(`[LOTE ETIQUETAS] Job ${jobId} cancelado`);
+          await atualizarJob({ status: 'cancelado', mensagem: `Cancelado - ${resumo().sucessos} etiqueta(s) gerada(s)` });
+          await liberar();
+          return { status: 'cancelado', ...resumo() };
+        }
+
+        const item = await reservarItem(jobId, pendente.transactionId);
+        if (!item) continue;
+
+        statusItens.set(item.transactionId, await postarItem(jobId, item, origin, job.useTestCredentials));
+        await atualizarJob();
+        await new Promise(r => setTimeout(r, DELAY_ENTRE_POSTAGENS_MS));
+      }
+
+      pendentes = (await buscarItensJob(jobId)).filter(i => i.status === 'pendente');
+      if (pendentes.length > 0) await new Promise(r => setTimeout(r, DELAY_ENTRE_RODADAS_MS));
+    }
+
+    // Itens a conferir seguram o lote aberto: o cron confere de novo a cada rodada
+    const aConferir = [...statusItens.values()].filter(s => s === 'conferir').length;
+    if (aConferir > 0) {
+      await atualizarJob({
+        aguardandoConferencia: aConferir,
+        mensagem: `Aguardando conferência de ${aConferir} postagem(ns) na ViPP`,
+      });
+      await liberar();
+      console.log(`[LOTE ETIQUETAS] Job ${jobId} aguardando conferência de ${aConferir} postagem(ns)`);
+      return { status: 'processando', ...resumo() };
+    }
+
+    const { sucessos, erros } = resumo();
+    await atualizarJob({
+      status: 'concluido',
+      mensagem: `✅ Concluído! Geradas: ${sucessos}, Erros: ${erros}`,
+    });
+    await liberar();
+    console.log(`[LOTE ETIQUETAS] Job ${jobId} concluído: ${sucessos} geradas, ${erros} erros`);
+    return { status: 'concluido', ...resumo() };
+  } catch (err) {
+    // Lock liberado: o cron retoma de onde parou
+    console.error(`[LOTE ETIQUETAS] Erro no job ${jobId}:`, err);
+    await liberar();
+    throw err;
+  }
+}
+
+// Jobs ainda em processamento (o cron retoma os que estão sem worker)
+export async function buscarJobsEtiquetasAbertos(): Promise<JobEtiquetas[]> {
+  const snapshot = await getDocs(
+    query(collection(db, JOBS_ETIQUETAS_COLLECTION), where('status', '==', 'processando'))
+  );
+  return snapshot.docs
+    .map(d => d.data() as JobEtiquetas)
+    .sort((a, b) => a.criadoEm.localeCompare(b.criadoEm));
+}
+
+export async function cancelarJobEtiquetas(jobId: string): Promise<void> {
+  await updateDoc(doc(db, JOBS_ETIQUETAS_COLLECTION, jobId), {
+    status: 'cancelado',
+    atualizadoEm: new Date().toISOString(),
+    mensagem: 'Cancelado pelo usuário',
+  });
+}
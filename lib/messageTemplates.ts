@@ -0,0 +1,428 @@
+import { db } from '@/lib/firebase';
+import { collection, doc, getDocs, setDoc, deleteDoc, Timestamp } from 'firebase/firestore';
+
+// ========== TEMPLATE ENGINE ==========
+// Sintaxe suportada:
+//   {{variavel}}                       - substitui pelo valor
+//   {{#if variavel}}...{{else}}...{{/if}} - condicional (array vazio, 0, '' e false são falsos)
+//   {{#each lista}}...{{this}}...{{/each}} - loop; dentro do loop os campos do item ficam acessíveis
+//   {{> outroTemplate}}                - inclui outro template com o contexto atual
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'var'; name: string }
+  | { type: 'if'; name: string; then: TemplateNode[]; else: TemplateNode[] }
+  | { type: 'each'; name: string; body: TemplateNode[] }
+  | { type: 'partial'; name: string };
+
+export type TemplateContext = Record<string, unknown>;
+
+const TAG_REGEX = /\{\{\s*([#/>]?)\s*([\w.@]+)?(?:\s+([\w.]+))?\s*\}\}/g;
+
+function parseTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // Pilha de blocos abertos: onde os próximos nós devem ser inseridos
+  const stack: Array<{ node: Extract<TemplateNode, { type: 'if' | 'each' }>; target: TemplateNode[] }> = [];
+  let current = root;
+  let lastIndex = 0;
+
+  for (const match of template.matchAll(TAG_REGEX)) {
+    const [full, prefix, word, arg] = match;
+    const index = match.index ?? 0;
+
+    if (index > lastIndex) {
+      current.push({ type: 'text', value: template.slice(lastIndex, index) });
+    }
+    lastIndex = index + full.length;
+
+    if (prefix === '#') {
+      if ((word !== 'if' && word !== 'each') || !arg) {
+        throw new Error(`Bloco inválido: ${full}`);
+      }
+      const node: Extract<TemplateNode, { type: 'if' | 'each' }> = word === 'if'
+        ? { type: 'if', name: arg, then: [], else: [] }
+        : { type: 'each', name: arg, body: [] };
+      current.push(node);
+      stack.push({ node, target: current });
+      current = node.type === 'if' ? node.then : node.body;
+    } else if (prefix === '/') {
+      const open = stack.pop();
+      if (!open || open.node.type !== word) {
+        throw new Error(`Fechamento inesperado: ${full}`);
+      }
+      current = open.target;
+    } else if (prefix === '>') {
+      if (!word) throw new Error(`Partial inválido: ${full}`);
+      current.push({ type: 'partial', name: word });
+    } else if (word === 'else') {
+      const open = stack[stack.length - 1];
+      if (!open || open.node.type !== 'if') {
+        throw new Error('{{else}} fora de um bloco {{#if}}');
+      }
+      current = open.node.else;
+    } else if (word) {
+      current.push({ type: 'var', name: word });
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new Error(`Bloco {{#${stack[stack.length - 1].node.type}}} sem fechamento`);
+  }
+
+  if (lastIndex < template.length) {
+    current.push({ type: 'text', value: template.slice(lastIndex) });
+  }
+
+  return root;
+}
+
+// Busca o valor no escopo mais interno primeiro (item do loop → contexto pai)
+function lookup(name: string, scopes: unknown[]): unknown {
+  if (name === 'this') return scopes[scopes.length - 1];
+
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    const scope = scopes[i];
+    if (scope && typeof scope === 'object' && name in (scope as object)) {
+      return (scope as Record<string, unknown>)[name];
+    }
+  }
+  return undefined;
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return !!value;
+}
+
+function renderNodes(
+  nodes: TemplateNode[],
+  scopes: unknown[],
+  partials: Record<string, string>,
+  depth: number
+): string {
+  let out = '';
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        out += node.value;
+        break;
+      case 'var': {
+        const value = lookup(node.name, scopes);
+        out += value === undefined || value === null ? '' : String(value);
+        break;
+      }
+      case 'if':
+        out += renderNodes(isTruthy(lookup(node.name, scopes)) ? node.then : node.else, scopes, partials, depth);
+        break;
+      case 'each': {
+        const list = lookup(node.name, scopes);
+        if (Array.isArray(list)) {
+          list.forEach(item => {
+            out += renderNodes(node.body, [...scopes, item], partials, depth);
+          });
+        }
+        break;
+      }
+      case 'partial': {
+        const partial = partials[node.name];
+        if (partial === undefined) throw new Error(`Template não encontrado: ${node.name}`);
+        if (depth > 5) throw new Error('Inclusão de templates muito profunda');
+        out += renderNodes(parseTemplate(partial), scopes, partials, depth + 1);
+        break;
+      }
+    }
+  }
+
+  return out;
+}
+
+// Renderizar template (lança Error se a sintaxe for inválida)
+export function renderTemplate(
+  template: string,
+  context: TemplateContext,
+  partials: Record<string, string> = {}
+): string {
+  return renderNodes(parseTemplate(template), [context], partials, 0);
+}
+
+// Validar sintaxe sem renderizar
+export function validateTemplate(template: string): { valid: boolean; error?: string } {
+  try {
+    parseTemplate(template);
+    return { valid: true };
+  } catch (err) {
+    return { valid: false, error: err instanceof Error ? err.message : 'Template inválido' };
+  }
+}
+
+// ========== TEMPLATES DE MENSAGEM ==========
+
+// Dados processados da etiqueta (usados para montar as mensagens)
+export interface EtiquetaProcessada {
+  codigo: string;
+  pdfUrl: string;
+  transactionId: string;
+  produto: string;
+  dataPedido: string;
+  clienteNome: string;
+  clienteTelefone: string | null;
+  clienteEmail: string;
+  clienteLogradouro: string;
+  clienteNumero: string;
+  clienteComplemento: string;
+  clienteBairro: string;
+  clienteCidade: string;
+  clienteUf: string;
+  clienteCep: string;
+  envioNumero: number;
+  enviosTotal: number;
+  isEnvioParcial: boolean;
+  observacaoEnvio: string;
+  isMerged?: boolean;
+  mergedTransactionIds?: string[];
+  produtos?: string[];
+  volumesCodigos?: string[]; // Códigos de todos os volumes da postagem (pedido em mais de uma caixa)
+}
+
+export type MessageTemplateId = 'cliente_etiqueta' | 'admin_resumo' | 'admin_item';
+
+export interface MessageTemplateDefinition {
+  id: MessageTemplateId;
+  nome: string;
+  descricao: string;
+  variaveis: string[];
+}
+
+export interface MessageTemplate {
+  id: MessageTemplateId;
+  conteudo: string;
+  atualizadoEm?: Timestamp;
+  atualizadoPor?: string;
+}
+
+const ETIQUETA_VARIAVEIS = [
+  'nome', 'codigo', 'produto', 'dataPedido', 'transactionId', 'cidade', 'uf', 'cep',
+  'enderecoCompleto', 'linkRastreio', 'envioNumero', 'enviosTotal', 'enviosAnteriores',
+  'enviosRestantes', 'isEnvioParcial', 'isPrimeiroEnvio', 'isEnvioIntermediario',
+  'isUltimoEnvio', 'observacaoEnvio', 'isMerged', 'totalMesclados', 'transacoesMescladas',
+  'isMultiVolume', 'totalVolumes', 'codigosVolumes',
+];
+
+export const MESSAGE_TEMPLATE_DEFINITIONS: MessageTemplateDefinition[] = [
+  {
+    id: 'cliente_etiqueta',
+    nome: 'Cliente - Etiqueta gerada',
+    descricao: 'Enviada ao cliente quando a etiqueta é gerada',
+    variaveis: ETIQUETA_VARIAVEIS,
+  },
+  {
+    id: 'admin_resumo',
+    nome: 'Admin - Resumo do lote',
+    descricao: 'Resumo enviado ao admin com todas as etiquetas do lote',
+    variaveis: ['total', 'ordemTexto', 'observacaoGeral', 'novas', 'totalNovas', 'antigas', 'totalAntigas'],
+  },
+  {
+    id: 'admin_item',
+    nome: 'Admin - Item do resumo',
+    descricao: 'Bloco de cada etiqueta dentro do resumo do admin (incluído com {{> admin_item}})',
+    variaveis: ETIQUETA_VARIAVEIS,
+  },
+];
+
+export const DEFAULT_MESSAGE_TEMPLATES: Record<MessageTemplateId, string> = {
+  cliente_etiqueta:
+    '{{nome}}, seu pedido realizado na Branding.lab foi atualizado.\n\n' +
+    '📦 Código de rastreio dos Correios: {{codigo}}\n\n' +
+    '{{#if isMultiVolume}}📦 Seu pedido foi enviado em *{{totalVolumes}} volumes*, cada um com seu código:\n' +
+    '{{#each codigosVolumes}}• {{this}}\n{{/each}}\n{{/if}}' +
+    '{{#if isMerged}}🔗 Este envio contém {{totalMesclados}} pedidos:\n' +
+    '{{#each transacoesMescladas}}• {{this}}\n{{/each}}\n{{/if}}' +
+    '{{#if isEnvioParcial}}' +
+    '{{#if isPrimeiroEnvio}}📋 *Atenção:* Este é o envio *{{envioNumero}} de {{enviosTotal}}*.\n' +
+    'Os demais itens do seu pedido serão enviados em breve.\n\n{{/if}}' +
+    '{{#if isEnvioIntermediario}}📋 *Atenção:* Este é o envio *{{envioNumero}} de {{enviosTotal}}*.\n' +
+    'Você já recebeu {{enviosAnteriores}} envio(s) anterior(es) e ainda há mais {{enviosRestantes}} a caminho.\n\n{{/if}}' +
+    '{{#if isUltimoEnvio}}📋 *Atenção:* Este é o *último envio* ({{envioNumero}} de {{enviosTotal}}).\n' +
+    'Os envios anteriores já foram despachados.\n\n{{/if}}' +
+    '{{#if observacaoEnvio}}📝 *Neste envio:* {{observacaoEnvio}}\n\n{{/if}}' +
+    '{{/if}}' +
+    '📍 Endereço de envio informado no pedido: {{enderecoCompleto}}\n\n' +
+    '🔗 Você pode acompanhar o status pelo site oficial dos Correios: {{linkRastreio}}',
+  admin_resumo:
+    '📦 *Etiquetas Geradas*\n\n' +
+    'Total: {{total}} etiqueta(s)\n' +
+    'Prioridade: {{ordemTexto}}\n' +
+    '{{#if observacaoGeral}}\n📝 *Observação:*\n_{{observacaoGeral}}_\n{{/if}}' +
+    '{{#if novas}}\n✨ *{{totalNovas}} NOVA(S):*\n{{#each novas}}{{> admin_item}}{{/each}}{{/if}}' +
+    '{{#if antigas}}\n📋 *{{totalAntigas}} JÁ GERADA(S):*\n{{#each antigas}}{{> admin_item}}{{/each}}{{/if}}',
+  admin_item:
+    '\n🏷️ {{codigo}}\n' +
+    '👤 {{nome}}\n' +
+    '📍 {{cidade}}/{{uf}}\n' +
+    '{{#if dataPedido}}📅 {{dataPedido}}\n{{/if}}' +
+    '📦 {{produto}}\n' +
+    '{{#if isMultiVolume}}📦 *{{totalVolumes}} volumes:* {{#each codigosVolumes}}{{this}} {{/each}}\n{{/if}}' +
+    '{{#if isEnvioParcial}}📋 *Envio {{envioNumero}}/{{enviosTotal}}* (parcial)\n{{/if}}' +
+    '{{#if observacaoEnvio}}💬 _{{observacaoEnvio}}_\n{{/if}}' +
+    '{{#if isMerged}}🔗 *MESCLADO ({{totalMesclados}} pedidos):*\n' +
+    '{{#each transacoesMescladas}}   • {{this}}\n{{/each}}{{/if}}',
+};
+
+const LINK_RASTREIO = 'https://rastreamento.correios.com.br/';
+
+// Etiqueta usada nos templates (o resumo do admin não carrega telefone)
+type EtiquetaTemplateData = Omit<EtiquetaProcessada, 'clienteTelefone'>;
+
+// Montar contexto de variáveis a partir de uma etiqueta processada
+export function buildEtiquetaContext(e: EtiquetaTemplateData): TemplateContext {
+  const enderecoParts = [
+    e.clienteLogradouro,
+    e.clienteNumero,
+    e.clienteComplemento,
+  ].filter(Boolean).join(', ');
+  const transacoesMescladas = e.mergedTransactionIds || [];
+  const codigosVolumes = e.volumesCodigos || [e.codigo];
+  const isEnvioParcial = e.isEnvioParcial && e.enviosTotal > 1;
+
+  return {
+    nome: e.clienteNome,
+    codigo: e.codigo,
+    produto: e.produto,
+    dataPedido: e.dataPedido,
+    transactionId: e.transactionId,
+    cidade: e.clienteCidade,
+    uf: e.clienteUf,
+    cep: e.clienteCep,
+    enderecoCompleto: `${enderecoParts} — ${e.clienteCidade}, ${e.clienteUf} CEP ${e.clienteCep}`,
+    linkRastreio: LINK_RASTREIO,
+    envioNumero: e.envioNumero,
+    enviosTotal: e.enviosTotal,
+    enviosAnteriores: e.envioNumero - 1,
+    enviosRestantes: e.enviosTotal - e.envioNumero,
+    isEnvioParcial,
+    isPrimeiroEnvio: isEnvioParcial && e.envioNumero === 1,
+    isEnvioIntermediario: isEnvioParcial && e.envioNumero > 1 && e.envioNumero < e.enviosTotal,
+    isUltimoEnvio: isEnvioParcial && e.envioNumero > 1 && e.envioNumero >= e.enviosTotal,
+    observacaoEnvio: e.observacaoEnvio,
+    isMerged: !!e.isMerged && transacoesMescladas.length > 1,
+    totalMesclados: transacoesMescladas.length,
+    transacoesMescladas,
+    isMultiVolume: codigosVolumes.length > 1,
+    totalVolumes: codigosVolumes.length,
+    codigosVolumes,
+  };
+}
+
+// Montar contexto do resumo do admin
+export function buildAdminResumoContext(params: {
+  novas: EtiquetaTemplateData[];
+  antigas: EtiquetaTemplateData[];
+  ordemPrioridade?: 'antigos' | 'novos';
+  observacaoGeral?: string;
+}): TemplateContext {
+  return {
+    total: params.novas.length + params.antigas.length,
+    ordemTexto: params.ordemPrioridade === 'novos' ? '🆕 Mais novos primeiro' : '📅 Mais antigos primeiro',
+    observacaoGeral: params.observacaoGeral || '',
+    novas: params.novas.map(buildEtiquetaContext),
+    totalNovas: params.novas.length,
+    antigas: params.antigas.map(buildEtiquetaContext),
+    totalAntigas: params.antigas.length,
+  };
+}
+
+// Renderizar template salvo; se falhar (ex: partial inexistente), usa o padrão
+export function renderMessageTemplate(
+  id: MessageTemplateId,
+  context: TemplateContext,
+  templates: Record<MessageTemplateId, string>
+): string {
+  try {
+    return renderTemplate(templates[id], context, templates);
+  } catch (error) {
+    console.error(`[Templates] Erro ao renderizar "${id}", usando padrão:`, error);
+    return renderTemplate(DEFAULT_MESSAGE_TEMPLATES[id], context, DEFAULT_MESSAGE_TEMPLATES);
+  }
+}
+
+// Etiqueta de exemplo para pré-visualização
+export const SAMPLE_ETIQUETA: EtiquetaProcessada = {
+  codigo: 'SQ000288321BR',
+  pdfUrl: '',
+  transactionId: 'HP1234567890',
+  produto: 'Kit Livro Físico',
+  dataPedido: '10/12/2025 14:30',
+  clienteNome: 'Maria Silva',
+  clienteTelefone: '5585999999999',
+  clienteEmail: 'maria@exemplo.com',
+  clienteLogradouro: 'Rua das Flores',
+  clienteNumero: '123',
+  clienteComplemento: 'Apto 45',
+  clienteBairro: 'Centro',
+  clienteCidade: 'Fortaleza',
+  clienteUf: 'CE',
+  clienteCep: '60000000',
+  envioNumero: 1,
+  enviosTotal: 2,
+  isEnvioParcial: true,
+  observacaoEnvio: 'Livro principal (o marcador segue no próximo envio)',
+  isMerged: true,
+  mergedTransactionIds: ['HP1234567890', 'HP0987654321'],
+  produtos: ['Kit Livro Físico', 'Marcador'],
+};
+
+const COLLECTION_NAME = 'message_templates';
+
+// Buscar templates salvos (ids sem versão salva usam o padrão)
+export async function fetchMessageTemplates(): Promise<Record<MessageTemplateId, string>> {
+  const templates = { ...DEFAULT_MESSAGE_TEMPLATES };
+
+  try {
+    const snapshot = await getDocs(collection(db, COLLECTION_NAME));
+    snapshot.docs.forEach((d) => {
+      const data = d.data() as MessageTemplate;
+      if (d.id in templates && typeof data.conteudo === 'string') {
+        templates[d.id as MessageTemplateId] = data.conteudo;
+      }
+    });
+  } catch (error) {
+    console.error('Erro ao buscar templates de mensagem:', error);
+  }
+
+  return templates;
+}
+
+// Salvar template (valida a sintaxe antes)
+export async function saveMessageTemplate(
+  id: MessageTemplateId,
+  conteudo: string,
+  atualizadoPor?: string
+): Promise<void> {
+  const validation = validateTemplate(conteudo);
+  if (!validation.valid) {
+    throw new Error(validation.error);
+  }
+
+  try {
+    await setDoc(doc(db, COLLECTION_NAME, id), {
+      id,
+      conteudo,
+      atualizadoEm: Timestamp.now(),
+      ...(atualizadoPor && { atualizadoPor }),
+    });
+  } catch (error) {
+    console.error('Erro ao salvar template de mensagem:', error);
+    throw error;
+  }
+}
+
+// Restaurar template padrão (remove a versão salva)
+export async function resetMessageTemplate(id: MessageTemplateId): Promise<void> {
+  try {
+    await deleteDoc(doc(db, COLLECTION_NAME, id));
+  } catch (error) {
+    console.error('Erro ao restaurar template de mensagem:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,168 @@
+import { db } from '@/lib/firebase';
+import { collection, query, where, getDocs, documentId, doc, writeBatch } from 'firebase/firestore';
+import { parseValorPedido } from '@/lib/regrasFrete';
+
+// Nota fiscal de um pedido (enviada à ViPP em NotasFiscais)
+export interface NotaFiscal {
+  transactionId: string;
+  numero: string;
+  serie: string;
+  dataEmissao: string; // YYYY-MM-DD
+  valorTotal: number;
+  chave?: string; // Chave de acesso (44 dígitos) - só vem do XML
+  origem: 'xml' | 'csv';
+  atualizadoEm?: string;
+}
+
+// Dados lidos de um XML de NF-e, antes de vincular ao pedido
+export interface NfeXml {
+  arquivo: string;
+  numero: string;
+  serie: string;
+  dataEmissao: string;
+  valorTotal: number;
+  chave: string;
+  pedido: string; // xPed (número do pedido informado na nota)
+  documentoDestinatario: string; // CPF/CNPJ só dígitos
+  informacoesComplementares: string;
+}
+
+// Campos como a postar-objeto recebe
+export type NotaFiscalPostagem = Pick<NotaFiscal, 'numero' | 'serie' | 'dataEmissao' | 'valorTotal'>;
+
+export const NOTAS_FISCAIS_COLLECTION = 'notas_fiscais'; // Doc id = transactionId
+
+const MAX_IN_QUERY = 30;
+const BATCH_LIMIT = 500;
+
+// Conteúdo da primeira tag com o nome (ignora namespace)
+function tag(xml: string, nome: string): string {
+  const match = xml.match(new RegExp(`<(?:\\w+:)?${nome}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${nome}>`));
+  return match ? match[1].trim() : '';
+}
+
+// "2025-03-10T14:22:00-03:00", "2025-03-10", "10/03/2025" -> "2025-03-10"
+export function normalizarDataNota(valor: string): string {
+  const texto = (valor || '').trim();
+  const iso = texto.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  const br = texto.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  if (br) return `${br[3]}-${br[2].padStart(2, '0')}-${br[1].padStart(2, '0')}`;
+  return '';
+}
+
+// Ler um XML de NF-e (nfeProc ou NFe). Retorna null se não for NF-e
+export function parseNfeXml(xml: string, arquivo: string = ''): NfeXml | null {
+  const ide = tag(xml, 'ide');
+  const numero = tag(ide, 'nNF');
+  if (!numero) return null;
+
+  const chaveMatch = xml.match(/<(?:\w+:)?infNFe[^>]*\sId="NFe(\d{44})"/);
+  const dest = tag(xml, 'dest');
+
+  return {
+    arquivo,
+    numero,
+    serie: tag(ide, 'serie'),
+    dataEmissao: normalizarDataNota(tag(ide, 'dhEmi') || tag(ide, 'dEmi')),
+    valorTotal: parseFloat(tag(tag(xml, 'ICMSTot'), 'vNF')) || 0,
+    chave: chaveMatch ? chaveMatch[1] : '',
+    pedido: tag(tag(xml, 'compra'), 'xPed'),
+    documentoDestinatario: (tag(dest, 'CPF') || tag(dest, 'CNPJ')).replace(/\D/g, ''),
+    informacoesComplementares: tag(tag(xml, 'infAdic'), 'infCpl'),
+  };
+}
+
+// Vincular notas aos pedidos: pelo xPed, depois pela transação citada nas informações
+// complementares, depois pelo CPF/CNPJ do destinatário (só quando há um único pedido dele)
+export function vincularNotas(
+  nfes: NfeXml[],
+  vendas: Array<{ transaction: string; document: string }>
+): { notas: NotaFiscal[]; semPedido: NfeXml[] } {
+  const notas: NotaFiscal[] = [];
+  const semPedido: NfeXml[] = [];
+
+  for (const nfe of nfes) {
+    const doCliente = nfe.documentoDestinatario
+      ? vendas.filter(v => v.document.replace(/\D/g, '') === nfe.documentoDestinatario)
+      : [];
+    const venda = vendas.find(v => nfe.pedido && v.transaction === nfe.pedido)
+      || vendas.find(v => v.transaction && nfe.informacoesComplementares.includes(v.transaction))
+      || (doCliente.length === 1 ? doCliente[0] : undefined);
+
+    if (!venda) {
+      semPedido.push(nfe);
+      continue;
+    }
+
+    notas.push({
+      transactionId: venda.transaction,
+      numero: nfe.numero,
+      serie: nfe.serie,
+      dataEmissao: nfe.dataEmissao,
+      valorTotal: nfe.valorTotal,
+      chave: nfe.chave || undefined,
+      origem: 'xml',
+    });
+  }
+
+  return { notas, semPedido };
+}
+
+// Nota a partir das colunas do CSV (sem número = pedido sem nota)
+export function notaFiscalDoCsv(
+  transactionId: string,
+  campos: { numero?: string; serie?: string; data?: string; valor?: string }
+): NotaFiscal | null {
+  const numero = (campos.numero || '').replace(/\D/g, '');
+  if (!transactionId || !numero) return null;
+
+  return {
+    transactionId,
+    numero,
+    serie: (campos.serie || '').trim(),
+    dataEmissao: normalizarDataNota(campos.data || ''),
+    valorTotal: parseValorPedido(campos.valor || ''),
+    origem: 'csv',
+  };
+}
+
+export async function buscarNotasFiscais(transactionIds: string[]): Promise<Map<string, NotaFiscal>> {
+  const ids = [...new Set(transactionIds.filter(Boolean))];
+  const notas = new Map<string, NotaFiscal>();
+
+  for (let i = 0; i < ids.length; i += MAX_IN_QUERY) {
+    const chunk = ids.slice(i, i + MAX_IN_QUERY);
+    const snapshot = await getDocs(query(collection(db, NOTAS_FISCAIS_COLLECTION), where(documentId(), 'in', chunk)));
+    snapshot.docs.forEach(d => notas.set(d.id, d.data() as NotaFiscal));
+  }
+
+  return notas;
+}
+
+export async function salvarNotasFiscais(notas: NotaFiscal[]): Promise<number> {
+  const atualizadoEm = new Date().toISOString();
+
+  for (let i = 0; i < notas.length; i += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    notas.slice(i, i + BATCH_LIMIT).forEach(nota => {
+      // Firestore não aceita undefined
+      const data = Object.fromEntries(Object.entries({ ...nota, atualizadoEm }).filter(([, v]) => v !== undefined));
+      batch.set(doc(db, NOTAS_FISCAIS_COLLECTION, nota.transactionId), data);
+    });
+    await batch.commit();
+  }
+
+  return notas.length;
+}
+
+// Entrada do array NotasFiscais da ViPP (data dd/mm/aaaa, valor com ponto)
+export function notaFiscalParaVipp(nota: NotaFiscalPostagem) {
+  const [ano, mes, dia] = nota.dataEmissao.split('-');
+  return {
+    DtNotaFiscal: ano && mes && dia ? `${dia}/${mes}/${ano}` : '',
+    SerieNotaFiscal: nota.serie || '',
+    NrNotaFiscal: nota.numero,
+    VlrTotalNota: nota.valorTotal > 0 ? nota.valorTotal.toFixed(2) : '',
+  };
+}
@@ -0,0 +1,150 @@
+// Gerador de PDF mínimo (texto em Helvetica, linhas e retângulos) para as etiquetas com layout
+// próprio e os documentos simples impressos junto delas. Coordenadas em milímetros a partir do canto superior esquerdo.
+
+export interface OpcoesTexto {
+  tamanho?: number; // pt (padrão 10)
+  negrito?: boolean;
+  alinhamento?: 'esquerda' | 'centro' | 'direita';
+}
+
+export interface PaginaPdf {
+  texto(x: number, y: number, texto: string, opcoes?: OpcoesTexto): void;
+  linha(x1: number, y1: number, x2: number, y2: number, espessura?: number): void;
+  retangulo(x: number, y: number, largura: number, altura: number, opcoes?: { espessura?: number; preenchido?: boolean }): void;
+}
+
+export interface DocumentoPdf {
+  novaPagina(): PaginaPdf;
+  gerar(): Uint8Array;
+}
+
+export interface TamanhoPagina {
+  larguraMm: number;
+  alturaMm: number;
+}
+
+export const PAGINA_A4: TamanhoPagina = { larguraMm: 210, alturaMm: 297 };
+
+const PT_POR_MM = 72 / 25.4;
+
+// Largura média de um caractere Helvetica em relação ao tamanho da fonte (estimativa para alinhar e quebrar linhas)
+const LARGURA_MEDIA_CARACTERE = 0.52;
+
+// Caracteres fora do Latin-1 que existem no WinAnsiEncoding
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97,
+};
+
+function mm(valor: number): string {
+  return (valor * PT_POR_MM).toFixed(2);
+}
+
+// Texto para string PDF em WinAnsi (caracteres sem equivalente viram "?")
+function codificarTexto(texto: string): string {
+  let resultado = '';
+  for (const char of texto) {
+    const codigo = char.charCodeAt(0);
+    const byte = WIN_ANSI_EXTRAS[char] ?? (codigo < 256 ? codigo : 0x3f);
+    const c = String.fromCharCode(byte);
+    resultado += c === '\\' || c === '(' || c === ')' ? `\\${c}` : c;
+  }
+  return resultado;
+}
+
+export function larguraTextoMm(texto: string, tamanho: number = 10): number {
+  return (texto.length * tamanho * LARGURA_MEDIA_CARACTERE) / PT_POR_MM;
+}
+
+// Quebrar texto em linhas que caibam na largura (estimada)
+export function quebrarTexto(texto: string, larguraMm: number, tamanho: number = 10): string[] {
+  const maxCaracteres = Math.max(1, Math.floor((larguraMm * PT_POR_MM) / (tamanho * LARGURA_MEDIA_CARACTERE)));
+  const linhas: string[] = [];
+
+  for (const paragrafo of texto.split('\n')) {
+    let atual = '';
+    for (const palavra of paragrafo.split(/\s+/).filter(Boolean)) {
+      const candidato = atual ? `${atual} ${palavra}` : palavra;
+      if (candidato.length > maxCaracteres && atual) {
+        linhas.push(atual);
+        atual = palavra;
+      } else {
+        atual = candidato;
+      }
+    }
+    linhas.push(atual);
+  }
+
+  return linhas;
+}
+
+// Todas as páginas do documento têm o mesmo tamanho (A4 por padrão)
+export function criarDocumentoPdf(tamanho: TamanhoPagina = PAGINA_A4): DocumentoPdf {
+  const paginas: string[][] = [];
+  const larguraPaginaPt = (tamanho.larguraMm * PT_POR_MM).toFixed(2);
+  const alturaPaginaPt = tamanho.alturaMm * PT_POR_MM;
+
+  return {
+    novaPagina() {
+      const comandos: string[] = [];
+      paginas.push(comandos);
+      const yPdf = (y: number) => (alturaPaginaPt - y * PT_POR_MM).toFixed(2);
+
+      return {
+        texto(x, y, texto, opcoes = {}) {
+          const tamanho = opcoes.tamanho || 10;
+          const largura = larguraTextoMm(texto, tamanho);
+          const xInicio = opcoes.alinhamento === 'centro'
+            ? x - largura / 2
+            : opcoes.alinhamento === 'direita'
+              ? x - largura
+              : x;
+          comandos.push(`BT /${opcoes.negrito ? 'F2' : 'F1'} ${tamanho} Tf ${mm(xInicio)} ${yPdf(y)} Td (${codificarTexto(texto)}) Tj ET`);
+        },
+        linha(x1, y1, x2, y2, espessura = 0.5) {
+          comandos.push(`${espessura} w ${mm(x1)} ${yPdf(y1)} m ${mm(x2)} ${yPdf(y2)} l S`);
+        },
+        retangulo(x, y, largura, altura, opcoes = {}) {
+          const espessura = opcoes.espessura ?? 0.5;
+          comandos.push(`${espessura} w ${mm(x)} ${yPdf(y + altura)} ${mm(largura)} ${mm(altura)} re ${opcoes.preenchido ? 'f' : 'S'}`);
+        },
+      };
+    },
+
+    gerar() {
+      // Objetos: 1 catálogo, 2 árvore de páginas, 3-4 fontes, depois página + conteúdo de cada página
+      const objetos: string[] = [];
+      const idsPaginas = paginas.map((_, i) => 5 + i * 2);
+
+      objetos.push('<< /Type /Catalog /Pages 2 0 R >>');
+      objetos.push(`<< /Type /Pages /Kids [${idsPaginas.map(id => `${id} 0 R`).join(' ')}] /Count ${paginas.length} >>`);
+      objetos.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+      objetos.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+      paginas.forEach((comandos, i) => {
+        const conteudo = comandos.join('\n');
+        objetos.push(
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${larguraPaginaPt} ${alturaPaginaPt.toFixed(2)}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${idsPaginas[i] + 1} 0 R >>`
+        );
+        objetos.push(`<< /Length ${conteudo.length} >>\nstream\n${conteudo}\nendstream`);
+      });
+
+      // Todo caractere está em 0-255, então o tamanho da string é o tamanho em bytes
+      let pdf = '%PDF-1.4\n';
+      const offsets: number[] = [];
+      objetos.forEach((objeto, i) => {
+        offsets.push(pdf.length);
+        pdf += `${i + 1} 0 obj\n${objeto}\nendobj\n`;
+      });
+
+      const inicioXref = pdf.length;
+      pdf += `xref\n0 ${objetos.length + 1}\n0000000000 65535 f \n`;
+      pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+      pdf += `trailer\n<< /Size ${objetos.length + 1} /Root 1 0 R >>\nstartxref\n${inicioXref}\n%%EOF\n`;
+
+      const bytes = new Uint8Array(pdf.length);
+      for (let i = 0; i < pdf.length; i++) bytes[i] = pdf.charCodeAt(i);
+      return bytes;
+    },
+  };
+}
@@ -0,0 +1,142 @@
+import { db } from '@/lib/firebase';
+import { collection, doc, getDocs, query, where, writeBatch, updateDoc, deleteField } from 'firebase/firestore';
+
+// Fila de pedidos da tela de etiquetas: cada upload de CSV atualiza um documento por plataforma + transação.
+// Os dados da plataforma são sobrescritos a cada upload; os ajustes do operador ficam à parte e são preservados.
+// Status de etiqueta, envios realizados e merges continuam nas coleções próprias (etiquetas, etiquetas_merges).
+
+// Campos da venda como vêm do CSV
+export interface DadosPedido {
+  transaction: string;
+  productName: string;
+  productCode: string;
+  name: string;
+  document: string;
+  email: string;
+  phone: string;
+  zip: string;
+  city: string;
+  state: string;
+  neighborhood: string;
+  country: string;
+  address: string;
+  number: string;
+  complement: string;
+  saleDate: string;
+  totalPrice: string;
+}
+
+export type EnderecoPedido = Pick<DadosPedido, 'name' | 'address' | 'number' | 'complement' | 'neighborhood' | 'city' | 'state' | 'zip'>;
+
+// Ajustes feitos na tela (não são sobrescritos pelo próximo upload)
+export interface AjustesPedido {
+  servicoEct?: string; // Serviço escolhido manualmente (sem = proposta das regras de frete)
+  enviosTotal?: number;
+  observacaoEnvio?: string; // Observação do próximo envio
+  endereco?: EnderecoPedido; // Endereço corrigido na reemissão
+}
+
+// null remove o ajuste
+export type AtualizacaoAjustesPedido = { [K in keyof AjustesPedido]?: AjustesPedido[K] | null };
+
+export interface PedidoRegistro extends DadosPedido {
+  chave: string;
+  plataforma: string; // Nome do template de mapeamento usado no upload
+  ajustes?: AjustesPedido;
+  criadoEm: string; // Primeiro upload
+  ultimoUploadEm: string;
+  atualizadoEm: string;
+  atualizadoPor?: string;
+}
+
+export const PEDIDOS_COLLECTION = 'pedidos';
+
+// Pedidos que não aparecem em nenhum upload há mais tempo que isso saem da fila
+export const DIAS_FILA_PEDIDOS = 60;
+
+// Limites do Firestore: operações por batch e valores do operador "in"
+const LOTE_ESCRITA = 500;
+const LOTE_CONSULTA = 30;
+
+const CAMPOS_PEDIDO: Array<keyof DadosPedido> = [
+  'transaction', 'productName', 'productCode', 'name', 'document', 'email', 'phone', 'zip', 'city', 'state',
+  'neighborhood', 'country', 'address', 'number', 'complement', 'saleDate', 'totalPrice',
+];
+
+// Id do documento: plataforma normalizada + transação ("/" não é permitido em id)
+export function chavePedido(plataforma: string | undefined, transactionId: string): string {
+  const prefixo = (plataforma || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '') || 'sem-plataforma';
+  return `${prefixo}_${transactionId.trim()}`.replace(/\//g, '_').substring(0, 300);
+}
+
+// Upsert dos pedidos de um upload; retorna quantos eram novos
+export async function salvarPedidosImportados(pedidos: DadosPedido[], plataforma?: string): Promise<number> {
+  // Transação repetida no mesmo CSV: vale a última linha
+  const porChave = new Map<string, DadosPedido>();
+  for (const pedido of pedidos) {
+    if (!pedido.transaction.trim()) continue;
+    porChave.set(chavePedido(plataforma, pedido.transaction), pedido);
+  }
+
+  const chaves = [...porChave.keys()];
+  const existentes = new Set<string>();
+  for (let i = 0; i < chaves.length; i += LOTE_CONSULTA) {
+    const snapshot = await getDocs(query(collection(db, PEDIDOS_COLLECTION), where('chave', 'in', chaves.slice(i, i + LOTE_CONSULTA))));
+    snapshot.docs.forEach(d => existentes.add(d.id));
+  }
+
+  const agora = new Date().toISOString();
+  for (let i = 0; i < chaves.length; i += LOTE_ESCRITA) {
+    const batch = writeBatch(db);
+    for (const chave of chaves.slice(i, i + LOTE_ESCRITA)) {
+      const pedido = porChave.get(chave) as DadosPedido;
+      const dados: Record<string, unknown> = {
+        chave,
+        plataforma: plataforma || '',
+        ultimoUploadEm: agora,
+        atualizadoEm: agora,
+        ...(!existentes.has(chave) && { criadoEm: agora }),
+      };
+      // Firestore não aceita undefined
+      CAMPOS_PEDIDO.forEach(campo => { dados[campo] = pedido[campo] ?? ''; });
+      batch.set(doc(db, PEDIDOS_COLLECTION, chave), dados, { merge: true });
+    }
+    await batch.commit();
+  }
+
+  return chaves.length - existentes.size;
+}
+
+// Fila atual: pedidos presentes em algum upload recente (mais antigos primeiro)
+export async function buscarFilaPedidos(): Promise<PedidoRegistro[]> {
+  const limite = new Date(Date.now() - DIAS_FILA_PEDIDOS * 24 * 60 * 60 * 1000).toISOString();
+  const snapshot = await getDocs(query(collection(db, PEDIDOS_COLLECTION), where('ultimoUploadEm', '>=', limite)));
+  return snapshot.docs
+    .map(d => ({ ...d.data(), chave: d.id } as PedidoRegistro))
+    .sort((a, b) => a.criadoEm.localeCompare(b.criadoEm) || a.transaction.localeCompare(b.transaction));
+}
+
+// Dados da venda para a tela, com o endereço corrigido pelo operador (se houver)
+export function dadosDoPedido(pedido: PedidoRegistro): DadosPedido {
+  const dados = Object.fromEntries(CAMPOS_PEDIDO.map(campo => [campo, pedido[campo] ?? ''])) as unknown as DadosPedido;
+  return pedido.ajustes?.endereco ? { ...dados, ...pedido.ajustes.endereco } : dados;
+}
+
+export async function atualizarAjustesPedido(
+  chave: string,
+  ajustes: AtualizacaoAjustesPedido,
+  operador?: string
+): Promise<void> {
+  const dados: Record<string, unknown> = { atualizadoEm: new Date().toISOString() };
+  for (const [campo, valor] of Object.entries(ajustes)) {
+    if (valor === undefined) continue;
+    dados[`ajustes.${campo}`] = valor === null ? deleteField() : valor;
+  }
+  if (operador) dados.atualizadoPor = operador;
+  await updateDoc(doc(db, PEDIDOS_COLLECTION, chave), dados);
+}
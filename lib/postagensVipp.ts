@@ -0,0 +1,212 @@
+import { createHash } from 'crypto';
+import { db } from '@/lib/firebase';
+import { collection, doc, getDoc, getDocs, query, runTransaction, updateDoc, where } from 'firebase/firestore';
+
+// Chave de idempotência da postar-objeto: um registro por envio do pedido (transactionId + envioNumero) e
+// ambiente (teste/produção), gravado antes de chamar a ViPP e atualizado com o resultado. Evita etiqueta duplicada quando o
+// mesmo envio é postado de novo (retry do navegador, lote retomado, duas abas).
+
+// postando  - chamada à ViPP em andamento
+// concluida - etiqueta(s) gerada(s): repetir o mesmo request devolve os códigos
+// falhou    - ViPP recusou/erro: pode postar de novo
+// incerta   - erro de rede/timeout depois de chamar a ViPP: a etiqueta pode ter sido gerada
+// cancelada - etiqueta cancelada (/api/vipp/cancelar-objeto): pode reemitir
+// Incerta (ou postando travada) só sai pela conferência do operador na ViPP (resolverPostagem)
+export type StatusPostagemVipp = 'postando' | 'concluida' | 'falhou' | 'incerta' | 'cancelada';
+
+export interface PostagemVipp {
+  chave: string;
+  transactionId: string;
+  envioNumero: number;
+  teste?: boolean; // Postagem com credenciais de teste (chave própria, não bloqueia a de produção)
+  status: StatusPostagemVipp;
+  assinatura: string; // Hash do conteúdo do request (distingue replay de outra postagem)
+  etiqueta?: string;
+  etiquetas?: string[];
+  resposta?: Record<string, unknown>; // Corpo devolvido no sucesso (sem o retorno bruto da ViPP)
+  erro?: string;
+  conferidoPor?: string; // Operador que resolveu a postagem incerta/travada
+  conferidoEm?: string;
+  iniciadoEm: string;
+  atualizadoEm: string;
+}
+
+export const POSTAGENS_VIPP_COLLECTION = 'postagens_vipp';
+
+// Postagem em andamento há mais que isso provavelmente caiu no meio (resultado desconhecido)
+const POSTAGEM_TRAVADA_MS = 5 * 60 * 1000;
+
+export function chavePostagem(transactionId: string, envioNumero: number, teste: boolean): string {
+  // "/" não é permitido em id de documento
+  return `${transactionId.replace(/\//g, '_')}_${envioNumero}${teste ? '_teste' : ''}`;
+}
+
+export function assinaturaPostagem(conteudo: unknown): string {
+  return createHash('sha256').update(JSON.stringify(conteudo)).digest('hex');
+}
+
+export type ReservaPostagem =
+  | { tipo: 'reservada' }
+  | { tipo: 'replay'; postagem: PostagemVipp }
+  | { tipo: 'conflito'; mensagem: string; postagem: PostagemVipp; conferir: boolean };
+
+// Resultado desconhecido: não pode ser postada de novo sem conferir na ViPP
+export function postagemAguardaConferencia(postagem: PostagemVipp): boolean {
+  if (postagem.status === 'incerta') return true;
+  return postagem.status === 'postando' && Date.now() - new Date(postagem.atualizadoEm).getTime() > POSTAGEM_TRAVADA_MS;
+}
+
+export async function buscarPostagem(transactionId: string, envioNumero: number, teste: boolean): Promise<PostagemVipp | null> {
+  const snap = await getDoc(doc(db, POSTAGENS_VIPP_COLLECTION, chavePostagem(transactionId, envioNumero, teste)));
+  return snap.exists() ? (snap.data() as PostagemVipp) : null;
+}
+
+// Reservar o envio antes de chamar a ViPP (transação: só um request posta cada envio)
+export async function reservarPostagem(
+  transactionId: string,
+  envioNumero: number,
+  teste: boolean,
+  assinatura: string
+): Promise<ReservaPostagem> {
+  const chave = chavePostagem(transactionId, envioNumero, teste);
+  const ref = doc(db, POSTAGENS_VIPP_COLLECTION, chave);
+
+  return runTransaction(db, async (transaction) => {
+    const snap = await transaction.get(ref);
+    const agora = new Date().toISOString();
+
+    if (snap.exists()) {
+      const postagem = snap.data() as PostagemVipp;
+
+      if (postagem.status === 'concluida') {
+        if (postagem.assinatura === assinatura) return { tipo: 'replay' as const, postagem };
+        return {
+          tipo: 'conflito' as const,
+          mensagem: `Envio ${envioNumero} do pedido ${transactionId} já foi postado (${postagem.etiqueta}). Cancele a etiqueta para postar de novo`,
+          postagem,
+          conferir: false,
+        };
+      }
+
+      if (postagem.status === 'postando' || postagem.status === 'incerta') {
+        const conferir = postagemAguardaConferencia(postagem);
+        return {
+          tipo: 'conflito' as const,
+          mensagem: conferir
+            ? `Postagem do envio ${envioNumero} do pedido ${transactionId} foi interrompida - conferir na ViPP e resolver em "Postagens a conferir" antes de postar de novo`
+            : `Envio ${envioNumero} do pedido ${transactionId} já está sendo postado`,
+          postagem,
+          conferir,
+        };
+      }
+    }
+
+    const postagem: PostagemVipp = {
+      chave,
+      transactionId,
+      envioNumero,
+      teste,
+      status: 'postando',
+      assinatura,
+      iniciadoEm: agora,
+      atualizadoEm: agora,
+    };
+    transaction.set(ref, postagem);
+    return { tipo: 'reservada' as const };
+  });
+}
+
+export async function concluirPostagem(
+  transactionId: string,
+  envioNumero: number,
+  teste: boolean,
+  etiquetas: string[],
+  resposta: Record<string, unknown>
+): Promise<void> {
+  await updateDoc(doc(db, POSTAGENS_VIPP_COLLECTION, chavePostagem(transactionId, envioNumero, teste)), {
+    status: 'concluida',
+    etiqueta: etiquetas[0],
+    etiquetas,
+    resposta,
+    atualizadoEm: new Date().toISOString(),
+  });
+}
+
+export async function falharPostagem(transactionId: string, envioNumero: number, teste: boolean, erro: string): Promise<void> {
+  await updateDoc(doc(db, POSTAGENS_VIPP_COLLECTION, chavePostagem(transactionId, envioNumero, teste)), {
+    status: 'falhou',
+    erro,
+    atualizadoEm: new Date().toISOString(),
+  });
+}
+
+// Falha ambígua (rede/timeout/resposta ilegível): a ViPP pode ter gerado a etiqueta
+export async function marcarPostagemIncerta(transactionId: string, envioNumero: number, teste: boolean, erro: string): Promise<void> {
+  await updateDoc(doc(db, POSTAGENS_VIPP_COLLECTION, chavePostagem(transactionId, envioNumero, teste)), {
+    status: 'incerta',
+    erro,
+    atualizadoEm: new Date().toISOString(),
+  });
+}
+
+// Postagens incertas ou travadas (tela de conferência)
+export async function buscarPostagensAConferir(): Promise<PostagemVipp[]> {
+  const snapshot = await getDocs(
+    query(collection(db, POSTAGENS_VIPP_COLLECTION), where('status', 'in', ['postando', 'incerta']))
+  );
+  return snapshot.docs
+    .map(d => d.data() as PostagemVipp)
+    .filter(postagemAguardaConferencia)
+    .sort((a, b) => a.iniciadoEm.localeCompare(b.iniciadoEm));
+}
+
+// Conferência do operador na ViPP:
+// confirmar - a etiqueta existe (códigos informados): repetir o mesmo request devolve os códigos
+// liberar   - não há etiqueta na ViPP: o envio pode ser postado de novo
+export async function resolverPostagem(
+  transactionId: string,
+  envioNumero: number,
+  teste: boolean,
+  resolucao: { acao: 'confirmar'; etiquetas: string[]; operador: string } | { acao: 'liberar'; operador: string }
+): Promise<PostagemVipp> {
+  const ref = doc(db, POSTAGENS_VIPP_COLLECTION, chavePostagem(transactionId, envioNumero, teste));
+
+  return runTransaction(db, async (transaction) => {
+    const snap = await transaction.get(ref);
+    if (!snap.exists()) throw new Error(`Postagem do envio ${envioNumero} do pedido ${transactionId} não encontrada`);
+
+    const postagem = snap.data() as PostagemVipp;
+    if (!postagemAguardaConferencia(postagem)) {
+      throw new Error(`Postagem do envio ${envioNumero} do pedido ${transactionId} não está aguardando conferência (${postagem.status})`);
+    }
+
+    const agora = new Date().toISOString();
+    const conferencia = { conferidoPor: resolucao.operador, conferidoEm: agora, atualizadoEm: agora };
+    const atualizacao = resolucao.acao === 'confirmar'
+      ? {
+          ...conferencia,
+          status: 'concluida' as const,
+          etiqueta: resolucao.etiquetas[0],
+          etiquetas: resolucao.etiquetas,
+          resposta: { success: true, etiqueta: resolucao.etiquetas[0], etiquetas: resolucao.etiquetas, transactionId, envioNumero },
+        }
+      : {
+          ...conferencia,
+          status: 'falhou' as const,
+          erro: `Liberada por ${resolucao.operador} após conferência na ViPP`,
+        };
+
+    transaction.update(ref, atualizacao);
+    return { ...postagem, ...atualizacao };
+  });
+}
+
+// Etiqueta cancelada: libera o envio para ser postado de novo (reemissão)
+export async function liberarPostagemCancelada(transactionId: string, envioNumero: number, teste: boolean): Promise<void> {
+  const ref = doc(db, POSTAGENS_VIPP_COLLECTION, chavePostagem(transactionId, envioNumero, teste));
+  await runTransaction(db, async (transaction) => {
+    const snap = await transaction.get(ref);
+    if (!snap.exists()) return; // Etiqueta anterior ao registro de postagens
+    transaction.update(ref, { status: 'cancelada', atualizadoEm: new Date().toISOString() });
+  });
+}
@@ -0,0 +1,335 @@
+import { db } from '@/lib/firebase';
+import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { limparCep, normalizarUf, ufDoCep } from '@/lib/cep';
+import type { VolumePostagem } from '@/lib/catalogoProdutos';
+
+// Serviços ECT disponíveis (Correios) - códigos do contrato
+export const SERVICOS_ECT = [
+  { code: '201501', name: 'IMPRESSO Normal Módico' },
+  { code: '3298', name: 'PAC Prata/Ouro/Platinum' },
+  { code: '3220', name: 'SEDEX Prata/Ouro/Platinum' },
+];
+
+export const DEFAULT_SERVICO_ECT = '201501';
+
+export function getServicoName(code: string): string {
+  return SERVICOS_ECT.find(s => s.code === code)?.name || code;
+}
+
+// Distância entre origem e destino usada na tabela de preço e prazo
+export type RegiaoFrete = 'estadual' | 'regional' | 'nacional';
+
+export const REGIAO_FRETE_LABELS: Record<RegiaoFrete, string> = {
+  estadual: 'Mesmo estado',
+  regional: 'Mesma região',
+  nacional: 'Outras regiões',
+};
+
+// Como escolher entre os serviços que atendem o pedido
+export type CriterioFrete = 'mais_barato' | 'mais_rapido';
+
+export const CRITERIO_FRETE_LABELS: Record<CriterioFrete, string> = {
+  mais_barato: 'Mais barato',
+  mais_rapido: 'Mais rápido',
+};
+
+// Tabela de referência de um serviço (estimativa - o valor real sai do contrato)
+export interface TabelaServicoFrete {
+  precoBase: Record<RegiaoFrete, number>; // R$ até 1 kg
+  precoKgAdicional: Record<RegiaoFrete, number>; // R$ por kg (ou fração) acima do primeiro
+  prazoDias: Record<RegiaoFrete, number>; // Dias úteis
+  pesoMaximoGramas: number;
+  conteudosPermitidos: string[]; // Conteúdos aceitos (vazio = qualquer)
+}
+
+// Regra de escolha: a primeira regra ativa que casa com o pedido define o serviço
+export interface RegraFrete {
+  id: string;
+  nome: string;
+  ativa: boolean;
+  // Condições (vazias = qualquer pedido)
+  ufs: string[];
+  somenteCapitais: boolean;
+  valorMinimo: number | null; // Valor do pedido em R$
+  valorMaximo: number | null;
+  pesoMaximoGramas: number | null;
+  // Ação: serviço fixo ou, sem serviço, o critério entre os disponíveis
+  servico: string;
+  criterio: CriterioFrete;
+}
+
+export interface RegrasFreteConfig {
+  ufOrigem: string;
+  criterioPadrao: CriterioFrete; // Quando nenhuma regra casa
+  regras: RegraFrete[];
+  tabela: Record<string, TabelaServicoFrete>; // Por código do serviço
+  atualizadoEm?: string;
+  atualizadoPor?: string;
+}
+
+export interface DestinoFrete {
+  cep: string;
+  uf: string;
+  cidade: string;
+  valorPedido: number;
+}
+
+export interface EstimativaFrete {
+  servico: string;
+  custo: number;
+  prazoDias: number;
+  disponivel: boolean;
+  motivo?: string; // Por que o serviço não atende
+}
+
+export interface PropostaFrete {
+  servico: string;
+  regra?: string; // Nome da regra aplicada (ausente = critério padrão)
+  descricao: string;
+  regiao: RegiaoFrete;
+  estimativas: EstimativaFrete[];
+}
+
+const REGRAS_FRETE_CONFIG_DOC = 'regras_frete';
+
+const REGIAO_POR_UF: Record<string, string> = {
+  AC: 'N', AP: 'N', AM: 'N', PA: 'N', RO: 'N', RR: 'N', TO: 'N',
+  AL: 'NE', BA: 'NE', CE: 'NE', MA: 'NE', PB: 'NE', PE: 'NE', PI: 'NE', RN: 'NE', SE: 'NE',
+  DF: 'CO', GO: 'CO', MT: 'CO', MS: 'CO',
+  ES: 'SE', MG: 'SE', RJ: 'SE', SP: 'SE',
+  PR: 'S', RS: 'S', SC: 'S',
+};
+
+const CAPITAIS: Record<string, string> = {
+  AC: 'rio branco', AL: 'maceio', AP: 'macapa', AM: 'manaus', BA: 'salvador', CE: 'fortaleza',
+  DF: 'brasilia', ES: 'vitoria', GO: 'goiania', MA: 'sao luis', MT: 'cuiaba', MS: 'campo grande',
+  MG: 'belo horizonte', PA: 'belem', PB: 'joao pessoa', PR: 'curitiba', PE: 'recife', PI: 'teresina',
+  RJ: 'rio de janeiro', RN: 'natal', RS: 'porto alegre', RO: 'porto velho', RR: 'boa vista',
+  SC: 'florianopolis', SP: 'sao paulo', SE: 'aracaju', TO: 'palmas',
+};
+
+function normalizarTexto(valor: string): string {
+  return (valor || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Valores de referência do balcão - ajustar na tela de regras conforme o contrato
+export function getDefaultRegrasFrete(): RegrasFreteConfig {
+  return {
+    ufOrigem: 'SP',
+    criterioPadrao: 'mais_barato',
+    regras: [],
+    tabela: {
+      '201501': {
+        precoBase: { estadual: 8.5, regional: 9.5, nacional: 11 },
+        precoKgAdicional: { estadual: 3, regional: 3.5, nacional: 4 },
+        prazoDias: { estadual: 6, regional: 8, nacional: 10 },
+        pesoMaximoGramas: 2000,
+        conteudosPermitidos: ['LIVRO'],
+      },
+      '3298': {
+        precoBase: { estadual: 17, regional: 22, nacional: 28 },
+        precoKgAdicional: { estadual: 3, regional: 5, nacional: 8 },
+        prazoDias: { estadual: 4, regional: 6, nacional: 9 },
+        pesoMaximoGramas: 30000,
+        conteudosPermitidos: [],
+      },
+      '3220': {
+        precoBase: { estadual: 22, regional: 32, nacional: 45 },
+        precoKgAdicional: { estadual: 5, regional: 9, nacional: 14 },
+        prazoDias: { estadual: 1, regional: 2, nacional: 4 },
+        pesoMaximoGramas: 30000,
+        conteudosPermitidos: [],
+      },
+    },
+  };
+}
+
+// Carregar config salva no Firebase (serviços sem tabela ficam com o padrão)
+export async function carregarRegrasFrete(): Promise<RegrasFreteConfig> {
+  const config = getDefaultRegrasFrete();
+
+  try {
+    const snap = await getDoc(doc(db, 'configuracoes', REGRAS_FRETE_CONFIG_DOC));
+    if (snap.exists()) {
+      const saved = snap.data() as Partial<RegrasFreteConfig>;
+      return {
+        ...config,
+        ...saved,
+        regras: saved.regras || [],
+        tabela: { ...config.tabela, ...(saved.tabela || {}) },
+      };
+    }
+  } catch (error) {
+    console.error('[Frete] Erro ao carregar regras, usando padrão:', error);
+  }
+
+  return config;
+}
+
+export function validarRegrasFrete(config: RegrasFreteConfig): string | null {
+  if (!REGIAO_POR_UF[config.ufOrigem]) return 'UF de origem inválida';
+
+  for (const servico of SERVICOS_ECT) {
+    const tabela = config.tabela[servico.code];
+    if (!tabela) return `Tabela do serviço ${servico.name} ausente`;
+    const valores = (Object.keys(REGIAO_FRETE_LABELS) as RegiaoFrete[])
+      .flatMap(r => [tabela.precoBase[r], tabela.precoKgAdicional[r], tabela.prazoDias[r]]);
+    if (valores.some(v => !(v >= 0))) return `Preços e prazos de ${servico.name} não podem ser negativos`;
+    if (!(tabela.pesoMaximoGramas > 0)) return `Peso máximo de ${servico.name} deve ser maior que zero`;
+  }
+
+  for (const regra of config.regras) {
+    if (!regra.nome.trim()) return 'Toda regra precisa de um nome';
+    if (regra.servico && !SERVICOS_ECT.some(s => s.code === regra.servico)) {
+      return `Serviço inválido na regra "${regra.nome}"`;
+    }
+    const invalida = regra.ufs.find(uf => !REGIAO_POR_UF[uf]);
+    if (invalida) return `UF inválida na regra "${regra.nome}": ${invalida}`;
+    if (regra.valorMinimo !== null && regra.valorMaximo !== null && regra.valorMinimo > regra.valorMaximo) {
+      return `Valor mínimo maior que o máximo na regra "${regra.nome}"`;
+    }
+  }
+
+  return null;
+}
+
+export async function salvarRegrasFrete(config: RegrasFreteConfig, atualizadoPor?: string): Promise<void> {
+  const erro = validarRegrasFrete(config);
+  if (erro) throw new Error(erro);
+
+  await setDoc(doc(db, 'configuracoes', REGRAS_FRETE_CONFIG_DOC), {
+    ...config,
+    regras: config.regras.map(r => ({ ...r, ufs: r.ufs.map(uf => normalizarUf(uf)) })),
+    atualizadoEm: new Date().toISOString(),
+    atualizadoPor: atualizadoPor || null,
+  });
+}
+
+// Valor do pedido como vem do CSV ("R$ 1.234,56", "129,90" ou "129.90")
+export function parseValorPedido(valor: string): number {
+  const limpo = (valor || '').replace(/[^\d.,-]/g, '');
+  if (!limpo) return 0;
+  const normalizado = limpo.includes(',')
+    ? limpo.replace(/\./g, '').replace(',', '.')
+    : limpo;
+  return parseFloat(normalizado) || 0;
+}
+
+export function regiaoFrete(ufOrigem: string, ufDestino: string): RegiaoFrete {
+  if (ufOrigem === ufDestino) return 'estadual';
+  if (REGIAO_POR_UF[ufOrigem] && REGIAO_POR_UF[ufOrigem] === REGIAO_POR_UF[ufDestino]) return 'regional';
+  return 'nacional';
+}
+
+export function isCapital(cidade: string, uf: string): boolean {
+  return !!CAPITAIS[uf] && normalizarTexto(cidade) === CAPITAIS[uf];
+}
+
+// Custo e prazo estimados de um serviço para o volume
+export function estimarFrete(
+  config: RegrasFreteConfig,
+  servico: string,
+  volume: VolumePostagem,
+  regiao: RegiaoFrete
+): EstimativaFrete {
+  const tabela = config.tabela[servico];
+  if (!tabela) {
+    return { servico, custo: 0, prazoDias: 0, disponivel: false, motivo: 'Serviço sem tabela' };
+  }
+
+  const kgAdicionais = Math.max(0, Math.ceil(volume.pesoGramas / 1000) - 1);
+  const estimativa: EstimativaFrete = {
+    servico,
+    custo: Math.round((tabela.precoBase[regiao] + tabela.precoKgAdicional[regiao] * kgAdicionais) * 100) / 100,
+    prazoDias: tabela.prazoDias[regiao],
+    disponivel: true,
+  };
+
+  if (volume.pesoGramas > tabela.pesoMaximoGramas) {
+    return { ...estimativa, disponivel: false, motivo: `Acima de ${tabela.pesoMaximoGramas}g` };
+  }
+
+  const permitidos = tabela.conteudosPermitidos.map(c => normalizarTexto(c));
+  if (permitidos.length > 0) {
+    const conteudos = volume.conteudo.split(',').map(c => normalizarTexto(c)).filter(Boolean);
+    if (conteudos.some(c => !permitidos.includes(c))) {
+      return { ...estimativa, disponivel: false, motivo: `Só aceita ${tabela.conteudosPermitidos.join(', ')}` };
+    }
+  }
+
+  return estimativa;
+}
+
+// "~R$ 12,50 · 6 dias úteis" (com o motivo quando o serviço não atende)
+export function formatarEstimativa(estimativa: EstimativaFrete): string {
+  const custo = estimativa.custo.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+  const prazo = `${estimativa.prazoDias} ${estimativa.prazoDias === 1 ? 'dia útil' : 'dias úteis'}`;
+  return `~${custo} · ${prazo}${estimativa.disponivel ? '' : ` · ${estimativa.motivo}`}`;
+}
+
+function melhorEstimativa(estimativas: EstimativaFrete[], criterio: CriterioFrete): EstimativaFrete | null {
+  const disponiveis = estimativas.filter(e => e.disponivel);
+  if (disponiveis.length === 0) return null;
+
+  return [...disponiveis].sort((a, b) => criterio === 'mais_rapido'
+    ? a.prazoDias - b.prazoDias || a.custo - b.custo
+    : a.custo - b.custo || a.prazoDias - b.prazoDias
+  )[0];
+}
+
+function regraCasa(regra: RegraFrete, uf: string, cidade: string, valor: number, pesoGramas: number): boolean {
+  if (!regra.ativa) return false;
+  if (regra.ufs.length > 0 && !regra.ufs.includes(uf)) return false;
+  if (regra.somenteCapitais && !isCapital(cidade, uf)) return false;
+  if (regra.valorMinimo !== null && valor < regra.valorMinimo) return false;
+  if (regra.valorMaximo !== null && valor > regra.valorMaximo) return false;
+  if (regra.pesoMaximoGramas !== null && pesoGramas > regra.pesoMaximoGramas) return false;
+  return true;
+}
+
+// Propor o serviço do pedido: primeira regra que casa e tem serviço disponível,
+// senão o critério padrão entre os serviços que atendem o volume
+export function proporServico(config: RegrasFreteConfig, volume: VolumePostagem, destino: DestinoFrete): PropostaFrete {
+  const uf = normalizarUf(destino.uf) || ufDoCep(limparCep(destino.cep)) || '';
+  const regiao = regiaoFrete(config.ufOrigem, uf);
+  const estimativas = SERVICOS_ECT.map(s => estimarFrete(config, s.code, volume, regiao));
+
+  for (const regra of config.regras) {
+    if (!regraCasa(regra, uf, destino.cidade, destino.valorPedido, volume.pesoGramas)) continue;
+
+    const escolhida = regra.servico
+      ? estimativas.find(e => e.servico === regra.servico && e.disponivel) || null
+      : melhorEstimativa(estimativas, regra.criterio);
+    if (escolhida) {
+      return {
+        servico: escolhida.servico,
+        regra: regra.nome,
+        descricao: `Regra "${regra.nome}"`,
+        regiao,
+        estimativas,
+      };
+    }
+  }
+
+  const padrao = melhorEstimativa(estimativas, config.criterioPadrao);
+  if (padrao) {
+    return {
+      servico: padrao.servico,
+      descricao: CRITERIO_FRETE_LABELS[config.criterioPadrao],
+      regiao,
+      estimativas,
+    };
+  }
+
+  return {
+    servico: DEFAULT_SERVICO_ECT,
+    descricao: 'Nenhum serviço atende o volume - conferir peso e conteúdo',
+    regiao,
+    estimativas,
+  };
+}
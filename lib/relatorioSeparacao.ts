@@ -0,0 +1,220 @@
+import { criarDocumentoPdf, quebrarTexto, PaginaPdf, DocumentoPdf } from '@/lib/pdf';
+import type { ProdutoPedido } from '@/lib/catalogoProdutos';
+
+// Relatório do lote impresso para o estoque: separação (total de unidades por produto) e
+// romaneio de embalagem (o que vai em cada caixa) - em PDF e CSV
+
+export interface PedidoSeparacao {
+  transactionId: string;
+  destinatario: string;
+  cidade: string;
+  uf: string;
+  etiquetas: string[]; // Uma por caixa da postagem
+  produtos: ProdutoPedido[];
+  mergedTransactionIds?: string[];
+  envio?: { numero: number; total: number }; // Envio parcial
+  observacao?: string; // Observação do envio parcial (o que vai neste envio)
+}
+
+export interface TotalProdutoSeparacao {
+  nome: string;
+  codigo?: string;
+  unidades: number;
+  pedidos: number;
+}
+
+export interface ItemRomaneio {
+  nome: string;
+  codigo?: string;
+  quantidade: number;
+}
+
+function chaveProduto(produto: ProdutoPedido): string {
+  return (produto.codigo || produto.nome).trim().toUpperCase();
+}
+
+// Produtos repetidos no pedido (mesclados) viram uma linha com quantidade
+export function itensDoPedido(pedido: PedidoSeparacao): ItemRomaneio[] {
+  const itens = new Map<string, ItemRomaneio>();
+  for (const produto of pedido.produtos) {
+    const atual = itens.get(chaveProduto(produto));
+    if (atual) {
+      atual.quantidade++;
+    } else {
+      itens.set(chaveProduto(produto), { nome: produto.nome.trim(), codigo: produto.codigo, quantidade: 1 });
+    }
+  }
+  return [...itens.values()];
+}
+
+// Total do lote por produto (mais unidades primeiro)
+export function totalizarProdutos(pedidos: PedidoSeparacao[]): TotalProdutoSeparacao[] {
+  const totais = new Map<string, TotalProdutoSeparacao>();
+  for (const pedido of pedidos) {
+    for (const item of itensDoPedido(pedido)) {
+      const chave = chaveProduto(item);
+      const atual = totais.get(chave);
+      if (atual) {
+        atual.unidades += item.quantidade;
+        atual.pedidos++;
+      } else {
+        totais.set(chave, { nome: item.nome, codigo: item.codigo, unidades: item.quantidade, pedidos: 1 });
+      }
+    }
+  }
+  return [...totais.values()].sort((a, b) => b.unidades - a.unidades || a.nome.localeCompare(b.nome, 'pt-BR'));
+}
+
+function descricaoEnvio(pedido: PedidoSeparacao): string {
+  return pedido.envio && pedido.envio.total > 1 ? `Envio ${pedido.envio.numero}/${pedido.envio.total}` : '';
+}
+
+// ---------- PDF ----------
+
+const MARGEM = 15;
+const LARGURA = 180;
+const LIMITE_PAGINA = 280;
+
+function cabecalhoSeparacao(pagina: PaginaPdf, pedidos: PedidoSeparacao[], totais: TotalProdutoSeparacao[], continuacao: boolean): number {
+  let y = 20;
+  pagina.texto(105, y, `RELATÓRIO DE SEPARAÇÃO${continuacao ? ' (continuação)' : ''}`, { tamanho: 14, negrito: true, alinhamento: 'centro' });
+  y += 6;
+  const unidades = totais.reduce((total, item) => total + item.unidades, 0);
+  pagina.texto(105, y, `${pedidos.length} pedido(s) · ${unidades} unidade(s) · ${new Date().toLocaleString('pt-BR')}`, {
+    tamanho: 8,
+    alinhamento: 'centro',
+  });
+  y += 6;
+
+  pagina.retangulo(MARGEM, y, LARGURA, 7);
+  pagina.texto(MARGEM + 2, y + 5, 'OK', { tamanho: 8, negrito: true });
+  pagina.texto(MARGEM + 12, y + 5, 'PRODUTO', { tamanho: 8, negrito: true });
+  pagina.texto(MARGEM + 120, y + 5, 'CÓDIGO', { tamanho: 8, negrito: true });
+  pagina.texto(MARGEM + 155, y + 5, 'PEDIDOS', { tamanho: 8, negrito: true, alinhamento: 'direita' });
+  pagina.texto(MARGEM + LARGURA - 2, y + 5, 'UNIDADES', { tamanho: 8, negrito: true, alinhamento: 'direita' });
+  return y + 7;
+}
+
+function desenharSeparacao(documento: DocumentoPdf, pedidos: PedidoSeparacao[]) {
+  const totais = totalizarProdutos(pedidos);
+  let pagina = documento.novaPagina();
+  let y = cabecalhoSeparacao(pagina, pedidos, totais, false);
+
+  for (const total of totais) {
+    if (y + 6 > LIMITE_PAGINA) {
+      pagina = documento.novaPagina();
+      y = cabecalhoSeparacao(pagina, pedidos, totais, true);
+    }
+    pagina.retangulo(MARGEM, y, LARGURA, 6);
+    pagina.retangulo(MARGEM + 3, y + 1.5, 3, 3);
+    pagina.texto(MARGEM + 12, y + 4.3, total.nome.substring(0, 65), { tamanho: 8 });
+    pagina.texto(MARGEM + 120, y + 4.3, (total.codigo || '-').substring(0, 18), { tamanho: 8 });
+    pagina.texto(MARGEM + 155, y + 4.3, String(total.pedidos), { tamanho: 8, alinhamento: 'direita' });
+    pagina.texto(MARGEM + LARGURA - 2, y + 4.3, String(total.unidades), { tamanho: 9, negrito: true, alinhamento: 'direita' });
+    y += 6;
+  }
+}
+
+// Romaneio: uma página por pedido (vai dentro da caixa)
+function desenharRomaneio(pagina: PaginaPdf, pedido: PedidoSeparacao) {
+  let y = 20;
+  pagina.texto(105, y, 'ROMANEIO DE EMBALAGEM', { tamanho: 14, negrito: true, alinhamento: 'centro' });
+  y += 10;
+
+  pagina.texto(MARGEM, y, `Pedido: ${pedido.transactionId}`, { tamanho: 10, negrito: true });
+  const envio = descricaoEnvio(pedido);
+  if (envio) pagina.texto(MARGEM + LARGURA, y, envio, { tamanho: 10, negrito: true, alinhamento: 'direita' });
+  y += 5;
+  if (pedido.mergedTransactionIds && pedido.mergedTransactionIds.length > 0) {
+    quebrarTexto(`Pedidos mesclados: ${pedido.mergedTransactionIds.join(', ')}`, LARGURA, 8).forEach(linha => {
+      pagina.texto(MARGEM, y, linha, { tamanho: 8 });
+      y += 4;
+    });
+  }
+  pagina.texto(MARGEM, y, `Destinatário: ${pedido.destinatario} - ${pedido.cidade}/${pedido.uf}`.substring(0, 100), { tamanho: 9 });
+  y += 5;
+  pagina.texto(MARGEM, y, `Etiqueta(s): ${pedido.etiquetas.join(', ')}${pedido.etiquetas.length > 1 ? ` (${pedido.etiquetas.length} caixas)` : ''}`, {
+    tamanho: 9,
+  });
+  y += 5;
+  if (pedido.observacao) {
+    quebrarTexto(`Observação do envio: ${pedido.observacao}`, LARGURA, 9).forEach(linha => {
+      pagina.texto(MARGEM, y, linha, { tamanho: 9, negrito: true });
+      y += 4.5;
+    });
+  }
+  y += 4;
+
+  pagina.retangulo(MARGEM, y, LARGURA, 7);
+  pagina.texto(MARGEM + 2, y + 5, 'OK', { tamanho: 8, negrito: true });
+  pagina.texto(MARGEM + 12, y + 5, 'QTD', { tamanho: 8, negrito: true });
+  pagina.texto(MARGEM + 25, y + 5, 'PRODUTO', { tamanho: 8, negrito: true });
+  pagina.texto(MARGEM + LARGURA - 2, y + 5, 'CÓDIGO', { tamanho: 8, negrito: true, alinhamento: 'direita' });
+  y += 7;
+
+  for (const item of itensDoPedido(pedido)) {
+    if (y + 6 > LIMITE_PAGINA - 20) break;
+    pagina.retangulo(MARGEM, y, LARGURA, 6);
+    pagina.retangulo(MARGEM + 3, y + 1.5, 3, 3);
+    pagina.texto(MARGEM + 12, y + 4.3, String(item.quantidade), { tamanho: 9, negrito: true });
+    pagina.texto(MARGEM + 25, y + 4.3, item.nome.substring(0, 80), { tamanho: 8 });
+    pagina.texto(MARGEM + LARGURA - 2, y + 4.3, (item.codigo || '-').substring(0, 18), { tamanho: 8, alinhamento: 'direita' });
+    y += 6;
+  }
+
+  y += 18;
+  pagina.linha(MARGEM, y, MARGEM + 70, y);
+  pagina.linha(MARGEM + 110, y, MARGEM + LARGURA, y);
+  pagina.texto(MARGEM + 35, y + 4, 'Separado por', { tamanho: 8, alinhamento: 'centro' });
+  pagina.texto(MARGEM + 145, y + 4, 'Conferido por', { tamanho: 8, alinhamento: 'centro' });
+}
+
+// Separação do lote primeiro, depois um romaneio por pedido
+export function gerarRelatorioSeparacaoPdf(pedidos: PedidoSeparacao[]): Uint8Array {
+  const documento = criarDocumentoPdf();
+  desenharSeparacao(documento, pedidos);
+  pedidos.forEach(pedido => desenharRomaneio(documento.novaPagina(), pedido));
+  return documento.gerar();
+}
+
+// ---------- CSV ----------
+
+function celulaCsv(valor: string | number | undefined): string {
+  const texto = String(valor ?? '');
+  return /[",\n]/.test(texto) ? `"${texto.replace(/"/g, '""')}"` : texto;
+}
+
+function linhaCsv(valores: Array<string | number | undefined>): string {
+  return valores.map(celulaCsv).join(',');
+}
+
+// Duas tabelas no mesmo arquivo: totais de separação e itens por pedido (romaneio)
+export function gerarRelatorioSeparacaoCsv(pedidos: PedidoSeparacao[]): string {
+  const linhas: string[] = [
+    'Separação',
+    linhaCsv(['Produto', 'Código', 'Pedidos', 'Unidades']),
+    ...totalizarProdutos(pedidos).map(total => linhaCsv([total.nome, total.codigo, total.pedidos, total.unidades])),
+    '',
+    'Romaneio',
+    linhaCsv(['Pedido', 'Pedidos mesclados', 'Destinatário', 'Cidade/UF', 'Etiquetas', 'Envio', 'Observação', 'Produto', 'Código', 'Quantidade']),
+  ];
+
+  for (const pedido of pedidos) {
+    for (const item of itensDoPedido(pedido)) {
+      linhas.push(linhaCsv([
+        pedido.transactionId,
+        (pedido.mergedTransactionIds || []).join(' '),
+        pedido.destinatario,
+        `${pedido.cidade}/${pedido.uf}`,
+        pedido.etiquetas.join(' '),
+        descricaoEnvio(pedido),
+        pedido.observacao,
+        item.nome,
+        item.codigo,
+        item.quantidade,
+      ]));
+    }
+  }
+
+  return linhas.join('\n');
+}
@@ -0,0 +1,49 @@
+import { db } from '@/lib/firebase';
+import { doc, getDoc } from 'firebase/firestore';
+import {
+  EVENTOS_WEBHOOK_COLLECTION,
+  EventoWebhook,
+  ResultadoEventoWebhook,
+  finalizarEventoWebhook,
+} from '@/lib/eventosWebhook';
+import { ehPlataformaWebhook, lerPayloadPlataforma, processarEventoPlataforma } from '@/lib/webhooksPlataformas';
+import { processarEventoEvolution } from '@/lib/evolutionWebhook';
+import { processarWebhookEtiquetas } from '@/lib/webhookEtiquetas';
+
+// Reprocessamento de eventos guardados: roda o mesmo handler da rota de origem com o corpo original.
+// A assinatura não é conferida de novo (foi conferida na chegada e os segredos não são guardados).
+
+async function processarEventoGuardado(evento: EventoWebhook, appOrigin: string): Promise<ResultadoEventoWebhook> {
+  if (ehPlataformaWebhook(evento.origem)) {
+    const payload = lerPayloadPlataforma(evento.corpo, evento.headers['content-type'] || '');
+    if (!payload) return { status: 'erro', erro: 'Corpo inválido' };
+    return processarEventoPlataforma(evento.origem, payload);
+  }
+
+  switch (evento.origem) {
+    case 'evolution':
+      return processarEventoEvolution(JSON.parse(evento.corpo));
+    case 'etiquetas':
+      // Só os passos que falharam: mensagens, SwipeOne e planilha já feitos não se repetem
+      return (await processarWebhookEtiquetas(JSON.parse(evento.corpo), appOrigin, evento.etapasConcluidas)).evento;
+    default:
+      return { status: 'erro', erro: `Origem não suportada: ${evento.origem}` };
+  }
+}
+
+export async function reprocessarEventoWebhook(id: string, appOrigin: string): Promise<ResultadoEventoWebhook> {
+  const snapshot = await getDoc(doc(db, EVENTOS_WEBHOOK_COLLECTION, id));
+  if (!snapshot.exists()) {
+    throw new Error(`Evento ${id} não encontrado`);
+  }
+
+  let resultado: ResultadoEventoWebhook;
+  try {
+    resultado = await processarEventoGuardado(snapshot.data() as EventoWebhook, appOrigin);
+  } catch (error) {
+    resultado = { status: 'erro', erro: error instanceof Error ? error.message : 'Erro desconhecido' };
+  }
+
+  await finalizarEventoWebhook(id, resultado, true);
+  return resultado;
+}
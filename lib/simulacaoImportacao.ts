@@ -0,0 +1,234 @@
+import { db } from '@/lib/firebase';
+import { collection, doc, getDoc, getDocs, setDoc, updateDoc } from 'firebase/firestore';
+import Papa from 'papaparse';
+import { ColumnMap, LeadsSimulados, SimulacaoRegistro, safeString, criarCacheDatacrazy, simularRegistroComCache } from '@/lib/datacrazy';
+import { registrosArquivoImportacao, removerArquivoImportacao } from '@/lib/arquivosImportacao';
+
+// Simulação (dry-run) da importação de CSV para o Datacrazy: roda como um job de jobs_importacao, só com leituras,
+// e guarda o relatório linha a linha na subcoleção "relatorio" do job para download antes de importar de verdade.
+// O arquivo do Storage é removido quando a simulação termina (a importação depois envia o arquivo de novo)
+
+export interface LinhaRelatorioSimulacao extends SimulacaoRegistro {
+  registro: number; // Posição no arquivo (1 = primeiro registro depois do cabeçalho)
+  email: string;
+  nome: string;
+  transactionId: string;
+  produto: string;
+  status: string;
+}
+
+export interface ResumoSimulacao {
+  importar: number;
+  estornar: number;
+  ignorar: number;
+  erros: number;
+  leadsNovos: number;
+  leadsExistentes: number;
+  negociosNovos: number;
+  negociosExistentes: number;
+  tagsInexistentes: string[];
+  motivosIgnorados: Array<{ motivo: string; total: number }>;
+}
+
+export const RELATORIO_SIMULACAO_SUBCOLLECTION = 'relatorio';
+
+// Linhas por documento do relatório (limite de 1 MB por documento no Firestore)
+const LINHAS_POR_PARTE = 500;
+const CANCEL_CHECK_INTERVAL = 50;
+
+const COLUNAS_RELATORIO: Array<{ campo: keyof LinhaRelatorioSimulacao; titulo: string }> = [
+  { campo: 'registro', titulo: 'Registro' },
+  { campo: 'acao', titulo: 'Ação' },
+  { campo: 'motivo', titulo: 'Motivo' },
+  { campo: 'email', titulo: 'Email' },
+  { campo: 'nome', titulo: 'Nome' },
+  { campo: 'transactionId', titulo: 'Transação' },
+  { campo: 'produto', titulo: 'Produto' },
+  { campo: 'status', titulo: 'Status' },
+  { campo: 'lead', titulo: 'Lead' },
+  { campo: 'tag', titulo: 'Tag' },
+  { campo: 'negocio', titulo: 'Negócio' },
+];
+
+// Processar em background (fire-and-forget, atualiza o job como a importação)
+export async function simularEmBackground(
+  jobId: string,
+  stageId: string,
+  columns: ColumnMap,
+  caminhoArquivo: string,
+  totalRows: number
+) {
+  const jobRef = doc(db, 'jobs_importacao', jobId);
+
+  // Estado só deste job: outra simulação ou importação rodando ao mesmo tempo não interfere
+  const cache = criarCacheDatacrazy();
+  const leadsSimulados: LeadsSimulados = new Map();
+
+  const resumo: ResumoSimulacao = {
+    importar: 0, estornar: 0, ignorar: 0, erros: 0,
+    leadsNovos: 0, leadsExistentes: 0, negociosNovos: 0, negociosExistentes: 0,
+    tagsInexistentes: [], motivosIgnorados: [],
+  };
+  // Leads contados por email (várias vendas do mesmo cliente = um lead); criado por uma linha anterior conta como novo
+  const emailsNovos = new Set<string>();
+  const emailsExistentes = new Set<string>();
+  const tagsInexistentes = new Set<string>();
+  const motivosIgnorados = new Map<string, number>();
+  const errosDetalhes: Array<{ email: string; name: string; error: string }> = [];
+
+  let linhas: LinhaRelatorioSimulacao[] = [];
+  let parte = 0;
+  let processados = 0;
+  let ultimoPercentual = 0;
+  let ultimaMensagem = '';
+  let cancelado = false;
+
+  const resumoAtual = (): ResumoSimulacao => ({
+    ...resumo,
+    leadsNovos: emailsNovos.size,
+    leadsExistentes: emailsExistentes.size,
+    tagsInexistentes: [...tagsInexistentes].slice(0, 100),
+    motivosIgnorados: [...motivosIgnorados.entries()]
+      .map(([motivo, total]) => ({ motivo, total }))
+      .sort((a, b) => b.total - a.total)
+      .slice(0, 50),
+  });
+
+  const gravarParte = async () => {
+    if (linhas.length === 0) return;
+    await setDoc(doc(db, 'jobs_importacao', jobId, RELATORIO_SIMULACAO_SUBCOLLECTION, String(parte).padStart(5, '0')), { parte, linhas });
+    parte++;
+    linhas = [];
+  };
+
+  const atualizarFirebase = async () => {
+    const percentualAtual = Math.floor((processados / totalRows) * 100);
+    if (percentualAtual === ultimoPercentual) return;
+    ultimoPercentual = percentualAtual;
+
+    try {
+      await updateDoc(jobRef, {
+        processados,
+        sucessos: resumo.importar,
+        estornados: resumo.estornar,
+        ignorados: resumo.ignorar,
+        erros: resumo.erros,
+        errosDetalhes: errosDetalhes.slice(-50),
+        atualizadoEm: new Date().toISOString(),
+        mensagem: ultimaMensagem,
+      });
+    } catch (err) {
+      if ((err as { code?: string }).code === 'not-found') {
+        console.log('[IMPORT-CSV-SIMULACAO] Job deletado, parando simulação');
+        cancelado = true;
+      }
+    }
+  };
+
+  console.log(`[IMPORT-CSV-SIMULACAO] Job ${jobId} simulando ${totalRows} registros`);
+
+  let i = 0;
+  try {
+    for await (const row of registrosArquivoImportacao(caminhoArquivo)) {
+      if (cancelado) break;
+      if (i > 0 && i % CANCEL_CHECK_INTERVAL === 0) {
+        const jobSnap = await getDoc(jobRef).catch(() => null);
+        if (!jobSnap?.exists() || jobSnap.data().status === 'cancelado') {
+          cancelado = true;
+          break;
+        }
+      }
+
+      i++;
+      const base = {
+        registro: i,
+        email: safeString(row[columns.email]),
+        nome: safeString(row[columns.name]),
+        transactionId: safeString(row[columns.transactionId]),
+        produto: safeString(row[columns.product]),
+        status: safeString(row[columns.status]),
+      };
+
+      let simulacao: SimulacaoRegistro;
+      try {
+        simulacao = await simularRegistroComCache(row, columns, stageId, cache, leadsSimulados);
+      } catch (e) {
+        const errorMsg = e instanceof Error ? e.message : 'Erro';
+        resumo.erros++;
+        errosDetalhes.push({ email: base.email, name: base.nome, error: errorMsg });
+        simulacao = { acao: 'ignorar', lead: '', tag: '', negocio: '', motivo: `Erro na consulta: ${errorMsg.substring(0, 200)}` };
+      }
+      processados++;
+
+      if (simulacao.acao === 'importar') resumo.importar++;
+      else if (simulacao.acao === 'estornar') resumo.estornar++;
+      else {
+        resumo.ignorar++;
+        motivosIgnorados.set(simulacao.motivo, (motivosIgnorados.get(simulacao.motivo) || 0) + 1);
+      }
+      const emailLead = base.email.toLowerCase();
+      if (simulacao.lead === 'novo') emailsNovos.add(emailLead);
+      else if (simulacao.lead === 'existente' && !emailsNovos.has(emailLead)) emailsExistentes.add(emailLead);
+      if (simulacao.negocio === 'criar') resumo.negociosNovos++;
+      else if (simulacao.negocio === 'existente') resumo.negociosExistentes++;
+      if (simulacao.tag === 'inexistente') tagsInexistentes.add(base.produto);
+
+      linhas.push({ ...base, ...simulacao });
+      if (linhas.length >= LINHAS_POR_PARTE) await gravarParte();
+
+      ultimaMensagem = `[${processados}/${totalRows}] ${base.email} - ${simulacao.acao}${simulacao.motivo ? `: ${simulacao.motivo}` : ''}`;
+      await atualizarFirebase();
+    }
+  } catch (e) {
+    const errorMsg = e instanceof Error ? e.message : 'Erro desconhecido';
+    await updateDoc(jobRef, {
+      status: 'erro',
+      atualizadoEm: new Date().toISOString(),
+      mensagem: `❌ Erro ao ler o arquivo: ${errorMsg.substring(0, 200)}`,
+    }).catch(() => {});
+    await removerArquivoImportacao(caminhoArquivo);
+    throw e;
+  }
+
+  // Simulação não é retomada: o arquivo sai do Storage em qualquer desfecho
+  await removerArquivoImportacao(caminhoArquivo);
+
+  if (cancelado) {
+    console.log(`[IMPORT-CSV-SIMULACAO] Job ${jobId} cancelado no registro ${processados}`);
+    return;
+  }
+
+  try {
+    await gravarParte();
+    await updateDoc(jobRef, {
+      status: 'concluido',
+      processados,
+      sucessos: resumo.importar,
+      estornados: resumo.estornar,
+      ignorados: resumo.ignorar,
+      erros: resumo.erros,
+      resumoSimulacao: resumoAtual(),
+      partesRelatorio: parte,
+      errosDetalhes: errosDetalhes.slice(-50),
+      atualizadoEm: new Date().toISOString(),
+      mensagem: `🔍 Simulação concluída! Importar: ${resumo.importar} (${emailsNovos.size} lead(s) novo(s), ${resumo.negociosNovos} negócio(s) novo(s)), Estornar: ${resumo.estornar}, Ignorar: ${resumo.ignorar}, Erros: ${resumo.erros}`,
+    });
+    console.log(`[IMPORT-CSV-SIMULACAO] Job ${jobId} concluído`);
+  } catch (err) {
+    console.log(`[IMPORT-CSV-SIMULACAO] Job ${jobId} - não foi possível gravar o resultado final`, err);
+  }
+}
+
+// Relatório completo da simulação em CSV (ordem do arquivo)
+export async function gerarRelatorioSimulacaoCsv(jobId: string): Promise<string> {
+  const snapshot = await getDocs(collection(db, 'jobs_importacao', jobId, RELATORIO_SIMULACAO_SUBCOLLECTION));
+  const linhas = snapshot.docs
+    .map(d => d.data() as { parte: number; linhas: LinhaRelatorioSimulacao[] })
+    .sort((a, b) => a.parte - b.parte)
+    .flatMap(p => p.linhas);
+
+  return Papa.unparse({
+    fields: COLUNAS_RELATORIO.map(c => c.titulo),
+    data: linhas.map(linha => COLUNAS_RELATORIO.map(c => linha[c.campo])),
+  });
+}
@@ -20,13 +20,20 @@ const getAppUrl = () => {
   return 'http://localhost:3000';
 };
 
-async function executarSync() {
+// Workers verificados a cada minuto (cada API decide se executa baseado no Firebase)
+const WORKERS = [
+  { nome: 'Sync Datacrazy', path: '/api/cron/sync-datacrazy-swipeone' },
+  { nome: 'Rastreio', path: '/api/cron/rastreio-etiquetas' },
+  { nome: 'Fila WhatsApp', path: '/api/cron/whatsapp-fila' },
+  { nome: 'Lote Etiquetas', path: '/api/cron/etiquetas-lote' },
+];
+
+async function executarWorker(nome: string, path: string) {
   const appUrl = getAppUrl();
-  console.log(`[SCHEDULER] Verificando sync em ${appUrl}...`);
+  console.log(`[SCHEDULER] Verificando ${nome} em ${appUrl}...`);
 
   try {
-    // Chamar a API de sync (a API decide se executa baseado no Firebase)
-    const response = await fetch(`${appUrl}/api/cron/sync-datacrazy-swipeone`, {
+    const response = await fetch(`${appUrl}${path}`, {
       method: 'GET',
       headers: {
         'Content-Type': 'application/json',
@@ -38,6 +45,10 @@ async function executarSync() {
     if (data.success) {
       if (data.totalLeads > 0) {
         console.log(`[SCHEDULER] Sync executado: ${data.processados}/${data.totalLeads} leads`);
+      } else if (data.enviadas !== undefined) {
+        console.log(`[SCHEDULER] ${nome} executado: ${data.enviadas}/${data.total} enviadas, ${data.falhas} falha(s)`);
+      } else if (data.total > 0) {
+        console.log(`[SCHEDULER] ${nome} executado: ${data.atualizadas}/${data.total} atualizadas`);
       } else if (data.message) {
         console.log(`[SCHEDULER] ${data.message}`);
       }
@@ -49,10 +60,15 @@ async function executarSync() {
     }
 
   } catch (err) {
-    console.error('[SCHEDULER] Erro ao chamar API:', err instanceof Error ? err.message : err);
+    console.error(`[SCHEDULER] Erro ao chamar API (${nome}):`, err instanceof Error ? err.message : err);
   }
 }
 
+// Em paralelo: um sync longo do Datacrazy não deve atrasar os outros workers
+async function executarSync() {
+  await Promise.all(WORKERS.map(w => executarWorker(w.nome, w.path)));
+}
+
 export function startSyncScheduler() {
   if (schedulerStarted) {
     console.log('[SCHEDULER] Scheduler já está rodando');
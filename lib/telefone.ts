@@ -0,0 +1,200 @@
+// Normalização de telefones (Brasil + internacionais)
+// Toda importação, etiqueta e mensagem deve passar por aqui em vez de limpar o número por conta própria
+
+export type TipoTelefone = 'celular' | 'fixo' | 'internacional';
+
+export type MotivoTelefoneInvalido =
+  | 'vazio'
+  | 'sem_ddd'
+  | 'curto'
+  | 'longo'
+  | 'ddd_invalido'
+  | 'numero_invalido'
+  | 'internacional_invalido';
+
+export interface TelefoneValido {
+  valido: true;
+  tipo: TipoTelefone;
+  e164: string;   // +5585987654321
+  numero: string; // Só dígitos com DDI (5585987654321) - formato usado pelo WhatsApp
+  ddi: string;    // '55' para Brasil, '' para internacionais (não separamos o DDI)
+  ddd: string;
+  local: string;  // Número sem DDI/DDD
+  nonoDigitoAdicionado: boolean; // Celular antigo de 8 dígitos que recebeu o 9 na frente
+}
+
+export interface TelefoneInvalido {
+  valido: false;
+  motivo: MotivoTelefoneInvalido;
+  mensagem: string;
+  original: string;
+}
+
+export type TelefoneNormalizado = TelefoneValido | TelefoneInvalido;
+
+export const MOTIVO_TELEFONE_LABELS: Record<MotivoTelefoneInvalido, string> = {
+  vazio: 'Telefone vazio',
+  sem_ddd: 'Telefone sem DDD',
+  curto: 'Telefone com dígitos a menos',
+  longo: 'Telefone com dígitos a mais',
+  ddd_invalido: 'DDD inexistente',
+  numero_invalido: 'Número não é celular nem fixo válido',
+  internacional_invalido: 'Número internacional inválido',
+};
+
+const DDI_BRASIL = '55';
+
+// DDDs em uso no Brasil (Anatel)
+const DDDS_VALIDOS = new Set([
+  '11', '12', '13', '14', '15', '16', '17', '18', '19',
+  '21', '22', '24', '27', '28',
+  '31', '32', '33', '34', '35', '37', '38',
+  '41', '42', '43', '44', '45', '46', '47', '48', '49',
+  '51', '53', '54', '55',
+  '61', '62', '63', '64', '65', '66', '67', '68', '69',
+  '71', '73', '74', '75', '77', '79',
+  '81', '82', '83', '84', '85', '86', '87', '88', '89',
+  '91', '92', '93', '94', '95', '96', '97', '98', '99',
+]);
+
+function invalido(original: string, motivo: MotivoTelefoneInvalido): TelefoneInvalido {
+  return { valido: false, motivo, mensagem: MOTIVO_TELEFONE_LABELS[motivo], original };
+}
+
+// Número brasileiro sem DDI (DDD + 8 ou 9 dígitos)
+function normalizarNacional(original: string, nacional: string): TelefoneNormalizado {
+  if (nacional.length === 8 || nacional.length === 9) return invalido(original, 'sem_ddd');
+  if (nacional.length < 10) return invalido(original, 'curto');
+  if (nacional.length > 11) return invalido(original, 'longo');
+
+  const ddd = nacional.substring(0, 2);
+  let local = nacional.substring(2);
+  if (!DDDS_VALIDOS.has(ddd)) return invalido(original, 'ddd_invalido');
+
+  let tipo: TipoTelefone;
+  let nonoDigitoAdicionado = false;
+
+  if (local.length === 9) {
+    // Celulares têm 9 dígitos e começam com 9
+    if (!local.startsWith('9')) return invalido(original, 'numero_invalido');
+    tipo = 'celular';
+  } else if (/^[2-5]/.test(local)) {
+    // Fixos têm 8 dígitos começando com 2 a 5
+    tipo = 'fixo';
+  } else if (/^[6-9]/.test(local)) {
+    // Celular cadastrado antes do nono dígito (obrigatório em todo o país desde 2016)
+    local = '9' + local;
+    tipo = 'celular';
+    nonoDigitoAdicionado = true;
+  } else {
+    return invalido(original, 'numero_invalido');
+  }
+
+  return {
+    valido: true,
+    tipo,
+    e164: `+${DDI_BRASIL}${ddd}${local}`,
+    numero: `${DDI_BRASIL}${ddd}${local}`,
+    ddi: DDI_BRASIL,
+    ddd,
+    local,
+    nonoDigitoAdicionado,
+  };
+}
+
+// Normaliza qualquer telefone de CSV, webhook ou formulário
+// Aceita: (85) 98765-4321, 85987654321, 5585987654321, +55 85 98765-4321, 0 85 98765-4321,
+// 0 21 85 98765-4321 (com operadora), +351 912 345 678, 00351912345678
+export function normalizarTelefone(telefone: string | null | undefined): TelefoneNormalizado {
+  const original = (telefone || '').trim();
+  let digitos = original.replace(/\D/g, '');
+  if (!digitos) return invalido(original, 'vazio');
+
+  // + ou 00 na frente: número já vem com DDI
+  let comDdi = original.startsWith('+');
+  if (!comDdi && digitos.startsWith('00')) {
+    digitos = digitos.substring(2);
+    comDdi = true;
+  }
+
+  if (comDdi) {
+    if (digitos.startsWith(DDI_BRASIL)) {
+      return normalizarNacional(original, digitos.substring(2));
+    }
+
+    // Internacional: E.164 tem no máximo 15 dígitos (DDI incluído)
+    if (digitos.length < 8 || digitos.length > 15 || digitos.startsWith('0')) {
+      return invalido(original, 'internacional_invalido');
+    }
+    return {
+      valido: true,
+      tipo: 'internacional',
+      e164: `+${digitos}`,
+      numero: digitos,
+      ddi: '',
+      ddd: '',
+      local: digitos,
+      nonoDigitoAdicionado: false,
+    };
+  }
+
+  // 0 + DDD (discagem interurbana) ou 0 + operadora + DDD
+  if (digitos.startsWith('0')) {
+    digitos = digitos.replace(/^0+/, '');
+    if (digitos.length === 12 || digitos.length === 13) {
+      digitos = digitos.substring(2);
+    }
+    return normalizarNacional(original, digitos);
+  }
+
+  // 55 + DDD + número (até 11 dígitos é DDD 55 sem DDI)
+  if (digitos.startsWith(DDI_BRASIL) && (digitos.length === 12 || digitos.length === 13)) {
+    return normalizarNacional(original, digitos.substring(2));
+  }
+
+  return normalizarNacional(original, digitos);
+}
+
+// Telefone com o DDI informado à parte (checkout da Hotmart: checkout_phone + checkout_phone_code),
+// no formato +DDI que normalizarTelefone entende. Com DDI 55, DDD 55 não é confundido com o DDI
+export function telefoneComDdi(telefone: string, ddi: string): string {
+  const digitos = telefone.replace(/\D/g, '');
+  const ddiDigitos = ddi.replace(/\D/g, '');
+  if (!digitos || !ddiDigitos || telefone.trim().startsWith('+')) return telefone;
+
+  if (ddiDigitos === DDI_BRASIL) {
+    const jaTemDdi = digitos.startsWith(DDI_BRASIL) && (digitos.length === 12 || digitos.length === 13);
+    return jaTemDdi ? `+${digitos}` : telefone;
+  }
+  return digitos.startsWith(ddiDigitos) ? `+${digitos}` : `+${ddiDigitos}${digitos}`;
+}
+
+// Número pronto para WhatsApp (só dígitos com DDI) ou null se inválido
+export function formatarTelefone(telefone: string | null | undefined): string | null {
+  const resultado = normalizarTelefone(telefone);
+  if (!resultado.valido) {
+    if (resultado.motivo !== 'vazio') {
+      console.log(`Telefone inválido: ${resultado.original} (${resultado.mensagem})`);
+    }
+    return null;
+  }
+  return resultado.numero;
+}
+
+// Número para cadastro em CRM/etiqueta: normalizado quando válido,
+// senão só os dígitos (não perde o dado que veio da plataforma)
+export function telefoneParaCadastro(telefone: string | null | undefined): string {
+  const resultado = normalizarTelefone(telefone);
+  return resultado.valido ? resultado.numero : (telefone || '').replace(/\D/g, '');
+}
+
+// Variações do número com e sem o nono dígito (o WhatsApp às vezes devolve o JID sem ele)
+export function variantesTelefone(numero: string): string[] {
+  const variantes = [numero];
+  if (numero.startsWith(DDI_BRASIL) && numero.length === 13 && numero[4] === '9') {
+    variantes.push(numero.slice(0, 4) + numero.slice(5));
+  } else if (numero.startsWith(DDI_BRASIL) && numero.length === 12 && /^[6-9]/.test(numero[4])) {
+    variantes.push(numero.slice(0, 4) + '9' + numero.slice(4));
+  }
+  return variantes;
+}
@@ -0,0 +1,170 @@
+// Status de entrega derivado dos eventos de rastreio dos Correios
+export type DeliveryStatus =
+  | 'pending'          // Etiqueta gerada, objeto ainda não postado
+  | 'posted'           // Primeiro evento (postado na agência)
+  | 'in_transit'       // Em trânsito entre unidades
+  | 'out_for_delivery' // Saiu para entrega ao destinatário
+  | 'awaiting_pickup'  // Aguardando retirada na agência
+  | 'delivered'        // Entregue ao destinatário
+  | 'returned'         // Devolvido ao remetente
+  | 'exception';       // Problema na entrega (endereço incorreto, ausente, etc)
+
+// Evento de rastreio normalizado (independente do provider)
+export interface TrackingEvent {
+  codigo: string;    // Código do evento nos Correios (PO, RO, OEC, BDE...)
+  tipo: string;      // Tipo do evento (ex: '01')
+  descricao: string;
+  dataHora: string;  // ISO
+  local: string;     // Cidade/UF da unidade
+}
+
+// Labels para exibição
+export const DELIVERY_STATUS_LABELS: Record<DeliveryStatus, string> = {
+  pending: 'Aguardando postagem',
+  posted: 'Postado',
+  in_transit: 'Em trânsito',
+  out_for_delivery: 'Saiu para entrega',
+  awaiting_pickup: 'Aguardando retirada',
+  delivered: 'Entregue',
+  returned: 'Devolvido',
+  exception: 'Problema na entrega',
+};
+
+// Status finais - etiquetas nesses status não são mais consultadas
+export const FINAL_DELIVERY_STATUSES: DeliveryStatus[] = ['delivered', 'returned'];
+
+export function isFinalDeliveryStatus(status?: DeliveryStatus | null): boolean {
+  return !!status && FINAL_DELIVERY_STATUSES.includes(status);
+}
+
+// Classificar um evento dos Correios em status de entrega
+// Referência: tabela de eventos SRO (PO = postado, RO/DO = trânsito, OEC = saiu para entrega,
+// LDI = aguardando retirada, BDE/BDI/BDR = baixa - entregue, devolvido ou não entregue)
+export function classifyTrackingEvent(event: TrackingEvent): DeliveryStatus {
+  const codigo = event.codigo.toUpperCase();
+  const tipo = event.tipo.padStart(2, '0');
+  const descricao = event.descricao.toLowerCase();
+
+  if (descricao.includes('devolvido ao remetente') || descricao.includes('devolução ao remetente')) {
+    return 'returned';
+  }
+
+  switch (codigo) {
+    case 'PO':
+    case 'PAR':
+      return 'posted';
+    case 'RO':
+    case 'DO':
+    case 'TR':
+    case 'FC':
+      return 'in_transit';
+    case 'OEC':
+      return 'out_for_delivery';
+    case 'LDI':
+    case 'LDE':
+      return 'awaiting_pickup';
+    case 'BDE':
+    case 'BDI':
+    case 'BDR':
+      // Tipos 01 e 23 dos eventos de baixa: entregue / devolvido
+      if (tipo === '01') return 'delivered';
+      if (tipo === '23') return 'returned';
+      return 'exception';
+    default:
+      return 'in_transit';
+  }
+}
+
+// Derivar o status atual a partir do histórico (evento mais recente vence)
+export function deriveDeliveryStatus(events: TrackingEvent[]): DeliveryStatus {
+  if (events.length === 0) return 'pending';
+
+  const sorted = [...events].sort(
+    (a, b) => new Date(b.dataHora).getTime() - new Date(a.dataHora).getTime()
+  );
+
+  return classifyTrackingEvent(sorted[0]);
+}
+
+// ========== NOTIFICAÇÕES DE MARCOS (WhatsApp) ==========
+
+// Marcos do rastreio que disparam mensagem ao cliente
+export type TrackingMilestone = 'posted' | 'out_for_delivery' | 'awaiting_pickup' | 'delivered' | 'returned';
+
+export const TRACKING_MILESTONES: TrackingMilestone[] = [
+  'posted',
+  'out_for_delivery',
+  'awaiting_pickup',
+  'delivered',
+  'returned',
+];
+
+export const TRACKING_MILESTONE_LABELS: Record<TrackingMilestone, string> = {
+  posted: 'Primeira movimentação (postado)',
+  out_for_delivery: 'Saiu para entrega',
+  awaiting_pickup: 'Aguardando retirada na agência',
+  delivered: 'Entregue',
+  returned: 'Devolvido ao remetente',
+};
+
+// Placeholders disponíveis: {{nome}}, {{codigo}}, {{local}}, {{descricao}}, {{linkRastreio}}
+export const DEFAULT_MILESTONE_TEMPLATES: Record<TrackingMilestone, string> = {
+  posted: '{{nome}}, seu pedido foi postado nos Correios! 📦\n\nCódigo de rastreio: {{codigo}}\n\n🔗 Acompanhe: {{linkRastreio}}',
+  out_for_delivery: '{{nome}}, seu pedido saiu para entrega! 🚚\n\nFique atento, ele deve chegar hoje.\nCódigo de rastreio: {{codigo}}',
+  awaiting_pickup: '{{nome}}, seu pedido está aguardando retirada na agência dos Correios. 🏤\n\nLocal: {{local}}\nCódigo de rastreio: {{codigo}}\n\n⚠️ Retire o quanto antes para evitar a devolução.',
+  delivered: '{{nome}}, seu pedido foi entregue! ✅\n\nCódigo de rastreio: {{codigo}}\n\nEsperamos que goste!',
+  returned: '{{nome}}, seu pedido foi devolvido ao remetente pelos Correios. ↩️\n\nCódigo de rastreio: {{codigo}}\n\nResponda esta mensagem para combinarmos um novo envio.',
+};
+
+export interface MilestoneNotificationConfig {
+  enabled: boolean;
+  template: string;
+}
+
+export interface TrackingNotificationsConfig {
+  enabled: boolean;
+  milestones: Record<TrackingMilestone, MilestoneNotificationConfig>;
+}
+
+export const DEFAULT_TRACKING_NOTIFICATIONS_CONFIG: TrackingNotificationsConfig = {
+  enabled: false,
+  milestones: {
+    posted: { enabled: true, template: DEFAULT_MILESTONE_TEMPLATES.posted },
+    out_for_delivery: { enabled: true, template: DEFAULT_MILESTONE_TEMPLATES.out_for_delivery },
+    awaiting_pickup: { enabled: true, template: DEFAULT_MILESTONE_TEMPLATES.awaiting_pickup },
+    delivered: { enabled: true, template: DEFAULT_MILESTONE_TEMPLATES.delivered },
+    returned: { enabled: true, template: DEFAULT_MILESTONE_TEMPLATES.returned },
+  },
+};
+
+// Mesclar config salva no Firebase com os padrões (marcos novos ficam com o default)
+export function mergeTrackingNotificationsConfig(
+  saved?: Partial<TrackingNotificationsConfig> | null
+): TrackingNotificationsConfig {
+  const milestones = { ...DEFAULT_TRACKING_NOTIFICATIONS_CONFIG.milestones };
+  for (const milestone of TRACKING_MILESTONES) {
+    const savedMilestone = saved?.milestones?.[milestone];
+    if (savedMilestone) {
+      milestones[milestone] = { ...milestones[milestone], ...savedMilestone };
+    }
+  }
+  return { enabled: saved?.enabled ?? false, milestones };
+}
+
+// Marco correspondente ao status atual
+// Em trânsito/problema sem "postado" registrado ainda conta como primeira movimentação
+export function milestoneForStatus(status: DeliveryStatus): TrackingMilestone | null {
+  switch (status) {
+    case 'posted':
+    case 'in_transit':
+    case 'exception':
+      return 'posted';
+    case 'out_for_delivery':
+    case 'awaiting_pickup':
+    case 'delivered':
+    case 'returned':
+      return status;
+    default:
+      return null;
+  }
+}
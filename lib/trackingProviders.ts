@@ -0,0 +1,150 @@
+import type { TrackingEvent } from '@/lib/tracking';
+
+// Provider de rastreio: recebe códigos e devolve o histórico de eventos de cada um
+// Códigos sem retorno (ainda não postados) simplesmente não aparecem no Map
+export interface TrackingProvider {
+  name: string;
+  maxCodigosPorConsulta: number;
+  rastrear(codigos: string[]): Promise<Map<string, TrackingEvent[]>>;
+}
+
+// Configuração da API dos Correios (SRO Rastro)
+const CORREIOS_CONFIG = {
+  baseUrl: process.env.CORREIOS_API_URL || 'https://api.correios.com.br',
+  usuario: process.env.CORREIOS_USUARIO || '',
+  codigoAcesso: process.env.CORREIOS_CODIGO_ACESSO || '',
+  cartaoPostagem: process.env.CORREIOS_CARTAO_POSTAGEM || process.env.VIPP_NR_CARTAO || '',
+};
+
+interface CorreiosEvento {
+  codigo: string;
+  tipo: string;
+  dtHrCriado: string;
+  descricao: string;
+  unidade?: {
+    endereco?: { cidade?: string; uf?: string };
+  };
+}
+
+interface CorreiosObjeto {
+  codObjeto: string;
+  mensagem?: string;
+  eventos?: CorreiosEvento[];
+}
+
+// Cache do token (válido por algumas horas)
+let correiosToken: { token: string; expiraEm: number } | null = null;
+
+async function obterTokenCorreios(): Promise<string> {
+  if (correiosToken && Date.now() < correiosToken.expiraEm) {
+    return correiosToken.token;
+  }
+
+  const basic = Buffer.from(`${CORREIOS_CONFIG.usuario}:${CORREIOS_CONFIG.codigoAcesso}`).toString('base64');
+  const response = await fetch(`${CORREIOS_CONFIG.baseUrl}/token/v1/autentica/cartaopostagem`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Basic ${basic}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ numero: CORREIOS_CONFIG.cartaoPostagem }),
+  });
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Correios token ${response.status}: ${text}`);
+  }
+
+  const data = await response.json();
+  // Renova 5 minutos antes de expirar
+  const expiraEm = data.expiraEm ? new Date(data.expiraEm).getTime() - 5 * 60 * 1000 : Date.now() + 60 * 60 * 1000;
+  correiosToken = { token: data.token, expiraEm };
+  return data.token;
+}
+
+function createCorreiosProvider(): TrackingProvider {
+  return {
+    name: 'correios',
+    maxCodigosPorConsulta: 50,
+    async rastrear(codigos: string[]) {
+      const resultado = new Map<string, TrackingEvent[]>();
+      if (codigos.length === 0) return resultado;
+
+      if (!CORREIOS_CONFIG.usuario || !CORREIOS_CONFIG.codigoAcesso) {
+        throw new Error('API dos Correios não configurada. Verifique CORREIOS_USUARIO e CORREIOS_CODIGO_ACESSO');
+      }
+
+      const token = await obterTokenCorreios();
+      const params = new URLSearchParams({ resultado: 'T' });
+      codigos.forEach(c => params.append('codigosObjetos', c));
+
+      const response = await fetch(`${CORREIOS_CONFIG.baseUrl}/srorastro/v1/objetos?${params.toString()}`, {
+        method: 'GET',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        throw new Error(`Correios rastro ${response.status}: ${text}`);
+      }
+
+      const data = await response.json();
+      const objetos: CorreiosObjeto[] = data?.objetos || [];
+
+      for (const objeto of objetos) {
+        if (!objeto.eventos || objeto.eventos.length === 0) continue;
+
+        resultado.set(objeto.codObjeto, objeto.eventos.map(e => ({
+          codigo: e.codigo,
+          tipo: String(e.tipo ?? ''),
+          descricao: e.descricao,
+          dataHora: new Date(e.dtHrCriado).toISOString(),
+          local: [e.unidade?.endereco?.cidade, e.unidade?.endereco?.uf].filter(Boolean).join('/'),
+        })));
+      }
+
+      return resultado;
+    },
+  };
+}
+
+// Sequência simulada pelo provider fake (um evento novo a cada consulta)
+const FAKE_SEQUENCIA: Array<Omit<TrackingEvent, 'dataHora'>> = [
+  { codigo: 'PO', tipo: '01', descricao: 'Objeto postado', local: 'FORTALEZA/CE' },
+  { codigo: 'RO', tipo: '01', descricao: 'Objeto em trânsito - por favor aguarde', local: 'FORTALEZA/CE' },
+  { codigo: 'OEC', tipo: '01', descricao: 'Objeto saiu para entrega ao destinatário', local: 'SAO PAULO/SP' },
+  { codigo: 'BDE', tipo: '01', descricao: 'Objeto entregue ao destinatário', local: 'SAO PAULO/SP' },
+];
+
+const fakeHistorico = new Map<string, TrackingEvent[]>();
+
+// Provider fake para desenvolvimento local (não acessa os Correios)
+function createFakeTrackingProvider(): TrackingProvider {
+  return {
+    name: 'fake',
+    maxCodigosPorConsulta: 50,
+    async rastrear(codigos: string[]) {
+      const resultado = new Map<string, TrackingEvent[]>();
+
+      for (const codigo of codigos) {
+        const eventos = fakeHistorico.get(codigo) || [];
+        if (eventos.length < FAKE_SEQUENCIA.length) {
+          eventos.unshift({ ...FAKE_SEQUENCIA[eventos.length], dataHora: new Date().toISOString() });
+          fakeHistorico.set(codigo, eventos);
+        }
+        resultado.set(codigo, [...eventos]);
+      }
+
+      return resultado;
+    },
+  };
+}
+
+// Selecionar provider pelo env TRACKING_PROVIDER ('correios' | 'fake')
+export function getTrackingProvider(): TrackingProvider {
+  const provider = process.env.TRACKING_PROVIDER || 'correios';
+  return provider === 'fake' ? createFakeTrackingProvider() : createCorreiosProvider();
+}
@@ -0,0 +1,67 @@
+// Configuração da ViPP (Visual Set) - produção e teste (homologação)
+
+export interface VippConfig {
+  url: string; // Endpoint PostarObjeto
+  cancelarUrl: string; // Endpoint CancelarObjeto (vazio = cancelamento indisponível)
+  usuario: string;
+  token: string;
+  idPerfil: string;
+  servicoEct: string;
+  nrContrato: string;
+  codAdministrativo: string;
+  nrCartao: string;
+}
+
+// Destinatário como a postar-objeto recebe
+export interface DestinatarioVipp {
+  nome: string;
+  logradouro: string;
+  numero: string;
+  complemento: string;
+  bairro: string;
+  cidade: string;
+  uf: string;
+  cep: string;
+  telefone: string;
+  email: string;
+  documento: string;
+}
+
+const VIPP_API_URL = process.env.VIPP_API_URL || 'http://vpsrv.visualset.com.br/api/v1/middleware/PostarObjeto';
+// Sem padrão: o endpoint de cancelamento não segue o caminho da PostarObjeto em todos os ambientes
+const VIPP_CANCELAR_URL = process.env.VIPP_CANCELAR_URL || '';
+
+// Credenciais de PRODUÇÃO
+const VIPP_CONFIG_PROD: VippConfig = {
+  url: VIPP_API_URL,
+  cancelarUrl: VIPP_CANCELAR_URL,
+  usuario: process.env.VIPP_USUARIO || '',
+  token: process.env.VIPP_SENHA || '',
+  idPerfil: process.env.VIPP_ID_PERFIL || '',
+  servicoEct: process.env.VIPP_SERVICO_ECT || '',
+  nrContrato: process.env.VIPP_NR_CONTRATO || '',
+  codAdministrativo: process.env.VIPP_COD_ADMINISTRATIVO || '',
+  nrCartao: process.env.VIPP_NR_CARTAO || '',
+};
+
+// Credenciais de TESTE (homologação)
+const VIPP_CONFIG_TEST: VippConfig = {
+  url: VIPP_API_URL,
+  cancelarUrl: VIPP_CANCELAR_URL,
+  usuario: process.env.VIPP_USUARIO_TESTE || 'onbiws',
+  token: process.env.VIPP_SENHA_TESTE || '112233',
+  idPerfil: process.env.VIPP_ID_PERFIL_TESTE || '9363',
+  servicoEct: process.env.VIPP_SERVICO_ECT || '',
+  nrContrato: '', // Teste não usa contrato
+  codAdministrativo: '',
+  nrCartao: '',
+};
+
+export function getVippConfig(useTestCredentials?: boolean): VippConfig {
+  return useTestCredentials ? VIPP_CONFIG_TEST : VIPP_CONFIG_PROD;
+}
+
+// Erros retornados pela ViPP em ListaErros (vazio = sem erro)
+export function errosVipp(data: { ListaErros?: Array<{ Descricao: string }> } | null): string {
+  return (data?.ListaErros || []).map(e => e.Descricao).join(', ');
+}
@@ -0,0 +1,763 @@
+import { delay } from '@/lib/evolution';
+import { formatarTelefone } from '@/lib/telefone';
+import { carregarProvidersConfig, type ResultadoEnvioWhatsApp } from '@/lib/whatsappProviders';
+import { enfileirarMensagens } from '@/lib/whatsappQueue';
+import { registrarLogEnvio, type WhatsAppLogMensagem } from '@/lib/whatsappLog';
+import type { ResultadoEventoWebhook } from '@/lib/eventosWebhook';
+import {
+  EtiquetaProcessada,
+  MessageTemplateId,
+  buildAdminResumoContext,
+  buildEtiquetaContext,
+  fetchMessageTemplates,
+  renderMessageTemplate,
+} from '@/lib/messageTemplates';
+
+// Processamento do lote de etiquetas geradas (POST /api/webhook/etiquetas e reprocessamento do evento guardado)
+
+// URL do webhook N8N - configure no .env
+const N8N_WEBHOOK_URL = process.env.N8N_WEBHOOK_URL || '';
+
+// Configuração ViPP para gerar URL do PDF - PRODUÇÃO
+const VIPP_PRINT_CONFIG_PROD = {
+  url: `${process.env.VIPP_URL || 'https://vipp.visualset.com.br/vipp/remoto'}/ImpressaoRemota.php`,
+  usuario: process.env.VIPP_USUARIO || '',
+  senha: process.env.VIPP_SENHA || '',
+};
+
+// Configuração ViPP para gerar URL do PDF - TESTE
+const VIPP_PRINT_CONFIG_TEST = {
+  url: `${process.env.VIPP_URL || 'https://vipp.visualset.com.br/vipp/remoto'}/ImpressaoRemota.php`,
+  usuario: process.env.VIPP_USUARIO_TESTE || 'onbiws',
+  senha: process.env.VIPP_SENHA_TESTE || '112233',
+};
+
+// Configuração SwipeOne API para rastreio
+const SWIPEONE_CONFIG = {
+  apiUrl: 'https://api.swipeone.com',
+  apiKey: process.env.SWIPE_ONE_API || '',
+  workspaceId: '6940ca7e21f105674fb79e5b',
+};
+
+interface EtiquetaData {
+  codigo: string;
+  transactionId: string;
+  produto: string;
+  dataPedido?: string;
+  destinatario: {
+    nome: string;
+    telefone: string;
+    email: string;
+    logradouro: string;
+    numero: string;
+    complemento: string;
+    bairro: string;
+    cidade: string;
+    uf: string;
+    cep: string;
+  };
+  // Campos para envio parcial
+  envioNumero?: number;
+  enviosTotal?: number;
+  isEnvioParcial?: boolean;
+  observacaoEnvio?: string;
+  // Campos para pedidos mesclados
+  isMerged?: boolean;
+  mergedTransactionIds?: string[];
+  produtos?: string[];
+  // Pedido em mais de uma caixa: códigos de todos os volumes da mesma postagem
+  volumesCodigos?: string[];
+}
+
+interface WebhookConfig {
+  adminPhone: string; // Telefone do admin (obrigatório)
+  clientPhoneOverride?: string; // Se preenchido, substitui o número do cliente
+  sendClientNotification: boolean; // Se true, envia WhatsApp para clientes
+  ordemPrioridade?: 'antigos' | 'novos'; // Ordem de prioridade dos envios
+  observacaoGeral?: string; // Observação geral do lote
+  useTestCredentials?: boolean; // Se true, usa credenciais de teste VIPP
+}
+
+export interface WebhookRequest {
+  etiquetas: EtiquetaData[]; // Etiquetas novas (cliente recebe WhatsApp)
+  etiquetasAdmin?: EtiquetaData[]; // Todas etiquetas (admin recebe WhatsApp)
+  config: WebhookConfig; // Configurações vindas do Firebase
+}
+
+// Gera URL direta para download do PDF da ViPP (uma ou várias etiquetas)
+// Variável global para armazenar se está em modo teste (setada no POST)
+let currentUseTestCredentials = false;
+
+function gerarUrlPdf(codigos: string | string[]): string {
+  const VIPP_PRINT_CONFIG = currentUseTestCredentials ? VIPP_PRINT_CONFIG_TEST : VIPP_PRINT_CONFIG_PROD;
+  const lista = Array.isArray(codigos) ? codigos.join(',') : codigos;
+  const params = new URLSearchParams({
+    Usr: VIPP_PRINT_CONFIG.usuario,
+    Pwd: VIPP_PRINT_CONFIG.senha,
+    Filtro: '1',
+    Saida: '20',
+    Lista: lista,
+  });
+  console.log(`[PDF] Usando credenciais de ${currentUseTestCredentials ? 'TESTE' : 'PRODUÇÃO'} para URL do PDF`);
+  return `${VIPP_PRINT_CONFIG.url}?${params.toString()}`;
+}
+
+// Gera mensagem personalizada para o cliente (template editável em message_templates)
+function gerarMensagemCliente(e: EtiquetaProcessada, templates: Record<MessageTemplateId, string>): string {
+  return renderMessageTemplate('cliente_etiqueta', buildEtiquetaContext(e), templates);
+}
+
+// Colocar mensagens dos clientes na fila do WhatsApp (o worker envia com delay entre elas)
+async function enfileirarWhatsAppClientes(etiquetas: Array<{
+  clienteTelefone: string | null;
+  clienteNome: string;
+  clienteEmail: string;
+  transactionId: string;
+  mergedTransactionIds?: string[];
+  codigo: string;
+  mensagemCliente: string;
+}>): Promise<{ enfileirados: number }> {
+  const etiquetasComTelefone = etiquetas.filter(e => e.clienteTelefone && e.clienteTelefone.trim() !== '');
+
+  const ids = await enfileirarMensagens(etiquetasComTelefone.map(e => ({
+    telefone: e.clienteTelefone!,
+    mensagem: e.mensagemCliente,
+    tipo: 'cliente_etiqueta' as const,
+    referencia: {
+      clienteNome: e.clienteNome,
+      clienteEmail: e.clienteEmail,
+      transactionId: e.transactionId,
+      transactionIds: e.mergedTransactionIds,
+      codigo: e.codigo,
+    },
+  })));
+
+  console.log(`[WhatsApp Cliente] ${ids.length} mensagem(s) colocada(s) na fila`);
+  return { enfileirados: ids.length };
+}
+
+// Mensagens entregues ao N8N no payload não passam pela fila: o histórico é gravado aqui com o resultado do webhook
+async function registrarLogEnviosN8n(mensagens: WhatsAppLogMensagem[], resultado: ResultadoEnvioWhatsApp): Promise<void> {
+  for (const mensagem of mensagens) {
+    try {
+      await registrarLogEnvio(mensagem, 1, resultado);
+    } catch (logError) {
+      console.error('[WhatsApp N8N] Erro ao gravar histórico:', logError);
+    }
+  }
+}
+
+// ========== SWIPEONE - Integração de Rastreio ==========
+
+interface SwipeOneContact {
+  _id: string;
+  email: string;
+  fullName?: string;
+  phone?: { countryCode: string; number: string };
+  customProperties?: {
+    ultimo_rastreio?: string;
+    todos_rastreios?: string;
+  };
+}
+
+// Timeout para requisições SwipeOne (10 segundos)
+const SWIPEONE_TIMEOUT_MS = 10000;
+
+// Fetch com timeout para SwipeOne
+async function fetchWithTimeout(url: string, options: RequestInit, timeoutMs: number = SWIPEONE_TIMEOUT_MS): Promise<Response> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(url, {
+      ...options,
+      signal: controller.signal,
+    });
+    return response;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+// Criar ou atualizar contato no SwipeOne com rastreio (upsert via POST)
+async function upsertContatoComRastreio(dados: {
+  email: string;
+  nome: string;
+  telefone?: string;
+  codigoRastreio: string;
+  todosRastreiosAnteriores?: string;
+}): Promise<{ success: boolean; contact?: SwipeOneContact }> {
+  try {
+    // Concatenar rastreios
+    const novoTodosRastreios = dados.todosRastreiosAnteriores
+      ? `${dados.todosRastreiosAnteriores}, ${dados.codigoRastreio}`
+      : dados.codigoRastreio;
+
+    // Payload com campos no root level (SwipeOne aceita assim para custom properties)
+    const payload: Record<string, string> = {
+      email: dados.email,
+      fullName: dados.nome,
+      ultimo_rastreio: dados.codigoRastreio,
+      todos_rastreios: novoTodosRastreios,
+    };
+
+    if (dados.telefone) {
+      payload.phone = dados.telefone;
+    }
+
+    const response = await fetchWithTimeout(
+      `${SWIPEONE_CONFIG.apiUrl}/api/workspaces/${SWIPEONE_CONFIG.workspaceId}/contacts`,
+      {
+        method: 'POST',
+        headers: {
+          'x-api-key': SWIPEONE_CONFIG.apiKey,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(payload),
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`[SwipeOne] Erro ao upsert contato: ${response.status} - ${errorText}`);
+      return { success: false };
+    }
+
+    const data = await response.json();
+    const contact = data?.data?.contact;
+
+    if (contact) {
+      console.log(`[SwipeOne] Contato atualizado: ${dados.email} | ultimo=${dados.codigoRastreio} | todos=${novoTodosRastreios}`);
+      return { success: true, contact };
+    }
+
+    return { success: false };
+  } catch (error) {
+    // Captura timeout e outros erros sem propagar
+    const errorMsg = error instanceof Error ? error.message : 'Erro desconhecido';
+    if (errorMsg.includes('abort')) {
+      console.error(`[SwipeOne] Timeout ao upsert contato: ${dados.email}`);
+    } else {
+      console.error(`[SwipeOne] Erro ao upsert contato:`, errorMsg);
+    }
+    return { success: false };
+  }
+}
+
+// Buscar contato no SwipeOne por email (para pegar todos_rastreios existente)
+async function buscarContatoSwipeOne(email: string): Promise<SwipeOneContact | null> {
+  try {
+    // POST para buscar/criar retorna o contato existente se já existe
+    const response = await fetchWithTimeout(
+      `${SWIPEONE_CONFIG.apiUrl}/api/workspaces/${SWIPEONE_CONFIG.workspaceId}/contacts`,
+      {
+        method: 'POST',
+        headers: {
+          'x-api-key': SWIPEONE_CONFIG.apiKey,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email }),
+      }
+    );
+
+    if (!response.ok) {
+      console.error(`[SwipeOne] Erro ao buscar contato: ${response.status}`);
+      return null;
+    }
+
+    const data = await response.json();
+    const contact = data?.data?.contact;
+
+    if (contact) {
+      console.log(`[SwipeOne] Contato encontrado: ${email}`);
+      return contact;
+    }
+
+    return null;
+  } catch (error) {
+    // Captura timeout e outros erros sem propagar
+    const errorMsg = error instanceof Error ? error.message : 'Erro desconhecido';
+    if (errorMsg.includes('abort')) {
+      console.error(`[SwipeOne] Timeout ao buscar contato: ${email}`);
+    } else {
+      console.error(`[SwipeOne] Erro ao buscar contato:`, errorMsg);
+    }
+    return null;
+  }
+}
+
+// Processar rastreios no SwipeOne para lista de etiquetas
+async function processarRastreiosSwipeOne(etiquetas: Array<{
+  clienteEmail: string;
+  clienteNome: string;
+  clienteTelefone: string | null;
+  codigo: string;
+}>): Promise<{ processados: number; erros: number }> {
+  let processados = 0;
+  let erros = 0;
+
+  // Filtrar etiquetas com email válido
+  const etiquetasComEmail = etiquetas.filter(e => e.clienteEmail && e.clienteEmail.includes('@'));
+
+  if (etiquetasComEmail.length === 0) {
+    console.log('[SwipeOne] Nenhuma etiqueta com email válido para processar');
+    return { processados: 0, erros: 0 };
+  }
+
+  console.log(`[SwipeOne] Processando ${etiquetasComEmail.length} etiqueta(s) com email válido`);
+
+  for (const etiqueta of etiquetasComEmail) {
+    try {
+      // 1. Buscar contato existente para pegar todos_rastreios anterior
+      const contatoExistente = await buscarContatoSwipeOne(etiqueta.clienteEmail);
+      const todosRastreiosAnteriores = contatoExistente?.customProperties?.todos_rastreios;
+
+      // Código já registrado (reprocessamento do lote): não concatena de novo
+      if (todosRastreiosAnteriores?.split(',').map(c => c.trim()).includes(etiqueta.codigo)) {
+        console.log(`[SwipeOne] ${etiqueta.codigo} já está em todos_rastreios de ${etiqueta.clienteEmail}, pulando`);
+        processados++;
+        continue;
+      }
+
+      // 2. Upsert com novo rastreio
+      const resultado = await upsertContatoComRastreio({
+        email: etiqueta.clienteEmail,
+        nome: etiqueta.clienteNome,
+        telefone: etiqueta.clienteTelefone || undefined,
+        codigoRastreio: etiqueta.codigo,
+        todosRastreiosAnteriores,
+      });
+
+      if (resultado.success) {
+        processados++;
+      } else {
+        erros++;
+      }
+
+      // Delay para não sobrecarregar API
+      await delay(500);
+    } catch (error) {
+      console.error(`[SwipeOne] Erro ao processar ${etiqueta.clienteEmail}:`, error);
+      erros++;
+    }
+  }
+
+  console.log(`[SwipeOne] Concluído: ${processados} processado(s), ${erros} erro(s)`);
+  return { processados, erros };
+}
+
+// ========== FIM SWIPEONE ==========
+
+// Passos do lote com efeito externo, guardados no evento quando dão certo
+export type EtapaWebhookEtiquetas = 'n8n' | 'whatsapp_clientes' | 'whatsapp_admin' | 'swipeone' | 'planilha';
+
+// Resposta da rota + resultado para o registro do evento
+export interface ResultadoWebhookEtiquetas {
+  status: number;
+  resposta: Record<string, unknown>;
+  evento: ResultadoEventoWebhook;
+}
+
+function recusar(erro: string): ResultadoWebhookEtiquetas {
+  return { status: 400, resposta: { error: erro }, evento: { status: 'erro', tipo: 'lote', erro } };
+}
+
+// Processar um lote de etiquetas geradas (chamado pela rota e pelo reprocessamento de eventos).
+// etapasConcluidas vem do evento guardado: no reprocessamento os passos que já deram certo são pulados
+export async function processarWebhookEtiquetas(
+  body: WebhookRequest,
+  appOrigin: string,
+  etapasConcluidas: string[] = []
+): Promise<ResultadoWebhookEtiquetas> {
+  const { etiquetas, etiquetasAdmin, config } = body;
+  const concluidas = new Set(etapasConcluidas);
+  const pular = (etapa: EtapaWebhookEtiquetas) => {
+    if (!concluidas.has(etapa)) return false;
+    console.log(`[Webhook Etiquetas] Etapa "${etapa}" já concluída, pulando`);
+    return true;
+  };
+
+  // Setar credenciais de teste/produção para URL do PDF
+  currentUseTestCredentials = config.useTestCredentials || false;
+  console.log(`[VIPP] Modo: ${currentUseTestCredentials ? 'TESTE' : 'PRODUÇÃO'}`);
+
+  console.log('\n========== WEBHOOK ETIQUETAS - RECEBIDO ==========');
+  // Log específico para debug de campos UF
+  const allEtiquetas = [...(etiquetas || []), ...(etiquetasAdmin || [])];
+  if (allEtiquetas.length > 0) {
+    console.log('[DEBUG] Campos de endereço recebidos:');
+    allEtiquetas.forEach((e, i) => {
+      console.log(`  [${i}] Cidade="${e.destinatario?.cidade}" | UF="${e.destinatario?.uf}" | CEP="${e.destinatario?.cep}"`);
+    });
+  }
+  console.log('==================================================\n');
+
+  // Validar config
+  if (!config || !config.adminPhone) {
+    return recusar('Configuração com adminPhone é obrigatória');
+  }
+
+  // Usar etiquetasAdmin se fornecido, senão usar etiquetas (compatibilidade)
+  const todasEtiquetas = etiquetasAdmin && etiquetasAdmin.length > 0 ? etiquetasAdmin : etiquetas;
+  const etiquetasNovas = etiquetas || [];
+
+  if ((!todasEtiquetas || todasEtiquetas.length === 0) && etiquetasNovas.length === 0) {
+    return recusar('Array de etiquetas é obrigatório');
+  }
+
+  // Formatar número do admin (vindo do config/Firebase)
+  const adminPhoneFormatted = formatarTelefone(config.adminPhone);
+  if (!adminPhoneFormatted) {
+    console.error('adminPhone inválido:', config.adminPhone);
+    return recusar('Número do admin inválido');
+  }
+
+  // Formatar número de override do cliente (se existir no config)
+  const clientePhoneOverride = config.clientPhoneOverride ? formatarTelefone(config.clientPhoneOverride) : null;
+
+  // Flag para enviar WhatsApp ao cliente (vindo do config/Firebase)
+  const enviarWhatsappCliente = config.sendClientNotification;
+
+  // Templates das mensagens (salvos no Firebase ou padrão)
+  const templates = await fetchMessageTemplates();
+
+  // Provider de cada tipo de mensagem - 'n8n' mantém o envio pelo payload abaixo
+  const providersConfig = await carregarProvidersConfig();
+
+  // Processar etiquetas NOVAS para envio ao cliente (WhatsApp)
+  const etiquetasNovasProcessadas = etiquetasNovas.map(e => {
+    let clienteTelefone: string | null = null;
+
+    if (clientePhoneOverride) {
+      clienteTelefone = clientePhoneOverride;
+    } else {
+      clienteTelefone = formatarTelefone(e.destinatario.telefone);
+    }
+
+    const etiquetaProcessada: EtiquetaProcessada = {
+      codigo: e.codigo,
+      pdfUrl: gerarUrlPdf(e.volumesCodigos || e.codigo),
+      transactionId: e.transactionId,
+      produto: e.produto,
+      dataPedido: e.dataPedido || '',
+      clienteNome: e.destinatario.nome,
+      clienteTelefone: clienteTelefone,
+      clienteEmail: e.destinatario.email,
+      clienteLogradouro: e.destinatario.logradouro,
+      clienteNumero: e.destinatario.numero,
+      clienteComplemento: e.destinatario.complemento,
+      clienteBairro: e.destinatario.bairro,
+      clienteCidade: e.destinatario.cidade,
+      clienteUf: e.destinatario.uf,
+      clienteCep: e.destinatario.cep,
+      // Campos de envio parcial
+      envioNumero: e.envioNumero || 1,
+      enviosTotal: e.enviosTotal || 1,
+      isEnvioParcial: e.isEnvioParcial || false,
+      observacaoEnvio: e.observacaoEnvio || '',
+      // Campos de merge
+      isMerged: e.isMerged || false,
+      mergedTransactionIds: e.mergedTransactionIds || [],
+      produtos: e.produtos || [],
+      volumesCodigos: e.volumesCodigos || [e.codigo],
+    };
+
+    return {
+      ...etiquetaProcessada,
+      // Mensagem pronta para enviar ao cliente via WhatsApp
+      mensagemCliente: gerarMensagemCliente(etiquetaProcessada, templates),
+    };
+  });
+
+  // Processar TODAS etiquetas para o admin
+  const todasEtiquetasProcessadas = todasEtiquetas.map(e => ({
+    codigo: e.codigo,
+    pdfUrl: gerarUrlPdf(e.volumesCodigos || e.codigo),
+    transactionId: e.transactionId,
+    produto: e.produto,
+    dataPedido: e.dataPedido || '',
+    clienteNome: e.destinatario.nome,
+    clienteEmail: e.destinatario.email,
+    clienteLogradouro: e.destinatario.logradouro,
+    clienteNumero: e.destinatario.numero,
+    clienteComplemento: e.destinatario.complemento,
+    clienteBairro: e.destinatario.bairro,
+    clienteCidade: e.destinatario.cidade,
+    clienteUf: e.destinatario.uf,
+    clienteCep: e.destinatario.cep,
+    isNova: etiquetasNovas.some(n => n.codigo === e.codigo),
+    // Campos de envio parcial
+    envioNumero: e.envioNumero || 1,
+    enviosTotal: e.enviosTotal || 1,
+    isEnvioParcial: e.isEnvioParcial || false,
+    observacaoEnvio: e.observacaoEnvio || '',
+    // Campos de merge
+    isMerged: e.isMerged || false,
+    mergedTransactionIds: e.mergedTransactionIds || [],
+    produtos: e.produtos || [],
+    volumesCodigos: e.volumesCodigos || [e.codigo],
+  }));
+
+  // Filtrar etiquetas NOVAS que têm telefone válido (para envio ao cliente)
+  // Verifica se não é null E não é string vazia
+  const etiquetasNovasComTelefone = etiquetasNovasProcessadas.filter(e => e.clienteTelefone && e.clienteTelefone.trim() !== '');
+  const etiquetasNovasSemTelefone = etiquetasNovasProcessadas.filter(e => !e.clienteTelefone || e.clienteTelefone.trim() === '');
+
+  if (etiquetasNovasSemTelefone.length > 0) {
+    console.log(`${etiquetasNovasSemTelefone.length} etiqueta(s) NOVA(s) sem telefone válido:`,
+      etiquetasNovasSemTelefone.map(e => `${e.clienteNome} (${e.codigo})`));
+  }
+
+  // Gerar URL consolidada do PDF para o admin (todas as etiquetas em um único PDF)
+  const pdfUrlConsolidada = gerarUrlPdf(todasEtiquetas.flatMap(e => e.volumesCodigos || [e.codigo]));
+
+  // Gerar mensagem formatada para o admin
+  const etiquetasAntigas = todasEtiquetasProcessadas.filter(e => !e.isNova);
+  const mensagemAdmin = renderMessageTemplate(
+    'admin_resumo',
+    buildAdminResumoContext({
+      novas: todasEtiquetasProcessadas.filter(e => e.isNova),
+      antigas: etiquetasAntigas,
+      ordemPrioridade: config.ordemPrioridade,
+      observacaoGeral: config.observacaoGeral,
+    }),
+    templates
+  );
+
+  // Preparar dados para o N8N
+  // - etiquetas: NOVAS com telefone (cliente recebe WhatsApp individual) - só se sendClientNotification=true
+  // - todasEtiquetas: TODAS (admin recebe resumo + PDF consolidado)
+
+  // Se sendClientNotification=false, envia array vazio para não disparar WhatsApp aos clientes
+  const etiquetasParaCliente = enviarWhatsappCliente ? etiquetasNovasComTelefone : [];
+
+  // Tipos enviados pela fila (outro provider) saem do payload para o N8N não mandar a mesma mensagem de novo
+  const adminPeloN8n = providersConfig.admin_resumo === 'n8n';
+  const clientePeloN8n = providersConfig.cliente_etiqueta === 'n8n';
+
+  if (!enviarWhatsappCliente && etiquetasNovasComTelefone.length > 0) {
+    console.log(`⚠️ sendClientNotification=false - ${etiquetasNovasComTelefone.length} cliente(s) NÃO receberão WhatsApp`);
+  }
+
+  // Gerar nome do arquivo baseado na quantidade de etiquetas
+  const dataAtual = new Date().toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit', year: 'numeric' });
+  const fileName = todasEtiquetas.length === 1
+    ? `${todasEtiquetasProcessadas[0]?.clienteNome || 'Etiqueta'} - ${dataAtual}`
+    : `Etiquetas - ${dataAtual}`;
+
+  const webhookPayload = {
+    timestamp: new Date().toISOString(),
+    totalNovas: etiquetasNovas.length,
+    totalAdmin: todasEtiquetas.length,
+    adminPhone: adminPhoneFormatted,
+    // Nome do arquivo para caption e download
+    fileName: fileName,
+    // URL do PDF consolidado (todas etiquetas em um único arquivo) - usar no admin
+    pdfUrlConsolidada: pdfUrlConsolidada,
+    // Mensagem formatada para o admin - só quando o resumo do admin sai pelo N8N
+    ...(adminPeloN8n && { mensagemAdmin }),
+    // Etiquetas NOVAS com telefone válido (cliente recebe WhatsApp) - vazio se WHATSAPP_ENVIAR_CLIENTE=false
+    // ou se o WhatsApp do cliente sai pela fila
+    etiquetas: clientePeloN8n ? etiquetasParaCliente : [],
+    // TODAS as etiquetas (admin recebe)
+    todasEtiquetas: todasEtiquetasProcessadas,
+    // Opções de envio
+    opcoes: {
+      ordemPrioridade: config.ordemPrioridade || 'antigos',
+      observacaoGeral: config.observacaoGeral || '',
+    },
+    // Resumo para mensagem consolidada do admin
+    resumo: {
+      quantidadeNovas: etiquetasNovas.length,
+      quantidadeTotal: todasEtiquetas.length,
+      codigos: todasEtiquetas.map(e => e.codigo),
+      codigosNovos: etiquetasNovas.map(e => e.codigo),
+      semTelefone: etiquetasNovasSemTelefone.length,
+      enviarClienteDesabilitado: !enviarWhatsappCliente,
+    },
+  };
+
+  console.log('\n========== PAYLOAD PARA N8N ==========');
+  console.log(JSON.stringify(webhookPayload, null, 2));
+  console.log('======================================\n');
+
+  // Envios que falharam marcam o evento como falha (reprocessável)
+  const falhas: string[] = [];
+
+  // Enviar para N8N (admin)
+  if (N8N_WEBHOOK_URL && !pular('n8n')) {
+    console.log('Enviando para N8N:', N8N_WEBHOOK_URL);
+    let resultadoN8n: ResultadoEnvioWhatsApp;
+    try {
+      const n8nResponse = await fetch(N8N_WEBHOOK_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(webhookPayload),
+      });
+
+      const n8nResult = await n8nResponse.text();
+      console.log('Resposta N8N:', n8nResponse.status, n8nResult);
+
+      if (!n8nResponse.ok) {
+        console.error('N8N webhook error:', n8nResult);
+        falhas.push(`N8N respondeu ${n8nResponse.status}`);
+      } else {
+        concluidas.add('n8n');
+      }
+      resultadoN8n = {
+        success: n8nResponse.ok,
+        httpStatus: n8nResponse.status,
+        resposta: n8nResult || null,
+        provider: 'n8n',
+        ...(!n8nResponse.ok && { error: n8nResult || `N8N respondeu ${n8nResponse.status}` }),
+      };
+    } catch (webhookError) {
+      console.error('Erro ao enviar webhook N8N:', webhookError);
+      const errorMessage = webhookError instanceof Error ? webhookError.message : 'erro desconhecido';
+      falhas.push(`N8N: ${errorMessage}`);
+      resultadoN8n = { success: false, error: errorMessage, provider: 'n8n' };
+    }
+
+    // Histórico das mensagens que o N8N ficou encarregado de enviar (resumo do admin e WhatsApp dos clientes)
+    await registrarLogEnviosN8n([
+      ...(adminPeloN8n
+        ? [{ telefone: adminPhoneFormatted, mensagem: mensagemAdmin, tipo: 'admin_resumo' as const, referencia: { clienteNome: 'Admin' } }]
+        : []),
+      ...webhookPayload.etiquetas.map(e => ({
+        telefone: e.clienteTelefone!,
+        mensagem: e.mensagemCliente,
+        tipo: 'cliente_etiqueta' as const,
+        referencia: {
+          clienteNome: e.clienteNome,
+          clienteEmail: e.clienteEmail,
+          transactionId: e.transactionId,
+          transactionIds: e.mergedTransactionIds,
+          codigo: e.codigo,
+        },
+      })),
+    ], resultadoN8n);
+  } else if (!N8N_WEBHOOK_URL) {
+    console.log('N8N_WEBHOOK_URL não configurado!');
+  }
+
+  // Enfileirar WhatsApp para clientes (provider configurado para 'cliente_etiqueta')
+  let whatsappClienteResultado = { enfileirados: 0 };
+  if (!clientePeloN8n && enviarWhatsappCliente && etiquetasParaCliente.length > 0) {
+    if (!pular('whatsapp_clientes')) {
+      try {
+        whatsappClienteResultado = await enfileirarWhatsAppClientes(etiquetasParaCliente);
+        concluidas.add('whatsapp_clientes');
+      } catch (queueError) {
+        console.error('Erro ao enfileirar WhatsApp dos clientes:', queueError);
+        falhas.push(`Fila WhatsApp clientes: ${queueError instanceof Error ? queueError.message : 'erro desconhecido'}`);
+      }
+    }
+  } else if (clientePeloN8n) {
+    console.log('[WhatsApp Cliente] Provider N8N, deixando N8N enviar');
+  } else if (!enviarWhatsappCliente) {
+    console.log('[WhatsApp Cliente] Notificação ao cliente desabilitada');
+  }
+
+  // Resumo do admin pela fila quando o provider não é o N8N
+  let whatsappAdminEnfileirado = false;
+  if (!adminPeloN8n && !pular('whatsapp_admin')) {
+    try {
+      await enfileirarMensagens([{
+        telefone: adminPhoneFormatted,
+        mensagem: `${mensagemAdmin}\n📄 PDF: ${pdfUrlConsolidada}`,
+        tipo: 'admin_resumo',
+        referencia: { clienteNome: 'Admin' },
+      }]);
+      whatsappAdminEnfileirado = true;
+      concluidas.add('whatsapp_admin');
+    } catch (queueError) {
+      console.error('Erro ao enfileirar resumo do admin:', queueError);
+      falhas.push(`Fila WhatsApp admin: ${queueError instanceof Error ? queueError.message : 'erro desconhecido'}`);
+    }
+  }
+
+  // Dispara o worker da fila sem esperar o próximo minuto do scheduler
+  if (whatsappClienteResultado.enfileirados > 0 || whatsappAdminEnfileirado) {
+    fetch(`${appOrigin}/api/cron/whatsapp-fila`).catch(() => {});
+  }
+
+  // Enviar rastreios para SwipeOne (apenas etiquetas NOVAS com email válido)
+  let swipeOneResultado = { processados: 0, erros: 0 };
+  if (SWIPEONE_CONFIG.apiKey && etiquetasNovasProcessadas.length > 0 && !pular('swipeone')) {
+    console.log('\n========== ENVIANDO RASTREIOS SWIPEONE ==========');
+    try {
+      swipeOneResultado = await processarRastreiosSwipeOne(etiquetasNovasProcessadas);
+      if (swipeOneResultado.erros > 0) falhas.push(`SwipeOne: ${swipeOneResultado.erros} rastreio(s) com erro`);
+      else concluidas.add('swipeone');
+    } catch (swipeOneError) {
+      console.error('[SwipeOne] Erro ao processar rastreios:', swipeOneError);
+      falhas.push(`SwipeOne: ${swipeOneError instanceof Error ? swipeOneError.message : 'erro desconhecido'}`);
+    }
+    console.log('=================================================\n');
+  } else if (!SWIPEONE_CONFIG.apiKey) {
+    console.log('[SwipeOne] API Key não configurada, pulando integração');
+  }
+
+  // Cadastrar etiquetas NOVAS no Google Sheets (em paralelo, não bloqueia)
+  if (etiquetasNovas.length > 0 && !pular('planilha')) {
+    const dataGeracao = new Date().toLocaleString('pt-BR', { timeZone: 'America/Sao_Paulo' });
+    const etiquetasParaSheets = etiquetasNovasProcessadas.map(e => ({
+      codigo: e.codigo,
+      transactionId: e.transactionId,
+      dataPedido: e.dataPedido,
+      dataGeracao: dataGeracao,
+      produto: e.produto,
+      clienteNome: e.clienteNome,
+      clienteDocumento: '', // Não temos no processado, seria necessário passar do frontend
+      clienteTelefone: e.clienteTelefone || '',
+      clienteEmail: e.clienteEmail,
+      clienteLogradouro: e.clienteLogradouro,
+      clienteNumero: e.clienteNumero,
+      clienteComplemento: e.clienteComplemento,
+      clienteBairro: e.clienteBairro,
+      clienteCidade: e.clienteCidade,
+      clienteUf: e.clienteUf,
+      clienteCep: e.clienteCep,
+      envioNumero: e.envioNumero,
+      enviosTotal: e.enviosTotal,
+      isEnvioParcial: e.isEnvioParcial,
+      observacaoEnvio: e.observacaoEnvio,
+      isMerged: e.isMerged,
+      mergedTransactionIds: e.mergedTransactionIds,
+      produtos: e.produtos,
+      isTest: currentUseTestCredentials,
+    }));
+
+    // Fire and forget - não bloqueia a resposta
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || appOrigin;
+    fetch(`${appUrl}/api/google-sheets/etiquetas`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ etiquetas: etiquetasParaSheets }),
+    }).catch(err => console.error('[Google Sheets] Erro ao cadastrar:', err));
+
+    console.log(`[Google Sheets] Enviando ${etiquetasNovas.length} etiqueta(s) para planilha...`);
+    // Disparo sem retorno: conta como feito para o reprocessamento não duplicar linhas na planilha
+    concluidas.add('planilha');
+  }
+
+  const message = `Webhook disparado: ${etiquetasNovas.length} nova(s), ${todasEtiquetas.length} total para admin`;
+  return {
+    status: 200,
+    resposta: {
+      success: true,
+      message,
+      whatsappCliente: whatsappClienteResultado,
+      swipeOne: swipeOneResultado,
+      payload: webhookPayload,
+      falhas,
+    },
+    evento: {
+      status: falhas.length > 0 ? 'erro' : 'processado',
+      tipo: 'lote',
+      mensagem: message,
+      erro: falhas.length > 0 ? falhas.join('; ') : undefined,
+      etapasConcluidas: [...concluidas],
+    },
+  };
+}
@@ -0,0 +1,326 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { ColumnMap, STAGES, safeString, criarCacheDatacrazy, processarEstornoComCache, processarRegistroComCache } from '@/lib/datacrazy';
+import type { StatusEventoWebhook } from '@/lib/eventosWebhook';
+import { telefoneComDdi } from '@/lib/telefone';
+
+// Webhooks nativos das plataformas de venda: assinatura de cada uma, payload normalizado no mesmo
+// formato de registro da importação de CSV e cadastro no Datacrazy (lead + negócio)
+
+export type PlataformaWebhook = 'hotmart' | 'kiwify' | 'eduzz' | 'hubla';
+
+export const PLATAFORMAS_WEBHOOK: PlataformaWebhook[] = ['hotmart', 'kiwify', 'eduzz', 'hubla'];
+
+// Segredo de cada plataforma (hottok, token ou chave de assinatura configurados no painel dela)
+const SEGREDOS: Record<PlataformaWebhook, string> = {
+  hotmart: process.env.HOTMART_HOTTOK || '',
+  kiwify: process.env.KIWIFY_WEBHOOK_TOKEN || '',
+  eduzz: process.env.EDUZZ_WEBHOOK_SECRET || '',
+  hubla: process.env.HUBLA_WEBHOOK_TOKEN || '',
+};
+
+const VARIAVEIS_SEGREDO: Record<PlataformaWebhook, string> = {
+  hotmart: 'HOTMART_HOTTOK',
+  kiwify: 'KIWIFY_WEBHOOK_TOKEN',
+  eduzz: 'EDUZZ_WEBHOOK_SECRET',
+  hubla: 'HUBLA_WEBHOOK_TOKEN',
+};
+
+// Venda normalizada: um "registro" como os das linhas do CSV
+export interface VendaWebhook {
+  transactionId: string;
+  email: string;
+  nome: string;
+  telefone: string;
+  documento: string;
+  produto: string;
+  valor: string;
+  cep: string;
+  endereco: string;
+  numero: string;
+  complemento: string;
+  bairro: string;
+  cidade: string;
+  uf: string;
+}
+
+export interface EventoPlataforma {
+  tipo: string; // Evento informado pela plataforma
+  aprovada: boolean; // Pagamento confirmado (só esses viram negócio)
+  estornada: boolean; // Reembolso, chargeback ou cancelamento (negócio vai para o stage de estorno)
+  venda: VendaWebhook;
+}
+
+export interface ResultadoEventoPlataforma {
+  status: Extract<StatusEventoWebhook, 'processado' | 'ignorado'>;
+  tipo: string;
+  chave: string;
+  mensagem: string;
+}
+
+// Colunas do registro normalizado para processarRegistroComCache (status já filtrado pelo evento; "status" só vai na mensagem do estorno)
+const COLUNAS_VENDA_WEBHOOK: ColumnMap = {
+  email: 'email',
+  name: 'nome',
+  phone: 'telefone',
+  taxId: 'documento',
+  product: 'produto',
+  transactionId: 'transactionId',
+  total: 'valor',
+  status: 'status',
+  statusPaid: [],
+  zip: 'cep',
+  address: 'endereco',
+  addressNumber: 'numero',
+  addressComplement: 'complemento',
+  neighborhood: 'bairro',
+  city: 'cidade',
+  state: 'uf',
+};
+
+export function ehPlataformaWebhook(valor: string): valor is PlataformaWebhook {
+  return (PLATAFORMAS_WEBHOOK as string[]).includes(valor);
+}
+
+function textosIguais(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+}
+
+function hmacHex(algoritmo: 'sha1' | 'sha256', segredo: string, corpo: string): string {
+  return createHmac(algoritmo, segredo).update(corpo).digest('hex');
+}
+
+// Conferir se o evento veio da plataforma (null = válido, senão o motivo da recusa)
+export function verificarAssinaturaPlataforma(
+  plataforma: PlataformaWebhook,
+  headers: Headers,
+  parametros: URLSearchParams,
+  corpo: string,
+  payload: Record<string, unknown>
+): string | null {
+  const segredo = SEGREDOS[plataforma];
+  if (!segredo) return `${VARIAVEIS_SEGREDO[plataforma]} não configurado`;
+
+  switch (plataforma) {
+    case 'hotmart': {
+      // Webhook 2.0 manda no header; postback antigo, no corpo
+      const hottok = headers.get('x-hotmart-hottok') || safeString(payload.hottok);
+      return textosIguais(hottok, segredo) ? null : 'Hottok inválido';
+    }
+    case 'kiwify': {
+      // HMAC-SHA1 do corpo com o token do webhook, na query ?signature=
+      const assinatura = parametros.get('signature') || '';
+      return textosIguais(assinatura, hmacHex('sha1', segredo, corpo)) ? null : 'Assinatura inválida';
+    }
+    case 'eduzz': {
+      // HMAC-SHA256 do corpo com a chave do webhook, no header x-signature
+      const assinatura = headers.get('x-signature') || '';
+      return textosIguais(assinatura, hmacHex('sha256', segredo, corpo)) ? null : 'Assinatura inválida';
+    }
+    case 'hubla': {
+      const token = headers.get('x-hubla-token') || '';
+      return textosIguais(token, segredo) ? null : 'Token inválido';
+    }
+  }
+}
+
+// Acesso tolerante aos payloads (campos mudam entre versões de cada plataforma)
+function objeto(valor: unknown): Record<string, unknown> {
+  return valor && typeof valor === 'object' && !Array.isArray(valor) ? valor as Record<string, unknown> : {};
+}
+
+function primeiro(...valores: unknown[]): string {
+  for (const valor of valores) {
+    const texto = safeString(valor);
+    if (texto) return texto;
+  }
+  return '';
+}
+
+function centavos(valor: unknown): string {
+  const numero = Number(valor);
+  return Number.isFinite(numero) && numero > 0 ? (numero / 100).toFixed(2) : '';
+}
+
+function normalizarHotmart(payload: Record<string, unknown>): EventoPlataforma {
+  const data = objeto(payload.data);
+  const buyer = objeto(data.buyer);
+  const purchase = objeto(data.purchase);
+  const address = objeto(buyer.address);
+  const tipo = safeString(payload.event);
+
+  // DDI vem separado no checkout (a normalização acontece no cadastro)
+  const telefone = telefoneComDdi(primeiro(buyer.checkout_phone, buyer.phone), safeString(buyer.checkout_phone_code));
+
+  return {
+    tipo,
+    aprovada: tipo === 'PURCHASE_APPROVED' || tipo === 'PURCHASE_COMPLETE',
+    estornada: ['PURCHASE_REFUNDED', 'PURCHASE_CHARGEBACK', 'PURCHASE_CANCELED'].includes(tipo),
+    venda: {
+      transactionId: safeString(purchase.transaction),
+      email: safeString(buyer.email),
+      nome: primeiro(buyer.name, `${safeString(buyer.first_name)} ${safeString(buyer.last_name)}`),
+      telefone,
+      documento: safeString(buyer.document),
+      produto: safeString(objeto(data.product).name),
+      valor: primeiro(objeto(purchase.price).value, objeto(purchase.original_offer_price).value),
+      cep: primeiro(address.zipcode, address.zip_code),
+      endereco: safeString(address.address),
+      numero: safeString(address.number),
+      complemento: safeString(address.complement),
+      bairro: safeString(address.neighborhood),
+      cidade: safeString(address.city),
+      uf: primeiro(address.state, address.state_code),
+    },
+  };
+}
+
+function normalizarKiwify(payload: Record<string, unknown>): EventoPlataforma {
+  const customer = objeto(payload.Customer);
+  const commissions = objeto(payload.Commissions);
+  const status = safeString(payload.order_status);
+
+  return {
+    tipo: primeiro(payload.webhook_event_type, status),
+    aprovada: status === 'paid',
+    estornada: status === 'refunded' || status === 'chargedback',
+    venda: {
+      transactionId: safeString(payload.order_id),
+      email: safeString(customer.email),
+      nome: primeiro(customer.full_name, customer.first_name),
+      telefone: primeiro(customer.mobile, customer.phone),
+      documento: primeiro(customer.CPF, customer.cnpj),
+      produto: safeString(objeto(payload.Product).product_name),
+      valor: centavos(primeiro(commissions.charge_amount, commissions.product_base_price)),
+      cep: safeString(customer.zipcode),
+      endereco: safeString(customer.street),
+      numero: safeString(customer.number),
+      complemento: safeString(customer.complement),
+      bairro: safeString(customer.neighborhood),
+      cidade: safeString(customer.city),
+      uf: safeString(customer.state),
+    },
+  };
+}
+
+function normalizarEduzz(payload: Record<string, unknown>): EventoPlataforma {
+  const data = objeto(payload.data);
+  const buyer = objeto(data.buyer);
+  const address = objeto(buyer.address);
+  const itens = Array.isArray(data.items) ? data.items.map(objeto) : [];
+  const tipo = safeString(payload.event);
+
+  return {
+    tipo,
+    aprovada: tipo === 'myeduzz.invoice_paid' || safeString(data.status) === 'paid',
+    estornada: ['myeduzz.invoice_refunded', 'myeduzz.invoice_canceled', 'myeduzz.invoice_chargeback'].includes(tipo) ||
+      ['refunded', 'canceled', 'chargeback'].includes(safeString(data.status)),
+    venda: {
+      transactionId: safeString(data.id),
+      email: safeString(buyer.email),
+      nome: safeString(buyer.name),
+      telefone: primeiro(buyer.cellphone, buyer.phone),
+      documento: safeString(buyer.document),
+      produto: primeiro(itens[0]?.name, objeto(data.product).name),
+      valor: primeiro(objeto(data.paid).value, objeto(data.price).value),
+      cep: primeiro(address.zipCode, address.zipcode),
+      endereco: safeString(address.street),
+      numero: safeString(address.number),
+      complemento: safeString(address.complement),
+      bairro: safeString(address.neighborhood),
+      cidade: safeString(address.city),
+      uf: safeString(address.state),
+    },
+  };
+}
+
+function normalizarHubla(payload: Record<string, unknown>): EventoPlataforma {
+  const event = objeto(payload.event);
+  const invoice = objeto(event.invoice);
+  const payer = objeto(invoice.payer);
+  const user = Object.keys(payer).length > 0 ? payer : objeto(event.user);
+  const address = objeto(user.address);
+  const produtos = Array.isArray(event.products) ? event.products.map(objeto) : [];
+  const tipo = safeString(payload.type);
+
+  return {
+    tipo,
+    aprovada: tipo === 'invoice.payment_succeeded' || tipo === 'NewSale',
+    estornada: tipo === 'invoice.refunded' || tipo === 'invoice.chargeback' || tipo === 'CanceledSale',
+    venda: {
+      transactionId: primeiro(invoice.id, objeto(event.subscription).id),
+      email: safeString(user.email),
+      nome: primeiro(user.fullName, `${safeString(user.firstName)} ${safeString(user.lastName)}`),
+      telefone: safeString(user.phone),
+      documento: safeString(user.document),
+      produto: primeiro(objeto(event.product).name, produtos[0]?.name),
+      valor: centavos(objeto(invoice.amount).totalCents),
+      cep: primeiro(address.zipCode, address.postalCode),
+      endereco: safeString(address.street),
+      numero: safeString(address.number),
+      complemento: safeString(address.complement),
+      bairro: safeString(address.neighborhood),
+      cidade: safeString(address.city),
+      uf: safeString(address.state),
+    },
+  };
+}
+
+export function normalizarEventoPlataforma(plataforma: PlataformaWebhook, payload: Record<string, unknown>): EventoPlataforma {
+  switch (plataforma) {
+    case 'hotmart':
+      return normalizarHotmart(payload);
+    case 'kiwify':
+      return normalizarKiwify(payload);
+    case 'eduzz':
+      return normalizarEduzz(payload);
+    case 'hubla':
+      return normalizarHubla(payload);
+  }
+}
+
+// Corpo JSON ou formulário (postbacks antigos da Hotmart e da Eduzz)
+export function lerPayloadPlataforma(corpo: string, contentType: string): Record<string, unknown> | null {
+  if (contentType.includes('application/x-www-form-urlencoded')) {
+    return Object.fromEntries(new URLSearchParams(corpo));
+  }
+  try {
+    return objeto(JSON.parse(corpo));
+  } catch {
+    return null;
+  }
+}
+
+// Venda aprovada vira lead + negócio no Datacrazy, estorno move o negócio e tira a tag; demais eventos são só registrados
+export async function processarEventoPlataforma(
+  plataforma: PlataformaWebhook,
+  payload: Record<string, unknown>
+): Promise<ResultadoEventoPlataforma> {
+  const { tipo, aprovada, estornada, venda } = normalizarEventoPlataforma(plataforma, payload);
+
+  if (estornada) {
+    // Cache só deste evento: servidor de longa duração não acumula leads nem reaproveita dados velhos
+    const resultado = await processarEstornoComCache({ ...venda, status: tipo }, COLUNAS_VENDA_WEBHOOK, STAGES[plataforma], criarCacheDatacrazy());
+    return {
+      status: resultado.status === 'skipped' ? 'ignorado' : 'processado',
+      tipo,
+      chave: venda.transactionId,
+      mensagem: resultado.message,
+    };
+  }
+
+  if (!aprovada) {
+    return { status: 'ignorado', tipo, chave: venda.transactionId, mensagem: `Evento ${tipo || '(sem tipo)'} não é venda aprovada` };
+  }
+
+  const resultado = await processarRegistroComCache(
+    { ...venda }, COLUNAS_VENDA_WEBHOOK, STAGES[plataforma], plataforma, 'Webhook', criarCacheDatacrazy()
+  );
+  return {
+    status: resultado.status === 'skipped' ? 'ignorado' : 'processado',
+    tipo,
+    chave: venda.transactionId,
+    mensagem: resultado.message,
+  };
+}
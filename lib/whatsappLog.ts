@@ -0,0 +1,167 @@
+import { db } from '@/lib/firebase';
+import { collection, addDoc, getDocs, updateDoc, query, where, orderBy, limit, Timestamp } from 'firebase/firestore';
+import type { ResultadoEnvioWhatsApp, WhatsAppProviderName } from '@/lib/whatsappProviders';
+import type { WhatsAppQueueMessage, WhatsAppMessageTipo } from '@/lib/whatsappQueue';
+
+// Status de entrega informado pelos acks do WhatsApp (webhook da Evolution)
+export type WhatsAppEntregaStatus = 'sent' | 'delivered' | 'read' | 'failed';
+
+export const WHATSAPP_ENTREGA_STATUS_LABELS: Record<WhatsAppEntregaStatus, string> = {
+  sent: 'Enviada',
+  delivered: 'Entregue',
+  read: 'Lida',
+  failed: 'Falhou',
+};
+
+// Ordem de progressão - acks fora de ordem não fazem o status voltar
+const ENTREGA_STATUS_ORDEM: Record<WhatsAppEntregaStatus, number> = {
+  sent: 1,
+  delivered: 2,
+  read: 3,
+  failed: 0,
+};
+
+// Registro de uma tentativa de envio (uma mensagem com retentativas gera vários registros)
+export interface WhatsAppLogEntry {
+  id: string;
+  filaId: string; // Vazio quando o envio foi feito pelo N8N, fora da fila
+  telefone: string;
+  mensagem: string;
+  tipo: WhatsAppMessageTipo;
+  clienteNome: string;
+  clienteEmail: string;
+  transactionId: string;
+  transactionIds: string[]; // Inclui os pedidos mesclados - usado na busca
+  codigo: string;
+  tentativa: number;
+  provider: WhatsAppProviderName | null;
+  sucesso: boolean;
+  statusEntrega: WhatsAppEntregaStatus;
+  entregueEm?: Timestamp;
+  lidoEm?: Timestamp;
+  httpStatus: number | null;
+  providerMessageId: string | null;
+  respostaProvider: unknown;
+  erro: string | null;
+  enviadoEm: Timestamp;
+}
+
+export type WhatsAppLogCampoBusca = 'telefone' | 'email' | 'transactionId' | 'codigo';
+
+export const WHATSAPP_LOG_COLLECTION = 'whatsapp_log';
+
+// Campo do documento usado em cada tipo de busca
+const CAMPOS_BUSCA: Record<WhatsAppLogCampoBusca, { campo: string; operador: '==' | 'array-contains' }> = {
+  telefone: { campo: 'telefone', operador: '==' },
+  email: { campo: 'clienteEmail', operador: '==' },
+  transactionId: { campo: 'transactionIds', operador: 'array-contains' },
+  codigo: { campo: 'codigo', operador: '==' },
+};
+
+// Mensagem registrada no histórico: da fila ou enviada direto pelo N8N no payload de etiquetas (sem id na fila)
+export type WhatsAppLogMensagem = Pick<WhatsAppQueueMessage, 'telefone' | 'mensagem' | 'tipo' | 'referencia'> & { id?: string };
+
+// Registrar tentativa de envio no histórico
+export async function registrarLogEnvio(
+  mensagem: WhatsAppLogMensagem,
+  tentativa: number,
+  resultado: ResultadoEnvioWhatsApp
+): Promise<void> {
+  const ref = mensagem.referencia || {};
+  const transactionIds = Array.from(new Set(
+    [ref.transactionId, ...(ref.transactionIds || [])].filter((t): t is string => !!t)
+  ));
+
+  await addDoc(collection(db, WHATSAPP_LOG_COLLECTION), {
+    filaId: mensagem.id || '',
+    telefone: mensagem.telefone,
+    mensagem: mensagem.mensagem,
+    tipo: mensagem.tipo,
+    clienteNome: ref.clienteNome || '',
+    clienteEmail: (ref.clienteEmail || '').trim().toLowerCase(),
+    transactionId: ref.transactionId || '',
+    transactionIds,
+    codigo: ref.codigo || '',
+    tentativa,
+    provider: resultado.provider || null,
+    sucesso: resultado.success,
+    statusEntrega: resultado.success ? 'sent' : 'failed',
+    httpStatus: resultado.httpStatus ?? null,
+    providerMessageId: resultado.providerMessageId || null,
+    // JSON roundtrip: Firestore não aceita undefined nem instâncias de classe
+    respostaProvider: resultado.resposta !== undefined ? JSON.parse(JSON.stringify(resultado.resposta)) : null,
+    erro: resultado.error || null,
+    enviadoEm: Timestamp.now(),
+  });
+}
+
+// Buscar histórico por telefone, email, transactionId ou código de rastreio (mais recentes primeiro)
+export async function buscarLogMensagens(
+  campo: WhatsAppLogCampoBusca,
+  valor: string,
+  max = 200
+): Promise<WhatsAppLogEntry[]> {
+  const { campo: campoDoc, operador } = CAMPOS_BUSCA[campo];
+  const valorBusca = campo === 'email' ? valor.trim().toLowerCase() : valor.trim();
+
+  // orderBy antes do limit garante os mais recentes (índices compostos em firestore.indexes.json)
+  const snapshot = await getDocs(query(
+    collection(db, WHATSAPP_LOG_COLLECTION),
+    where(campoDoc, operador, valorBusca),
+    orderBy('enviadoEm', 'desc'),
+    limit(max)
+  ));
+
+  return snapshot.docs.map(d => ({ id: d.id, ...d.data() } as WhatsAppLogEntry));
+}
+
+// Atualizar status de entrega a partir de um ack do WhatsApp (retorna quantos registros mudaram)
+export async function atualizarStatusEntrega(
+  providerMessageId: string,
+  status: WhatsAppEntregaStatus,
+  erro?: string
+): Promise<number> {
+  const snapshot = await getDocs(query(
+    collection(db, WHATSAPP_LOG_COLLECTION),
+    where('providerMessageId', '==', providerMessageId),
+    limit(5)
+  ));
+
+  let atualizados = 0;
+  const agora = Timestamp.now();
+
+  for (const d of snapshot.docs) {
+    const atual = (d.data().statusEntrega || 'sent') as WhatsAppEntregaStatus;
+
+    // Falha só vale antes de entregue; entregue/lida só avançam
+    if (status === 'failed' ? atual !== 'sent' : ENTREGA_STATUS_ORDEM[status] <= ENTREGA_STATUS_ORDEM[atual]) {
+      continue;
+    }
+
+    await updateDoc(d.ref, {
+      statusEntrega: status,
+      ...(status === 'delivered' && { entregueEm: agora }),
+      ...(status === 'read' && { lidoEm: agora, ...(atual === 'sent' && { entregueEm: agora }) }),
+      ...(status === 'failed' && { erro: erro || 'Falha na entrega informada pelo WhatsApp' }),
+    });
+    atualizados++;
+  }
+
+  return atualizados;
+}
+
+// Última mensagem enviada com sucesso para um telefone (usada para vincular respostas)
+export async function buscarUltimoEnvioPorTelefone(telefones: string[]): Promise<WhatsAppLogEntry | null> {
+  if (telefones.length === 0) return null;
+
+  const snapshot = await getDocs(query(
+    collection(db, WHATSAPP_LOG_COLLECTION),
+    where('telefone', 'in', telefones.slice(0, 10)),
+    where('sucesso', '==', true),
+    orderBy('enviadoEm', 'desc'),
+    limit(1)
+  ));
+
+  const ultimo = snapshot.docs[0];
+  return ultimo ? ({ id: ultimo.id, ...ultimo.data() } as WhatsAppLogEntry) : null;
+}
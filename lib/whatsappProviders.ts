@@ -0,0 +1,211 @@
+import { db } from '@/lib/firebase';
+import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { EVOLUTION_CONFIG, isEvolutionConfigured, enviarMensagemEvolution } from '@/lib/evolution';
+import type { WhatsAppMessageTipo } from '@/lib/whatsappQueue';
+
+// Resultado do envio (resposta do provider guardada no histórico de mensagens)
+export interface ResultadoEnvioWhatsApp {
+  success: boolean;
+  error?: string;
+  httpStatus?: number;
+  resposta?: unknown;
+  providerMessageId?: string; // Id da mensagem no provider (usado para casar os acks)
+  provider?: WhatsAppProviderName;
+}
+
+export type WhatsAppProviderName = 'evolution' | 'cloud_api' | 'n8n' | 'fake';
+
+// Provider de WhatsApp: envia uma mensagem de texto para um número já formatado (55 + DDD + número)
+export interface WhatsAppProvider {
+  name: WhatsAppProviderName;
+  isConfigured(): boolean;
+  enviarTexto(telefone: string, mensagem: string): Promise<ResultadoEnvioWhatsApp>;
+}
+
+export const WHATSAPP_PROVIDER_LABELS: Record<WhatsAppProviderName, string> = {
+  evolution: 'Evolution API',
+  cloud_api: 'WhatsApp Cloud API (oficial)',
+  n8n: 'N8N (webhook)',
+  fake: 'Fake (não envia - testes)',
+};
+
+// Configuração WhatsApp Cloud API (Meta)
+const CLOUD_API_CONFIG = {
+  baseUrl: process.env.WHATSAPP_CLOUD_API_URL || 'https://graph.facebook.com/v21.0',
+  phoneNumberId: process.env.WHATSAPP_CLOUD_PHONE_NUMBER_ID || '',
+  token: process.env.WHATSAPP_CLOUD_TOKEN || '',
+};
+
+// Webhook do N8N que recebe mensagens avulsas (diferente do N8N_WEBHOOK_URL das etiquetas)
+const N8N_WHATSAPP_WEBHOOK_URL = process.env.N8N_WHATSAPP_WEBHOOK_URL || '';
+
+function createEvolutionProvider(): WhatsAppProvider {
+  return {
+    name: 'evolution',
+    isConfigured: isEvolutionConfigured,
+    async enviarTexto(telefone, mensagem) {
+      const resultado = await enviarMensagemEvolution(telefone, mensagem);
+      const key = (resultado.resposta as { key?: { id?: unknown } } | undefined)?.key;
+      return {
+        ...resultado,
+        provider: 'evolution',
+        providerMessageId: typeof key?.id === 'string' ? key.id : undefined,
+      };
+    },
+  };
+}
+
+function createCloudApiProvider(): WhatsAppProvider {
+  return {
+    name: 'cloud_api',
+    isConfigured: () => !!(CLOUD_API_CONFIG.phoneNumberId && CLOUD_API_CONFIG.token),
+    async enviarTexto(telefone, mensagem) {
+      try {
+        const response = await fetch(`${CLOUD_API_CONFIG.baseUrl}/${CLOUD_API_CONFIG.phoneNumberId}/messages`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${CLOUD_API_CONFIG.token}`,
+          },
+          body: JSON.stringify({
+            messaging_product: 'whatsapp',
+            to: telefone,
+            type: 'text',
+            text: { body: mensagem, preview_url: false },
+          }),
+        });
+
+        if (!response.ok) {
+          const errorText = await response.text();
+          console.error(`[Cloud API] Erro ao enviar para ${telefone}:`, errorText);
+          return { success: false, error: errorText, httpStatus: response.status, provider: 'cloud_api' };
+        }
+
+        const resposta = await response.json();
+        console.log(`[Cloud API] Mensagem enviada para ${telefone}`);
+        return {
+          success: true,
+          httpStatus: response.status,
+          resposta,
+          provider: 'cloud_api',
+          providerMessageId: resposta?.messages?.[0]?.id,
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
+        console.error(`[Cloud API] Exceção ao enviar para ${telefone}:`, errorMessage);
+        return { success: false, error: errorMessage, provider: 'cloud_api' };
+      }
+    },
+  };
+}
+
+function createN8nProvider(): WhatsAppProvider {
+  return {
+    name: 'n8n',
+    isConfigured: () => !!N8N_WHATSAPP_WEBHOOK_URL,
+    async enviarTexto(telefone, mensagem) {
+      try {
+        const response = await fetch(N8N_WHATSAPP_WEBHOOK_URL, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ telefone, mensagem, timestamp: new Date().toISOString() }),
+        });
+
+        const text = await response.text();
+        if (!response.ok) {
+          console.error(`[N8N WhatsApp] Erro ao enviar para ${telefone}:`, text);
+          return { success: false, error: text, httpStatus: response.status, provider: 'n8n' };
+        }
+
+        return { success: true, httpStatus: response.status, resposta: text || null, provider: 'n8n' };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
+        console.error(`[N8N WhatsApp] Exceção ao enviar para ${telefone}:`, errorMessage);
+        return { success: false, error: errorMessage, provider: 'n8n' };
+      }
+    },
+  };
+}
+
+// Mensagens "enviadas" pelo provider fake (ficam só em memória)
+const fakeOutbox: Array<{ telefone: string; mensagem: string; enviadoEm: string }> = [];
+
+// Provider fake para desenvolvimento local e testes (não envia nada)
+function createFakeWhatsAppProvider(): WhatsAppProvider {
+  return {
+    name: 'fake',
+    isConfigured: () => true,
+    async enviarTexto(telefone, mensagem) {
+      fakeOutbox.push({ telefone, mensagem, enviadoEm: new Date().toISOString() });
+      console.log(`[Fake WhatsApp] Mensagem para ${telefone}:\n${mensagem}`);
+      return {
+        success: true,
+        provider: 'fake',
+        providerMessageId: `fake-${fakeOutbox.length}`,
+        resposta: { fake: true },
+      };
+    },
+  };
+}
+
+export function getFakeWhatsAppOutbox() {
+  return [...fakeOutbox];
+}
+
+export function getWhatsAppProvider(name: WhatsAppProviderName): WhatsAppProvider {
+  switch (name) {
+    case 'cloud_api':
+      return createCloudApiProvider();
+    case 'n8n':
+      return createN8nProvider();
+    case 'fake':
+      return createFakeWhatsAppProvider();
+    default:
+      return createEvolutionProvider();
+  }
+}
+
+// ========== PROVIDER POR TIPO DE MENSAGEM ==========
+
+export type WhatsAppProvidersConfig = Record<WhatsAppMessageTipo, WhatsAppProviderName>;
+
+const PROVIDERS_CONFIG_DOC = 'whatsapp_providers';
+
+// Padrão mantém o comportamento anterior: clientes pela Evolution se WHATSAPP_USE_EVOLUTION=true
+// (senão pelo N8N das etiquetas) e o resumo do admin sempre pelo N8N
+export function getDefaultProvidersConfig(): WhatsAppProvidersConfig {
+  return {
+    cliente_etiqueta: EVOLUTION_CONFIG.useEvolution ? 'evolution' : 'n8n',
+    admin_resumo: 'n8n',
+    rastreio_marco: 'evolution',
+    manual: 'evolution',
+  };
+}
+
+// Carregar config salva no Firebase (tipos sem valor ficam com o padrão)
+export async function carregarProvidersConfig(): Promise<WhatsAppProvidersConfig> {
+  const config = getDefaultProvidersConfig();
+
+  try {
+    const snap = await getDoc(doc(db, 'configuracoes', PROVIDERS_CONFIG_DOC));
+    if (snap.exists()) {
+      const saved = snap.data() as Partial<WhatsAppProvidersConfig>;
+      (Object.keys(config) as WhatsAppMessageTipo[]).forEach(tipo => {
+        if (saved[tipo] && saved[tipo] in WHATSAPP_PROVIDER_LABELS) {
+          config[tipo] = saved[tipo]!;
+        }
+      });
+    }
+  } catch (error) {
+    console.error('[WhatsApp] Erro ao carregar providers, usando padrão:', error);
+  }
+
+  return config;
+}
+
+export async function salvarProvidersConfig(config: WhatsAppProvidersConfig): Promise<void> {
+  await setDoc(doc(db, 'configuracoes', PROVIDERS_CONFIG_DOC), {
+    ...config,
+    atualizadoEm: new Date().toISOString(),
+  });
+}
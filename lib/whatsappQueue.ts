@@ -0,0 +1,295 @@
+import { db } from '@/lib/firebase';
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  limit,
+  writeBatch,
+  runTransaction,
+  updateDoc,
+  deleteField,
+  Timestamp,
+} from 'firebase/firestore';
+import type { ResultadoEnvioWhatsApp } from '@/lib/whatsappProviders';
+import { registrarLogEnvio } from '@/lib/whatsappLog';
+
+// Status de uma mensagem na fila
+// queued  - aguardando primeiro envio
+// sending - em envio pelo worker
+// sent    - enviada com sucesso
+// failed  - falhou, nova tentativa agendada
+// dead    - esgotou as tentativas (pode ser reenviada manualmente)
+export type WhatsAppMessageStatus = 'queued' | 'sending' | 'sent' | 'failed' | 'dead';
+
+export type WhatsAppMessageTipo = 'cliente_etiqueta' | 'admin_resumo' | 'rastreio_marco' | 'manual';
+
+export const WHATSAPP_MESSAGE_TIPO_LABELS: Record<WhatsAppMessageTipo, string> = {
+  cliente_etiqueta: 'Etiqueta (cliente)',
+  admin_resumo: 'Resumo (admin)',
+  rastreio_marco: 'Rastreio',
+  manual: 'Manual',
+};
+
+// Referências para localizar a mensagem (cliente, pedido, etiqueta)
+export interface WhatsAppMessageReferencia {
+  clienteNome?: string;
+  clienteEmail?: string;
+  transactionId?: string;
+  transactionIds?: string[]; // Pedidos mesclados na mesma etiqueta
+  codigo?: string;
+}
+
+export interface WhatsAppQueueMessage {
+  id: string;
+  telefone: string;
+  mensagem: string;
+  tipo: WhatsAppMessageTipo;
+  status: WhatsAppMessageStatus;
+  referencia: WhatsAppMessageReferencia;
+  tentativas: number;
+  maxTentativas: number;
+  // Só existe enquanto a mensagem aguarda envio (queued/failed) - usado pelo worker
+  proximaTentativa?: Timestamp;
+  enviandoDesde?: Timestamp;
+  ultimoErro?: string;
+  criadoEm: Timestamp;
+  atualizadoEm: Timestamp;
+  enviadoEm?: Timestamp;
+}
+
+export interface NovaMensagemWhatsApp {
+  telefone: string;
+  mensagem: string;
+  tipo: WhatsAppMessageTipo;
+  referencia?: WhatsAppMessageReferencia;
+}
+
+export const WHATSAPP_QUEUE_COLLECTION = 'whatsapp_fila';
+
+export const WHATSAPP_MESSAGE_STATUS_LABELS: Record<WhatsAppMessageStatus, string> = {
+  queued: 'Na fila',
+  sending: 'Enviando',
+  sent: 'Enviada',
+  failed: 'Falhou (vai tentar de novo)',
+  dead: 'Falhou definitivamente',
+};
+
+const MAX_TENTATIVAS = parseInt(process.env.WHATSAPP_QUEUE_MAX_TENTATIVAS || '5');
+
+// Espera antes de cada nova tentativa (minutos), indexado pela tentativa que falhou
+const BACKOFF_MINUTOS = [1, 5, 15, 60, 240];
+
+// Mensagem cujo provider não está configurado espera isso antes de ser olhada de novo
+const ADIAMENTO_SEM_PROVIDER_MS = 5 * 60 * 1000;
+
+// Limite do writeBatch do Firestore
+const BATCH_SIZE = 500;
+
+// Calcular quando tentar de novo após N tentativas com falha
+export function calcularProximaTentativa(tentativas: number, agora = Date.now()): Timestamp {
+  const minutos = BACKOFF_MINUTOS[Math.min(tentativas - 1, BACKOFF_MINUTOS.length - 1)];
+  return Timestamp.fromMillis(agora + minutos * 60 * 1000);
+}
+
+// Colocar mensagens na fila (retorna os ids criados)
+export async function enfileirarMensagens(mensagens: NovaMensagemWhatsApp[]): Promise<string[]> {
+  const ids: string[] = [];
+  const agora = Timestamp.now();
+
+  for (let i = 0; i < mensagens.length; i += BATCH_SIZE) {
+    const batch = writeBatch(db);
+
+    mensagens.slice(i, i + BATCH_SIZE).forEach((m, index) => {
+      const ref = doc(collection(db, WHATSAPP_QUEUE_COLLECTION));
+      batch.set(ref, {
+        telefone: m.telefone,
+        mensagem: m.mensagem,
+        tipo: m.tipo,
+        status: 'queued',
+        referencia: m.referencia || {},
+        tentativas: 0,
+        maxTentativas: MAX_TENTATIVAS,
+        // +index preserva a ordem de envio dentro do lote
+        proximaTentativa: Timestamp.fromMillis(agora.toMillis() + i + index),
+        criadoEm: agora,
+        atualizadoEm: agora,
+      });
+      ids.push(ref.id);
+    });
+
+    await batch.commit();
+  }
+
+  return ids;
+}
+
+// Buscar mensagens prontas para envio (queued/failed com proximaTentativa vencida)
+export async function buscarMensagensPendentes(max: number): Promise<WhatsAppQueueMessage[]> {
+  const q = query(
+    collection(db, WHATSAPP_QUEUE_COLLECTION),
+    where('proximaTentativa', '<=', Timestamp.now()),
+    orderBy('proximaTentativa'),
+    limit(max)
+  );
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map(d => ({ id: d.id, ...d.data() } as WhatsAppQueueMessage));
+}
+
+// Reservar mensagem para envio (transação evita envio duplicado)
+export async function reservarMensagem(id: string): Promise<WhatsAppQueueMessage | null> {
+  const ref = doc(db, WHATSAPP_QUEUE_COLLECTION, id);
+
+  return runTransaction(db, async (transaction) => {
+    const snap = await transaction.get(ref);
+    if (!snap.exists()) return null;
+
+    const data = snap.data() as Omit<WhatsAppQueueMessage, 'id'>;
+    if (data.status !== 'queued' && data.status !== 'failed') return null;
+
+    const agora = Timestamp.now();
+    transaction.update(ref, {
+      status: 'sending',
+      proximaTentativa: deleteField(),
+      enviandoDesde: agora,
+      atualizadoEm: agora,
+    });
+
+    return { id, ...data, status: 'sending' as const };
+  });
+}
+
+// Adiar mensagem sem tentar enviar (não conta tentativa: o problema é de configuração, não do envio)
+export async function adiarMensagem(id: string, motivo: string): Promise<boolean> {
+  const ref = doc(db, WHATSAPP_QUEUE_COLLECTION, id);
+
+  return runTransaction(db, async (transaction) => {
+    const snap = await transaction.get(ref);
+    if (!snap.exists()) return false;
+
+    const data = snap.data() as Omit<WhatsAppQueueMessage, 'id'>;
+    if (data.status !== 'queued' && data.status !== 'failed') return false;
+
+    const agora = Timestamp.now();
+    transaction.update(ref, {
+      ultimoErro: motivo,
+      proximaTentativa: Timestamp.fromMillis(agora.toMillis() + ADIAMENTO_SEM_PROVIDER_MS),
+      atualizadoEm: agora,
+    });
+    return true;
+  });
+}
+
+// Registrar resultado de uma tentativa de envio (e guardar no histórico de mensagens)
+export async function registrarResultadoEnvio(
+  mensagem: WhatsAppQueueMessage,
+  resultado: ResultadoEnvioWhatsApp
+): Promise<WhatsAppMessageStatus> {
+  const ref = doc(db, WHATSAPP_QUEUE_COLLECTION, mensagem.id);
+  const agora = Timestamp.now();
+  const tentativas = (mensagem.tentativas || 0) + 1;
+
+  try {
+    await registrarLogEnvio(mensagem, tentativas, resultado);
+  } catch (err) {
+    // Falha no histórico não pode impedir a atualização da fila
+    console.error(`[Fila WhatsApp] Erro ao registrar histórico de ${mensagem.id}:`, err);
+  }
+
+  if (resultado.success) {
+    await updateDoc(ref, {
+      status: 'sent',
+      tentativas,
+      enviandoDesde: deleteField(),
+      enviadoEm: agora,
+      atualizadoEm: agora,
+    });
+    return 'sent';
+  }
+
+  const esgotou = tentativas >= (mensagem.maxTentativas || MAX_TENTATIVAS);
+  await updateDoc(ref, {
+    status: esgotou ? 'dead' : 'failed',
+    tentativas,
+    ultimoErro: resultado.error || 'Erro desconhecido',
+    enviandoDesde: deleteField(),
+    proximaTentativa: esgotou ? deleteField() : calcularProximaTentativa(tentativas),
+    atualizadoEm: agora,
+  });
+  return esgotou ? 'dead' : 'failed';
+}
+
+// Mensagens presas em "sending" (worker caiu no meio do envio) voltam para a fila
+export async function recuperarMensagensTravadas(timeoutMs: number): Promise<number> {
+  const snapshot = await getDocs(
+    query(collection(db, WHATSAPP_QUEUE_COLLECTION), where('status', '==', 'sending'))
+  );
+  const limite = Date.now() - timeoutMs;
+  let recuperadas = 0;
+
+  for (const d of snapshot.docs) {
+    const data = { id: d.id, ...d.data() } as WhatsAppQueueMessage;
+    if (data.enviandoDesde && data.enviandoDesde.toMillis() < limite) {
+      // Não dá para saber se chegou a enviar - conta como tentativa com falha
+      await registrarResultadoEnvio(data, { success: false, error: 'Envio interrompido (worker travado)' });
+      recuperadas++;
+    }
+  }
+
+  return recuperadas;
+}
+
+export interface ResultadoReenfileiramento {
+  reenfileiradas: string[];
+  ignoradas: Array<{ id: string; motivo: string }>;
+}
+
+// Reenviar mensagens (zera tentativas e coloca de volta na fila). Só failed/dead voltam para a fila: a leitura
+// e a escrita ficam na mesma transação para não reenviar uma mensagem que o worker acabou de enviar
+export async function reenfileirarMensagens(ids: string[]): Promise<ResultadoReenfileiramento> {
+  const resultado: ResultadoReenfileiramento = { reenfileiradas: [], ignoradas: [] };
+
+  for (const id of new Set(ids)) {
+    const ref = doc(db, WHATSAPP_QUEUE_COLLECTION, id);
+    const motivo = await runTransaction(db, async (transaction) => {
+      const snap = await transaction.get(ref);
+      if (!snap.exists()) return 'Mensagem não encontrada';
+
+      const status = (snap.data() as WhatsAppQueueMessage).status;
+      if (status !== 'failed' && status !== 'dead') return `Status "${status}" não pode ser reenviado`;
+
+      const agora = Timestamp.now();
+      transaction.update(ref, {
+        status: 'queued',
+        tentativas: 0,
+        proximaTentativa: agora,
+        ultimoErro: deleteField(),
+        atualizadoEm: agora,
+      });
+      return null;
+    });
+
+    if (motivo) resultado.ignoradas.push({ id, motivo });
+    else resultado.reenfileiradas.push(id);
+  }
+
+  return resultado;
+}
+
+// Listar mensagens da fila (mais recentes primeiro)
+export async function listarMensagensFila(
+  status?: WhatsAppMessageStatus,
+  max = 100
+): Promise<WhatsAppQueueMessage[]> {
+  const constraints = status
+    ? [where('status', '==', status), limit(max)]
+    : [orderBy('criadoEm', 'desc'), limit(max)];
+
+  const snapshot = await getDocs(query(collection(db, WHATSAPP_QUEUE_COLLECTION), ...constraints));
+  const mensagens = snapshot.docs.map(d => ({ id: d.id, ...d.data() } as WhatsAppQueueMessage));
+
+  // Filtro por status não usa orderBy (evita índice composto) - ordena em memória
+  return mensagens.sort((a, b) => b.criadoEm.toMillis() - a.criadoEm.toMillis());
+}
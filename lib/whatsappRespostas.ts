@@ -0,0 +1,104 @@
+import { db } from '@/lib/firebase';
+import { collection, doc, getDoc, getDocs, setDoc, updateDoc, query, where, limit, Timestamp } from 'firebase/firestore';
+import { buscarUltimoEnvioPorTelefone } from '@/lib/whatsappLog';
+import { variantesTelefone } from '@/lib/telefone';
+
+// Mensagem recebida de um cliente (resposta no WhatsApp)
+export interface WhatsAppResposta {
+  id: string; // Id da mensagem no WhatsApp (evita duplicar em reentregas do webhook)
+  telefone: string;
+  nome: string; // Nome do perfil no WhatsApp
+  texto: string;
+  tipoMensagem: string;
+  recebidoEm: Timestamp;
+  // Vínculo com a última etiqueta enviada ao cliente (null se não encontrada)
+  etiquetaId: string | null;
+  codigo: string | null;
+  transactionId: string | null;
+  clienteNome: string | null;
+  clienteEmail: string | null;
+  resolvida: boolean;
+  resolvidaEm?: Timestamp;
+  resolvidaPor?: string;
+}
+
+export const WHATSAPP_RESPOSTAS_COLLECTION = 'whatsapp_respostas';
+
+// Encontrar a última etiqueta enviada para o telefone
+async function buscarEtiquetaDoCliente(telefone: string): Promise<Pick<WhatsAppResposta,
+  'etiquetaId' | 'codigo' | 'transactionId' | 'clienteNome' | 'clienteEmail'>> {
+  const vazio = { etiquetaId: null, codigo: null, transactionId: null, clienteNome: null, clienteEmail: null };
+
+  const ultimoEnvio = await buscarUltimoEnvioPorTelefone(variantesTelefone(telefone));
+  if (!ultimoEnvio) return vazio;
+
+  const vinculo = {
+    ...vazio,
+    codigo: ultimoEnvio.codigo || null,
+    transactionId: ultimoEnvio.transactionId || null,
+    clienteNome: ultimoEnvio.clienteNome || null,
+    clienteEmail: ultimoEnvio.clienteEmail || null,
+  };
+
+  // Mensagens de etiqueta/rastreio guardam o código; manuais só o transactionId
+  const etiquetaQuery = ultimoEnvio.codigo
+    ? query(collection(db, 'etiquetas'), where('etiqueta', '==', ultimoEnvio.codigo), limit(1))
+    : ultimoEnvio.transactionId
+      ? query(collection(db, 'etiquetas'), where('transactionId', '==', ultimoEnvio.transactionId))
+      : null;
+
+  if (!etiquetaQuery) return vinculo;
+
+  const snapshot = await getDocs(etiquetaQuery);
+  // Por transação: etiquetas canceladas só contam se não houver outra
+  const ativas = snapshot.docs.filter(d => d.data().status !== 'cancelled');
+  const etiquetas = (ativas.length > 0 ? ativas : snapshot.docs).sort(
+    (a, b) => (b.data().createdAt?.toMillis() || 0) - (a.data().createdAt?.toMillis() || 0)
+  );
+  if (etiquetas.length === 0) return vinculo;
+
+  return {
+    ...vinculo,
+    etiquetaId: etiquetas[0].id,
+    codigo: etiquetas[0].data().etiqueta || vinculo.codigo,
+  };
+}
+
+// Registrar resposta recebida (idempotente pelo id da mensagem)
+export async function registrarResposta(dados: {
+  id: string;
+  telefone: string;
+  nome: string;
+  texto: string;
+  tipoMensagem: string;
+  recebidoEm?: Date;
+}): Promise<{ novo: boolean; etiquetaId: string | null }> {
+  const ref = doc(db, WHATSAPP_RESPOSTAS_COLLECTION, dados.id);
+  const existente = await getDoc(ref);
+  if (existente.exists()) {
+    return { novo: false, etiquetaId: existente.data().etiquetaId || null };
+  }
+
+  const vinculo = await buscarEtiquetaDoCliente(dados.telefone);
+
+  await setDoc(ref, {
+    telefone: dados.telefone,
+    nome: dados.nome,
+    texto: dados.texto,
+    tipoMensagem: dados.tipoMensagem,
+    recebidoEm: dados.recebidoEm ? Timestamp.fromDate(dados.recebidoEm) : Timestamp.now(),
+    ...vinculo,
+    resolvida: false,
+  });
+
+  return { novo: true, etiquetaId: vinculo.etiquetaId };
+}
+
+// Marcar resposta como resolvida pelo suporte
+export async function marcarRespostaResolvida(id: string, resolvida: boolean, usuario?: string): Promise<void> {
+  await updateDoc(doc(db, WHATSAPP_RESPOSTAS_COLLECTION, id), {
+    resolvida,
+    resolvidaEm: resolvida ? Timestamp.now() : null,
+    resolvidaPor: resolvida ? (usuario || '') : null,
+  });
+}